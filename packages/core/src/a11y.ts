@@ -1,11 +1,22 @@
+import { type Annotation, annotationId } from "./annotations";
+import type { SeriesMarker, XScaleType } from "./charts/types";
+import {
+  createValueFormatter,
+  createXFormatter,
+  formatPercent,
+  type ValueFormat,
+} from "./format";
 import type {
   A11yItem,
+  A11yNode,
   A11ySegmentsSummary,
   A11ySeriesSummary,
   A11ySummary,
   A11yTree,
   RenderModel,
 } from "./model";
+import { segmentDatum, seriesDatum } from "./utils/datum";
+import { seriesMarkerIndices } from "./utils/markers";
 
 const MAX_A11Y_ITEMS = 24;
 
@@ -14,6 +25,26 @@ export type A11ySeriesItemOptions = {
   labelPrefix?: string;
   maxItems?: number;
   valueText?: (value: number, index: number) => string | undefined;
+  /** Explicit x per point; items are labelled with the formatted x. */
+  x?: ReadonlyArray<number>;
+  xScale?: XScaleType;
+  /** Sets each item's `valueText` to the formatted value. */
+  format?: ValueFormat;
+};
+
+export type A11yMultiSeriesItemOptions = {
+  idPrefix?: string;
+  maxItems?: number;
+  format?: ValueFormat;
+};
+
+type MultiSeriesA11yInput = {
+  name: string;
+  values: ReadonlyArray<number>;
+  /** Resolved series color, carried to the item for legends. */
+  color?: string;
+  /** Id suffix; defaults to the series index. */
+  key?: string;
 };
 
 export type A11ySegmentItemOptions = {
@@ -21,22 +52,53 @@ export type A11ySegmentItemOptions = {
   labelFallback?: string;
   maxItems?: number;
   valueText?: (pct: number, index: number) => string | undefined;
+  /** Locale and precision for the default percentage `valueText`. */
+  format?: ValueFormat;
 };
 
-function formatA11yNumber(value: number): string {
-  if (!Number.isFinite(value)) return "0";
-  const roundedInt = Math.round(value);
-  if (Math.abs(value - roundedInt) < 1e-6) return String(roundedInt);
-  return String(Math.round(value * 100) / 100);
+/**
+ * One a11y node per annotation, e.g. "target 95" for a rule labeled
+ * "target". Ids match the annotation marks.
+ */
+export function a11yNodesForAnnotations(
+  annotations: ReadonlyArray<Annotation>,
+  format?: ValueFormat,
+): A11yNode[] {
+  const formatNumber = createValueFormatter(format);
+  return annotations.map((annotation, position) => {
+    const id = annotationId(annotation, position);
+    const label = annotation.label?.trim();
+    switch (annotation.type) {
+      case "rule":
+        return {
+          id,
+          label: `${label || "Reference line at"} ${formatNumber(annotation.y)}`,
+        };
+      case "band": {
+        const lo = Math.min(annotation.y0, annotation.y1);
+        const hi = Math.max(annotation.y0, annotation.y1);
+        return {
+          id,
+          label: `${label || "Band"} ${formatNumber(lo)}–${formatNumber(hi)}`,
+        };
+      }
+      default:
+        return {
+          id,
+          label: `${label || "Marker"} at point ${annotation.index + 1}`,
+        };
+    }
+  });
 }
 
 export function a11yLabelWithSeriesSummary(
   baseLabel: string,
-  series: ReadonlyArray<number>,
+  series: ReadonlyArray<number | null>,
+  format?: ValueFormat,
 ): string {
   const summary = summarizeSeries(series);
   if (!summary || summary.count === 0) return `${baseLabel} (empty)`;
-  const { min, max, last } = summary;
+  const { gaps, min, max, last } = summary;
   if (min === undefined || max === undefined || last === undefined) {
     return baseLabel;
   }
@@ -48,21 +110,38 @@ export function a11yLabelWithSeriesSummary(
     return baseLabel;
   }
 
-  return `${baseLabel} (min ${formatA11yNumber(min)}, max ${formatA11yNumber(max)}, last ${formatA11yNumber(last)})`;
+  const formatNumber = createValueFormatter(format);
+  const gapText = gaps ? `, ${gaps} ${gaps === 1 ? "gap" : "gaps"}` : "";
+  return `${baseLabel} (min ${formatNumber(min)}, max ${formatNumber(max)}, last ${formatNumber(last)}${gapText})`;
+}
+
+export function a11yLabelWithMultiSeriesSummary(
+  baseLabel: string,
+  series: ReadonlyArray<{ values: ReadonlyArray<number> }>,
+  format?: ValueFormat,
+): string {
+  const summary = summarizeSeries(series.flatMap((s) => s.values));
+  if (!summary || summary.count === 0) return `${baseLabel} (empty)`;
+  const { min, max } = summary;
+  if (min === undefined || max === undefined) return baseLabel;
+  const formatNumber = createValueFormatter(format);
+  const count = `${series.length} series`;
+  return `${baseLabel} (${count}, min ${formatNumber(min)}, max ${formatNumber(max)})`;
 }
 
 export function a11yLabelWithSegmentsSummary(
   baseLabel: string,
   segments: ReadonlyArray<{ pct: number; name?: string }>,
+  format?: ValueFormat,
 ): string {
   const summary = summarizeSegments(segments);
   if (!summary || summary.count === 0) return `${baseLabel} (empty)`;
 
-  const largestPct = Math.round(summary.largestPct ?? 0);
+  const largestPct = formatPercent(summary.largestPct ?? 0, format);
   const largestName = summary.largestName?.trim();
   const largestLabel = largestName
-    ? `${largestName} ${largestPct}%`
-    : `${largestPct}%`;
+    ? `${largestName} ${largestPct}`
+    : largestPct;
 
   return `${baseLabel} (${summary.count} segments, largest ${largestLabel})`;
 }
@@ -80,17 +159,19 @@ export function computeA11ySummary(
 }
 
 function summarizeSeries(
-  series: ReadonlyArray<number>,
+  series: ReadonlyArray<number | null>,
 ): A11ySeriesSummary | null {
   if (series.length === 0) return { count: 0, kind: "series" };
 
+  let gaps = 0;
   let min = Number.POSITIVE_INFINITY;
   let max = Number.NEGATIVE_INFINITY;
   let first = Number.NaN;
   let last = Number.NaN;
 
   for (const v of series) {
-    if (!Number.isFinite(v)) continue;
+    if (v === null) gaps += 1;
+    if (v === null || !Number.isFinite(v)) continue;
     if (!Number.isFinite(first)) first = v;
     last = v;
     min = Math.min(min, v);
@@ -98,7 +179,9 @@ function summarizeSeries(
   }
 
   if (!Number.isFinite(min) || !Number.isFinite(max)) {
-    return { count: series.length, kind: "series" };
+    return gaps > 0
+      ? { count: series.length, gaps, kind: "series" }
+      : { count: series.length, kind: "series" };
   }
 
   const trend =
@@ -112,6 +195,7 @@ function summarizeSeries(
 
   return {
     count: series.length,
+    ...(gaps > 0 ? { gaps } : {}),
     kind: "series",
     last,
     max,
@@ -153,7 +237,7 @@ export function inferA11ySummary(normalized: unknown): A11ySummary | undefined {
 
   const series = record.series;
   if (Array.isArray(series)) {
-    const summary = summarizeSeries(series as number[]);
+    const summary = summarizeSeries(series as Array<number | null>);
     if (summary) return summary;
   }
 
@@ -174,29 +258,70 @@ function sanitizeItemLabel(label: string, fallback: string): string {
 }
 
 function seriesItems(
-  series: ReadonlyArray<number>,
+  series: ReadonlyArray<number | null>,
   options: A11ySeriesItemOptions = {},
 ): A11yItem[] {
   const items: A11yItem[] = [];
   const maxItems = options.maxItems ?? MAX_A11Y_ITEMS;
   const idPrefix = options.idPrefix ?? "series";
   const labelPrefix = options.labelPrefix ?? "Value";
+  const { format, x } = options;
+  const formatX = x
+    ? createXFormatter(x, options.xScale ?? "linear", format)
+    : null;
+  const formatItemValue = format ? createValueFormatter(format) : null;
   for (let i = 0; i < series.length && items.length < maxItems; i += 1) {
     const value = series[i];
-    if (!Number.isFinite(value)) continue;
+    // Gaps (`null`) get no item; the summary reports their count.
+    if (value === null || value === undefined || !Number.isFinite(value))
+      continue;
+    const xValue = x?.[i];
     items.push({
+      datum: seriesDatum(value, i, xValue),
       id: `${idPrefix}-${i}`,
-      label: `${labelPrefix} ${i + 1}`,
+      label:
+        formatX && xValue !== undefined
+          ? formatX(xValue)
+          : `${labelPrefix} ${i + 1}`,
       rank: i + 1,
       value,
-      valueText: options.valueText?.(value, i),
+      valueText: options.valueText?.(value, i) ?? formatItemValue?.(value),
+    });
+  }
+  return items;
+}
+
+function multiSeriesItems(
+  series: ReadonlyArray<MultiSeriesA11yInput>,
+  options: A11yMultiSeriesItemOptions = {},
+): A11yItem[] {
+  const items: A11yItem[] = [];
+  const maxItems = options.maxItems ?? MAX_A11Y_ITEMS;
+  const idPrefix = options.idPrefix ?? "series";
+  const formatNumber = createValueFormatter(options.format);
+  for (let i = 0; i < series.length && items.length < maxItems; i += 1) {
+    const entry = series[i];
+    if (!entry) continue;
+    const summary = summarizeSeries(entry.values);
+    const { last, max, min } = summary ?? {};
+    if (last === undefined || min === undefined || max === undefined) continue;
+    const lastIndex = entry.values.lastIndexOf(last);
+    items.push({
+      ...(entry.color ? { color: entry.color } : {}),
+      datum: { index: lastIndex, series: entry.name, value: last },
+      id: `${idPrefix}-${entry.key ?? i}`,
+      label: sanitizeItemLabel(entry.name, `Series ${i + 1}`),
+      rank: i + 1,
+      series: entry.name,
+      value: last,
+      valueText: `last ${formatNumber(last)} (min ${formatNumber(min)}, max ${formatNumber(max)})`,
     });
   }
   return items;
 }
 
 function segmentItems(
-  segments: ReadonlyArray<{ pct?: number; name?: string }>,
+  segments: ReadonlyArray<{ pct?: number; name?: string; color?: string }>,
   options: A11ySegmentItemOptions = {},
 ): A11yItem[] {
   const items: A11yItem[] = [];
@@ -208,30 +333,41 @@ function segmentItems(
     if (!seg || !Number.isFinite(seg.pct)) continue;
     const pct = seg.pct ?? 0;
     items.push({
+      ...(seg.color ? { color: seg.color } : {}),
+      datum: segmentDatum(seg, i),
       id: `${idPrefix}-${i}`,
       label: sanitizeItemLabel(seg.name ?? "", `${labelFallback} ${i + 1}`),
       rank: i + 1,
       value: pct,
-      valueText: options.valueText?.(pct, i) ?? `${Math.round(pct)}%`,
+      valueText:
+        options.valueText?.(pct, i) ?? formatPercent(pct, options.format),
     });
   }
   return items;
 }
 
-export function inferA11yItems(normalized: unknown): A11yItem[] | undefined {
+export function inferA11yItems(
+  normalized: unknown,
+  format?: ValueFormat,
+): A11yItem[] | undefined {
   if (!normalized || typeof normalized !== "object") return undefined;
   const record = normalized as Record<string, unknown>;
 
   const series = record.series;
   if (Array.isArray(series)) {
-    const items = seriesItems(series as number[]);
+    const items = seriesItems(series as Array<number | null>, { format });
     return items.length > 0 ? items : undefined;
   }
 
   const segments = record.segments;
   if (Array.isArray(segments)) {
     const items = segmentItems(
-      segments as ReadonlyArray<{ pct?: number; name?: string }>,
+      segments as ReadonlyArray<{
+        pct?: number;
+        name?: string;
+        color?: string;
+      }>,
+      { format },
     );
     return items.length > 0 ? items : undefined;
   }
@@ -240,14 +376,63 @@ export function inferA11yItems(normalized: unknown): A11yItem[] | undefined {
 }
 
 export function a11yItemsForSeries(
-  series: ReadonlyArray<number>,
+  series: ReadonlyArray<number | null>,
   options?: A11ySeriesItemOptions,
 ): A11yItem[] {
   return seriesItems(series, options);
 }
 
+const MARKER_LABELS: Record<SeriesMarker, string> = {
+  first: "First",
+  last: "Last",
+  max: "Maximum",
+  min: "Minimum",
+};
+
+/**
+ * One item per line-chart marker, e.g. "Maximum 87 at point 12" (or
+ * "at Mar 3" with x values). Ids match the marker marks.
+ */
+export function a11yItemsForMarkers(
+  series: ReadonlyArray<number | null>,
+  markers: ReadonlyArray<SeriesMarker> | undefined,
+  options: Pick<A11ySeriesItemOptions, "format" | "x" | "xScale"> & {
+    idPrefix: string;
+  },
+): A11yItem[] {
+  if (!markers || markers.length === 0) return [];
+  const { format, x } = options;
+  const formatX = x
+    ? createXFormatter(x, options.xScale ?? "linear", format)
+    : null;
+  const formatNumber = createValueFormatter(format);
+  return seriesMarkerIndices(series, markers).map(({ index, kind }) => {
+    const value = series[index] ?? 0;
+    const xValue = x?.[index];
+    const at =
+      formatX && xValue !== undefined ? formatX(xValue) : `point ${index + 1}`;
+    return {
+      datum: seriesDatum(value, index, xValue),
+      id: `${options.idPrefix}-${kind}`,
+      // The value is part of the sentence, so it isn't repeated as `value`.
+      label: `${MARKER_LABELS[kind]} ${formatNumber(value)} at ${at}`,
+    };
+  });
+}
+
+/**
+ * One item per series (not per point), keyed by series name and valued at
+ * the series' last point.
+ */
+export function a11yItemsForMultiSeries(
+  series: ReadonlyArray<MultiSeriesA11yInput>,
+  options?: A11yMultiSeriesItemOptions,
+): A11yItem[] {
+  return multiSeriesItems(series, options);
+}
+
 export function a11yItemsForSegments(
-  segments: ReadonlyArray<{ pct?: number; name?: string }>,
+  segments: ReadonlyArray<{ pct?: number; name?: string; color?: string }>,
   options?: A11ySegmentItemOptions,
 ): A11yItem[] {
   return segmentItems(segments, options);
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { computeModel } from "./compute";
+
+const size = { height: 50, width: 100 };
+
+describe("annotations", () => {
+  it("maps rules, bands and points through the chart's scales", () => {
+    const model = computeModel({
+      data: [0, 50, 100],
+      size,
+      spec: {
+        annotations: [
+          { type: "rule", y: 50 },
+          { id: "normal", type: "band", y0: 75, y1: 25 },
+          { index: 1, type: "point" },
+        ],
+        pad: 0,
+        showDot: false,
+        type: "sparkline",
+      },
+    });
+
+    const rule = model.marks.find((m) => m.id === "annotation-rule-0");
+    expect(rule).toMatchObject({
+      className: "mv-annotation mv-annotation-rule",
+      type: "line",
+      x1: 0,
+      x2: 100,
+      y1: 25,
+      y2: 25,
+    });
+    expect(model.marks.find((m) => m.id === "annotation-normal")).toMatchObject(
+      { h: 25, type: "rect", w: 100, x: 0, y: 12.5 },
+    );
+    expect(
+      model.marks.find((m) => m.id === "annotation-point-2"),
+    ).toMatchObject({ cx: 50, cy: 25, r: 3, type: "circle" });
+    expect(model.stats?.warnings).toBeUndefined();
+  });
+
+  it("draws bands and rules behind the data and points on top", () => {
+    const model = computeModel({
+      data: [0, 50, 100],
+      size,
+      spec: {
+        annotations: [
+          { index: 0, type: "point" },
+          { type: "rule", y: 50 },
+          { type: "band", y0: 10, y1: 20 },
+        ],
+        showDot: false,
+        type: "sparkline",
+      },
+    });
+
+    expect(model.marks.map((m) => m.id)).toEqual([
+      "annotation-band-2",
+      "annotation-rule-1",
+      "sparkline-line",
+      "annotation-point-0",
+    ]);
+  });
+
+  it("widens the auto-fitted domain to rules and bands", () => {
+    const model = computeModel({
+      data: [0, 50, 100],
+      size,
+      spec: {
+        annotations: [
+          { type: "rule", y: 150 },
+          { type: "band", y0: -50, y1: 10 },
+        ],
+        pad: 0,
+        showDot: false,
+        type: "sparkline",
+      },
+    });
+
+    expect(model.marks.find((m) => m.id === "annotation-rule-0")).toMatchObject(
+      { y1: 0, y2: 0 },
+    );
+    expect(model.marks.find((m) => m.id === "annotation-band-1")).toMatchObject(
+      { h: 15, y: 35 },
+    );
+    expect(model.stats?.warnings).toBeUndefined();
+  });
+
+  it("skips annotations outside an explicit domain with a warning", () => {
+    const model = computeModel({
+      data: [0, 50, 100],
+      size,
+      spec: {
+        annotations: [
+          { id: "slo", type: "rule", y: 150 },
+          { type: "band", y0: 80, y1: 120 },
+          { index: 9, type: "point" },
+        ],
+        domain: { max: 100, min: 0 },
+        type: "sparkline",
+      },
+    });
+
+    expect(model.marks.some((m) => m.id === "annotation-slo")).toBe(false);
+    expect(model.marks.some((m) => m.id === "annotation-point-2")).toBe(false);
+    // Bands are clipped rather than dropped.
+    expect(model.marks.find((m) => m.id === "annotation-band-1")).toBeDefined();
+
+    const warnings = model.stats?.warnings ?? [];
+    expect(warnings.map((w) => w.markId)).toEqual([
+      "annotation-slo",
+      "annotation-point-2",
+    ]);
+    expect(warnings.every((w) => w.code === "OUT_OF_RANGE")).toBe(true);
+  });
+
+  it("describes drawn annotations in the a11y tree", () => {
+    const model = computeModel({
+      data: [0, 50, 100],
+      size,
+      spec: {
+        annotations: [
+          { label: "target", type: "rule", y: 95 },
+          { type: "band", y0: 20, y1: 40 },
+          { type: "rule", y: 500 },
+        ],
+        domain: { max: 100, min: 0 },
+        type: "sparkline",
+      },
+    });
+
+    expect(model.a11y?.nodes).toEqual([
+      { id: "annotation-rule-0", label: "target 95" },
+      { id: "annotation-band-1", label: "Band 20–40" },
+    ]);
+  });
+
+  it("draws value rules vertically on horizontal bars", () => {
+    const model = computeModel({
+      data: { max: 100, value: 40 },
+      size,
+      spec: {
+        annotations: [{ type: "rule", y: 50 }],
+        pad: 0,
+        type: "bar",
+      },
+    });
+
+    expect(model.marks[0]).toMatchObject({
+      id: "annotation-rule-0",
+      x1: 50,
+      x2: 50,
+      y1: 0,
+      y2: 50,
+    });
+  });
+
+  it("places point annotations on bar tops", () => {
+    const model = computeModel({
+      data: [10, 20],
+      size,
+      spec: {
+        annotations: [{ index: 1, type: "point" }],
+        domain: { max: 20, min: 0 },
+        gap: 0,
+        pad: 0,
+        type: "sparkline-bars",
+      },
+    });
+
+    expect(model.marks.at(-1)).toMatchObject({ cx: 75, cy: 0 });
+  });
+
+  it("warns when a chart has no per-point scale", () => {
+    const model = computeModel({
+      data: { series: [10, 20, 30] },
+      size,
+      spec: {
+        annotations: [{ index: 0, type: "point" }],
+        type: "histogram",
+      },
+    });
+
+    expect(model.marks.some((m) => m.id === "annotation-point-0")).toBe(false);
+    expect(model.stats?.warnings?.[0]?.message).toContain("per-point scale");
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Spec-level annotations: reference rules, target bands and highlighted
+ * points drawn in the chart's own coordinates.
+ *
+ * Charts that support annotations expose their scales (`ChartScales`);
+ * `computeModel` maps each annotation through them, drawing rules and bands
+ * behind the data and points on top.
+ */
+import type { ThemeTokens } from "./charts/context";
+import { pushWarning, SERIES_FILL_PAINT } from "./charts/shared";
+import type { DiagnosticWarning, Mark } from "./model";
+import { themePaint } from "./theme";
+
+type AnnotationBase = {
+  /** Stable key for the mark id (`annotation-<id>`); defaults to the position. */
+  id?: string;
+  /** Short description used in a11y text, e.g. `"target"`. */
+  label?: string;
+  className?: string;
+};
+
+/** Reference line at value `y` (an SLO threshold, a target). */
+export type RuleAnnotation = AnnotationBase & { type: "rule"; y: number };
+
+/** Shaded value range from `y0` to `y1` (a normal range). */
+export type BandAnnotation = AnnotationBase & {
+  type: "band";
+  y0: number;
+  y1: number;
+};
+
+/**
+ * Marker on data point `index`. Charts that bin or resample their data
+ * (histogram, equalizer) and multi-series charts have no per-point scale.
+ */
+export type PointAnnotation = AnnotationBase & {
+  type: "point";
+  index: number;
+  /** Marker radius; defaults to 3. */
+  r?: number;
+};
+
+export type Annotation = RuleAnnotation | BandAnnotation | PointAnnotation;
+
+/**
+ * A chart's data-to-pixel mapping, as used by annotations. `value` maps along
+ * `valueAxis` (`y` for lines and columns, `x` for horizontal bars).
+ */
+export type ChartScales = {
+  plot: { x0: number; x1: number; y0: number; y1: number };
+  valueAxis: "x" | "y";
+  /** Value range covered by the plot. */
+  domain: { min: number; max: number };
+  value(value: number): number;
+  /** Centre of data point `index`; null for gaps and missing points. */
+  point?(index: number): { x: number; y: number } | null;
+};
+
+/** Mark id for the annotation at `position`. */
+export function annotationId(annotation: Annotation, position: number): string {
+  const key = annotation.id?.trim();
+  return `annotation-${key || `${annotation.type}-${position}`}`;
+}
+
+/**
+ * Values named by rule and band annotations, for charts to fold into their
+ * auto-fitted domain so a reference line outside the data still shows.
+ */
+export function annotationValues(
+  annotations: ReadonlyArray<Annotation> | undefined,
+): number[] {
+  return (annotations ?? []).flatMap((annotation) => {
+    const values =
+      annotation.type === "rule"
+        ? [annotation.y]
+        : annotation.type === "band"
+          ? [annotation.y0, annotation.y1]
+          : [];
+    return values.filter((value) => Number.isFinite(value));
+  });
+}
+
+function annotationClass(annotation: Annotation): string {
+  const extra = annotation.className ? ` ${annotation.className}` : "";
+  return `mv-annotation mv-annotation-${annotation.type}${extra}`;
+}
+
+function warnSkipped(
+  warnings: DiagnosticWarning[] | undefined,
+  id: string,
+  reason: string,
+): void {
+  if (!warnings) return;
+  pushWarning(warnings, {
+    code: "OUT_OF_RANGE",
+    markId: id,
+    message: `Annotation ${id} ${reason}; not drawn.`,
+    phase: "compute",
+  });
+}
+
+function ruleMark(
+  annotation: RuleAnnotation,
+  id: string,
+  scales: ChartScales,
+  warnings: DiagnosticWarning[] | undefined,
+): Mark | null {
+  const { max, min } = scales.domain;
+  if (
+    !Number.isFinite(annotation.y) ||
+    annotation.y < min ||
+    annotation.y > max
+  ) {
+    warnSkipped(warnings, id, "is outside the value domain");
+    return null;
+  }
+  const at = scales.value(annotation.y);
+  const { plot } = scales;
+  const horizontal = scales.valueAxis === "y";
+  return {
+    className: annotationClass(annotation),
+    datum: { value: annotation.y },
+    id,
+    type: "line",
+    x1: horizontal ? plot.x0 : at,
+    x2: horizontal ? plot.x1 : at,
+    y1: horizontal ? at : plot.y0,
+    y2: horizontal ? at : plot.y1,
+  };
+}
+
+function bandMark(
+  annotation: BandAnnotation,
+  id: string,
+  scales: ChartScales,
+  warnings: DiagnosticWarning[] | undefined,
+): Mark | null {
+  const { max, min } = scales.domain;
+  if (!Number.isFinite(annotation.y0) || !Number.isFinite(annotation.y1)) {
+    warnSkipped(warnings, id, "has a non-finite bound");
+    return null;
+  }
+  // Clip to the domain; a band entirely outside it draws nothing.
+  const lo = Math.max(min, Math.min(annotation.y0, annotation.y1));
+  const hi = Math.min(max, Math.max(annotation.y0, annotation.y1));
+  if (lo > hi) {
+    warnSkipped(warnings, id, "is outside the value domain");
+    return null;
+  }
+
+  const a = scales.value(lo);
+  const b = scales.value(hi);
+  const { plot } = scales;
+  const horizontal = scales.valueAxis === "y";
+  return {
+    className: annotationClass(annotation),
+    h: horizontal ? Math.abs(b - a) : plot.y1 - plot.y0,
+    id,
+    type: "rect",
+    w: horizontal ? plot.x1 - plot.x0 : Math.abs(b - a),
+    x: horizontal ? plot.x0 : Math.min(a, b),
+    y: horizontal ? Math.min(a, b) : plot.y0,
+  };
+}
+
+function pointMark(
+  annotation: PointAnnotation,
+  id: string,
+  scales: ChartScales,
+  warnings: DiagnosticWarning[] | undefined,
+): Mark | null {
+  if (!scales.point) {
+    warnSkipped(
+      warnings,
+      id,
+      "can't be placed: this chart has no per-point scale",
+    );
+    return null;
+  }
+  const at = Number.isInteger(annotation.index)
+    ? scales.point(annotation.index)
+    : null;
+  if (!at) {
+    warnSkipped(warnings, id, `has no data point at index ${annotation.index}`);
+    return null;
+  }
+  const r = annotation.r ?? 3;
+  return {
+    className: annotationClass(annotation),
+    cx: at.x,
+    cy: at.y,
+    datum: { index: annotation.index },
+    id,
+    r: Number.isFinite(r) && r >= 0 ? r : 3,
+    type: "circle",
+  };
+}
+
+/**
+ * Maps annotations through a chart's scales. Rules and bands belong behind
+ * the data marks, points in front of them. With a `theme` they are painted
+ * the way the `mv-annotation-*` class rules would paint them.
+ */
+export function annotationMarks(
+  annotations: ReadonlyArray<Annotation>,
+  scales: ChartScales,
+  warnings?: DiagnosticWarning[],
+  theme?: ThemeTokens,
+): { behind: Mark[]; front: Mark[] } {
+  const paint = {
+    band: themePaint(theme, { fill: "muted", fillOpacity: 0.15 }),
+    point: themePaint(theme, SERIES_FILL_PAINT),
+    rule: themePaint(theme, { stroke: "muted", strokeDasharray: "3 2" }),
+  };
+  const behind: Mark[] = [];
+  const front: Mark[] = [];
+  annotations.forEach((annotation, position) => {
+    const id = annotationId(annotation, position);
+    switch (annotation.type) {
+      case "rule": {
+        const mark = ruleMark(annotation, id, scales, warnings);
+        if (mark) behind.push({ ...paint.rule, ...mark });
+        break;
+      }
+      case "band": {
+        const mark = bandMark(annotation, id, scales, warnings);
+        if (mark) behind.push({ ...paint.band, ...mark });
+        break;
+      }
+      case "point": {
+        const mark = pointMark(annotation, id, scales, warnings);
+        if (mark) front.push({ ...paint.point, ...mark });
+        break;
+      }
+    }
+  });
+  // Bands sit under rules so a threshold inside a range stays visible.
+  behind.sort((a, b) => Number(a.type !== "rect") - Number(b.type !== "rect"));
+  return { behind, front };
+}
@@ -11,11 +11,23 @@ const SEGMENTS_SAMPLE = [
 
 function sampleData(type: string, def: unknown): unknown {
   if (type === "bar") return { max: 100, value: 72 };
+  if (type === "bullet")
+    return { ranges: [50, 75, 100], target: 80, value: 72 };
   if (type === "bullet-delta") return { current: 70, max: 100, previous: 40 };
+  if (type === "calendar-heatmap")
+    return SERIES_SAMPLE.map((value, i) => ({
+      date: Date.UTC(2025, 2, 3 + i),
+      value,
+    }));
   if (type === "dumbbell") return { current: 40, max: 100, target: 80 };
   if (type === "dot-matrix") return { series: SERIES_SAMPLE };
   if (type === "heatgrid") return { series: SERIES_SAMPLE };
   if (type === "histogram") return { series: SERIES_SAMPLE };
+  if (type === "multi-sparkline")
+    return [
+      { name: "A", values: SERIES_SAMPLE },
+      { name: "B", values: [...SERIES_SAMPLE].reverse() },
+    ];
 
   const emptyDataWarningMessage = (
     def as { emptyDataWarningMessage?: string } | null
@@ -1,9 +1,11 @@
+import { formatValue } from "../format";
+import { themePaint } from "../theme";
 import type { ChartDefinition } from "./chart-definition";
-import { clamp, isFiniteNumber } from "./shared";
+import { clamp, isFiniteNumber, SERIES_FILL_PAINT } from "./shared";
 import type { BarData, BarSpec, NormalizedBar } from "./types";
 
 export const barChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     const pct =
       normalized.max === 0
         ? 0
@@ -11,10 +13,13 @@ export const barChart = {
     return {
       items: [
         {
+          datum: { value: normalized.value },
           id: "bar-fill",
           label: "Value",
           value: normalized.value,
-          valueText: `${pct}%`,
+          valueText: spec.format
+            ? formatValue(normalized.value, spec.format)
+            : `${pct}%`,
         },
       ],
       label: `Bar chart (${pct}%)`,
@@ -29,14 +34,16 @@ export const barChart = {
   isEmpty(_normalized) {
     return false;
   },
-  marks(spec, normalized, layout, _state, _theme, _warnings) {
+  marks(spec, normalized, layout, _state, theme, _warnings) {
     const usableW = Math.max(0, layout.width - layout.pad * 2);
     const usableH = Math.max(0, layout.height - layout.pad * 2);
     const ratio =
       normalized.max === 0 ? 0 : clamp(normalized.value / normalized.max, 0, 1);
     return [
       {
+        ...themePaint(theme, SERIES_FILL_PAINT),
         className: `mv-bar${spec.className ? ` ${spec.className}` : ""}`,
+        datum: { value: normalized.value },
         h: usableH,
         id: "bar-fill",
         type: "rect",
@@ -52,5 +59,28 @@ export const barChart = {
     return { max: Math.max(max, 0), type: "bar", value: Math.max(value, 0) };
   },
   preferredAspectRatio: "wide" as const,
+  scales(_spec, normalized, layout) {
+    const plot = {
+      x0: layout.pad,
+      x1: layout.width - layout.pad,
+      y0: layout.pad,
+      y1: layout.height - layout.pad,
+    };
+    const usableW = Math.max(0, plot.x1 - plot.x0);
+    const value = (v: number) =>
+      plot.x0 +
+      (normalized.max === 0 ? 0 : clamp(v / normalized.max, 0, 1)) * usableW;
+    return {
+      domain: { max: normalized.max, min: 0 },
+      plot,
+      // The single data point sits at the end of the bar.
+      point: (index) =>
+        index === 0
+          ? { x: value(normalized.value), y: (plot.y0 + plot.y1) / 2 }
+          : null,
+      value,
+      valueAxis: "x",
+    };
+  },
   type: "bar",
 } satisfies ChartDefinition<"bar", BarSpec, BarData, NormalizedBar>;
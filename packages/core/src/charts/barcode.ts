@@ -10,17 +10,24 @@ import {
   expandSegmentColors,
   isIntegerish,
   normalizeSegments,
+  segmentIndexByUnit,
+  unitSegmentDatum,
 } from "./shared";
 import type { BarcodeSpec, BitfieldData, NormalizedBarcode } from "./types";
 
 export const barcodeChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "barcode-seg",
         labelFallback: "Segment",
       }),
-      label: a11yLabelWithSegmentsSummary("Barcode chart", normalized.segments),
+      label: a11yLabelWithSegmentsSummary(
+        "Barcode chart",
+        normalized.segments,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -48,6 +55,8 @@ export const barcodeChart = {
     const interleaved = useInterleave ? interleaveCounts(counts) : null;
     const cells = useInterleave ? null : expandSegmentColors(segments, counts);
 
+    const order = interleaved ?? segmentIndexByUnit(counts);
+
     function fillAt(i: number): string {
       if (useInterleave) {
         const segIdx =
@@ -98,6 +107,7 @@ export const barcodeChart = {
       return widths.map((w, i) => {
         const mark: Mark = {
           className: `mv-barcode-bin${classSuffix}`,
+          datum: unitSegmentDatum(segments, order, i),
           fill: fillAt(i),
           h: usableHPx,
           id: `barcode-bin-${i}`,
@@ -120,6 +130,7 @@ export const barcodeChart = {
       const w = i === bins - 1 ? xEnd - x : binW;
       return {
         className: `mv-barcode-bin${classSuffix}`,
+        datum: unitSegmentDatum(segments, order, i),
         fill: fillAt(i),
         h: usableH,
         id: `barcode-bin-${i}`,
@@ -130,8 +141,8 @@ export const barcodeChart = {
       };
     });
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "barcode" };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark, PatternMark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   allocateUnitsByPct,
@@ -12,9 +13,10 @@ import type { BitfieldData, BitfieldSpec, NormalizedBitfield } from "./types";
 const maskId = "mv-bitfield-mask";
 
 export const bitfieldChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "bitfield-seg",
 
         labelFallback: "Segment",
@@ -22,6 +24,7 @@ export const bitfieldChart = {
       label: a11yLabelWithSegmentsSummary(
         "Bitfield chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -129,6 +132,7 @@ export const bitfieldChart = {
           : count * cellSize;
       marks.push({
         className: `mv-bitfield-seg${classSuffix}`,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h: gridH,
         id: `bitfield-seg-${i}`,
@@ -143,8 +147,8 @@ export const bitfieldChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "bitfield" };
   },
   preferredAspectRatio: "wide" as const,
@@ -0,0 +1,144 @@
+import { describe, expect, test } from "vitest";
+import { computeModel } from "../compute";
+import type { Mark } from "../model";
+import type { BoxPlotData, BoxPlotSpec } from "./types";
+
+function boxPlot(data: BoxPlotData, spec: Omit<BoxPlotSpec, "type"> = {}) {
+  return computeModel({
+    data,
+    size: { height: 20, width: 110 },
+    spec: { pad: 0, type: "box-plot", ...spec },
+  });
+}
+
+function byId(marks: ReadonlyArray<Mark>, id: string): Mark | undefined {
+  return marks.find((mark) => mark.id === id);
+}
+
+describe("box-plot", () => {
+  test("produces a deterministic RenderModel", () => {
+    const input = {
+      data: [3, 1, 4, 1, 5, 9, 2, 6],
+      size: { height: 20, width: 100 },
+      spec: { type: "box-plot" as const },
+    };
+
+    const a = computeModel(input);
+    const b = computeModel(input);
+
+    expect(a).toEqual(b);
+    expect(a.stats?.warnings).toBeUndefined();
+  });
+
+  test("computes interpolated quartiles from raw samples", () => {
+    const model = boxPlot([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(model.a11y.items?.map((item) => [item.label, item.value])).toEqual([
+      ["Lower whisker", 0],
+      ["First quartile", 2.5],
+      ["Median", 5],
+      ["Third quartile", 7.5],
+      ["Upper whisker", 10],
+    ]);
+    expect(model.a11y.label).toBe(
+      "Box plot (median 5, quartiles 2.5–7.5, whiskers 0–10)",
+    );
+  });
+
+  test("splits the box at the median and maps values onto the width", () => {
+    const model = boxPlot([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(byId(model.marks, "box-plot-q1")).toMatchObject({
+      type: "rect",
+      w: 27.5,
+      x: 27.5,
+    });
+    expect(byId(model.marks, "box-plot-q3")).toMatchObject({
+      type: "rect",
+      w: 27.5,
+      x: 55,
+    });
+    expect(byId(model.marks, "box-plot-median")).toMatchObject({
+      x1: 55,
+      y1: 0,
+      y2: 20,
+    });
+  });
+
+  test("stops iqr whiskers at the fence and plots outliers", () => {
+    const model = boxPlot([1, 2, 3, 4, 5, 6, 7, 8, 100]);
+    const outliers = model.marks.filter((m) => m.type === "circle");
+    expect(outliers).toHaveLength(1);
+    expect(outliers[0]).toMatchObject({
+      cx: 110,
+      datum: { index: 8, value: 100 },
+      id: "box-plot-outlier-8",
+    });
+    expect(model.a11y.items?.at(-1)?.value).toBe(8);
+    expect(model.a11y.label).toContain("1 outlier");
+  });
+
+  test("reaches the extremes with min-max whiskers", () => {
+    const model = boxPlot([1, 2, 3, 4, 5, 6, 7, 8, 100], {
+      whiskers: "min-max",
+    });
+    expect(model.marks.some((m) => m.type === "circle")).toBe(false);
+    expect(model.a11y.items?.at(-1)).toMatchObject({
+      label: "Maximum",
+      value: 100,
+    });
+  });
+
+  test("caps outlier dots, keeping the most extreme", () => {
+    const model = boxPlot(
+      { max: 10, median: 5, min: 0, outliers: [-3, 14, 40, -20], q1: 4, q3: 6 },
+      { maxOutliers: 2 },
+    );
+    const outliers = model.marks.filter((m) => m.type === "circle");
+    expect(outliers.map((m) => m.datum?.value)).toEqual([40, -20]);
+    expect(model.a11y.label).toContain("4 outliers");
+  });
+
+  test("reaches a summary's min and max by default", () => {
+    const model = boxPlot({ max: 100, median: 12, min: 1, q1: 10, q3: 14 });
+    expect(model.a11y.label).toBe(
+      "Box plot (median 12, quartiles 10–14, whiskers 1–100)",
+    );
+    expect(byId(model.marks, "box-plot-whisker-high")).toMatchObject({
+      x2: 110,
+    });
+  });
+
+  test("plots a summary's min and max beyond iqr fences as outliers", () => {
+    const model = boxPlot(
+      { max: 100, median: 12, min: 1, q1: 10, q3: 14 },
+      { whiskers: "iqr" },
+    );
+    expect(model.a11y.items?.[0]?.value).toBe(4);
+    expect(model.a11y.items?.[4]?.value).toBe(20);
+    const outliers = model.marks.filter((m) => m.type === "circle");
+    expect(outliers.map((m) => m.datum?.value)).toEqual([1, 100]);
+    expect(model.a11y.label).toContain("2 outliers");
+  });
+
+  test("clamps iqr whiskers of a summary to its min and max", () => {
+    const model = boxPlot(
+      { max: 30, median: 12, min: 9, q1: 10, q3: 14 },
+      { whiskers: "iqr" },
+    );
+    expect(model.a11y.items?.[0]?.value).toBe(9);
+    expect(model.a11y.items?.[4]?.value).toBe(20);
+  });
+
+  test("formats a11y text with the spec format", () => {
+    const model = boxPlot([100, 200, 300], {
+      format: { style: "unit", unit: "millisecond" },
+    });
+    expect(model.a11y.items?.[2]?.valueText).toBe("200 ms");
+  });
+
+  test("warns on empty data", () => {
+    const model = boxPlot([]);
+    expect(model.marks).toEqual([]);
+    expect(model.a11y.label).toBe("Box plot (empty)");
+    expect(model.stats?.warnings?.[0]?.code).toBe("EMPTY_DATA");
+  });
+});
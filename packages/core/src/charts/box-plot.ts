@@ -0,0 +1,349 @@
+import { resolveDomain } from "../domain";
+import { createValueFormatter } from "../format";
+import type { A11yItem, Mark } from "../model";
+import { type ThemePaint, themePaint } from "../theme";
+import type { ChartDefinition } from "./chart-definition";
+import {
+  clamp,
+  coerceFiniteInt,
+  coerceFiniteNonNegative,
+  isFiniteNumber,
+  LINE_PAINT,
+} from "./shared";
+import type {
+  BoxPlotData,
+  BoxPlotOutlier,
+  BoxPlotSpec,
+  BoxPlotStats,
+  BoxPlotSummary,
+  BoxPlotWhiskers,
+  NormalizedBoxPlot,
+} from "./types";
+
+/** Tukey's fence: whiskers reach 1.5×IQR past the box. */
+const IQR_REACH = 1.5;
+
+/** Theme paint of the `mv-box-plot-*` parts; the median is a series line. */
+const WHISKER_PAINT: ThemePaint = { stroke: "muted" };
+const BOX_PAINT: ThemePaint = {
+  fill: "series-1",
+  fillOpacity: 0.25,
+  stroke: "series-1",
+};
+const OUTLIER_PAINT: ThemePaint = { fill: "none", stroke: "series-1" };
+
+function isSummary(data: BoxPlotData): data is BoxPlotSummary {
+  return !Array.isArray(data);
+}
+
+/** Linear-interpolated quantile of ascending `sorted` (R type 7). */
+function quantile(sorted: ReadonlyArray<number>, p: number): number {
+  const at = (sorted.length - 1) * p;
+  const lo = Math.floor(at);
+  const loValue = sorted[lo] ?? 0;
+  const hiValue = sorted[Math.min(lo + 1, sorted.length - 1)] ?? loValue;
+  return loValue + (hiValue - loValue) * (at - lo);
+}
+
+function statsFromSamples(
+  samples: ReadonlyArray<number>,
+  whiskers: BoxPlotWhiskers,
+): BoxPlotStats | null {
+  const points: BoxPlotOutlier[] = samples
+    .map((value, index) => ({ index, value }))
+    .filter((point) => isFiniteNumber(point.value))
+    .sort((a, b) => a.value - b.value || a.index - b.index);
+  const sorted = points.map((point) => point.value);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (first === undefined || last === undefined) return null;
+
+  const q1 = quantile(sorted, 0.25);
+  const median = quantile(sorted, 0.5);
+  const q3 = quantile(sorted, 0.75);
+  if (whiskers === "min-max") {
+    return { high: last, low: first, median, outliers: [], q1, q3 };
+  }
+
+  const reach = IQR_REACH * (q3 - q1);
+  const inside = sorted.filter((v) => v >= q1 - reach && v <= q3 + reach);
+  return {
+    high: inside[inside.length - 1] ?? q3,
+    low: inside[0] ?? q1,
+    median,
+    outliers: points.filter(
+      (point) => point.value < q1 - reach || point.value > q3 + reach,
+    ),
+    q1,
+    q3,
+  };
+}
+
+/**
+ * Stats from a precomputed summary. The five numbers are sorted, so a
+ * swapped pair still draws. With `"iqr"` whiskers the fences are clamped to
+ * `min`/`max`, since the samples behind them are unknown, and a `min`/`max`
+ * beyond its fence is plotted as an outlier so the extremes stay visible.
+ */
+function statsFromSummary(
+  summary: BoxPlotSummary,
+  whiskers: BoxPlotWhiskers,
+): BoxPlotStats | null {
+  const five = [
+    summary.min,
+    summary.q1,
+    summary.median,
+    summary.q3,
+    summary.max,
+  ];
+  if (!five.every(isFiniteNumber)) return null;
+  five.sort((a, b) => a - b);
+  const [min = 0, q1 = 0, median = 0, q3 = 0, max = 0] = five;
+  const outliers = (summary.outliers ?? []).flatMap((value, index) =>
+    isFiniteNumber(value) ? [{ index, value }] : [],
+  );
+  if (whiskers === "min-max") {
+    return { high: max, low: min, median, outliers, q1, q3 };
+  }
+  const reach = IQR_REACH * (q3 - q1);
+  const low = Math.max(min, q1 - reach);
+  const high = Math.min(max, q3 + reach);
+  let nextIndex = summary.outliers?.length ?? 0;
+  for (const extreme of [min, max]) {
+    if (extreme >= low && extreme <= high) continue;
+    if (outliers.some((outlier) => outlier.value === extreme)) continue;
+    outliers.push({ index: nextIndex++, value: extreme });
+  }
+  return { high, low, median, outliers, q1, q3 };
+}
+
+/** The `max` outliers furthest from the median, in input order. */
+function cappedOutliers(
+  stats: BoxPlotStats,
+  max: number,
+): ReadonlyArray<BoxPlotOutlier> {
+  if (stats.outliers.length <= max) return stats.outliers;
+  return [...stats.outliers]
+    .sort(
+      (a, b) =>
+        Math.abs(b.value - stats.median) - Math.abs(a.value - stats.median) ||
+        a.index - b.index,
+    )
+    .slice(0, max)
+    .sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Box plot chart: a horizontal box-and-whisker summary of a distribution.
+ * Takes raw samples (quartiles are interpolated) or a precomputed
+ * `{ min, q1, median, q3, max, outliers? }`. The box is split at the median
+ * into `box-plot-q1` and `box-plot-q3` halves so each quartile has a mark.
+ */
+export const boxPlotChart = {
+  a11y(spec, normalized, _layout) {
+    const { stats, whiskers } = normalized;
+    if (!stats) return { label: "Box plot (empty)", role: "img" };
+
+    const formatNumber = createValueFormatter(spec.format);
+    const extremes =
+      whiskers === "iqr"
+        ? { high: "Upper whisker", low: "Lower whisker" }
+        : { high: "Maximum", low: "Minimum" };
+    const items: A11yItem[] = [
+      { id: "box-plot-whisker-low", label: extremes.low, value: stats.low },
+      { id: "box-plot-q1", label: "First quartile", value: stats.q1 },
+      { id: "box-plot-median", label: "Median", value: stats.median },
+      { id: "box-plot-q3", label: "Third quartile", value: stats.q3 },
+      { id: "box-plot-whisker-high", label: extremes.high, value: stats.high },
+    ].map((item) => ({
+      ...item,
+      datum: { value: item.value },
+      valueText: formatNumber(item.value),
+    }));
+
+    const count = stats.outliers.length;
+    const outlierText = count
+      ? `, ${count} ${count === 1 ? "outlier" : "outliers"}`
+      : "";
+    return {
+      items,
+      label:
+        `Box plot (median ${formatNumber(stats.median)}, ` +
+        `quartiles ${formatNumber(stats.q1)}–${formatNumber(stats.q3)}, ` +
+        `whiskers ${formatNumber(stats.low)}–${formatNumber(stats.high)}` +
+        `${outlierText})`,
+      role: "img",
+    };
+  },
+  category: "bars" as const,
+  defaultPad: 2,
+  displayName: "Box plot",
+  emptyDataWarningMessage: "No series data.",
+  isEmpty(normalized) {
+    return normalized.stats === null;
+  },
+  marks(spec, normalized, layout, _state, theme, warnings) {
+    const { stats, min, max } = normalized;
+    if (!stats) return [];
+
+    const usableW = Math.max(0, layout.width - layout.pad * 2);
+    const usableH = Math.max(0, layout.height - layout.pad * 2);
+    if (usableW <= 0 || usableH <= 0) return [];
+
+    const denom = max - min || 1;
+    const x = (value: number) =>
+      layout.pad + ((clamp(value, min, max) - min) / denom) * usableW;
+    const mid = layout.pad + usableH / 2;
+
+    const boxH = Math.min(
+      usableH,
+      coerceFiniteNonNegative(
+        spec.boxHeight ?? usableH,
+        usableH,
+        warnings,
+        "Non-finite box-plot boxHeight; defaulted to the plot height.",
+      ),
+    );
+    const defaultRadius = Math.max(1, Math.min(2, usableH / 4));
+    const radius = coerceFiniteNonNegative(
+      spec.outlierRadius ?? defaultRadius,
+      defaultRadius,
+      warnings,
+      "Non-finite box-plot outlierRadius; defaulted.",
+    );
+    const maxOutliers = coerceFiniteInt(
+      spec.maxOutliers ?? 8,
+      8,
+      0,
+      warnings,
+      "Non-finite box-plot maxOutliers; defaulted to 8.",
+    );
+
+    const classSuffix = spec.className ? ` ${spec.className}` : "";
+    const top = mid - boxH / 2;
+    const capTop = mid - boxH / 4;
+    const capBottom = mid + boxH / 4;
+    const xLow = x(stats.low);
+    const xQ1 = x(stats.q1);
+    const xMedian = x(stats.median);
+    const xQ3 = x(stats.q3);
+    const xHigh = x(stats.high);
+
+    const marks: Mark[] = [
+      {
+        ...themePaint(theme, WHISKER_PAINT),
+        className: `mv-box-plot-whisker${classSuffix}`,
+        datum: { value: stats.low },
+        id: "box-plot-whisker-low",
+        type: "line",
+        x1: xLow,
+        x2: xQ1,
+        y1: mid,
+        y2: mid,
+      },
+      {
+        ...themePaint(theme, WHISKER_PAINT),
+        className: `mv-box-plot-whisker${classSuffix}`,
+        datum: { value: stats.high },
+        id: "box-plot-whisker-high",
+        type: "line",
+        x1: xQ3,
+        x2: xHigh,
+        y1: mid,
+        y2: mid,
+      },
+      {
+        ...themePaint(theme, WHISKER_PAINT),
+        className: `mv-box-plot-cap${classSuffix}`,
+        id: "box-plot-cap-low",
+        type: "line",
+        x1: xLow,
+        x2: xLow,
+        y1: capTop,
+        y2: capBottom,
+      },
+      {
+        ...themePaint(theme, WHISKER_PAINT),
+        className: `mv-box-plot-cap${classSuffix}`,
+        id: "box-plot-cap-high",
+        type: "line",
+        x1: xHigh,
+        x2: xHigh,
+        y1: capTop,
+        y2: capBottom,
+      },
+      {
+        ...themePaint(theme, BOX_PAINT),
+        className: `mv-box-plot-box${classSuffix}`,
+        datum: { value: stats.q1 },
+        h: boxH,
+        id: "box-plot-q1",
+        type: "rect",
+        w: xMedian - xQ1,
+        x: xQ1,
+        y: top,
+      },
+      {
+        ...themePaint(theme, BOX_PAINT),
+        className: `mv-box-plot-box${classSuffix}`,
+        datum: { value: stats.q3 },
+        h: boxH,
+        id: "box-plot-q3",
+        type: "rect",
+        w: xQ3 - xMedian,
+        x: xMedian,
+        y: top,
+      },
+      {
+        ...themePaint(theme, LINE_PAINT),
+        className: `mv-box-plot-median${classSuffix}`,
+        datum: { value: stats.median },
+        id: "box-plot-median",
+        type: "line",
+        x1: xMedian,
+        x2: xMedian,
+        y1: top,
+        y2: top + boxH,
+      },
+    ];
+
+    if (radius > 0) {
+      for (const outlier of cappedOutliers(stats, maxOutliers)) {
+        marks.push({
+          ...themePaint(theme, OUTLIER_PAINT),
+          className: `mv-box-plot-outlier${classSuffix}`,
+          cx: x(outlier.value),
+          cy: mid,
+          datum: { index: outlier.index, value: outlier.value },
+          id: `box-plot-outlier-${outlier.index}`,
+          r: radius,
+          type: "circle",
+        });
+      }
+    }
+    return marks;
+  },
+  normalize(spec, data) {
+    const whiskers =
+      spec.whiskers === "min-max" || spec.whiskers === "iqr"
+        ? spec.whiskers
+        : isSummary(data)
+          ? "min-max"
+          : "iqr";
+    const stats = isSummary(data)
+      ? statsFromSummary(data, whiskers)
+      : statsFromSamples(data, whiskers);
+    const extent = stats
+      ? [stats.low, stats.high, ...stats.outliers.map((o) => o.value)]
+      : [];
+    const { max, min } = resolveDomain(extent, spec.domain);
+    return { max, min, stats, type: "box-plot" as const, whiskers };
+  },
+  preferredAspectRatio: "wide" as const,
+  type: "box-plot",
+} satisfies ChartDefinition<
+  "box-plot",
+  BoxPlotSpec,
+  BoxPlotData,
+  NormalizedBoxPlot
+>;
@@ -1,5 +1,12 @@
+import { formatValue } from "../format";
+import { themePaint } from "../theme";
 import type { ChartDefinition } from "./chart-definition";
-import { clamp, coerceFiniteNonNegative, isFiniteNumber } from "./shared";
+import {
+  clamp,
+  coerceFiniteNonNegative,
+  isFiniteNumber,
+  SERIES_FILL_PAINT,
+} from "./shared";
 import type {
   BulletDeltaData,
   BulletDeltaSpec,
@@ -7,7 +14,7 @@ import type {
 } from "./types";
 
 export const bulletDeltaChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     const pctCurrent =
       normalized.max === 0
         ? 0
@@ -19,16 +26,22 @@ export const bulletDeltaChart = {
     return {
       items: [
         {
+          datum: { series: "current", value: normalized.current },
           id: "bullet-delta-current",
           label: "Current",
           value: normalized.current,
-          valueText: `${pctCurrent}%`,
+          valueText: spec.format
+            ? formatValue(normalized.current, spec.format)
+            : `${pctCurrent}%`,
         },
         {
+          datum: { series: "previous", value: normalized.previous },
           id: "bullet-delta-previous",
           label: "Previous",
           value: normalized.previous,
-          valueText: `${pctPrevious}%`,
+          valueText: spec.format
+            ? formatValue(normalized.previous, spec.format)
+            : `${pctPrevious}%`,
         },
       ],
       label: `Bullet delta chart (current ${pctCurrent}%, previous ${pctPrevious}%)`,
@@ -41,7 +54,7 @@ export const bulletDeltaChart = {
   isEmpty(_normalized) {
     return false;
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const x0 = layout.pad;
     const x1 = layout.width - layout.pad;
     const y = layout.height / 2;
@@ -155,6 +168,7 @@ export const bulletDeltaChart = {
 
     return [
       {
+        ...themePaint(theme, { stroke: "muted" }),
         className: `mv-bullet-delta-track${classSuffix}`,
         id: "bullet-delta-track",
         opacity: 1,
@@ -168,6 +182,7 @@ export const bulletDeltaChart = {
         y2: y,
       },
       {
+        ...themePaint(theme, { stroke: "series-1" }),
         className: `mv-bullet-delta-delta${classSuffix}`,
         id: "bullet-delta-delta",
         opacity: 1,
@@ -181,23 +196,28 @@ export const bulletDeltaChart = {
         y2: y,
       },
       {
+        ...themePaint(theme, { fill: "muted" }),
         className: `mv-bullet-delta-previous${classSuffix}`,
         cx: px,
         cy: y,
+        datum: { series: "previous", value: normalized.previous },
         fillOpacity: previousDotOpacity,
         id: "bullet-delta-previous",
         r: previousDotRadius,
         type: "circle",
       },
       {
+        ...themePaint(theme, SERIES_FILL_PAINT),
         className: `mv-bullet-delta-current${classSuffix}`,
         cx: cx,
         cy: y,
+        datum: { series: "current", value: normalized.current },
         id: "bullet-delta-current",
         r: currentDotRadius,
         type: "circle",
       },
       {
+        ...themePaint(theme, SERIES_FILL_PAINT),
         className: `mv-bullet-delta-arrow${classSuffix}`,
         d: arrowD,
         fillOpacity: arrowOpacity,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -15,15 +16,17 @@ import type {
 const CLIP_ID = "bullet-gauge-clip";
 
 export const bulletGaugeChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "bullet-gauge-seg",
         labelFallback: "Segment",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Bullet gauge chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -109,6 +112,7 @@ export const bulletGaugeChart = {
       marks.push({
         className: `mv-bullet-gauge-seg${classSuffix}`,
         clipPath: CLIP_ID,
+        datum: segmentDatum(run, i),
         fill: run.color,
         h: usableH,
         id: `bullet-gauge-seg-${i}`,
@@ -138,8 +142,8 @@ export const bulletGaugeChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "bullet-gauge" as const };
   },
   preferredAspectRatio: "wide" as const,
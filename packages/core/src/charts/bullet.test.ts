@@ -0,0 +1,120 @@
+import { describe, expect, test } from "vitest";
+import { computeModel } from "../compute";
+import type { Mark } from "../model";
+import type { BulletData, BulletSpec } from "./types";
+
+const DATA: BulletData = { ranges: [50, 75, 100], target: 80, value: 72 };
+
+function bullet(
+  data: BulletData = DATA,
+  spec: Omit<BulletSpec, "type"> = {},
+  size = { height: 30, width: 100 },
+) {
+  return computeModel({
+    data,
+    size,
+    spec: { pad: 0, type: "bullet", ...spec },
+  });
+}
+
+function byId(marks: ReadonlyArray<Mark>, id: string): Mark | undefined {
+  return marks.find((mark) => mark.id === id);
+}
+
+describe("bullet", () => {
+  test("produces a deterministic RenderModel", () => {
+    const a = bullet();
+    const b = bullet();
+
+    expect(a).toEqual(b);
+    expect(a.stats?.warnings).toBeUndefined();
+  });
+
+  test("shades ranges under the value bar and target tick", () => {
+    const model = bullet();
+    expect(model.marks.map((m) => m.id)).toEqual([
+      "bullet-range-0",
+      "bullet-range-1",
+      "bullet-range-2",
+      "bullet-bar",
+      "bullet-target",
+    ]);
+    expect(byId(model.marks, "bullet-range-1")).toMatchObject({
+      className: "mv-bullet-range mv-bullet-range-2",
+      h: 30,
+      w: 25,
+      x: 50,
+    });
+    expect(byId(model.marks, "bullet-bar")).toMatchObject({
+      h: 10,
+      w: 72,
+      x: 0,
+      y: 10,
+    });
+    expect(byId(model.marks, "bullet-target")).toMatchObject({
+      h: 21,
+      w: 2,
+      x: 79,
+    });
+  });
+
+  test("grows upward when vertical", () => {
+    const model = bullet(
+      DATA,
+      { orientation: "vertical" },
+      { height: 100, width: 30 },
+    );
+    expect(byId(model.marks, "bullet-bar")).toMatchObject({
+      h: 72,
+      w: 10,
+      x: 10,
+      y: 28,
+    });
+    expect(byId(model.marks, "bullet-range-2")).toMatchObject({
+      h: 25,
+      y: 0,
+    });
+  });
+
+  test("names the range holding the value", () => {
+    expect(bullet().a11y.label).toBe(
+      "Bullet chart (72 of target 80, in 'satisfactory' range)",
+    );
+    expect(
+      bullet({ ranges: [40, 100], value: 90 }, { rangeLabels: ["low", "ok"] })
+        .a11y.label,
+    ).toBe("Bullet chart (90 of 100, in 'ok' range)");
+  });
+
+  test("lists value, target and ranges as a11y items", () => {
+    const items = bullet().a11y.items ?? [];
+    expect(items.map((item) => [item.id, item.label, item.valueText])).toEqual([
+      ["bullet-bar", "Value", "72"],
+      ["bullet-target", "Target", "80"],
+      ["bullet-range-0", "'poor' range", "0–50"],
+      ["bullet-range-1", "'satisfactory' range", "50–75"],
+      ["bullet-range-2", "'good' range", "75–100"],
+    ]);
+  });
+
+  test("sorts ranges and defaults max to the largest input", () => {
+    const model = bullet({ ranges: [100, 40], target: 120, value: 60 });
+    const upper = byId(model.marks, "bullet-range-1");
+    expect(upper?.type === "rect" && upper.w).toBeCloseTo(50);
+    expect(upper?.type === "rect" && upper.x).toBeCloseTo(100 / 3);
+    expect(byId(model.marks, "bullet-target")).toMatchObject({ x: 98 });
+  });
+
+  test("warns when ranges outnumber the shades", () => {
+    const model = bullet({ ranges: [10, 20, 30, 40, 50, 60], value: 35 });
+    expect(model.stats?.warnings).toEqual([
+      expect.objectContaining({
+        code: "OUT_OF_RANGE",
+        message: "6 bullet ranges; ranges past the 5th share its shade.",
+      }),
+    ]);
+    expect(byId(model.marks, "bullet-range-5")).toMatchObject({
+      className: "mv-bullet-range mv-bullet-range-5",
+    });
+  });
+});
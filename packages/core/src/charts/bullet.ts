@@ -0,0 +1,251 @@
+import { createValueFormatter } from "../format";
+import type { A11yItem, Mark, RectMark } from "../model";
+import { type ThemePaint, themePaint } from "../theme";
+import type { ChartDefinition } from "./chart-definition";
+import type { Layout } from "./context";
+import {
+  clamp,
+  coerceFiniteNonNegative,
+  isFiniteNumber,
+  pushWarning,
+} from "./shared";
+import type {
+  BulletData,
+  BulletOrientation,
+  BulletSpec,
+  NormalizedBullet,
+} from "./types";
+
+/** Qualitative range names by range count, lowest first. */
+const DEFAULT_RANGE_LABELS: Readonly<Record<number, ReadonlyArray<string>>> = {
+  2: ["poor", "good"],
+  3: ["poor", "satisfactory", "good"],
+  4: ["poor", "fair", "satisfactory", "good"],
+  5: ["bad", "poor", "fair", "satisfactory", "good"],
+};
+
+/** Range shading steps; `mv-bullet-range-1` is the darkest. */
+const RANGE_SHADES = 5;
+
+/** Theme fill opacity of each shade, as in the `mv-bullet-range-N` rules. */
+const RANGE_SHADE_OPACITY = [0.55, 0.4, 0.28, 0.18, 0.1] as const;
+
+/** Theme paint of the value bar and target tick. */
+const FG_PAINT: ThemePaint = { fill: "fg" };
+
+/** "'satisfactory' range", or "range 2 of 6" when the range has no name. */
+function rangeText(spec: BulletSpec, index: number, count: number): string {
+  const name =
+    spec.rangeLabels?.[index] ?? DEFAULT_RANGE_LABELS[count]?.[index];
+  return name ? `'${name}' range` : `range ${index + 1} of ${count}`;
+}
+
+/** Index of the range containing `value`; values past the last are in it. */
+function rangeIndexOf(ranges: ReadonlyArray<number>, value: number): number {
+  const index = ranges.findIndex((bound) => value <= bound);
+  return index === -1 ? ranges.length - 1 : index;
+}
+
+/**
+ * A rect spanning `start..end` pixels along the value axis, `size` pixels
+ * thick and centered across it. Vertical bullets grow upward.
+ */
+function bandRect(
+  orientation: BulletOrientation,
+  layout: Layout,
+  start: number,
+  end: number,
+  size: number,
+): Pick<RectMark, "h" | "w" | "x" | "y"> {
+  const usableW = Math.max(0, layout.width - layout.pad * 2);
+  const usableH = Math.max(0, layout.height - layout.pad * 2);
+  if (orientation === "vertical") {
+    return {
+      h: end - start,
+      w: size,
+      x: layout.pad + (usableW - size) / 2,
+      y: layout.pad + usableH - end,
+    };
+  }
+  return {
+    h: size,
+    w: end - start,
+    x: layout.pad + start,
+    y: layout.pad + (usableH - size) / 2,
+  };
+}
+
+/**
+ * Bullet chart: Stephen Few's bullet graph.
+ * A value bar over 2–5 shaded qualitative ranges, with an optional target
+ * tick. Range shading comes from `mv-bullet-range-N` classes (darkest for the
+ * lowest range), so themes control it.
+ */
+export const bulletChart = {
+  a11y(spec, normalized, _layout) {
+    const { max, ranges, target, value } = normalized;
+    const formatNumber = createValueFormatter(spec.format);
+    const items: A11yItem[] = [
+      {
+        datum: { series: "value", value },
+        id: "bullet-bar",
+        label: "Value",
+        value,
+        valueText: formatNumber(value),
+      },
+    ];
+    if (target !== undefined) {
+      items.push({
+        datum: { series: "target", value: target },
+        id: "bullet-target",
+        label: "Target",
+        value: target,
+        valueText: formatNumber(target),
+      });
+    }
+    ranges.forEach((bound, i) => {
+      const text = rangeText(spec, i, ranges.length);
+      items.push({
+        datum: { index: i, value: bound },
+        id: `bullet-range-${i}`,
+        label: `${text.charAt(0).toUpperCase()}${text.slice(1)}`,
+        value: bound,
+        valueText: `${formatNumber(ranges[i - 1] ?? 0)}–${formatNumber(bound)}`,
+      });
+    });
+
+    const of =
+      target === undefined
+        ? `of ${formatNumber(max)}`
+        : `of target ${formatNumber(target)}`;
+    const within =
+      ranges.length > 0
+        ? `, in ${rangeText(spec, rangeIndexOf(ranges, value), ranges.length)}`
+        : "";
+    return {
+      items,
+      label: `Bullet chart (${formatNumber(value)} ${of}${within})`,
+      role: "img",
+    };
+  },
+  category: "bars" as const,
+  defaultPad: 2,
+  displayName: "Bullet",
+  isEmpty(_normalized) {
+    return false;
+  },
+  marks(spec, normalized, layout, _state, theme, warnings) {
+    const { max, ranges, target, value } = normalized;
+    const orientation = spec.orientation ?? "horizontal";
+    const usableW = Math.max(0, layout.width - layout.pad * 2);
+    const usableH = Math.max(0, layout.height - layout.pad * 2);
+    const [length, thickness] =
+      orientation === "vertical" ? [usableH, usableW] : [usableW, usableH];
+    if (length <= 0 || thickness <= 0) return [];
+
+    const scale = (v: number) =>
+      max === 0 ? 0 : (clamp(v, 0, max) / max) * length;
+    const fraction = (option: number | undefined, fallback: number) =>
+      clamp(
+        coerceFiniteNonNegative(
+          option ?? fallback,
+          fallback,
+          warnings,
+          `Non-finite bullet size; defaulted to ${fallback}.`,
+        ),
+        0,
+        1,
+      );
+    const barSize = fraction(spec.barSize, 1 / 3) * thickness;
+    const targetSize = fraction(spec.targetSize, 0.7) * thickness;
+    const targetWidth = coerceFiniteNonNegative(
+      spec.targetWidth ?? 2,
+      2,
+      warnings,
+      "Non-finite bullet targetWidth; defaulted to 2.",
+    );
+
+    if (ranges.length > RANGE_SHADES && warnings) {
+      pushWarning(warnings, {
+        code: "OUT_OF_RANGE",
+        hint: `Merge ranges down to ${RANGE_SHADES} or fewer.`,
+        message: `${ranges.length} bullet ranges; ranges past the ${RANGE_SHADES}th share its shade.`,
+        phase: "compute",
+      });
+    }
+
+    const classSuffix = spec.className ? ` ${spec.className}` : "";
+    const marks: Mark[] = ranges.map((bound, i) => ({
+      ...themePaint(theme, {
+        fill: "muted",
+        fillOpacity: RANGE_SHADE_OPACITY[Math.min(i, RANGE_SHADES - 1)],
+      }),
+      className: `mv-bullet-range mv-bullet-range-${Math.min(i + 1, RANGE_SHADES)}${classSuffix}`,
+      datum: { index: i, value: bound },
+      id: `bullet-range-${i}`,
+      type: "rect" as const,
+      ...bandRect(
+        orientation,
+        layout,
+        scale(ranges[i - 1] ?? 0),
+        scale(bound),
+        thickness,
+      ),
+    }));
+
+    marks.push({
+      ...themePaint(theme, FG_PAINT),
+      className: `mv-bullet-bar${classSuffix}`,
+      datum: { series: "value", value },
+      id: "bullet-bar",
+      type: "rect",
+      ...bandRect(orientation, layout, 0, scale(value), barSize),
+    });
+
+    if (target !== undefined && targetWidth > 0) {
+      const at = clamp(
+        scale(target),
+        targetWidth / 2,
+        length - targetWidth / 2,
+      );
+      marks.push({
+        ...themePaint(theme, FG_PAINT),
+        className: `mv-bullet-target${classSuffix}`,
+        datum: { series: "target", value: target },
+        id: "bullet-target",
+        type: "rect",
+        ...bandRect(
+          orientation,
+          layout,
+          at - targetWidth / 2,
+          at + targetWidth / 2,
+          targetSize,
+        ),
+      });
+    }
+    return marks;
+  },
+  normalize(_spec, data) {
+    const value = isFiniteNumber(data.value) ? Math.max(0, data.value) : 0;
+    const target = isFiniteNumber(data.target)
+      ? Math.max(0, data.target)
+      : undefined;
+    const bounds = (data.ranges ?? [])
+      .filter(isFiniteNumber)
+      .map((bound) => Math.max(0, bound))
+      .sort((a, b) => a - b);
+    const max =
+      isFiniteNumber(data.max) && data.max > 0
+        ? data.max
+        : Math.max(bounds[bounds.length - 1] ?? 0, value, target ?? 0);
+    return {
+      max,
+      ranges: bounds.map((bound) => Math.min(bound, max)),
+      target,
+      type: "bullet" as const,
+      value,
+    };
+  },
+  preferredAspectRatio: "wide" as const,
+  type: "bullet",
+} satisfies ChartDefinition<"bullet", BulletSpec, BulletData, NormalizedBullet>;
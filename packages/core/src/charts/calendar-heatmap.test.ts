@@ -0,0 +1,179 @@
+import { describe, expect, test } from "vitest";
+import { computeModel } from "../compute";
+import type { Mark, RectMark } from "../model";
+import type { CalendarHeatmapData, CalendarHeatmapSpec } from "./types";
+
+function calendar(
+  data: CalendarHeatmapData,
+  spec: Omit<CalendarHeatmapSpec, "type"> = {},
+) {
+  return computeModel({
+    data,
+    size: { height: 70, width: 20 },
+    spec: { gap: 0, pad: 0, type: "calendar-heatmap", ...spec },
+  });
+}
+
+function byId(marks: ReadonlyArray<Mark>, id: string): Mark | undefined {
+  return marks.find((mark) => mark.id === id);
+}
+
+describe("calendar-heatmap", () => {
+  test("produces a deterministic RenderModel", () => {
+    const input = {
+      data: [
+        { date: "2025-03-03", value: 4 },
+        { date: "2025-03-10", value: 12 },
+      ],
+      size: { height: 40, width: 200 },
+      spec: { type: "calendar-heatmap" as const },
+    };
+
+    const a = computeModel(input);
+    const b = computeModel(input);
+
+    expect(a).toEqual(b);
+    expect(a.marks.filter((m) => m.type === "rect")).toHaveLength(8);
+    expect(a.stats?.warnings).toBeUndefined();
+  });
+
+  test("lays out weeks as columns and weekdays as rows", () => {
+    // 2025-03-01 is a Saturday.
+    const model = calendar([
+      { date: "2025-03-01", value: 1 },
+      { date: "2025-03-04", value: 2 },
+    ]);
+    expect(byId(model.marks, "calendar-heatmap-day-2025-03-01")).toMatchObject({
+      h: 10,
+      w: 10,
+      x: 0,
+      y: 60,
+    });
+    expect(byId(model.marks, "calendar-heatmap-day-2025-03-04")).toMatchObject({
+      x: 10,
+      y: 20,
+    });
+  });
+
+  test("starts columns on the configured weekday", () => {
+    const model = calendar(
+      [
+        { date: "2025-03-01", value: 1 },
+        { date: "2025-03-03", value: 2 },
+      ],
+      { weekStart: 1 },
+    );
+    expect(byId(model.marks, "calendar-heatmap-day-2025-03-01")).toMatchObject({
+      x: 0,
+      y: 50,
+    });
+    expect(byId(model.marks, "calendar-heatmap-day-2025-03-03")).toMatchObject({
+      x: 10,
+      y: 0,
+    });
+  });
+
+  test("quantizes values into color steps and styles empty days", () => {
+    const model = calendar([
+      { date: "2025-03-02", value: 0 },
+      { date: "2025-03-03", value: 1 },
+      { date: "2025-03-04", value: 4 },
+      { date: "2025-03-06", value: 8 },
+    ]);
+    const days = model.marks.filter((m): m is RectMark => m.type === "rect");
+    expect(days.map((d) => d.className)).toEqual([
+      "mv-calendar-heatmap-day mv-calendar-heatmap-empty",
+      "mv-calendar-heatmap-day mv-calendar-heatmap-level-1",
+      "mv-calendar-heatmap-day mv-calendar-heatmap-level-2",
+      "mv-calendar-heatmap-day mv-calendar-heatmap-empty",
+      "mv-calendar-heatmap-day mv-calendar-heatmap-level-4",
+    ]);
+    expect(days[4]?.fillOpacity).toBe(1);
+  });
+
+  test("describes each day with a grid cell", () => {
+    const model = calendar(
+      [
+        { date: "2025-03-03", value: 1 },
+        { date: "2025-03-04", value: 12 },
+        { date: "2025-03-04", value: 0 },
+        { date: "2025-03-06", value: 3 },
+      ],
+      { unit: "commit" },
+    );
+    expect(model.a11y.items?.slice(0, 3)).toEqual([
+      {
+        datum: { index: 0, value: 1, x: Date.UTC(2025, 2, 3) },
+        grid: { col: 0, row: 1 },
+        id: "calendar-heatmap-day-2025-03-03",
+        label: "Mon Mar 3",
+        value: 1,
+        valueText: "1 commit",
+      },
+      {
+        datum: { index: 1, value: 12, x: Date.UTC(2025, 2, 4) },
+        grid: { col: 0, row: 2 },
+        id: "calendar-heatmap-day-2025-03-04",
+        label: "Tue Mar 4",
+        value: 12,
+        valueText: "12 commits",
+      },
+      {
+        datum: { x: Date.UTC(2025, 2, 5) },
+        grid: { col: 0, row: 3 },
+        id: "calendar-heatmap-day-2025-03-05",
+        label: "Wed Mar 5",
+        value: undefined,
+        valueText: "no data",
+      },
+    ]);
+    expect(model.a11y.label).toBe(
+      "Calendar heatmap (Mon Mar 3 – Thu Mar 6, 16 commits on 3 of 4 days, busiest Tue Mar 4: 12 commits)",
+    );
+  });
+
+  test("outlines the start of each month", () => {
+    // 2025-02-27 is a Thursday, so March 1 closes the first column.
+    const data = ["2025-02-27", "2025-03-01", "2025-03-03"].map((date) => ({
+      date,
+      value: 1,
+    }));
+    expect(
+      byId(calendar(data).marks, "calendar-heatmap-month-2025-03"),
+    ).toEqual({
+      className: "mv-calendar-heatmap-month",
+      d: "M 0 70 V 60 H 10 V 0",
+      id: "calendar-heatmap-month-2025-03",
+      type: "path",
+    });
+    expect(
+      calendar(data, { monthBoundaries: false }).marks.some(
+        (m) => m.type === "path",
+      ),
+    ).toBe(false);
+  });
+
+  test("warns on empty data", () => {
+    const model = calendar([{ date: "not a date", value: 3 }]);
+    expect(model.marks).toEqual([]);
+    expect(model.a11y.label).toBe("Calendar heatmap (empty)");
+    expect(model.stats?.warnings?.[0]?.code).toBe("EMPTY_DATA");
+  });
+
+  test("buckets Date objects and other date strings by local calendar date", () => {
+    const model = calendar([
+      { date: new Date(2025, 2, 3), value: 1 },
+      { date: new Date(2025, 2, 4, 23, 30), value: 2 },
+      { date: "March 5, 2025 00:15", value: 3 },
+      { date: "2025-03-06", value: 4 },
+      { date: Date.UTC(2025, 2, 7, 12), value: 5 },
+    ]);
+    expect(model.a11y.items?.map((item) => [item.id, item.value])).toEqual([
+      ["calendar-heatmap-day-2025-03-03", 1],
+      ["calendar-heatmap-day-2025-03-04", 2],
+      ["calendar-heatmap-day-2025-03-05", 3],
+      ["calendar-heatmap-day-2025-03-06", 4],
+      ["calendar-heatmap-day-2025-03-07", 5],
+    ]);
+  });
+});
@@ -0,0 +1,281 @@
+import { createDayFormatter, createValueFormatter } from "../format";
+import type { A11yItem, Mark, MarkDatum } from "../model";
+import { themePaint } from "../theme";
+import type { ChartDefinition } from "./chart-definition";
+import type { Layout } from "./context";
+import {
+  clamp,
+  coerceFiniteInt,
+  coerceFiniteNonNegative,
+  isFiniteNumber,
+  SERIES_FILL_PAINT,
+  xValueToNumber,
+} from "./shared";
+import type {
+  CalendarHeatmapData,
+  CalendarHeatmapDay,
+  CalendarHeatmapRecord,
+  CalendarHeatmapSpec,
+  NormalizedCalendarHeatmap,
+} from "./types";
+
+const DAY_MS = 86_400_000;
+
+/** Longest span drawn (ten years); older days are dropped. */
+const MAX_DAYS = 3660;
+
+/** Weekday of a UTC midnight, 0 = Sunday (1970-01-01 was a Thursday). */
+function weekdayOf(date: number): number {
+  return (Math.floor(date / DAY_MS) + 4) % 7;
+}
+
+/** `"2025-03-04"`, for stable mark ids. */
+function isoDay(date: number): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+type DayCell = { col: number; row: number };
+
+/**
+ * Week column and weekday row of each day. Column 0 is the week holding the
+ * first day, so the first column may start part-way down.
+ */
+function dayCells(normalized: NormalizedCalendarHeatmap): DayCell[] {
+  const first = normalized.days[0];
+  if (!first) return [];
+  const offset = (weekdayOf(first.date) - normalized.weekStart + 7) % 7;
+  return normalized.days.map((_, i) => ({
+    col: Math.floor((offset + i) / 7),
+    row: (offset + i) % 7,
+  }));
+}
+
+/** Quantized color step, 1..`steps`; 0 for empty days. */
+function levelOf(
+  value: number | undefined,
+  max: number,
+  steps: number,
+): number {
+  if (value === undefined || value <= 0 || max <= 0) return 0;
+  return clamp(Math.ceil((value / max) * steps), 1, steps);
+}
+
+/**
+ * Outline between the previous month and the one starting at `cell`: down the
+ * left of its column from its row, across above it, then up the left of the
+ * next column. Lines run through the gaps so they don't cover cells.
+ */
+function monthBoundaryPath(
+  cell: DayCell,
+  layout: Layout,
+  size: number,
+  gap: number,
+): string {
+  const pitch = size + gap;
+  const left = layout.pad + cell.col * pitch - gap / 2;
+  const right = left + pitch;
+  const top = layout.pad;
+  const bottom = layout.pad + 7 * pitch - gap;
+  if (cell.row === 0) return `M ${left} ${bottom} V ${top}`;
+  const step = layout.pad + cell.row * pitch - gap / 2;
+  return `M ${left} ${bottom} V ${step} H ${right} V ${top}`;
+}
+
+const ISO_DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * UTC midnight of the calendar day a record falls on. Epoch numbers and
+ * `"YYYY-MM-DD"` strings are UTC days already; `Date` objects and other date
+ * strings are bucketed by their local calendar date, so a local midnight
+ * doesn't land on the previous day east of UTC.
+ */
+function dayOf(date: CalendarHeatmapRecord["date"]): number | null {
+  const time = xValueToNumber(date);
+  if (time === null) return null;
+  const local =
+    date instanceof Date ||
+    (typeof date === "string" &&
+      !ISO_DAY.test(date.trim()) &&
+      !Number.isFinite(Number(date.trim())));
+  if (!local) return Math.floor(time / DAY_MS) * DAY_MS;
+  const day = new Date(time);
+  return Date.UTC(day.getFullYear(), day.getMonth(), day.getDate());
+}
+
+function dayDatum(day: CalendarHeatmapDay): MarkDatum {
+  if (day.value === undefined) return { x: day.date };
+  return day.index === undefined
+    ? { value: day.value, x: day.date }
+    : { index: day.index, value: day.value, x: day.date };
+}
+
+/**
+ * Calendar heatmap chart: a contribution calendar of `{ date, value }`
+ * records. Weeks are columns and weekdays rows; values are quantized into
+ * `steps` color levels and days without activity get `mv-calendar-heatmap-empty`.
+ * A11y items carry grid cells so arrow keys move by day and by week.
+ */
+export const calendarHeatmapChart = {
+  a11y(spec, normalized, _layout) {
+    const { days } = normalized;
+    const first = days[0];
+    const last = days[days.length - 1];
+    if (!first || !last)
+      return { label: "Calendar heatmap (empty)", role: "img" };
+
+    const formatDay = createDayFormatter(spec.format);
+    const formatNumber = createValueFormatter(spec.format);
+    const unit = spec.unit?.trim();
+    const amount = (value: number) => {
+      if (!unit) return formatNumber(value);
+      const noun = value === 1 ? unit : (spec.unitPlural ?? `${unit}s`);
+      return `${formatNumber(value)} ${noun}`;
+    };
+
+    const cells = dayCells(normalized);
+    const items: A11yItem[] = days.map((day, i) => ({
+      datum: dayDatum(day),
+      grid: cells[i],
+      id: `calendar-heatmap-day-${isoDay(day.date)}`,
+      label: formatDay(day.date),
+      value: day.value,
+      valueText: day.value === undefined ? "no data" : amount(day.value),
+    }));
+
+    let total = 0;
+    let active = 0;
+    let busiest: CalendarHeatmapDay | undefined;
+    for (const day of days) {
+      if (day.value === undefined) continue;
+      total += day.value;
+      if (day.value > 0) active++;
+      if (day.value > 0 && day.value > (busiest?.value ?? 0)) busiest = day;
+    }
+    const busiestText = busiest
+      ? `, busiest ${formatDay(busiest.date)}: ${amount(busiest.value ?? 0)}`
+      : "";
+    return {
+      items,
+      label:
+        `Calendar heatmap (${formatDay(first.date)} – ${formatDay(last.date)}, ` +
+        `${amount(total)} on ${active} of ${days.length} days${busiestText})`,
+      role: "img",
+    };
+  },
+  category: "grids" as const,
+  defaultPad: 0,
+  displayName: "Calendar heatmap",
+  emptyDataHint: 'Provide an array of { "date": "YYYY-MM-DD", "value": n }',
+  emptyDataWarningMessage: "No dated values.",
+  exampleHtml:
+    '<microviz-calendar-heatmap data=\'[{"date": "2025-03-03", "value": 4}, {"date": "2025-03-04", "value": 12}]\'></microviz-calendar-heatmap>',
+  isEmpty(normalized) {
+    return normalized.days.length === 0;
+  },
+  marks(spec, normalized, layout, _state, theme, warnings) {
+    const cells = dayCells(normalized);
+    const weeks = (cells[cells.length - 1]?.col ?? -1) + 1;
+    if (weeks <= 0) return [];
+
+    const steps = coerceFiniteInt(
+      spec.steps ?? 4,
+      4,
+      1,
+      warnings,
+      "Non-finite calendar-heatmap steps; defaulted to 4.",
+    );
+    const gap = coerceFiniteNonNegative(
+      spec.gap ?? 1,
+      1,
+      warnings,
+      "Non-finite calendar-heatmap gap; defaulted to 1.",
+    );
+    const usableW = Math.max(0, layout.width - layout.pad * 2);
+    const usableH = Math.max(0, layout.height - layout.pad * 2);
+    const size = Math.min(
+      (usableW - gap * (weeks - 1)) / weeks,
+      (usableH - gap * 6) / 7,
+    );
+    if (!(size > 0)) return [];
+
+    const classSuffix = spec.className ? ` ${spec.className}` : "";
+    const radius = Math.min(1.5, size / 4);
+    const emptyPaint = themePaint(theme, { fill: "muted", fillOpacity: 0.35 });
+    const levelPaint = themePaint(theme, SERIES_FILL_PAINT);
+    const marks: Mark[] = normalized.days.map((day, i) => {
+      const cell = cells[i] ?? { col: 0, row: 0 };
+      const level = levelOf(day.value, normalized.max, steps);
+      return {
+        ...(level === 0 ? emptyPaint : levelPaint),
+        className:
+          level === 0
+            ? `mv-calendar-heatmap-day mv-calendar-heatmap-empty${classSuffix}`
+            : `mv-calendar-heatmap-day mv-calendar-heatmap-level-${level}${classSuffix}`,
+        datum: dayDatum(day),
+        ...(level === 0 ? {} : { fillOpacity: 0.2 + 0.8 * (level / steps) }),
+        h: size,
+        id: `calendar-heatmap-day-${isoDay(day.date)}`,
+        rx: radius,
+        ry: radius,
+        type: "rect" as const,
+        w: size,
+        x: layout.pad + cell.col * (size + gap),
+        y: layout.pad + cell.row * (size + gap),
+      };
+    });
+
+    if (spec.monthBoundaries !== false) {
+      normalized.days.forEach((day, i) => {
+        const cell = cells[i];
+        if (i === 0 || !cell || new Date(day.date).getUTCDate() !== 1) return;
+        marks.push({
+          ...themePaint(theme, { fill: "none", stroke: "muted" }),
+          className: `mv-calendar-heatmap-month${classSuffix}`,
+          d: monthBoundaryPath(cell, layout, size, gap),
+          id: `calendar-heatmap-month-${isoDay(day.date).slice(0, 7)}`,
+          type: "path",
+        });
+      });
+    }
+    return marks;
+  },
+  normalize(spec, data) {
+    const weekStart = isFiniteNumber(spec.weekStart)
+      ? ((Math.floor(spec.weekStart) % 7) + 7) % 7
+      : 0;
+    const byDate = new Map<number, CalendarHeatmapDay>();
+    (Array.isArray(data) ? data : []).forEach((record, index) => {
+      const date =
+        record && typeof record === "object" ? dayOf(record.date) : null;
+      if (date === null) return;
+      const day = byDate.get(date) ?? { date };
+      if (isFiniteNumber(record.value)) {
+        day.value = (day.value ?? 0) + record.value;
+        day.index ??= index;
+      }
+      byDate.set(date, day);
+    });
+
+    const dates = [...byDate.keys()];
+    if (dates.length === 0) {
+      return { days: [], max: 0, type: "calendar-heatmap" as const, weekStart };
+    }
+    const end = Math.max(...dates);
+    const start = Math.max(Math.min(...dates), end - (MAX_DAYS - 1) * DAY_MS);
+    const days: CalendarHeatmapDay[] = [];
+    let max = 0;
+    for (let date = start; date <= end; date += DAY_MS) {
+      const day = byDate.get(date) ?? { date };
+      if (day.value !== undefined) max = Math.max(max, day.value);
+      days.push(day);
+    }
+    return { days, max, type: "calendar-heatmap" as const, weekStart };
+  },
+  preferredAspectRatio: "wide" as const,
+  type: "calendar-heatmap",
+} satisfies ChartDefinition<
+  "calendar-heatmap",
+  CalendarHeatmapSpec,
+  CalendarHeatmapData,
+  NormalizedCalendarHeatmap
+>;
@@ -1,4 +1,5 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -12,9 +13,10 @@ import type {
 } from "./types";
 
 export const cascadeStepsChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "cascade-steps-seg",
 
         labelFallback: "Segment",
@@ -22,6 +24,7 @@ export const cascadeStepsChart = {
       label: a11yLabelWithSegmentsSummary(
         "Cascade steps chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -70,6 +73,7 @@ export const cascadeStepsChart = {
 
         return {
           className: `mv-cascade-steps-bar${classSuffix}`,
+          datum: segmentDatum(seg, i),
           fill: run.color,
           h,
           id: `cascade-steps-bar-${i}`,
@@ -83,8 +87,8 @@ export const cascadeStepsChart = {
       })
       .filter((m) => m !== null);
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "cascade-steps" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,3 +1,5 @@
+import type { ChartScales } from "../annotations";
+import type { Downsampled } from "../downsample";
 import type { A11yTree, Def, DiagnosticWarning, Mark } from "../model";
 import type { InteractionState, Layout, ThemeTokens } from "./context";
 
@@ -50,7 +52,26 @@ export type ChartDefinition<
     layout: Layout,
     warnings: DiagnosticWarning[] | undefined,
   ): Def[];
+  /**
+   * Thins long series to what the layout can show. Marks, defs and scales
+   * draw the result; a11y still describes the full data.
+   */
+  downsample?(
+    spec: Spec,
+    normalized: Normalized,
+    layout: Layout,
+    warnings: DiagnosticWarning[] | undefined,
+  ): Downsampled<Normalized>;
   a11y(spec: Spec, normalized: Normalized, layout: Layout): A11yTree;
+  /**
+   * Data-to-pixel scales, for charts that support spec `annotations`. Null
+   * when nothing is plotted (e.g. bars too narrow to draw).
+   */
+  scales?(
+    spec: Spec,
+    normalized: Normalized,
+    layout: Layout,
+  ): ChartScales | null;
 };
 
 export type AnyChartDefinition = ChartDefinition<
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -36,14 +37,19 @@ function chevronPath(options: {
 }
 
 export const chevronChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "chevron-seg",
 
         labelFallback: "Segment",
       }),
-      label: a11yLabelWithSegmentsSummary("Chevron chart", normalized.segments),
+      label: a11yLabelWithSegmentsSummary(
+        "Chevron chart",
+        normalized.segments,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -93,6 +99,7 @@ export const chevronChart = {
           x,
           y: y0,
         }),
+        datum: segmentDatum(run, i),
         fill: run.color,
         id: `chevron-seg-${i}`,
         type: "path",
@@ -101,8 +108,8 @@ export const chevronChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "chevron" as const };
   },
   preferredAspectRatio: "wide" as const,
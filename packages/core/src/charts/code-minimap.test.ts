@@ -53,4 +53,17 @@ describe("code-minimap", () => {
     const model = computeModel(input);
     expect(model.marks.length).toBe(0);
   });
+
+  test("leaves a gap's line blank", () => {
+    const model = computeModel({
+      data: [1, null, 3],
+      size: { height: 32, width: 32 },
+      spec: { lines: 3, type: "code-minimap" },
+    });
+
+    expect(model.marks.map((m) => m.id)).toEqual([
+      "code-minimap-line-0",
+      "code-minimap-line-2",
+    ]);
+  });
 });
@@ -1,11 +1,14 @@
 import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import { resolveDomain } from "../domain";
 import type { Mark } from "../model";
+import { themePaint } from "../theme";
+import { resampledSeriesDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
   coerceFiniteInt,
   coerceFiniteNonNegative,
-  isFiniteNumber,
+  normalizeGappedSeries,
   resampleSeries,
 } from "./shared";
 import type {
@@ -17,15 +20,17 @@ import type {
 const DEFAULT_WIDTH_PATTERN = [28, 20, 30, 16, 24, 28, 12, 22] as const;
 
 export const codeMinimapChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSeries(normalized.series, {
+        format: spec.format,
         idPrefix: "code-minimap-line",
         labelPrefix: "Line",
       }),
       label: a11yLabelWithSeriesSummary(
         "Code minimap chart",
         normalized.series,
+        spec.format,
       ),
       role: "img",
     };
@@ -35,9 +40,9 @@ export const codeMinimapChart = {
   displayName: "Code minimap",
   emptyDataWarningMessage: "No series data.",
   isEmpty(normalized) {
-    return normalized.series.length === 0;
+    return normalized.series.every((v) => v === null);
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const series = normalized.series;
     if (series.length === 0) return [];
 
@@ -108,10 +113,13 @@ export const codeMinimapChart = {
     const classSuffix = spec.className ? ` ${spec.className}` : "";
     const colors = spec.colors;
     const fallbackColor = colors?.[colors.length - 1];
+    const themeFill = themePaint(theme, { fill: "fg" }).fill;
 
     const marks: Mark[] = [];
     for (let i = 0; i < lines; i++) {
       const value = values[i];
+      // A gap keeps its line blank.
+      if (value === null) continue;
       const normalizedValue =
         value === undefined ? 0 : clamp((value - normalized.min) / denom, 0, 1);
 
@@ -128,7 +136,8 @@ export const codeMinimapChart = {
 
       marks.push({
         className: `mv-code-minimap-line${classSuffix}`,
-        fill: colors ? (colors[i] ?? fallbackColor) : undefined,
+        datum: resampledSeriesDatum(series, i, lines),
+        fill: colors ? (colors[i] ?? fallbackColor) : themeFill,
         h: lineHeight,
         id: `code-minimap-line-${i}`,
         rx: lineRadius,
@@ -143,9 +152,8 @@ export const codeMinimapChart = {
     return marks;
   },
   normalize(_spec, data) {
-    const series = data.filter(isFiniteNumber);
-    const min = series.length > 0 ? Math.min(...series) : 0;
-    const max = series.length > 0 ? Math.max(...series) : 1;
+    const series = normalizeGappedSeries(data);
+    const { max, min } = resolveDomain(series);
     return { max, min, series, type: "code-minimap" as const };
   },
   preferredAspectRatio: "square" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
@@ -18,9 +19,10 @@ function fmt(x: number): string {
 }
 
 export const concentricArcsHorizChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.arcs, {
+        format: spec.format,
         idPrefix: "concentric-arcs-horiz-arc",
       }),
       label: a11yLabelWithSegmentsSummary(
@@ -94,6 +96,7 @@ export const concentricArcsHorizChart = {
       marks.push({
         className: `mv-concentric-arcs-horiz-arc${classSuffix}`,
         d,
+        datum: segmentDatum(arc, i),
         fill: "none",
         id: `concentric-arcs-horiz-arc-${i}`,
         stroke: arc.color,
@@ -105,8 +108,8 @@ export const concentricArcsHorizChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const arcs = normalizeSegments(data);
+  normalize(spec, data) {
+    const arcs = normalizeSegments(data, spec.palette);
     return { arcs, type: "concentric-arcs-horiz" as const };
   },
   preferredAspectRatio: "square" as const,
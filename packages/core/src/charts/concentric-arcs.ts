@@ -1,5 +1,7 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { assignPaletteColors } from "../palette";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { coerceFiniteInt, coerceFiniteNonNegative } from "./shared";
 import type {
@@ -9,14 +11,16 @@ import type {
 } from "./types";
 
 export const concentricArcsChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.arcs, {
+        format: spec.format,
         idPrefix: "concentric-arcs-ring",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Concentric arcs chart",
         normalized.arcs,
+        spec.format,
       ),
       role: "img",
     };
@@ -83,42 +87,46 @@ export const concentricArcsChart = {
 
       // Radius increases from center outward
       const r = innerMostRadius + i * ringStep;
-      const circumference = 2 * Math.PI * r;
 
-      // Calculate dash based on percentage
+      // Round caps overhang each end by half the stroke width; widen the
+      // sweep to keep the visible arc length unchanged.
       const pct = Math.max(0, Math.min(100, arc.pct));
-      const dashLength = (pct / 100) * circumference;
-      const gapLength = circumference - dashLength;
+      const capAngle = strokeWidth / 2 / r;
+      const startAngle = -Math.PI / 2 - capAngle;
+      const endAngle = -Math.PI / 2 + (pct / 100) * Math.PI * 2 + capAngle;
 
       marks.push({
         className: `mv-concentric-arcs-ring${classSuffix}`,
+        cornerRadius: strokeWidth / 2,
         cx,
         cy,
-        fill: "none",
+        datum: segmentDatum(arc, i % arcs.length),
+        endAngle,
+        fill: arc.color,
         id: `concentric-arcs-ring-${i}`,
-        r,
-        stroke: arc.color,
-        // Dash pattern: visible arc, then gap
-        strokeDasharray: `${dashLength.toFixed(2)} ${gapLength.toFixed(2)}`,
-        // Rotate to start from top (12 o'clock position)
-        strokeDashoffset: String(circumference * 0.25),
-        strokeLinecap: "round",
-        strokeWidth,
-        type: "circle" as const,
+        innerR: Math.max(0, r - strokeWidth / 2),
+        outerR: r + strokeWidth / 2,
+        startAngle,
+        type: "arc" as const,
       });
     }
 
     return marks;
   },
-  normalize(_spec, data) {
-    // Filter valid arcs and normalize
-    const arcs = data
-      .filter((s) => Number.isFinite(s.pct) && s.pct > 0 && s.color.length > 0)
-      .map((s) => ({
-        color: s.color,
-        name: s.name,
-        pct: Math.max(0, Math.min(100, s.pct)),
-      }));
+  normalize(spec, data) {
+    // Colors follow input positions, then invalid arcs are dropped.
+    const colors = assignPaletteColors(data, spec.palette);
+    const arcs = data.flatMap((s, i) =>
+      Number.isFinite(s.pct) && s.pct > 0
+        ? [
+            {
+              color: colors[i] as string,
+              name: s.name,
+              pct: Math.max(0, Math.min(100, s.pct)),
+            },
+          ]
+        : [],
+    );
     return { arcs, type: "concentric-arcs" as const };
   },
   preferredAspectRatio: "square" as const,
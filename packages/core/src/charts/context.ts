@@ -3,17 +3,37 @@ export type InteractionState = {
   hoveredMarkId?: string;
   selectedMarkIds?: ReadonlyArray<string>;
   focusedMarkId?: string;
+  /**
+   * Opacity multiplier for data marks that are neither hovered, focused nor
+   * selected while another mark is. Unset, they only get `mv-dimmed`.
+   */
+  dimOpacity?: number;
 };
 
+/**
+ * Theme for chart computation, mirroring the `--mv-*` CSS tokens. Unset
+ * tokens fall back to the default preset (see `themePresets`).
+ */
 export type ThemeTokens = {
+  /** Series palette (`--mv-series-N`); indices past the end cycle. */
+  series?: ReadonlyArray<string>;
+  /** @deprecated Use `series`; replaces only the first palette color. */
+  series1?: string;
+  bg?: string;
+  fg?: string;
+  muted?: string;
+  /** Baselines and other guide lines (`--mv-grid`). */
+  grid?: string;
   /**
-   * Optional theme overrides for chart computation.
-   *
-   * Today, built-in charts are CSS-first and do not consume these tokens.
-   * Prefer CSS variables (`--mv-*`) and renderer defaults (e.g. Canvas
-   * `fillStyle`/`strokeStyle`) for styling.
+   * Corner radius in px for bars and segments (`--mv-radius`). Unset, each
+   * chart keeps its own corners; a chart's `barRadius` still wins.
    */
-  series1?: string;
+  radius?: number;
+  /** Line stroke width in px. */
+  strokeWidth?: number;
+  fontFamily?: string;
+  /** Label font size in px. */
+  fontSize?: number;
 };
 
 export type Layout = {
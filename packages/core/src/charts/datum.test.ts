@@ -0,0 +1,103 @@
+import { describe, expect, test } from "vitest";
+import { computeModel } from "../compute";
+import { hitTest } from "../hit-test";
+import type { Mark } from "../model";
+import { chartRegistry } from "./registry";
+
+const SERIES_SAMPLE: number[] = [0, 1, 2, 3, 4, 3, 2];
+const SEGMENTS_SAMPLE = [
+  { color: "#2563eb", name: "A", pct: 50 },
+  { color: "#f97316", name: "B", pct: 30 },
+  { color: "#22c55e", name: "C", pct: 20 },
+];
+
+function sampleData(type: string, def: unknown): unknown {
+  if (type === "bar") return { max: 100, value: 72 };
+  if (type === "bullet")
+    return { ranges: [50, 75, 100], target: 80, value: 72 };
+  if (type === "bullet-delta") return { current: 70, max: 100, previous: 40 };
+  if (type === "calendar-heatmap")
+    return SERIES_SAMPLE.map((value, i) => ({
+      date: Date.UTC(2025, 2, 3 + i),
+      value,
+    }));
+  if (type === "dumbbell") return { current: 40, max: 100, target: 80 };
+  if (type === "dot-matrix") return { series: SERIES_SAMPLE };
+  if (type === "heatgrid") return { series: SERIES_SAMPLE };
+  if (type === "histogram") return { series: SERIES_SAMPLE };
+  if (type === "multi-sparkline")
+    return [
+      { name: "A", values: SERIES_SAMPLE },
+      { name: "B", values: [...SERIES_SAMPLE].reverse() },
+    ];
+
+  const emptyDataWarningMessage = (
+    def as { emptyDataWarningMessage?: string } | null
+  )?.emptyDataWarningMessage;
+  if (emptyDataWarningMessage?.includes("series")) return SERIES_SAMPLE;
+
+  return SEGMENTS_SAMPLE;
+}
+
+function flatten(marks: ReadonlyArray<Mark>): Mark[] {
+  return marks.flatMap((mark) =>
+    mark.type === "group" ? [mark, ...flatten(mark.marks)] : [mark],
+  );
+}
+
+describe("mark datums", () => {
+  test("all charts bind source data to marks and a11y items", () => {
+    for (const [type, def] of Object.entries(chartRegistry)) {
+      const model = computeModel({
+        data: sampleData(type, def) as never,
+        size: { height: 80, width: 160 },
+        spec: { type } as never,
+      });
+
+      const bound = flatten(model.marks).filter(
+        (mark) =>
+          mark.datum !== undefined ||
+          ((mark.type === "polyline" || mark.type === "area") &&
+            mark.pointData !== undefined),
+      );
+      expect(bound.length, `${type} marks carry no datum`).toBeGreaterThan(0);
+
+      for (const item of model.a11y?.items ?? []) {
+        expect(
+          item.datum,
+          `${type} item ${item.id} has no datum`,
+        ).toBeDefined();
+      }
+    }
+  });
+
+  test("segment datums point back at the input segment", () => {
+    const model = computeModel({
+      data: SEGMENTS_SAMPLE,
+      size: { height: 10, width: 100 },
+      spec: { gap: 0, pad: 0, type: "segmented-bar" },
+    });
+
+    expect(model.marks.map((mark) => mark.datum)).toEqual([
+      { index: 0, segment: "A", value: 50 },
+      { index: 1, segment: "B", value: 30 },
+      { index: 2, segment: "C", value: 20 },
+    ]);
+    expect(hitTest(model, { x: 60, y: 5 })?.datum?.segment).toBe("B");
+  });
+
+  test("series lines resolve hits to the nearest source point", () => {
+    const model = computeModel({
+      data: [10, 25, 15, 30, 20],
+      size: { height: 32, width: 200 },
+      spec: { pad: 0, showDot: false, type: "sparkline" },
+    });
+
+    // Points sit at x = 0, 50, 100, 150, 200; 30 is the top of the chart.
+    expect(hitTest(model, { x: 148, y: 0 })?.datum).toEqual({
+      index: 3,
+      value: 30,
+    });
+    expect(model.a11y?.items?.[3]?.datum).toEqual({ index: 3, value: 30 });
+  });
+});
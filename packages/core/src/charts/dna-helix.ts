@@ -1,13 +1,15 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { layoutSegmentsByPct, normalizeSegments } from "./shared";
 import type { BitfieldData, DnaHelixSpec, NormalizedDnaHelix } from "./types";
 
 export const dnaHelixChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "dna-helix-seg",
 
         labelFallback: "Segment",
@@ -15,6 +17,7 @@ export const dnaHelixChart = {
       label: a11yLabelWithSegmentsSummary(
         "DNA helix chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -64,6 +67,7 @@ export const dnaHelixChart = {
 
       const topRect: Mark = {
         className: `mv-dna-helix-top${classSuffix}`,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h: strandHeight,
         id: `dna-helix-top-${i}`,
@@ -77,6 +81,7 @@ export const dnaHelixChart = {
 
       const bottomRect: Mark = {
         className: `mv-dna-helix-bottom${classSuffix}`,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h: strandHeight,
         id: `dna-helix-bottom-${i}`,
@@ -118,8 +123,8 @@ export const dnaHelixChart = {
     // For alternating segments, this creates the weaving effect
     return [...bottomStrand, ...topStrand];
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "dna-helix" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -21,7 +21,7 @@ describe("donut", () => {
     expect(a.stats?.warnings).toBeUndefined();
   });
 
-  test("creates path marks for each segment", () => {
+  test("creates arc marks for each segment", () => {
     const input = {
       data: [
         { color: "#ef4444", name: "A", pct: 50 },
@@ -34,14 +34,13 @@ describe("donut", () => {
     const model = computeModel(input);
     expect(model.marks.length).toBe(2);
 
-    for (const mark of model.marks) {
-      expect(mark.type).toBe("path");
-      if (mark.type === "path") {
-        // Path should contain arc commands
-        expect(mark.d).toContain("A");
-        expect(mark.d).toContain("M");
-        expect(mark.d).toContain("Z");
-      }
+    const [first, second] = model.marks;
+    expect(first?.type).toBe("arc");
+    expect(second?.type).toBe("arc");
+    if (first?.type === "arc" && second?.type === "arc") {
+      // Segments tile the ring: each one ends where the next begins
+      expect(first.endAngle - first.startAngle).toBeCloseTo(Math.PI);
+      expect(second.startAngle).toBe(first.endAngle);
     }
   });
 
@@ -55,11 +54,11 @@ describe("donut", () => {
     const model = computeModel(input);
     const segment = model.marks[0];
 
-    if (segment?.type === "path") {
+    expect(segment?.type).toBe("arc");
+    if (segment?.type === "arc") {
       // With innerRadius of 0.3 and radius of 50, inner radius should be 15
-      // The path should contain arcs with radius ~50 (outer) and ~15 (inner)
-      expect(segment.d).toContain("50.00 50.00"); // outer radius arc
-      expect(segment.d).toContain("15.00 15.00"); // inner radius arc
+      expect(segment.outerR).toBe(50);
+      expect(segment.innerR).toBeCloseTo(15);
     }
   });
 
@@ -75,8 +74,8 @@ describe("donut", () => {
 
     const model = computeModel(input);
 
-    expect(model.marks[0]).toMatchObject({ fill: "#ff0000", type: "path" });
-    expect(model.marks[1]).toMatchObject({ fill: "#00ff00", type: "path" });
+    expect(model.marks[0]).toMatchObject({ fill: "#ff0000", type: "arc" });
+    expect(model.marks[1]).toMatchObject({ fill: "#00ff00", type: "arc" });
   });
 
   test("handles single segment (full circle)", () => {
@@ -90,11 +89,9 @@ describe("donut", () => {
     expect(model.marks.length).toBe(1);
 
     const segment = model.marks[0];
-    if (segment?.type === "path") {
-      // Full circle requires two half-arcs
-      // Count number of arc commands (should be 4: 2 outer + 2 inner)
-      const arcCount = (segment.d.match(/A /g) || []).length;
-      expect(arcCount).toBe(4);
+    expect(segment?.type).toBe("arc");
+    if (segment?.type === "arc") {
+      expect(segment.endAngle - segment.startAngle).toBeCloseTo(Math.PI * 2);
     }
   });
 
@@ -119,10 +116,11 @@ describe("donut", () => {
     const model = computeModel(input);
     const segment = model.marks[0];
 
-    if (segment?.type === "path") {
-      // First segment should start at top center (50, 0 for outer edge)
-      // With center at (50, 50) and radius 50, top point is (50, 0)
-      expect(segment.d).toMatch(/M 50\.00 0\.00/);
+    expect(segment?.type).toBe("arc");
+    if (segment?.type === "arc") {
+      expect(segment.startAngle).toBe(-Math.PI / 2);
+      expect(segment.cx).toBe(50);
+      expect(segment.cy).toBe(50);
     }
   });
 });
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   allocateUnitsByPct,
@@ -15,9 +16,10 @@ import type {
 } from "./types";
 
 export const dotCascadeChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "dot-cascade-seg",
 
         labelFallback: "Segment",
@@ -25,6 +27,7 @@ export const dotCascadeChart = {
       label: a11yLabelWithSegmentsSummary(
         "Dot cascade chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -76,6 +79,7 @@ export const dotCascadeChart = {
           className: `mv-dot-cascade-dot${classSuffix}`,
           cx,
           cy,
+          datum: segmentDatum(seg, segI),
           fill: seg.color,
           id: `dot-cascade-dot-${idx}`,
           r: dotRadius,
@@ -89,8 +93,8 @@ export const dotCascadeChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "dot-cascade" };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,7 @@
 import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
 import type { Mark } from "../model";
+import { themePaint } from "../theme";
+import { seriesDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
@@ -7,6 +9,7 @@ import {
   coerceFiniteNonNegative,
   isFiniteNumber,
   normalizedPct,
+  SERIES_FILL_PAINT,
 } from "./shared";
 import type {
   DotMatrixData,
@@ -15,14 +18,19 @@ import type {
 } from "./types";
 
 export const dotMatrixChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSeries(normalized.series, {
+        format: spec.format,
         idPrefix: "dot-matrix-dot",
         labelPrefix: "Dot",
         valueText: (value) => `${Math.round(normalizedPct(value))}%`,
       }),
-      label: a11yLabelWithSeriesSummary("Dot matrix chart", normalized.series),
+      label: a11yLabelWithSeriesSummary(
+        "Dot matrix chart",
+        normalized.series,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -33,7 +41,7 @@ export const dotMatrixChart = {
   isEmpty(normalized) {
     return normalized.series.length === 0;
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const totalSeries = normalized.series.length;
     if (totalSeries === 0) return [];
 
@@ -91,9 +99,11 @@ export const dotMatrixChart = {
       for (let j = 0; j < dots; j++) {
         const cy = layout.pad + usableH - (j + 0.5) * cellH;
         marks.push({
+          ...themePaint(theme, SERIES_FILL_PAINT),
           className: `mv-dot-matrix-dot${classSuffix}`,
           cx,
           cy,
+          datum: seriesDatum(sampled[i] ?? 0, start + i),
           fillOpacity: opacity,
           id: `dot-matrix-dot-${dotIndex++}`,
           r: dotRadius,
@@ -6,17 +6,24 @@ import {
   coerceFiniteNonNegative,
   expandSegmentColors,
   normalizeSegments,
+  segmentIndexByUnit,
+  unitSegmentDatum,
 } from "./shared";
 import type { BitfieldData, DotRowSpec, NormalizedDotRow } from "./types";
 
 export const dotRowChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "dot-row-seg",
         labelFallback: "Segment",
       }),
-      label: a11yLabelWithSegmentsSummary("Dot row chart", normalized.segments),
+      label: a11yLabelWithSegmentsSummary(
+        "Dot row chart",
+        normalized.segments,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -42,6 +49,7 @@ export const dotRowChart = {
     const counts = allocateUnitsByPct(segments, dots);
     const cells = expandSegmentColors(segments, counts);
     if (cells.length === 0) return [];
+    const order = segmentIndexByUnit(counts);
 
     const usableW = Math.max(0, layout.width - layout.pad * 2);
     const usableH = Math.max(0, layout.height - layout.pad * 2);
@@ -79,6 +87,7 @@ export const dotRowChart = {
         className: `mv-dot-row-dot${classSuffix}`,
         cx: x0 + dotRadius + i * step,
         cy,
+        datum: unitSegmentDatum(segments, order, i),
         fill: cell?.color ?? "currentColor",
         id: `dot-row-dot-${i}`,
         r: dotRadius,
@@ -86,8 +95,8 @@ export const dotRowChart = {
       };
     });
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "dot-row" };
   },
   preferredAspectRatio: "wide" as const,
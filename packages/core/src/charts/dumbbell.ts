@@ -1,9 +1,16 @@
+import { formatValue } from "../format";
+import { themePaint } from "../theme";
 import type { ChartDefinition } from "./chart-definition";
-import { clamp, coerceFiniteNonNegative, isFiniteNumber } from "./shared";
+import {
+  clamp,
+  coerceFiniteNonNegative,
+  isFiniteNumber,
+  SERIES_FILL_PAINT,
+} from "./shared";
 import type { DumbbellData, DumbbellSpec, NormalizedDumbbell } from "./types";
 
 export const dumbbellChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     const pctCurrent =
       normalized.max === 0
         ? 0
@@ -15,16 +22,22 @@ export const dumbbellChart = {
     return {
       items: [
         {
+          datum: { series: "current", value: normalized.current },
           id: "dumbbell-current",
           label: "Current",
           value: normalized.current,
-          valueText: `${pctCurrent}%`,
+          valueText: spec.format
+            ? formatValue(normalized.current, spec.format)
+            : `${pctCurrent}%`,
         },
         {
+          datum: { series: "target", value: normalized.target },
           id: "dumbbell-target",
           label: "Target",
           value: normalized.target,
-          valueText: `${pctTarget}%`,
+          valueText: spec.format
+            ? formatValue(normalized.target, spec.format)
+            : `${pctTarget}%`,
         },
       ],
       label: `Dumbbell chart (current ${pctCurrent}%, target ${pctTarget}%)`,
@@ -37,7 +50,7 @@ export const dumbbellChart = {
   isEmpty(_normalized) {
     return false;
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const x0 = layout.pad;
     const x1 = layout.width - layout.pad;
     const y = layout.height / 2;
@@ -105,6 +118,7 @@ export const dumbbellChart = {
 
     return [
       {
+        ...themePaint(theme, { stroke: "muted" }),
         className: `mv-dumbbell-track${classSuffix}`,
         id: "dumbbell-track",
         opacity: 1,
@@ -118,6 +132,7 @@ export const dumbbellChart = {
         y2: y,
       },
       {
+        ...themePaint(theme, { stroke: "series-1" }),
         className: `mv-dumbbell-range${classSuffix}`,
         id: "dumbbell-range",
         opacity: 1,
@@ -131,17 +146,21 @@ export const dumbbellChart = {
         y2: y,
       },
       {
+        ...themePaint(theme, SERIES_FILL_PAINT),
         className: `mv-dumbbell-current${classSuffix}`,
         cx,
         cy: y,
+        datum: { series: "current", value: normalized.current },
         id: "dumbbell-current",
         r: dotRadius,
         type: "circle",
       },
       {
+        ...themePaint(theme, { fill: "series-1", stroke: "series-1" }),
         className: `mv-dumbbell-target${classSuffix}`,
         cx: tx,
         cy: y,
+        datum: { series: "target", value: normalized.target },
         fillOpacity: targetFillOpacity,
         id: "dumbbell-target",
         r: dotRadius,
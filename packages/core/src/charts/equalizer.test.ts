@@ -72,4 +72,20 @@ describe("equalizer", () => {
     const model = computeModel(input);
     expect(model.marks.length).toBe(0);
   });
+
+  test("leaves an empty slot for gaps", () => {
+    const model = computeModel({
+      data: [1, null, 3],
+      size: { height: 20, width: 32 },
+      spec: { gap: 1, pad: 0, type: "equalizer" },
+    });
+
+    expect(model.marks.map((m) => m.id)).toEqual([
+      "equalizer-bar-0",
+      "equalizer-bar-2",
+    ]);
+    const last = model.marks[1];
+    if (last?.type !== "rect") throw new Error("expected a rect");
+    expect(last.x).toBeCloseTo(10);
+  });
 });
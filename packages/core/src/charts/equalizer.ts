@@ -1,11 +1,17 @@
 import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import { annotationValues } from "../annotations";
+import { resolveDomain } from "../domain";
+import { themePaint } from "../theme";
+import { resampledSeriesDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
   coerceFiniteInt,
   coerceFiniteNonNegative,
-  isFiniteNumber,
+  columnChartScales,
+  normalizeGappedSeries,
   resampleSeries,
+  warnOutOfDomain,
 } from "./shared";
 import type {
   EqualizerSpec,
@@ -18,13 +24,18 @@ import type {
  * Unlike waveform which centers bars vertically, equalizer bars are anchored at the bottom.
  */
 export const equalizerChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSeries(normalized.series, {
+        format: spec.format,
         idPrefix: "equalizer-bar",
         labelPrefix: "Bar",
       }),
-      label: a11yLabelWithSeriesSummary("Equalizer chart", normalized.series),
+      label: a11yLabelWithSeriesSummary(
+        "Equalizer chart",
+        normalized.series,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -33,9 +44,9 @@ export const equalizerChart = {
   displayName: "Equalizer",
   emptyDataWarningMessage: "No series data.",
   isEmpty(normalized) {
-    return normalized.series.length === 0;
+    return normalized.series.every((v) => v === null);
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const bins = coerceFiniteInt(
       spec.bins ?? normalized.series.length,
       normalized.series.length,
@@ -46,6 +57,11 @@ export const equalizerChart = {
 
     const series = normalized.series;
     if (series.length === 0) return [];
+    warnOutOfDomain(
+      series,
+      { max: normalized.max, min: normalized.min },
+      warnings,
+    );
 
     const values = resampleSeries(series, bins);
     if (values.length === 0) return [];
@@ -75,35 +91,49 @@ export const equalizerChart = {
     const denom = normalized.max - normalized.min || 1;
     const colors = spec.colors;
     const fallbackColor = colors?.[colors.length - 1];
+    const themeFill = themePaint(theme, { fill: "fg" }).fill;
 
     const x0 = layout.pad;
     const y0 = layout.pad;
 
-    return values.map((value, i) => {
+    return values.flatMap((value, i) => {
+      // A gap keeps its slot but draws no bar.
+      if (value === null) return [];
       const normalizedValue = clamp((value - normalized.min) / denom, 0, 1);
       const barH = Math.max(2, normalizedValue * usableH);
       // Bars grow from bottom (key difference from waveform)
       const y = y0 + usableH - barH;
       const x = x0 + i * (barW + gap);
-      return {
-        className: `mv-equalizer-bar${classSuffix}`,
-        fill: colors ? (colors[i] ?? fallbackColor) : undefined,
-        h: barH,
-        id: `equalizer-bar-${i}`,
-        type: "rect",
-        w: barW,
-        x,
-        y,
-      };
+      return [
+        {
+          className: `mv-equalizer-bar${classSuffix}`,
+          datum: resampledSeriesDatum(series, i, values.length),
+          fill: colors ? (colors[i] ?? fallbackColor) : themeFill,
+          h: barH,
+          id: `equalizer-bar-${i}`,
+          type: "rect" as const,
+          w: barW,
+          x,
+          y,
+        },
+      ];
     });
   },
-  normalize(_spec, data) {
-    const series = data.filter(isFiniteNumber);
-    const min = series.length > 0 ? Math.min(...series) : 0;
-    const max = series.length > 0 ? Math.max(...series) : 1;
+  normalize(spec, data) {
+    const series = normalizeGappedSeries(data);
+    const { max, min } = resolveDomain(
+      [...series, ...annotationValues(spec.annotations)],
+      spec.domain,
+    );
     return { max, min, series, type: "equalizer" as const };
   },
   preferredAspectRatio: "square" as const,
+  scales(_spec, normalized, layout) {
+    return columnChartScales(layout, {
+      max: normalized.max,
+      min: normalized.min,
+    });
+  },
   type: "equalizer",
 } satisfies ChartDefinition<
   "equalizer",
@@ -1,4 +1,5 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -12,9 +13,10 @@ import type {
 } from "./types";
 
 export const fadedPyramidChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "faded-pyramid-seg",
 
         labelFallback: "Segment",
@@ -22,6 +24,7 @@ export const fadedPyramidChart = {
       label: a11yLabelWithSegmentsSummary(
         "Faded pyramid chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -69,6 +72,7 @@ export const fadedPyramidChart = {
 
         return {
           className: `mv-faded-pyramid-bar${classSuffix}`,
+          datum: segmentDatum(seg, i),
           fill: run.color,
           h,
           id: `faded-pyramid-bar-${i}`,
@@ -82,8 +86,8 @@ export const fadedPyramidChart = {
       })
       .filter((m) => m !== null);
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "faded-pyramid" as const };
   },
   preferredAspectRatio: "wide" as const,
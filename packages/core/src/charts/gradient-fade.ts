@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import { applyFillRules } from "../utils/defs";
 import type { ChartDefinition } from "./chart-definition";
 import {
@@ -14,9 +15,10 @@ import type {
 } from "./types";
 
 export const gradientFadeChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "gradient-fade-seg",
 
         labelFallback: "Segment",
@@ -24,6 +26,7 @@ export const gradientFadeChart = {
       label: a11yLabelWithSegmentsSummary(
         "Gradient fade chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -120,6 +123,7 @@ export const gradientFadeChart = {
       marks.push({
         className: `mv-gradient-fade-seg${classSuffix}`,
         clipPath,
+        datum: segmentDatum(run, i),
         h: usableH,
         id: `gradient-fade-seg-${i}`,
         type: "rect",
@@ -136,8 +140,8 @@ export const gradientFadeChart = {
 
     return applyFillRules(marks, fillRules);
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "gradient-fade" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { coerceFiniteNonNegative, normalizeSegments } from "./shared";
 import type {
@@ -9,9 +10,10 @@ import type {
 } from "./types";
 
 export const handOfCardsChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "hand-of-cards-seg",
 
         labelFallback: "Segment",
@@ -19,6 +21,7 @@ export const handOfCardsChart = {
       label: a11yLabelWithSegmentsSummary(
         "Hand of cards chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -88,6 +91,7 @@ export const handOfCardsChart = {
 
       marks.push({
         className: `mv-hand-of-cards-card${classSuffix}`,
+        datum: segmentDatum(seg, originalIndex),
         fill: seg.color,
         h: cardH,
         id: `hand-of-cards-card-${originalIndex}`,
@@ -106,8 +110,8 @@ export const handOfCardsChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "hand-of-cards" as const };
   },
   preferredAspectRatio: "wide" as const,
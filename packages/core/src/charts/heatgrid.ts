@@ -1,17 +1,29 @@
 import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import { themePaint } from "../theme";
+import { seriesDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
-import { coerceFiniteInt, isFiniteNumber, normalizedPct } from "./shared";
+import {
+  coerceFiniteInt,
+  isFiniteNumber,
+  normalizedPct,
+  SERIES_FILL_PAINT,
+} from "./shared";
 import type { HeatgridData, HeatgridSpec, NormalizedHeatgrid } from "./types";
 
 export const heatgridChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSeries(normalized.series, {
+        format: spec.format,
         idPrefix: "heatgrid-cell",
         labelPrefix: "Cell",
         valueText: (value) => `${Math.round(normalizedPct(value))}%`,
       }),
-      label: a11yLabelWithSeriesSummary("Heatgrid chart", normalized.series),
+      label: a11yLabelWithSeriesSummary(
+        "Heatgrid chart",
+        normalized.series,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -25,7 +37,7 @@ export const heatgridChart = {
   isEmpty(normalized) {
     return normalized.series.length === 0;
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const cols = coerceFiniteInt(
       spec.cols ?? 12,
       12,
@@ -71,7 +83,9 @@ export const heatgridChart = {
         ? (normalized.opacities[cell.srcIdx] ?? 1)
         : 1;
       return {
+        ...themePaint(theme, SERIES_FILL_PAINT),
         className: `mv-heatgrid-cell${spec.className ? ` ${spec.className}` : ""}`,
+        datum: seriesDatum(normalized.series[cell.srcIdx] ?? 0, cell.srcIdx),
         fillOpacity: baseOpacity * fadeOpacity,
         h,
         id: `heatgrid-cell-${cell.i}`,
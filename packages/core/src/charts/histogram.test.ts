@@ -68,4 +68,16 @@ describe("histogram", () => {
     expect(rects[0]?.x).toBeCloseTo(0, 5);
     expect(rects[1]?.x).toBeCloseTo(10.4, 5);
   });
+
+  test("scales bars to a domain other than 0-100", () => {
+    const model = computeModel({
+      data: { series: [5, 10] },
+      size: { height: 20, width: 100 },
+      spec: { domain: { max: 10 }, gap: 0, pad: 0, type: "histogram" },
+    });
+
+    const heights = model.marks.map((m) => (m.type === "rect" ? m.h : 0));
+    expect(heights).toEqual([10, 20]);
+    expect(model.stats?.warnings).toBeUndefined();
+  });
 });
@@ -1,12 +1,20 @@
 import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import { resolveDomain } from "../domain";
 import type { Def, Mark } from "../model";
+import { themePaint, themeRadius } from "../theme";
+import { seriesDatum } from "../utils/datum";
 import { applyFillRules } from "../utils/defs";
 import type { ChartDefinition } from "./chart-definition";
 import {
+  clamp,
   coerceFiniteInt,
   coerceFiniteNonNegative,
+  columnChartScales,
   isFiniteNumber,
   normalizedPct,
+  PCT_DOMAIN,
+  SERIES_FILL_PAINT,
+  warnOutOfDomain,
 } from "./shared";
 import type {
   HistogramData,
@@ -15,14 +23,19 @@ import type {
 } from "./types";
 
 export const histogramChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSeries(normalized.series, {
+        format: spec.format,
         idPrefix: "histogram-bin",
         labelPrefix: "Bin",
         valueText: (value) => `${Math.round(normalizedPct(value))}%`,
       }),
-      label: a11yLabelWithSeriesSummary("Histogram chart", normalized.series),
+      label: a11yLabelWithSeriesSummary(
+        "Histogram chart",
+        normalized.series,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -63,7 +76,7 @@ export const histogramChart = {
   isEmpty(normalized) {
     return normalized.series.length === 0;
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const w = layout.width;
     const h = layout.height;
     const pad = layout.pad;
@@ -75,13 +88,18 @@ export const histogramChart = {
       "Non-finite histogram bins; defaulted to 18.",
     );
     const stride = Math.max(1, Math.floor(normalized.series.length / bins));
+    const { max, min } = normalized;
+    const denom = max - min || 1;
+    warnOutOfDomain(normalized.series, { max, min }, warnings);
     const sampled: Array<{ key: string; value: number; srcIdx: number }> = [];
 
     for (let i = 0; i < normalized.series.length; i += stride) {
       sampled.push({
         key: `bar-${i}`,
         srcIdx: i,
-        value: normalizedPct(normalized.series[i] ?? 0),
+        // Bar height as a percentage of the y-domain.
+        value:
+          ((clamp(normalized.series[i] ?? min, min, max) - min) / denom) * 100,
       });
     }
 
@@ -90,7 +108,7 @@ export const histogramChart = {
 
     const barRadius =
       spec.barRadius === undefined
-        ? undefined
+        ? themeRadius(theme)
         : coerceFiniteNonNegative(
             spec.barRadius,
             0,
@@ -117,7 +135,9 @@ export const histogramChart = {
           ? (normalized.opacities[bar.srcIdx] ?? 1)
           : 0.85;
         return {
+          ...themePaint(theme, SERIES_FILL_PAINT),
           className: `mv-histogram-bar${spec.className ? ` ${spec.className}` : ""}`,
+          datum: seriesDatum(normalized.series[bar.srcIdx] ?? 0, bar.srcIdx),
           fillOpacity: opacity,
           h: barH,
           id: `histogram-bar-${bar.srcIdx}`,
@@ -154,7 +174,9 @@ export const histogramChart = {
         ? (normalized.opacities[bar.srcIdx] ?? 1)
         : 0.85;
       return {
+        ...themePaint(theme, SERIES_FILL_PAINT),
         className: `mv-histogram-bar${spec.className ? ` ${spec.className}` : ""}`,
+        datum: seriesDatum(normalized.series[bar.srcIdx] ?? 0, bar.srcIdx),
         fillOpacity: opacity,
         h: barH,
         id: `histogram-bar-${bar.srcIdx}`,
@@ -168,12 +190,19 @@ export const histogramChart = {
     });
     return fillRules.length > 0 ? applyFillRules(marks, fillRules) : marks;
   },
-  normalize(_spec, data) {
+  normalize(spec, data) {
     const series = data.series.filter(isFiniteNumber);
     const opacities = data.opacities?.filter(isFiniteNumber);
-    return { opacities, series, type: "histogram" };
+    const { max, min } = resolveDomain(series, spec.domain, PCT_DOMAIN);
+    return { max, min, opacities, series, type: "histogram" };
   },
   preferredAspectRatio: "wide" as const,
+  scales(_spec, normalized, layout) {
+    return columnChartScales(layout, {
+      max: normalized.max,
+      min: normalized.min,
+    });
+  },
   type: "histogram",
 } satisfies ChartDefinition<
   "histogram",
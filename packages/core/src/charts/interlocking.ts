@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { layoutSegmentsByPct, normalizeSegments } from "./shared";
 import type {
@@ -35,9 +36,10 @@ function interlockingPath(options: {
 }
 
 export const interlockingChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "interlocking-seg",
 
         labelFallback: "Segment",
@@ -45,6 +47,7 @@ export const interlockingChart = {
       label: a11yLabelWithSegmentsSummary(
         "Interlocking chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -82,6 +85,7 @@ export const interlockingChart = {
           x: x0 + run.x,
           y: y0,
         }),
+        datum: segmentDatum(run, i),
         fill: run.color,
         id: `interlocking-seg-${i}`,
         type: "path",
@@ -90,8 +94,8 @@ export const interlockingChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "interlocking" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { coerceFiniteNonNegative, normalizeSegments } from "./shared";
 import type {
@@ -9,9 +10,10 @@ import type {
 } from "./types";
 
 export const layeredWavesChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "layered-waves-seg",
 
         labelFallback: "Segment",
@@ -19,6 +21,7 @@ export const layeredWavesChart = {
       label: a11yLabelWithSegmentsSummary(
         "Layered waves chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -95,6 +98,7 @@ export const layeredWavesChart = {
 
       marks.push({
         className: `mv-layered-waves-wave${classSuffix}`,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         fillOpacity: layerOpacity,
         h: usableH,
@@ -110,8 +114,8 @@ export const layeredWavesChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "layered-waves" as const };
   },
   preferredAspectRatio: "wide" as const,
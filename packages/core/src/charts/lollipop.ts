@@ -1,13 +1,15 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { normalizeSegments } from "./shared";
 import type { BitfieldData, LollipopSpec, NormalizedLollipop } from "./types";
 
 export const lollipopChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "lollipop-seg",
 
         labelFallback: "Segment",
@@ -15,6 +17,7 @@ export const lollipopChart = {
       label: a11yLabelWithSegmentsSummary(
         "Lollipop chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -65,6 +68,7 @@ export const lollipopChart = {
       // Stem (rect)
       marks.push({
         className: `mv-lollipop-stem${classSuffix}`,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h: stemHeight,
         id: `lollipop-stem-${i}`,
@@ -82,6 +86,7 @@ export const lollipopChart = {
         className: `mv-lollipop-dot${classSuffix}`,
         cx: centerX,
         cy: dotCy,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         id: `lollipop-dot-${i}`,
         r: dotRadius,
@@ -91,8 +96,8 @@ export const lollipopChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "lollipop" as const };
   },
   preferredAspectRatio: "wide" as const,
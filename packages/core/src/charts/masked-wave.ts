@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { layoutSegmentsByPct, normalizeSegments } from "./shared";
 import type {
@@ -12,9 +13,10 @@ const MASK_ID = "mv-masked-wave-mask";
 const WAVE_PATH = "M0 0.5 Q0.25 0 0.5 0.5 T1 0.5 L1 1 L0 1 Z";
 
 export const maskedWaveChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "masked-wave-seg",
 
         labelFallback: "Segment",
@@ -22,6 +24,7 @@ export const maskedWaveChart = {
       label: a11yLabelWithSegmentsSummary(
         "Masked wave chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -66,6 +69,7 @@ export const maskedWaveChart = {
       if (!run) continue;
       marks.push({
         className: `mv-masked-wave-seg${classSuffix}`,
+        datum: segmentDatum(run, i),
         fill: run.color,
         h: usableH,
         id: `masked-wave-seg-${i}`,
@@ -79,8 +83,8 @@ export const maskedWaveChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "masked-wave" as const };
   },
   preferredAspectRatio: "wide" as const,
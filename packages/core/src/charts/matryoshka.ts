@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { coerceFiniteNonNegative, normalizeSegments } from "./shared";
 import type {
@@ -9,9 +10,10 @@ import type {
 } from "./types";
 
 export const matryoshkaChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "matryoshka-seg",
 
         labelFallback: "Segment",
@@ -19,6 +21,7 @@ export const matryoshkaChart = {
       label: a11yLabelWithSegmentsSummary(
         "Matryoshka chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -87,6 +90,7 @@ export const matryoshkaChart = {
 
       marks.push({
         className: `mv-matryoshka-shell${classSuffix}`,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h,
         id: `matryoshka-shell-${i}`,
@@ -101,8 +105,8 @@ export const matryoshkaChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "matryoshka" as const };
   },
   preferredAspectRatio: "wide" as const,
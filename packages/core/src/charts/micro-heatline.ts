@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { coerceFiniteNonNegative, normalizeSegments } from "./shared";
 import type {
@@ -9,9 +10,10 @@ import type {
 } from "./types";
 
 export const microHeatlineChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "micro-heatline-seg",
 
         labelFallback: "Segment",
@@ -19,6 +21,7 @@ export const microHeatlineChart = {
       label: a11yLabelWithSegmentsSummary(
         "Micro heatline chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -74,6 +77,7 @@ export const microHeatlineChart = {
 
       marks.push({
         className: `mv-micro-heatline-seg${classSuffix}`,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h: lineHeight,
         id: `micro-heatline-seg-${i}`,
@@ -88,8 +92,8 @@ export const microHeatlineChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "micro-heatline" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,17 +1,23 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { coerceFiniteNonNegative, normalizeSegments } from "./shared";
 import type { BitfieldData, MosaicSpec, NormalizedMosaic } from "./types";
 
 export const mosaicChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "mosaic-seg",
         labelFallback: "Segment",
       }),
-      label: a11yLabelWithSegmentsSummary("Mosaic chart", normalized.segments),
+      label: a11yLabelWithSegmentsSummary(
+        "Mosaic chart",
+        normalized.segments,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -46,6 +52,7 @@ export const mosaicChart = {
       return [
         {
           className: `mv-mosaic-cell${classSuffix}`,
+          datum: segmentDatum(major0, 0),
           fill: major0.color,
           h: usableH,
           id: "mosaic-major-0",
@@ -77,6 +84,7 @@ export const mosaicChart = {
     const marks: Mark[] = [
       {
         className: `mv-mosaic-cell${classSuffix}`,
+        datum: segmentDatum(major0, 0),
         fill: major0.color,
         h: usableH,
         id: "mosaic-major-0",
@@ -87,6 +95,7 @@ export const mosaicChart = {
       },
       {
         className: `mv-mosaic-cell${classSuffix}`,
+        datum: segmentDatum(major1, 1),
         fill: major1.color,
         h: usableH,
         id: "mosaic-major-1",
@@ -128,6 +137,7 @@ export const mosaicChart = {
           : (seg.pct / minorTotal) * availableH;
       marks.push({
         className: `mv-mosaic-cell${classSuffix}`,
+        datum: segmentDatum(seg, i + 2),
         fill: seg.color,
         h,
         id: `mosaic-minor-${i}`,
@@ -141,8 +151,8 @@ export const mosaicChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "mosaic" };
   },
   preferredAspectRatio: "wide" as const,
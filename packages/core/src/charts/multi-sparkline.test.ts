@@ -0,0 +1,114 @@
+import { describe, expect, test } from "vitest";
+import { computeModel } from "../compute";
+
+const data = [
+  { name: "This week", values: [10, 20, 30] },
+  { color: "#f00", name: "Last week", values: [0, 5] },
+];
+
+describe("multi-sparkline", () => {
+  test("produces a deterministic RenderModel", () => {
+    const input = {
+      data,
+      size: { height: 32, width: 100 },
+      spec: { pad: 3, type: "multi-sparkline" as const },
+    };
+
+    const a = computeModel(input);
+    const b = computeModel(input);
+
+    expect(a).toEqual(b);
+    expect(a.stats?.warnings).toBeUndefined();
+    expect(a.marks.map((m) => m.id)).toEqual([
+      "multi-sparkline-line-this-week",
+      "multi-sparkline-line-last-week",
+      "multi-sparkline-dot-this-week",
+      "multi-sparkline-dot-last-week",
+    ]);
+  });
+
+  test("maps every series through a shared y-domain", () => {
+    const model = computeModel({
+      data,
+      size: { height: 30, width: 100 },
+      spec: { pad: 0, showDot: false, type: "multi-sparkline" },
+    });
+
+    const [thisWeek, lastWeek] = model.marks;
+    if (thisWeek?.type !== "polyline" || lastWeek?.type !== "polyline")
+      throw new Error("expected polylines");
+    // 30 is the shared max, 0 the shared min.
+    expect(thisWeek.points).toEqual([0, 20, 50, 10, 100, 0]);
+    expect(lastWeek.points).toEqual([0, 30, 100, 25]);
+    expect(thisWeek.stroke).toBe("var(--mv-series-1, currentColor)");
+    expect(lastWeek.stroke).toBe("#f00");
+    expect(lastWeek.pointData?.[1]).toEqual({
+      index: 1,
+      series: "Last week",
+      value: 5,
+    });
+  });
+
+  test("keys ids by series name and disambiguates repeats", () => {
+    const model = computeModel({
+      data: [
+        { name: "p95", values: [1, 2] },
+        { name: "p95", values: [3, 4] },
+        { name: "", values: [5, 6] },
+      ],
+      size: { height: 32, width: 100 },
+      spec: { showDot: false, type: "multi-sparkline" },
+    });
+
+    expect(model.marks.map((m) => m.id)).toEqual([
+      "multi-sparkline-line-p95",
+      "multi-sparkline-line-p95-2",
+      "multi-sparkline-line-series-3",
+    ]);
+  });
+
+  test("exposes one a11y item per series", () => {
+    const model = computeModel({
+      data,
+      size: { height: 32, width: 100 },
+      spec: { type: "multi-sparkline" },
+    });
+
+    expect(model.a11y?.label).toBe(
+      "Multi-series sparkline chart (2 series, min 0, max 30)",
+    );
+    expect(model.a11y?.items).toEqual([
+      {
+        color: "var(--mv-series-1, currentColor)",
+        datum: { index: 2, series: "This week", value: 30 },
+        id: "multi-sparkline-series-this-week",
+        label: "This week",
+        rank: 1,
+        series: "This week",
+        value: 30,
+        valueText: "last 30 (min 10, max 30)",
+      },
+      {
+        color: "#f00",
+        datum: { index: 1, series: "Last week", value: 5 },
+        id: "multi-sparkline-series-last-week",
+        label: "Last week",
+        rank: 2,
+        series: "Last week",
+        value: 5,
+        valueText: "last 5 (min 0, max 5)",
+      },
+    ]);
+  });
+
+  test("warns on empty series", () => {
+    const model = computeModel({
+      data: [{ name: "a", values: [] }],
+      size: { height: 32, width: 100 },
+      spec: { type: "multi-sparkline" },
+    });
+
+    expect(model.marks).toEqual([]);
+    expect(model.stats?.warnings?.[0]?.code).toBe("EMPTY_DATA");
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  a11yItemsForMultiSeries,
+  a11yLabelWithMultiSeriesSummary,
+} from "../a11y";
+import { annotationValues } from "../annotations";
+import { resolveDomain } from "../domain";
+import type { Mark } from "../model";
+import { seriesColor } from "../palette";
+import { themePaint } from "../theme";
+import { curvePath } from "../utils/curve";
+import type { ChartDefinition } from "./chart-definition";
+import {
+  coerceFiniteNonNegative,
+  isFiniteNumber,
+  lineChartScales,
+  sparklineSeries,
+  warnOutOfDomain,
+} from "./shared";
+import type {
+  MultiSparklineData,
+  MultiSparklineSpec,
+  NormalizedMultiSparkline,
+  NormalizedMultiSparklineSeries,
+} from "./types";
+
+function seriesKeyBase(name: string, index: number): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || `series-${index + 1}`;
+}
+
+function normalizeSeries(
+  data: MultiSparklineData,
+): NormalizedMultiSparklineSeries[] {
+  const used = new Set<string>();
+  return data.map((entry, i) => {
+    const name = entry.name?.trim() || `Series ${i + 1}`;
+    // Keys follow the name, so ids survive reordering; repeats get a suffix.
+    const base = seriesKeyBase(name, i);
+    let key = base;
+    for (let n = 2; used.has(key); n += 1) key = `${base}-${n}`;
+    used.add(key);
+
+    return {
+      color: entry.color?.trim() || seriesColor(i),
+      key,
+      name,
+      values: (entry.values ?? []).filter(isFiniteNumber),
+    };
+  });
+}
+
+export const multiSparklineChart = {
+  a11y(spec, normalized, _layout) {
+    const values = normalized.series.flatMap((s) => s.values);
+    return {
+      items: a11yItemsForMultiSeries(normalized.series, {
+        format: spec.format,
+        idPrefix: "multi-sparkline-series",
+      }),
+      label: a11yLabelWithMultiSeriesSummary(
+        "Multi-series sparkline chart",
+        normalized.series,
+        spec.format,
+      ),
+      role: "img",
+      summary:
+        values.length > 0
+          ? {
+              count: values.length,
+              kind: "series",
+              max: normalized.max,
+              min: normalized.min,
+            }
+          : { count: 0, kind: "series" },
+    };
+  },
+  category: "lines" as const,
+  defaultPad: 3,
+  displayName: "Multi-series sparkline",
+  emptyDataHint: 'Provide an array of { "name", "values" } series',
+  emptyDataWarningMessage: "No series data.",
+  exampleHtml:
+    '<microviz-multi-sparkline data=\'[{"name":"This week","values":[10,25,15,30]},{"name":"Last week","values":[12,18,20,16]}]\'></microviz-multi-sparkline>',
+  isEmpty(normalized) {
+    return normalized.series.every((s) => s.values.length === 0);
+  },
+  marks(spec, normalized, layout, _state, theme, warnings) {
+    const domain = { max: normalized.max, min: normalized.min };
+    warnOutOfDomain(
+      normalized.series.flatMap((s) => s.values),
+      domain,
+      warnings,
+    );
+    const extraClass = spec.className ? ` ${spec.className}` : "";
+    const showDot = spec.showDot ?? true;
+    const curve = spec.curve ?? "linear";
+    const dotRadius = coerceFiniteNonNegative(
+      spec.dotRadius ?? 2.4,
+      2.4,
+      warnings,
+      "Non-finite dot radius; defaulted to 2.4.",
+    );
+
+    const lines: Mark[] = [];
+    const dots: Mark[] = [];
+    for (const series of normalized.series) {
+      const { last, points } = sparklineSeries(
+        series.values,
+        layout.width,
+        layout.height,
+        layout.pad,
+        domain,
+      );
+
+      if (points.length > 1) {
+        const line = {
+          // Each series brings its own color; the theme sets the width.
+          ...themePaint(theme, { strokeWidth: true }),
+          className: `mv-multi-sparkline-line${extraClass}`,
+          id: `multi-sparkline-line-${series.key}`,
+          pointData: series.values.map((value, index) => ({
+            index,
+            series: series.name,
+            value,
+          })),
+          stroke: series.color,
+          strokeLinecap: "round",
+          strokeLinejoin: "round",
+        } as const;
+        const vertices = points.filter((p) => p !== null);
+        lines.push(
+          curve === "linear"
+            ? {
+                ...line,
+                points: vertices.flatMap((p) => [p.x, p.y]),
+                type: "polyline",
+              }
+            : {
+                ...line,
+                d: curvePath(vertices, curve),
+                fill: "none",
+                type: "path",
+              },
+        );
+      }
+
+      if (showDot && last) {
+        const index = series.values.length - 1;
+        dots.push({
+          className: "mv-multi-sparkline-dot",
+          cx: last.x,
+          cy: last.y,
+          datum: { index, series: series.name, value: series.values[index] },
+          fill: series.color,
+          id: `multi-sparkline-dot-${series.key}`,
+          r: dotRadius,
+          type: "circle",
+        });
+      }
+    }
+
+    // Dots go last so no line is drawn over another series' endpoint.
+    return [...lines, ...dots];
+  },
+  normalize(spec, data) {
+    const series = normalizeSeries(data);
+    const { max, min } = resolveDomain(
+      [
+        ...series.flatMap((s) => s.values),
+        ...annotationValues(spec.annotations),
+      ],
+      spec.domain,
+    );
+    return { max, min, series, type: "multi-sparkline" };
+  },
+  preferredAspectRatio: "wide" as const,
+  scales(_spec, normalized, layout) {
+    return lineChartScales(layout, {
+      max: normalized.max,
+      min: normalized.min,
+    });
+  },
+  type: "multi-sparkline",
+} satisfies ChartDefinition<
+  "multi-sparkline",
+  MultiSparklineSpec,
+  MultiSparklineData,
+  NormalizedMultiSparkline
+>;
@@ -35,12 +35,12 @@ describe("nano-ring", () => {
     const mark = model.marks[0];
 
     // Default strokeWidth should be 2 (vs segmented-ring's 3)
-    if (mark?.type === "circle") {
-      expect(mark.strokeWidth).toBe(2);
+    if (mark?.type === "arc") {
+      expect(mark.outerR - mark.innerR).toBe(2);
     }
   });
 
-  test("creates circle marks with strokeDasharray", () => {
+  test("creates rounded arc marks", () => {
     const input = {
       data: [{ color: "#ef4444", name: "A", pct: 100 }],
       size: { height: 24, width: 24 },
@@ -50,11 +50,11 @@ describe("nano-ring", () => {
     const model = computeModel(input);
     const mark = model.marks[0];
 
-    expect(mark?.type).toBe("circle");
-    if (mark?.type === "circle") {
-      expect(mark.fill).toBe("none");
-      expect(mark.stroke).toBe("#ef4444");
-      expect(mark.strokeDasharray).toBeDefined();
+    expect(mark?.type).toBe("arc");
+    if (mark?.type === "arc") {
+      expect(mark.fill).toBe("#ef4444");
+      expect(mark.cornerRadius).toBe(1);
+      expect(mark.startAngle).toBeLessThan(-Math.PI / 2);
     }
   });
 
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { coerceFiniteNonNegative, normalizeSegments } from "./shared";
 import type { BitfieldData, NanoRingSpec, NormalizedNanoRing } from "./types";
@@ -9,14 +10,16 @@ import type { BitfieldData, NanoRingSpec, NormalizedNanoRing } from "./types";
  * Uses thinner strokes and smaller gaps for 16x16 to 32x32 displays.
  */
 export const nanoRingChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "nano-ring-seg",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Nano ring chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -86,21 +89,26 @@ export const nanoRingChart = {
         continue;
       }
 
+      // Round caps overhang each end by half the stroke width; widen the
+      // sweep to keep the visible segment length and gaps unchanged.
+      const capAngle = strokeWidth / 2 / maxRadius;
+      const startAngle = -Math.PI / 2 + offset / maxRadius - capAngle;
+      const endAngle =
+        -Math.PI / 2 + (offset + segmentLength) / maxRadius + capAngle;
+
       marks.push({
         className: `mv-nano-ring-seg${classSuffix}`,
+        cornerRadius: strokeWidth / 2,
         cx,
         cy,
-        fill: "none",
+        datum: segmentDatum(seg, i),
+        endAngle,
+        fill: seg.color,
         id: `nano-ring-seg-${i}`,
-        r: maxRadius,
-        stroke: seg.color,
-        // Dash pattern: segment length, then rest of circumference
-        strokeDasharray: `${segmentLength.toFixed(2)} ${circumference.toFixed(2)}`,
-        // Offset to position segment correctly, starting from top (12 o'clock)
-        strokeDashoffset: String(circumference * 0.25 - offset),
-        strokeLinecap: "round",
-        strokeWidth,
-        type: "circle" as const,
+        innerR: Math.max(0, maxRadius - strokeWidth / 2),
+        outerR: maxRadius + strokeWidth / 2,
+        startAngle,
+        type: "arc" as const,
       });
 
       offset += segmentLength + gapSize;
@@ -108,8 +116,8 @@ export const nanoRingChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "nano-ring" as const };
   },
   preferredAspectRatio: "square" as const,
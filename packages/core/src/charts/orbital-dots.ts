@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { coerceFiniteNonNegative, normalizeSegments } from "./shared";
 import type {
@@ -9,14 +10,16 @@ import type {
 } from "./types";
 
 export const orbitalDotsChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "orbital-dots-dot",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Orbital dots chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -98,6 +101,7 @@ export const orbitalDotsChart = {
         className: `mv-orbital-dots-dot${classSuffix}`,
         cx: cx + radius * Math.cos(angle),
         cy: cy + radius * Math.sin(angle),
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         id: `orbital-dots-dot-${i}`,
         r: dotRadius,
@@ -107,8 +111,8 @@ export const orbitalDotsChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "orbital-dots" as const };
   },
   preferredAspectRatio: "square" as const,
@@ -1,4 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
+import type { MarkDatum } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -8,14 +10,19 @@ import {
 import type { BitfieldData, NormalizedPareto, ParetoSpec } from "./types";
 
 export const paretoChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "pareto-seg",
 
         labelFallback: "Segment",
       }),
-      label: a11yLabelWithSegmentsSummary("Pareto chart", normalized.segments),
+      label: a11yLabelWithSegmentsSummary(
+        "Pareto chart",
+        normalized.segments,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -56,6 +63,7 @@ export const paretoChart = {
 
     const marks: Array<{
       className: string;
+      datum?: MarkDatum;
       fill: string;
       fillOpacity?: number;
       h: number;
@@ -74,6 +82,7 @@ export const paretoChart = {
       if (!run) continue;
       marks.push({
         className: `mv-pareto-bg${classSuffix}`,
+        datum: segmentDatum(run, i),
         fill: run.color,
         fillOpacity: bgOpacity,
         h: usableH,
@@ -98,6 +107,7 @@ export const paretoChart = {
 
       marks.push({
         className: `mv-pareto-seg${classSuffix}`,
+        datum: segmentDatum(run, i),
         fill: run.color,
         h,
         id: `pareto-seg-${i}`,
@@ -112,8 +122,8 @@ export const paretoChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "pareto" as const };
   },
   preferredAspectRatio: "wide" as const,
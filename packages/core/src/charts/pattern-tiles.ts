@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import { applyFillRules } from "../utils/defs";
 import type { ChartDefinition } from "./chart-definition";
 import { layoutSegmentsByPct, normalizeSegments } from "./shared";
@@ -17,9 +18,10 @@ const PATTERN_IDS = [
 ] as const;
 
 export const patternTilesChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "pattern-tiles-seg",
 
         labelFallback: "Segment",
@@ -27,6 +29,7 @@ export const patternTilesChart = {
       label: a11yLabelWithSegmentsSummary(
         "Pattern tiles chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -132,6 +135,7 @@ export const patternTilesChart = {
 
       marks.push({
         className: `mv-pattern-tiles-seg${classSuffix}`,
+        datum: segmentDatum(run, i),
         fill: run.color,
         h: usableH,
         id: `pattern-tiles-seg-${i}`,
@@ -143,6 +147,7 @@ export const patternTilesChart = {
 
       marks.push({
         className: `mv-pattern-tiles-pattern${classSuffix}`,
+        datum: segmentDatum(run, i),
         h: usableH,
         id: `pattern-tiles-pattern-${i}`,
         type: "rect",
@@ -159,8 +164,8 @@ export const patternTilesChart = {
 
     return applyFillRules(marks, fillRules);
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "pattern-tiles" as const };
   },
   preferredAspectRatio: "wide" as const,
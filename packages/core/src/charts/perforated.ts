@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import { applyFillRules } from "../utils/defs";
 import type { ChartDefinition } from "./chart-definition";
 import {
@@ -16,9 +17,10 @@ import type {
 const SEPARATOR_PATTERN_ID = "mv-perforated-sep-dots";
 
 export const perforatedChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "perforated-seg",
 
         labelFallback: "Segment",
@@ -26,6 +28,7 @@ export const perforatedChart = {
       label: a11yLabelWithSegmentsSummary(
         "Perforated chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -102,6 +105,7 @@ export const perforatedChart = {
       if (!run) continue;
       marks.push({
         className: `mv-perforated-seg${classSuffix}`,
+        datum: segmentDatum(run, i),
         fill: run.color,
         h: usableH,
         id: `perforated-seg-${i}`,
@@ -136,8 +140,8 @@ export const perforatedChart = {
 
     return applyFillRules(marks, fillRules);
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "perforated" as const };
   },
   preferredAspectRatio: "wide" as const,
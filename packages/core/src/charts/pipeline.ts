@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
@@ -43,9 +44,10 @@ function pipelinePath(options: {
 }
 
 export const pipelineChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "pipeline-seg",
 
         labelFallback: "Segment",
@@ -53,6 +55,7 @@ export const pipelineChart = {
       label: a11yLabelWithSegmentsSummary(
         "Pipeline chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -124,6 +127,7 @@ export const pipelineChart = {
           x,
           y: y0,
         }),
+        datum: segmentDatum(run, i),
         fill: run.color,
         id: `pipeline-seg-${i}`,
         stroke: "black",
@@ -136,8 +140,8 @@ export const pipelineChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "pipeline" };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   allocateUnitsByPct,
@@ -66,9 +67,10 @@ function allocateCounts(
 }
 
 export const pixelColumnChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "pixel-column-seg",
 
         labelFallback: "Segment",
@@ -76,6 +78,7 @@ export const pixelColumnChart = {
       label: a11yLabelWithSegmentsSummary(
         "Pixel column chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -172,6 +175,7 @@ export const pixelColumnChart = {
       marks.push({
         className: `mv-pixel-column-seg${classSuffix}`,
         clipPath,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h,
         id: `pixel-column-seg-${i}`,
@@ -185,8 +189,8 @@ export const pixelColumnChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "pixel-column" as const };
   },
   preferredAspectRatio: "tall" as const,
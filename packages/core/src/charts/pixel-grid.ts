@@ -10,13 +10,16 @@ import {
   expandSegmentColors,
   isIntegerish,
   normalizeSegments,
+  segmentIndexByUnit,
+  unitSegmentDatum,
 } from "./shared";
 import type { BitfieldData, NormalizedPixelGrid, PixelGridSpec } from "./types";
 
 export const pixelGridChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "pixel-grid-seg",
 
         labelFallback: "Segment",
@@ -24,6 +27,7 @@ export const pixelGridChart = {
       label: a11yLabelWithSegmentsSummary(
         "Pixel grid chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -61,6 +65,7 @@ export const pixelGridChart = {
     const interleaved = useInterleave ? interleaveCounts(counts) : null;
     const cells = useInterleave ? null : expandSegmentColors(segments, counts);
     if (!useInterleave && (!cells || cells.length === 0)) return [];
+    const order = interleaved ?? segmentIndexByUnit(counts);
 
     function fillAt(i: number): string {
       if (useInterleave) {
@@ -132,6 +137,7 @@ export const pixelGridChart = {
         for (let c = 0; c < cols; c++) {
           marks.push({
             className: `mv-pixel-grid-cell${classSuffix}`,
+            datum: unitSegmentDatum(segments, order, cellIndex),
             fill: fillAt(cellIndex),
             h: rowHeights[r] ?? 0,
             id: `pixel-grid-cell-${cellIndex}`,
@@ -164,6 +170,7 @@ export const pixelGridChart = {
         const w = c === cols - 1 ? xEnd - x : cellW;
         marks.push({
           className: `mv-pixel-grid-cell${classSuffix}`,
+          datum: unitSegmentDatum(segments, order, cellIndex),
           fill: fillAt(cellIndex),
           h,
           id: `pixel-grid-cell-${cellIndex}`,
@@ -178,8 +185,8 @@ export const pixelGridChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "pixel-grid" };
   },
   preferredAspectRatio: "square" as const,
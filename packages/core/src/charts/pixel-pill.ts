@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   allocateUnitsByPct,
@@ -62,9 +63,10 @@ function allocateCounts(
 }
 
 export const pixelPillChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "pixel-pill-seg",
 
         labelFallback: "Segment",
@@ -72,6 +74,7 @@ export const pixelPillChart = {
       label: a11yLabelWithSegmentsSummary(
         "Pixel pill chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -168,6 +171,7 @@ export const pixelPillChart = {
       marks.push({
         className: `mv-pixel-pill-seg${classSuffix}`,
         clipPath,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h: usableHPx,
         id: `pixel-pill-seg-${i}`,
@@ -181,8 +185,8 @@ export const pixelPillChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "pixel-pill" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -22,9 +23,10 @@ function segmentSortKey(
 }
 
 export const pixelTreemapChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "pixel-treemap-seg",
 
         labelFallback: "Segment",
@@ -32,6 +34,7 @@ export const pixelTreemapChart = {
       label: a11yLabelWithSegmentsSummary(
         "Pixel treemap chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -109,7 +112,7 @@ export const pixelTreemapChart = {
 
     const classSuffix = spec.className ? ` ${spec.className}` : "";
 
-    const sorted = segments
+    const order = segments
       .map((seg, index) => ({ index, key: segmentSortKey(seg, index), seg }))
       .sort((a, b) => {
         const pct = b.seg.pct - a.seg.pct;
@@ -117,8 +120,8 @@ export const pixelTreemapChart = {
         const key = a.key.localeCompare(b.key);
         if (key !== 0) return key;
         return a.index - b.index;
-      })
-      .map((x) => x.seg);
+      });
+    const sorted = order.map((x) => x.seg);
 
     const canSnap =
       isIntegerish(x0) &&
@@ -149,6 +152,7 @@ export const pixelTreemapChart = {
         marks.push({
           className: `mv-pixel-treemap-cell${classSuffix}`,
           clipPath,
+          datum: segmentDatum(seg, order[i]?.index ?? i),
           fill: seg.color,
           h,
           id: `pixel-treemap-cell-${i}`,
@@ -168,6 +172,7 @@ export const pixelTreemapChart = {
         marks.push({
           className: `mv-pixel-treemap-cell${classSuffix}`,
           clipPath,
+          datum: segmentDatum(seg, order[i]?.index ?? i),
           fill: seg.color,
           h,
           id: `pixel-treemap-cell-${i}`,
@@ -186,6 +191,7 @@ export const pixelTreemapChart = {
         marks.push({
           className: `mv-pixel-treemap-cell${classSuffix}`,
           clipPath,
+          datum: segmentDatum(seg, order[i]?.index ?? i),
           fill: seg.color,
           h: split,
           id: `pixel-treemap-cell-${i}`,
@@ -206,8 +212,8 @@ export const pixelTreemapChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "pixel-treemap" as const };
   },
   preferredAspectRatio: "square" as const,
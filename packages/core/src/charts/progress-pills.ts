@@ -1,4 +1,5 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -12,15 +13,17 @@ import type {
 } from "./types";
 
 export const progressPillsChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "progress-pill",
         labelFallback: "Pill",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Progress pills chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -63,6 +66,7 @@ export const progressPillsChart = {
 
     return runs.map((run, i) => ({
       className: `mv-progress-pill${classSuffix}`,
+      datum: segmentDatum(run, i),
       fill: run.color,
       h: pillH,
       id: `progress-pill-${i}`,
@@ -74,8 +78,8 @@ export const progressPillsChart = {
       y,
     }));
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "progress-pills" };
   },
   preferredAspectRatio: "wide" as const,
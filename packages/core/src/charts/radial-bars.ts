@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { coerceFiniteNonNegative, normalizeSegments } from "./shared";
 import type {
@@ -9,14 +10,16 @@ import type {
 } from "./types";
 
 export const radialBarsChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "radial-bars-bar",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Radial bars chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -90,6 +93,7 @@ export const radialBarsChart = {
 
       marks.push({
         className: `mv-radial-bars-bar${classSuffix}`,
+        datum: segmentDatum(seg, i),
         id: `radial-bars-bar-${i}`,
         stroke: seg.color,
         strokeLinecap: "round",
@@ -104,8 +108,8 @@ export const radialBarsChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "radial-bars" as const };
   },
   preferredAspectRatio: "square" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { normalizeSegments } from "./shared";
 import type {
@@ -40,14 +41,16 @@ function wedgePath(
 }
 
 export const radialBurstChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "radial-burst-seg",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Radial burst chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -94,6 +97,7 @@ export const radialBurstChart = {
       marks.push({
         className: `mv-radial-burst-seg${classSuffix}`,
         d,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         id: `radial-burst-seg-${i}`,
         type: "path",
@@ -103,8 +107,8 @@ export const radialBurstChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "radial-burst" as const };
   },
   preferredAspectRatio: "wide" as const,
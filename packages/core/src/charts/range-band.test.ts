@@ -30,4 +30,63 @@ describe("range-band", () => {
     expect(dot?.type).toBe("circle");
     if (dot?.type === "circle") expect(dot.r).toBeCloseTo(2.2, 6);
   });
+
+  test("labels markers with their values", () => {
+    const model = computeModel({
+      data: [20, 60, 45],
+      size: { height: 32, width: 200 },
+      spec: { markers: ["max"], type: "range-band" },
+    });
+
+    const marker = model.marks.at(-1);
+    expect(marker).toMatchObject({
+      className: "mv-marker mv-marker-max",
+      id: "range-band-marker-max",
+      type: "circle",
+    });
+    expect(model.a11y?.items?.at(-1)?.label).toBe("Maximum 60 at point 2");
+  });
+
+  test("breaks the line and band at gaps", () => {
+    const model = computeModel({
+      data: [20, 40, null, 60, 80],
+      size: { height: 32, width: 200 },
+      spec: { pad: 0, type: "range-band" },
+    });
+
+    const lines = model.marks.filter((mark) => mark.type === "line");
+    expect(lines.map((line) => line.id)).toEqual([
+      "range-band-line-0",
+      "range-band-line-3",
+    ]);
+    const band = model.marks[0];
+    if (band?.type !== "path") throw new Error("expected a path");
+    expect(band.d.match(/M /g)).toHaveLength(2);
+    expect(model.marks.find((mark) => mark.type === "circle")).toMatchObject({
+      cx: 200,
+    });
+  });
+
+  test("downsamples long series to the plot width", () => {
+    const data = Array.from({ length: 200_000 }, (_, i) =>
+      i === 123_456 ? 500 : Math.sin(i / 500) * 100,
+    );
+    const model = computeModel({
+      data,
+      size: { height: 32, width: 206 },
+      spec: { markers: ["max"], pad: 3, type: "range-band" },
+    });
+
+    expect(model.stats?.points).toEqual({ original: 200_000, rendered: 200 });
+    const lines = model.marks.filter((mark) => mark.type === "line");
+    expect(lines).toHaveLength(199);
+    expect(lines.at(-1)).toMatchObject({ x2: 203 });
+    expect(model.marks.find((m) => m.id === "range-band-dot")?.datum).toEqual({
+      index: 199_999,
+      value: data[199_999],
+    });
+    expect(
+      model.marks.find((m) => m.id === "range-band-marker-max")?.datum,
+    ).toEqual({ index: 123_456, value: 500 });
+  });
 });
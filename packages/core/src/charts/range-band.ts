@@ -1,11 +1,26 @@
-import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import {
+  a11yItemsForMarkers,
+  a11yItemsForSeries,
+  a11yLabelWithSeriesSummary,
+} from "../a11y";
+import { themePaint } from "../theme";
+import { seriesDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
   coerceFinite,
   coerceFiniteNonNegative,
-  isFiniteNumber,
+  downsampleNormalizedSeries,
+  LINE_PAINT,
+  lineChartScales,
+  lineDownsampleDefaults,
   normalizedPct,
+  normalizeGappedSeries,
+  PCT_DOMAIN,
+  SERIES_FILL_PAINT,
+  seriesMarkerMarks,
+  seriesRuns,
+  seriesXPosition,
 } from "./shared";
 import type {
   NormalizedRangeBand,
@@ -14,24 +29,43 @@ import type {
 } from "./types";
 
 export const rangeBandChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
-      items: a11yItemsForSeries(normalized.series, {
-        idPrefix: "range-band-point",
-        labelPrefix: "Point",
-      }),
-      label: a11yLabelWithSeriesSummary("Range band chart", normalized.series),
+      items: [
+        ...a11yItemsForSeries(normalized.series, {
+          format: spec.format,
+          idPrefix: "range-band-point",
+          labelPrefix: "Point",
+        }),
+        ...a11yItemsForMarkers(normalized.series, spec.markers, {
+          format: spec.format,
+          idPrefix: "range-band-marker",
+        }),
+      ],
+      label: a11yLabelWithSeriesSummary(
+        "Range band chart",
+        normalized.series,
+        spec.format,
+      ),
       role: "img",
     };
   },
   category: "lines" as const,
   defaultPad: 3,
   displayName: "Range band",
+  downsample(spec, normalized, layout, warnings) {
+    return downsampleNormalizedSeries(
+      spec.downsample,
+      normalized,
+      lineDownsampleDefaults(layout),
+      warnings,
+    );
+  },
   emptyDataWarningMessage: "No series data.",
   isEmpty(normalized) {
-    return normalized.series.length === 0;
+    return normalized.series.every((v) => v === null);
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const series = normalized.series;
     if (series.length === 0) return [];
 
@@ -69,55 +103,64 @@ export const rangeBandChart = {
     const y0 = layout.pad;
     const y1 = layout.height - layout.pad;
 
-    const dx = series.length > 1 ? (x1 - x0) / (series.length - 1) : x1 - x0;
+    const xAt = seriesXPosition(series.length, x0, x1, normalized.x);
     const ySpan = y1 - y0 || 1;
     const seedTerm = (bandSeed % 71) * 0.013;
 
     const points = series.map((v, i) => {
+      if (v === null) return null;
       const pct = normalizedPct(v);
-      return { x: x0 + dx * i, y: y1 - (pct / 100) * ySpan };
-    });
-
-    const minPts = series.map((v, i) => {
-      const pct = normalizedPct(v);
-      const wobble = 6 + 4 * (0.5 + 0.5 * Math.sin((i + 1) * 0.65 + seedTerm));
-      const min = clamp(pct - wobble, 0, 100);
-      return { x: x0 + dx * i, y: y1 - (min / 100) * ySpan };
+      return { x: xAt(i), y: y1 - (pct / 100) * ySpan };
     });
 
-    const maxPts = series.map((v, i) => {
-      const pct = normalizedPct(v);
-      const wobble = 6 + 4 * (0.5 + 0.5 * Math.sin((i + 1) * 0.65 + seedTerm));
-      const max = clamp(pct + wobble, 0, 100);
-      return { x: x0 + dx * i, y: y1 - (max / 100) * ySpan };
-    });
-
-    let bandD = `M ${minPts[0].x.toFixed(2)} ${minPts[0].y.toFixed(2)}`;
-    for (let i = 1; i < minPts.length; i++)
-      bandD += ` L ${minPts[i].x.toFixed(2)} ${minPts[i].y.toFixed(2)}`;
-    for (let i = maxPts.length - 1; i >= 0; i--)
-      bandD += ` L ${maxPts[i].x.toFixed(2)} ${maxPts[i].y.toFixed(2)}`;
-    bandD += " Z";
+    // One closed outline per run of present points, so gaps break the band.
+    // The wobble follows input indices, so downsampling keeps its phase.
+    const bandAt = (i: number, v: number, sign: 1 | -1) => {
+      const k = normalized.x?.[i] ?? i;
+      const wobble = 6 + 4 * (0.5 + 0.5 * Math.sin((k + 1) * 0.65 + seedTerm));
+      const pct = clamp(normalizedPct(v) + sign * wobble, 0, 100);
+      return `${xAt(i).toFixed(2)} ${(y1 - (pct / 100) * ySpan).toFixed(2)}`;
+    };
+    const bandD = seriesRuns(series, points)
+      .map((run) => {
+        const indexed = run.values.map((v, k) => ({ i: run.start + k, v }));
+        const lower = indexed.map(({ i, v }) => bandAt(i, v, -1));
+        const upper = indexed.reverse().map(({ i, v }) => bandAt(i, v, 1));
+        return `M ${[...lower, ...upper].join(" L ")} Z`;
+      })
+      .join(" ");
 
     const classSuffix = spec.className ? ` ${spec.className}` : "";
-    const last = points[points.length - 1];
-    const lineMarks = points.slice(1).map((curr, i) => {
+    const linePaint = themePaint(theme, LINE_PAINT);
+    const fillPaint = themePaint(theme, SERIES_FILL_PAINT);
+    let lastIndex = series.length - 1;
+    while (lastIndex >= 0 && series[lastIndex] === null) lastIndex -= 1;
+    const last = points[lastIndex];
+    const lineMarks = points.slice(1).flatMap((curr, i) => {
       const prev = points[i];
-      return {
-        className: `mv-range-band-line${classSuffix}`,
-        id: `range-band-line-${i}`,
-        strokeLinecap: "round" as const,
-        strokeWidth,
-        type: "line" as const,
-        x1: prev.x,
-        x2: curr.x,
-        y1: prev.y,
-        y2: curr.y,
-      };
+      const value = series[i];
+      // Segments touching a gap are skipped, leaving a break in the line.
+      if (!prev || !curr || value === null || value === undefined) return [];
+      return [
+        {
+          ...linePaint,
+          className: `mv-range-band-line${classSuffix}`,
+          datum: seriesDatum(value, i),
+          id: `range-band-line-${i}`,
+          strokeLinecap: "round" as const,
+          strokeWidth,
+          type: "line" as const,
+          x1: prev.x,
+          x2: curr.x,
+          y1: prev.y,
+          y2: curr.y,
+        },
+      ];
     });
 
     return [
       {
+        ...fillPaint,
         className: `mv-range-band-band${classSuffix}`,
         d: bandD,
         fillOpacity: bandOpacity,
@@ -126,20 +169,40 @@ export const rangeBandChart = {
       },
       ...lineMarks,
       {
+        ...fillPaint,
         className: `mv-range-band-dot${classSuffix}`,
         cx: last?.x ?? x1,
         cy: last?.y ?? y1,
+        datum: seriesDatum(series[lastIndex] ?? 0, lastIndex),
         id: "range-band-dot",
         r: dotRadius,
         type: "circle",
       },
+      ...seriesMarkerMarks(
+        spec.markers,
+        series,
+        points,
+        {
+          idPrefix: "range-band-marker",
+          layout,
+          radius: spec.markerRadius,
+          theme,
+        },
+        warnings,
+      ),
     ];
   },
   normalize(_spec, data) {
-    const series = data.filter(isFiniteNumber);
+    const series = normalizeGappedSeries(data);
     return { series, type: "range-band" };
   },
   preferredAspectRatio: "wide" as const,
+  scales(_spec, normalized, layout) {
+    return lineChartScales(layout, PCT_DOMAIN, {
+      series: normalized.series,
+      x: normalized.x,
+    });
+  },
   type: "range-band",
 } satisfies ChartDefinition<
   "range-band",
@@ -1,4 +1,5 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { normalizeSegments } from "./shared";
 import type {
@@ -8,9 +9,10 @@ import type {
 } from "./types";
 
 export const rankedLanesChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "ranked-lanes-seg",
 
         labelFallback: "Segment",
@@ -18,6 +20,7 @@ export const rankedLanesChart = {
       label: a11yLabelWithSegmentsSummary(
         "Ranked lanes chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -55,6 +58,7 @@ export const rankedLanesChart = {
       const rx = Math.min(laneHeight / 2, w / 2);
       return {
         className: `mv-ranked-lanes-bar${classSuffix}`,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h: laneHeight,
         id: `ranked-lanes-bar-${i}`,
@@ -67,8 +71,8 @@ export const rankedLanesChart = {
       };
     });
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "ranked-lanes" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,8 +1,11 @@
 import { barChart } from "./bar";
 import { barcodeChart } from "./barcode";
 import { bitfieldChart } from "./bitfield";
+import { boxPlotChart } from "./box-plot";
+import { bulletChart } from "./bullet";
 import { bulletDeltaChart } from "./bullet-delta";
 import { bulletGaugeChart } from "./bullet-gauge";
+import { calendarHeatmapChart } from "./calendar-heatmap";
 import { cascadeStepsChart } from "./cascade-steps";
 import type { ChartCategory, PreferredAspectRatio } from "./chart-definition";
 import { createChartRegistry } from "./chart-definition";
@@ -29,6 +32,7 @@ import { maskedWaveChart } from "./masked-wave";
 import { matryoshkaChart } from "./matryoshka";
 import { microHeatlineChart } from "./micro-heatline";
 import { mosaicChart } from "./mosaic";
+import { multiSparklineChart } from "./multi-sparkline";
 import { nanoRingChart } from "./nano-ring";
 import { orbitalDotsChart } from "./orbital-dots";
 import { paretoChart } from "./pareto";
@@ -65,13 +69,17 @@ import { twoTierChart } from "./two-tier";
 import { variableRibbonChart } from "./variable-ribbon";
 import { verticalStackChart } from "./vertical-stack";
 import { waveformChart } from "./waveform";
+import { winLossChart } from "./win-loss";
 
 export const chartRegistry = createChartRegistry({
   bar: barChart,
   barcode: barcodeChart,
   bitfield: bitfieldChart,
+  "box-plot": boxPlotChart,
+  bullet: bulletChart,
   "bullet-delta": bulletDeltaChart,
   "bullet-gauge": bulletGaugeChart,
+  "calendar-heatmap": calendarHeatmapChart,
   "cascade-steps": cascadeStepsChart,
   chevron: chevronChart,
   "code-minimap": codeMinimapChart,
@@ -96,6 +104,7 @@ export const chartRegistry = createChartRegistry({
   matryoshka: matryoshkaChart,
   "micro-heatline": microHeatlineChart,
   mosaic: mosaicChart,
+  "multi-sparkline": multiSparklineChart,
   "nano-ring": nanoRingChart,
   "orbital-dots": orbitalDotsChart,
   pareto: paretoChart,
@@ -132,6 +141,7 @@ export const chartRegistry = createChartRegistry({
   "variable-ribbon": variableRibbonChart,
   "vertical-stack": verticalStackChart,
   waveform: waveformChart,
+  "win-loss": winLossChart,
 });
 
 export type ChartRegistry = typeof chartRegistry;
@@ -1,4 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
+import { themeRadius } from "../theme";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -12,15 +14,17 @@ import type {
 } from "./types";
 
 export const segmentedBarChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "segmented-bar-seg",
         labelFallback: "Segment",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Segmented bar chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -32,7 +36,7 @@ export const segmentedBarChart = {
   isEmpty(normalized) {
     return normalized.segments.length === 0;
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const usableW = Math.max(0, layout.width - layout.pad * 2);
     const usableH = Math.max(0, layout.height - layout.pad * 2);
     const x0 = layout.pad;
@@ -49,22 +53,24 @@ export const segmentedBarChart = {
     );
     const runs = layoutSegmentsByPct(segments, usableW, gap);
     const classSuffix = spec.className ? ` ${spec.className}` : "";
+    const corner = themeRadius(theme) ?? 2;
 
     return runs.map((run, i) => ({
       className: `mv-segmented-bar-seg${classSuffix}`,
+      datum: segmentDatum(run, i),
       fill: run.color,
       h: usableH,
       id: `segmented-bar-seg-${i}`,
-      rx: Math.min(usableH / 2, 2, run.w / 2),
-      ry: Math.min(usableH / 2, 2, run.w / 2),
+      rx: Math.min(usableH / 2, corner, run.w / 2),
+      ry: Math.min(usableH / 2, corner, run.w / 2),
       type: "rect",
       w: run.w,
       x: x0 + run.x,
       y: y0,
     }));
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "segmented-bar" };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
@@ -16,15 +17,17 @@ import type {
 const DEFAULT_SEPARATOR_STROKE = "rgba(255,255,255,0.2)";
 
 export const segmentedPillChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "segmented-pill-seg",
         labelFallback: "Segment",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Segmented pill chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -61,11 +64,13 @@ export const segmentedPillChart = {
       const x = x0 + run.x;
       const w = run.w;
       const fill = run.color;
+      const datum = segmentDatum(run, i);
       const className = `mv-segmented-pill-seg${classSuffix}`;
 
       if (!hasRadius) {
         marks.push({
           className,
+          datum,
           fill,
           h: usableH,
           id: `segmented-pill-seg-${i}`,
@@ -85,6 +90,7 @@ export const segmentedPillChart = {
       if (isSingle) {
         marks.push({
           className,
+          datum,
           fill,
           h: usableH,
           id: `segmented-pill-seg-${i}`,
@@ -101,6 +107,7 @@ export const segmentedPillChart = {
       if (isFirst) {
         marks.push({
           className,
+          datum,
           fill,
           h: usableH,
           id: `segmented-pill-seg-${i}`,
@@ -115,6 +122,7 @@ export const segmentedPillChart = {
         if (innerW > 0) {
           marks.push({
             className,
+            datum,
             fill,
             h: usableH,
             id: `segmented-pill-seg-${i}-inner`,
@@ -130,6 +138,7 @@ export const segmentedPillChart = {
       if (isLast) {
         marks.push({
           className,
+          datum,
           fill,
           h: usableH,
           id: `segmented-pill-seg-${i}`,
@@ -144,6 +153,7 @@ export const segmentedPillChart = {
         if (innerW > 0) {
           marks.push({
             className,
+            datum,
             fill,
             h: usableH,
             id: `segmented-pill-seg-${i}-inner`,
@@ -158,6 +168,7 @@ export const segmentedPillChart = {
 
       marks.push({
         className,
+        datum,
         fill,
         h: usableH,
         id: `segmented-pill-seg-${i}`,
@@ -211,8 +222,8 @@ export const segmentedPillChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "segmented-pill" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -19,7 +19,7 @@ describe("segmented-ring", () => {
     expect(a).toEqual(b);
     expect(a.marks.length).toBe(3);
     expect(a.stats?.warnings).toBeUndefined();
-    expect(a.marks.every((m) => m.type === "circle")).toBe(true);
+    expect(a.marks.every((m) => m.type === "arc")).toBe(true);
   });
 
   test("all segments share the same center and radius", () => {
@@ -36,20 +36,21 @@ describe("segmented-ring", () => {
     const model = computeModel(input);
     const marks = model.marks;
 
-    // All circles should have same cx, cy, and r
+    // All arcs should share cx, cy and radii
     const firstMark = marks[0];
-    if (firstMark?.type === "circle") {
+    if (firstMark?.type === "arc") {
       for (const mark of marks) {
-        if (mark.type === "circle") {
+        if (mark.type === "arc") {
           expect(mark.cx).toBe(firstMark.cx);
           expect(mark.cy).toBe(firstMark.cy);
-          expect(mark.r).toBe(firstMark.r);
+          expect(mark.innerR).toBe(firstMark.innerR);
+          expect(mark.outerR).toBe(firstMark.outerR);
         }
       }
     }
   });
 
-  test("segments have strokeDasharray for partial arcs", () => {
+  test("segments sweep consecutive angles from 12 o'clock", () => {
     const input = {
       data: [
         { color: "#ef4444", name: "A", pct: 50 },
@@ -61,11 +62,15 @@ describe("segmented-ring", () => {
 
     const model = computeModel(input);
 
-    for (const mark of model.marks) {
-      if (mark.type === "circle") {
-        expect(mark.strokeDasharray).toBeDefined();
-        expect(mark.strokeDashoffset).toBeDefined();
-      }
+    const [first, second] = model.marks;
+    expect(first?.type).toBe("arc");
+    expect(second?.type).toBe("arc");
+    if (first?.type === "arc" && second?.type === "arc") {
+      // Round-cap overhang widens each sweep by the same angle on both ends
+      const cap = -Math.PI / 2 - first.startAngle;
+      expect(cap).toBeGreaterThan(0);
+      expect(first.endAngle - cap).toBeCloseTo(Math.PI / 2);
+      expect(second.startAngle + cap).toBeCloseTo(Math.PI / 2);
     }
   });
 
@@ -79,8 +84,10 @@ describe("segmented-ring", () => {
     const model = computeModel(input);
     const [mark] = model.marks;
 
-    if (mark?.type === "circle") {
-      expect(mark.strokeWidth).toBe(5);
+    expect(mark?.type).toBe("arc");
+    if (mark?.type === "arc") {
+      expect(mark.outerR - mark.innerR).toBe(5);
+      expect(mark.cornerRadius).toBe(2.5);
     }
   });
 
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteInt,
@@ -20,9 +21,10 @@ function filterId(index: number): string {
 }
 
 export const shadowDepthChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "shadow-depth-seg",
 
         labelFallback: "Segment",
@@ -30,6 +32,7 @@ export const shadowDepthChart = {
       label: a11yLabelWithSegmentsSummary(
         "Shadow depth chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -137,6 +140,7 @@ export const shadowDepthChart = {
 
       marks.push({
         className: `mv-shadow-depth-block${classSuffix}`,
+        datum: segmentDatum(run, i),
         fill: run.color,
         filter: filterId(i),
         h,
@@ -152,8 +156,8 @@ export const shadowDepthChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "shadow-depth" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteInt,
@@ -9,9 +10,10 @@ import {
 import type { BitfieldData, NormalizedShapeRow, ShapeRowSpec } from "./types";
 
 export const shapeRowChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "shape-row-seg",
 
         labelFallback: "Segment",
@@ -19,6 +21,7 @@ export const shapeRowChart = {
       label: a11yLabelWithSegmentsSummary(
         "Shape row chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -83,17 +86,28 @@ export const shapeRowChart = {
       if (!seg) continue;
 
       const cx = x0 + (usableW * (i + 0.5)) / maxShapes;
+      const datum = segmentDatum(seg, i);
       const fill = seg.color;
       const id = `shape-row-shape-${i}`;
       const className = `mv-shape-row-shape${classSuffix}`;
 
       switch (i % 4) {
         case 0:
-          marks.push({ className, cx, cy, fill, id, r: half, type: "circle" });
+          marks.push({
+            className,
+            cx,
+            cy,
+            datum,
+            fill,
+            id,
+            r: half,
+            type: "circle",
+          });
           break;
         case 1:
           marks.push({
             className,
+            datum,
             fill,
             h: shapeSize,
             id,
@@ -107,7 +121,7 @@ export const shapeRowChart = {
           break;
         case 2: {
           const d = `M ${cx.toFixed(2)} ${topY.toFixed(2)} L ${(cx + triHalfW).toFixed(2)} ${bottomY.toFixed(2)} H ${(cx - triHalfW).toFixed(2)} Z`;
-          marks.push({ className, d, fill, id, type: "path" });
+          marks.push({ className, d, datum, fill, id, type: "path" });
           break;
         }
         default: {
@@ -118,15 +132,15 @@ export const shapeRowChart = {
             `L ${(cx - half).toFixed(2)} ${cy.toFixed(2)}`,
             "Z",
           ].join(" ");
-          marks.push({ className, d, fill, id, type: "path" });
+          marks.push({ className, d, datum, fill, id, type: "path" });
         }
       }
     }
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "shape-row" as const };
   },
   preferredAspectRatio: "wide" as const,
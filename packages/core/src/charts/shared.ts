@@ -1,16 +1,44 @@
-import type { DiagnosticWarning } from "../model";
+import type { ChartScales } from "../annotations";
+import { countOutOfDomain, type ResolvedDomain } from "../domain";
+import {
+  type Downsampled,
+  type DownsampleMethod,
+  type DownsampleOption,
+  downsampleSeries,
+} from "../downsample";
+import type { DiagnosticWarning, Mark, MarkDatum } from "../model";
+import { assignPaletteColors } from "../palette";
+import { type ThemePaint, themePaint } from "../theme";
+import { segmentDatum, seriesDatum } from "../utils/datum";
+import { seriesMarkerIndices } from "../utils/markers";
 import {
   allocateUnitsByPct as allocateUnitsByPctFromPct,
   clamp,
   expandColorsByCounts,
 } from "../utils/math";
-import type { BitfieldData, BitfieldSegment } from "./types";
+import type { Layout, ThemeTokens } from "./context";
+import type {
+  BitfieldData,
+  LineSeriesData,
+  SegmentPalette,
+  SeriesMarker,
+  SeriesXValue,
+  SparklineData,
+  XScaleType,
+  XYSeriesData,
+} from "./types";
 
 export const MAX_DIAGNOSTIC_WARNINGS = 25;
 
+/** Theme paint of a series line (`mv-line` and the per-chart line classes). */
+export const LINE_PAINT: ThemePaint = { stroke: "series-1", strokeWidth: true };
+
+/** Theme paint of marks filled with the first series color. */
+export const SERIES_FILL_PAINT: ThemePaint = { fill: "series-1" };
+
 export { clamp };
 
-export function isFiniteNumber(x: number): boolean {
+export function isFiniteNumber(x: unknown): x is number {
   return Number.isFinite(x);
 }
 
@@ -62,53 +90,478 @@ export function isIntegerish(value: number): boolean {
   return Math.abs(value - Math.round(value)) < 1e-6;
 }
 
-export type NormalizedSegment = BitfieldSegment;
+export type NormalizedSegment = { name?: string; pct: number; color: string };
 
-export function normalizeSegments(data: BitfieldData): NormalizedSegment[] {
-  const segments = data
-    .filter((s) => isFiniteNumber(s.pct) && s.pct > 0 && s.color.length > 0)
-    .map((s) => ({ color: s.color, name: s.name, pct: Math.max(0, s.pct) }));
+/**
+ * Resolves each segment's color (explicit, or from `palette`), drops
+ * non-positive segments and rescales the rest to sum to 100. Colors are
+ * assigned before dropping, so a segment keeps its color when others are
+ * zero.
+ */
+export function normalizeSegments(
+  data: BitfieldData,
+  palette?: SegmentPalette,
+): NormalizedSegment[] {
+  const colors = assignPaletteColors(data, palette);
+  const segments = data.flatMap((s, i) =>
+    isFiniteNumber(s.pct) && s.pct > 0
+      ? [{ color: colors[i] as string, name: s.name, pct: s.pct }]
+      : [],
+  );
   const total = segments.reduce((sum, s) => sum + s.pct, 0);
   if (total <= 0) return [];
   return segments.map((s) => ({ ...s, pct: (s.pct / total) * 100 }));
 }
 
+/**
+ * Keeps `null` entries as gaps (other non-finite values are dropped). With
+ * `interpolate`, interior gaps are filled linearly from their neighbours,
+ * weighted by `x` when given; leading and trailing gaps have nothing to
+ * interpolate from and stay.
+ */
+export function normalizeGappedSeries(
+  data: SparklineData,
+  interpolate = false,
+  x?: ReadonlyArray<number>,
+): Array<number | null> {
+  const series = data.filter((v) => v === null || isFiniteNumber(v));
+  if (!interpolate) return series;
+
+  const at = (i: number) => x?.[i] ?? i;
+  let prev = -1;
+  for (let i = 0; i < series.length; i += 1) {
+    const value = series[i];
+    if (value === null || value === undefined) continue;
+    const from = series[prev];
+    if (prev >= 0 && i - prev > 1 && from !== null && from !== undefined) {
+      const span = at(i) - at(prev) || 1;
+      for (let j = prev + 1; j < i; j += 1) {
+        series[j] = from + ((value - from) * (at(j) - at(prev))) / span;
+      }
+    }
+    prev = i;
+  }
+  return series;
+}
+
+/**
+ * Numeric form of an x value: numbers as-is, dates and date strings as epoch
+ * milliseconds. Unparseable values give `null`.
+ */
+export function xValueToNumber(x: SeriesXValue): number | null {
+  if (typeof x === "number") return Number.isFinite(x) ? x : null;
+  if (x instanceof Date) {
+    const time = x.getTime();
+    return Number.isFinite(time) ? time : null;
+  }
+  if (typeof x !== "string") return null;
+  const trimmed = x.trim();
+  if (!trimmed) return null;
+  const n = Number(trimmed);
+  if (Number.isFinite(n)) return n;
+  const time = Date.parse(trimmed);
+  return Number.isFinite(time) ? time : null;
+}
+
+function isTemporalXValue(x: SeriesXValue): boolean {
+  if (x instanceof Date) return true;
+  return typeof x === "string" && !Number.isFinite(Number(x.trim()));
+}
+
+function xyPairs(
+  data: LineSeriesData,
+): Array<{ x: SeriesXValue; y: unknown }> | null {
+  if (!Array.isArray(data)) {
+    const { x, y } = data as Extract<XYSeriesData, { x: unknown }>;
+    const count = Math.min(x?.length ?? 0, y?.length ?? 0);
+    return Array.from({ length: count }, (_, i) => ({
+      x: x[i] as SeriesXValue,
+      y: y[i],
+    }));
+  }
+  if (!data.some((d) => typeof d === "object" && d !== null)) return null;
+  return data.flatMap((d) =>
+    typeof d === "object" && d !== null && "x" in d ? [d] : [],
+  );
+}
+
+export type NormalizedLineSeries = {
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
+  /** Numeric x per point, ascending; absent for plain value arrays. */
+  x?: number[];
+  xScale?: XScaleType;
+};
+
+/**
+ * Normalizes line-family data. Plain arrays keep index spacing; `{ x, y }`
+ * points and parallel arrays are sorted by x, and points whose x can't be
+ * parsed are dropped. A missing or `null` y is a gap.
+ */
+export function normalizeLineSeries(
+  data: LineSeriesData,
+  options: { interpolateGaps?: boolean; xScale?: XScaleType } = {},
+): NormalizedLineSeries {
+  const pairs = xyPairs(data);
+  if (!pairs) {
+    return {
+      series: normalizeGappedSeries(
+        data as SparklineData,
+        options.interpolateGaps,
+      ),
+    };
+  }
+
+  let temporal = false;
+  const points: Array<{ x: number; y: number | null }> = [];
+  for (const pair of pairs) {
+    const x = xValueToNumber(pair.x);
+    const y = pair.y ?? null;
+    if (x === null || (y !== null && !isFiniteNumber(y))) continue;
+    if (isTemporalXValue(pair.x)) temporal = true;
+    points.push({ x, y });
+  }
+  points.sort((a, b) => a.x - b.x);
+
+  const x = points.map((p) => p.x);
+  return {
+    series: normalizeGappedSeries(
+      points.map((p) => p.y),
+      options.interpolateGaps,
+      x,
+    ),
+    x,
+    xScale: options.xScale ?? (temporal ? "time" : "linear"),
+  };
+}
+
+/**
+ * Maps a point index to a horizontal position in `[x0, x1]`: evenly spaced
+ * by index, or proportional to `x` values when given.
+ */
+export function seriesXPosition(
+  count: number,
+  x0: number,
+  x1: number,
+  x?: ReadonlyArray<number>,
+): (index: number) => number {
+  if (x && x.length > 0) {
+    const first = x[0] ?? 0;
+    const span = (x[x.length - 1] ?? first) - first;
+    return (i) =>
+      span > 0 ? x0 + (((x[i] ?? first) - first) / span) * (x1 - x0) : x0;
+  }
+  const dx = count > 1 ? (x1 - x0) / (count - 1) : 0;
+  return (i) => x0 + dx * i;
+}
+
+export type SeriesPoint = { x: number; y: number };
+
+/** A contiguous stretch of present points, starting at series index `start`. */
+export type SeriesRun = {
+  start: number;
+  points: SeriesPoint[];
+  values: number[];
+};
+
+/**
+ * Maps a series to points inside the padded box, evenly spaced unless `x`
+ * values are given; `null` entries keep their x slot but map to `null`. The
+ * y-domain defaults to the series' own extent; pass `domain` to share one
+ * across several series. Values outside `domain` are clamped to its edges.
+ */
 export function sparklineSeries(
-  series: readonly number[],
+  series: ReadonlyArray<number | null>,
   w: number,
   h: number,
   pad: number,
+  domain?: { min: number; max: number },
+  x?: ReadonlyArray<number>,
 ): {
-  points: { x: number; y: number }[];
-  last: { x: number; y: number } | null;
+  points: Array<SeriesPoint | null>;
+  last: SeriesPoint | null;
+  lastIndex: number;
 } {
-  if (series.length === 0) return { last: null, points: [] };
+  const present = series.filter(isFiniteNumber);
+  if (present.length === 0) return { last: null, lastIndex: -1, points: [] };
   const x0 = pad;
   const x1 = w - pad;
   const y0 = pad;
   const y1 = h - pad;
 
-  const min = Math.min(...series);
-  const max = Math.max(...series);
+  const min = domain?.min ?? Math.min(...present);
+  const max = domain?.max ?? Math.max(...present);
   const denom = max - min || 1;
 
-  const dx = series.length > 1 ? (x1 - x0) / (series.length - 1) : 0;
-  const points = series.map((v, i) => ({
-    x: x0 + dx * i,
-    y: y1 - ((v - min) / denom) * (y1 - y0),
-  }));
+  const xAt = seriesXPosition(series.length, x0, x1, x);
+  const points = series.map((v, i) =>
+    v === null
+      ? null
+      : {
+          x: xAt(i),
+          y: y1 - ((clamp(v, min, max) - min) / denom) * (y1 - y0),
+        },
+  );
 
-  return { last: points[points.length - 1] ?? null, points };
+  let lastIndex = points.length - 1;
+  while (lastIndex >= 0 && points[lastIndex] === null) lastIndex -= 1;
+  return { last: points[lastIndex] ?? null, lastIndex, points };
+}
+
+/** Splits mapped points into runs of consecutive present points. */
+export function seriesRuns(
+  series: ReadonlyArray<number | null>,
+  points: ReadonlyArray<SeriesPoint | null>,
+): SeriesRun[] {
+  const runs: SeriesRun[] = [];
+  let current: SeriesRun | null = null;
+  for (let i = 0; i < points.length; i += 1) {
+    const point = points[i];
+    const value = series[i];
+    if (!point || value === null || value === undefined) {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { points: [], start: i, values: [] };
+      runs.push(current);
+    }
+    current.points.push(point);
+    current.values.push(value);
+  }
+  return runs;
 }
 
+/**
+ * Id for one run of a gap-broken line: the plain `base` while the line is
+ * unbroken, otherwise suffixed with the run's first index so ids stay stable.
+ */
+export function seriesRunId(
+  base: string,
+  run: SeriesRun,
+  runs: ReadonlyArray<SeriesRun>,
+): string {
+  return runs.length === 1 ? base : `${base}-${run.start}`;
+}
+
+/**
+ * Warns when values fall outside the chart's y-domain; marks clamp them to the
+ * domain edges.
+ */
+export function warnOutOfDomain(
+  series: ReadonlyArray<number | null>,
+  domain: ResolvedDomain,
+  warnings: DiagnosticWarning[] | undefined,
+): void {
+  const count = countOutOfDomain(series, domain);
+  if (count === 0 || !warnings) return;
+  pushWarning(warnings, {
+    code: "OUT_OF_RANGE",
+    message: `${count} value(s) outside the y-domain [${domain.min}, ${domain.max}]; clamped.`,
+    phase: "compute",
+  });
+}
+
+/**
+ * Applies a spec `downsample` option to a normalized series. `defaults` gives
+ * the chart's method and the point budget its plot width can show. With
+ * `indexX`, kept points get their input index as `x` (unless they already
+ * have x values) so they keep their horizontal positions; bar charts leave it
+ * off and draw the kept values in even slots.
+ */
+export function downsampleNormalizedSeries<
+  N extends { series: Array<number | null>; x?: number[] },
+>(
+  option: DownsampleOption | undefined,
+  normalized: N,
+  defaults: { indexX: boolean; maxPoints: number; method: DownsampleMethod },
+  warnings?: DiagnosticWarning[],
+): Downsampled<N> {
+  const { series } = normalized;
+  const originalCount = series.length;
+  const options = typeof option === "object" ? option : {};
+  const maxPoints =
+    options.maxPoints === undefined
+      ? defaults.maxPoints
+      : coerceFiniteInt(
+          options.maxPoints,
+          defaults.maxPoints,
+          2,
+          warnings,
+          "Non-finite downsample maxPoints; defaulted to the plot width.",
+        );
+  if (option === false || originalCount <= maxPoints)
+    return { index: series.map((_, i) => i), normalized, originalCount };
+
+  const sampled = downsampleSeries(series, maxPoints, {
+    method: options.method ?? defaults.method,
+    x: normalized.x,
+  });
+  const x = sampled.x ?? (defaults.indexX ? sampled.index : undefined);
+  return {
+    index: sampled.index,
+    normalized: { ...normalized, series: sampled.series, ...(x ? { x } : {}) },
+    originalCount,
+  };
+}
+
+/** Line charts downsample with LTTB to one point per pixel of plot width. */
+export function lineDownsampleDefaults(layout: Layout): {
+  indexX: boolean;
+  maxPoints: number;
+  method: DownsampleMethod;
+} {
+  const plotWidth = layout.width - layout.pad * 2;
+  return {
+    indexX: true,
+    maxPoints: Math.max(2, Math.floor(plotWidth)),
+    method: "lttb",
+  };
+}
+
+/**
+ * Circle marks for a line chart's `markers`, placed on the matching `points`
+ * (one per series entry, `null` for gaps). Centres are pulled in from the
+ * viewport edges by the radius so markers never poke out of bounds.
+ */
+export function seriesMarkerMarks(
+  markers: ReadonlyArray<SeriesMarker> | undefined,
+  series: ReadonlyArray<number | null>,
+  points: ReadonlyArray<{ x: number; y: number } | null>,
+  options: {
+    idPrefix: string;
+    layout: Layout;
+    radius: number | undefined;
+    theme?: ThemeTokens;
+    x?: ReadonlyArray<number>;
+  },
+  warnings?: DiagnosticWarning[],
+): Mark[] {
+  if (!markers || markers.length === 0) return [];
+  const r = coerceFiniteNonNegative(
+    options.radius ?? 2.4,
+    2.4,
+    warnings,
+    "Non-finite marker radius; defaulted to 2.4.",
+  );
+  const { height, width } = options.layout;
+  const inset = (v: number, size: number) =>
+    size >= 2 * r ? clamp(v, r, size - r) : size / 2;
+
+  const marks: Mark[] = [];
+  for (const { index, kind } of seriesMarkerIndices(series, markers)) {
+    const point = points[index];
+    const value = series[index];
+    if (!point || value === null || value === undefined) continue;
+    marks.push({
+      ...themePaint(options.theme, SERIES_FILL_PAINT),
+      className: `mv-marker mv-marker-${kind}`,
+      cx: inset(point.x, width),
+      cy: inset(point.y, height),
+      datum: seriesDatum(value, index, options.x?.[index]),
+      id: `${options.idPrefix}-${kind}`,
+      r,
+      type: "circle",
+    });
+  }
+  return marks;
+}
+
+function paddedPlot(layout: Layout): ChartScales["plot"] {
+  return {
+    x0: layout.pad,
+    x1: layout.width - layout.pad,
+    y0: layout.pad,
+    y1: layout.height - layout.pad,
+  };
+}
+
+/**
+ * Scales for charts laid out like `sparklineSeries`: values on y across the
+ * padded plot. With `points`, point annotations resolve to the series vertex
+ * (spaced by index or by `x`); omit it when several series share the plot.
+ */
+export function lineChartScales(
+  layout: Layout,
+  domain: ResolvedDomain,
+  points?: { series: ReadonlyArray<number | null>; x?: ReadonlyArray<number> },
+): ChartScales {
+  const plot = paddedPlot(layout);
+  const denom = domain.max - domain.min || 1;
+  const value = (v: number) =>
+    plot.y1 -
+    ((clamp(v, domain.min, domain.max) - domain.min) / denom) *
+      (plot.y1 - plot.y0);
+  if (!points) return { domain, plot, value, valueAxis: "y" };
+
+  const { series } = points;
+  const xAt = seriesXPosition(series.length, plot.x0, plot.x1, points.x);
+  return {
+    domain,
+    plot,
+    point(index) {
+      const v = series[index];
+      if (v === null || v === undefined) return null;
+      return { x: xAt(index), y: value(v) };
+    },
+    value,
+    valueAxis: "y",
+  };
+}
+
+/**
+ * Scales for bottom-anchored columns. With `columns`, point annotations
+ * resolve to the top of column `i` (which starts at
+ * `pad + i * (barWidth + gap)` and is at least `minHeight` tall, matching the
+ * drawn bars); omit it when columns don't map one-to-one to data points.
+ */
+export function columnChartScales(
+  layout: Layout,
+  domain: ResolvedDomain,
+  columns?: {
+    series: ReadonlyArray<number | null>;
+    barWidth: number;
+    gap: number;
+    minHeight?: number;
+  },
+): ChartScales {
+  const plot = paddedPlot(layout);
+  const usableH = Math.max(0, plot.y1 - plot.y0);
+  const denom = domain.max - domain.min || 1;
+  const height = (v: number) =>
+    ((clamp(v, domain.min, domain.max) - domain.min) / denom) * usableH;
+  const value = (v: number) => plot.y0 + usableH - height(v);
+  if (!columns) return { domain, plot, value, valueAxis: "y" };
+
+  const { barWidth, gap, series } = columns;
+  const minHeight = columns.minHeight ?? 0;
+  return {
+    domain,
+    plot,
+    point(index) {
+      const v = series[index];
+      if (v === null || v === undefined) return null;
+      return {
+        x: plot.x0 + index * (barWidth + gap) + barWidth / 2,
+        y: plot.y0 + usableH - Math.max(minHeight, height(v)),
+      };
+    },
+    value,
+    valueAxis: "y",
+  };
+}
+
+/** Default y-domain of charts whose values are percentages. */
+export const PCT_DOMAIN: ResolvedDomain = { max: 100, min: 0 };
+
 export function normalizedPct(x: number): number {
   return clamp(x, 0, 100);
 }
 
-function seriesHashHex(series: readonly number[]): string {
+function seriesHashHex(series: ReadonlyArray<number | null>): string {
   let hash = 0x811c9dc5;
   for (const value of series) {
-    const scaled = Math.round(value * 1000);
+    const scaled = Math.round((value ?? 0) * 1000);
     const bytes = [
       scaled & 0xff,
       (scaled >>> 8) & 0xff,
@@ -123,20 +576,27 @@ function seriesHashHex(series: readonly number[]): string {
   return (hash >>> 0).toString(16).padStart(8, "0");
 }
 
-export function sparkAreaGradientId(series: readonly number[]): string {
+export function sparkAreaGradientId(
+  series: ReadonlyArray<number | null>,
+): string {
   return `mv-spark-area-grad-${seriesHashHex(series)}`;
 }
 
+/**
+ * Resamples a series to `count` evenly spaced values, interpolating between
+ * neighbours. A position next to a `null` gap takes its nearest source value,
+ * so gaps survive as `null` slots.
+ */
 export function resampleSeries(
-  series: readonly number[],
+  series: ReadonlyArray<number | null>,
   count: number,
-): number[] {
+): Array<number | null> {
   if (count <= 0) return [];
   if (series.length === 0) return [];
   if (series.length === 1) {
-    return Array.from({ length: count }, () => series[0] ?? 0);
+    return Array.from({ length: count }, () => series[0] ?? null);
   }
-  if (count === 1) return [series[0] ?? 0];
+  if (count === 1) return [series[0] ?? null];
 
   const last = series.length - 1;
   return Array.from({ length: count }, (_, i) => {
@@ -145,8 +605,9 @@ export function resampleSeries(
     const lo = Math.floor(idx);
     const hi = Math.min(last, Math.ceil(idx));
     const frac = idx - lo;
-    const a = series[lo] ?? 0;
-    const b = series[hi] ?? a;
+    const a = series[lo] ?? null;
+    const b = series[hi] ?? null;
+    if (a === null || b === null) return series[Math.round(idx)] ?? null;
     return a + (b - a) * frac;
   });
 }
@@ -171,7 +632,37 @@ export function expandSegmentColors(
   });
 }
 
-type SegmentRun = { color: string; name?: string; w: number; x: number };
+/**
+ * Segment index for each unit allocated by `allocateUnitsByPct`, in the same
+ * order as `expandSegmentColors`.
+ */
+export function segmentIndexByUnit(counts: readonly number[]): number[] {
+  return counts.flatMap((count, segIdx) =>
+    Array.from({ length: count }, () => segIdx),
+  );
+}
+
+/**
+ * Datum of the segment owning unit `i` in a `segmentIndexByUnit` (or
+ * `interleaveCounts`) ordering; trailing units fall back to the last one.
+ */
+export function unitSegmentDatum(
+  segments: readonly NormalizedSegment[],
+  order: readonly number[],
+  i: number,
+): MarkDatum | undefined {
+  const segIdx = order[i] ?? order[order.length - 1];
+  const seg = segIdx === undefined ? undefined : segments[segIdx];
+  return seg && segIdx !== undefined ? segmentDatum(seg, segIdx) : undefined;
+}
+
+type SegmentRun = {
+  color: string;
+  name?: string;
+  pct: number;
+  w: number;
+  x: number;
+};
 
 export function layoutSegmentsByPct(
   segments: readonly NormalizedSegment[],
@@ -195,7 +686,7 @@ export function layoutSegmentsByPct(
       i === segments.length - 1
         ? Math.max(0, availableW - acc)
         : Math.max(0, widths[i] ?? 0);
-    out.push({ color: seg.color, name: seg.name, w, x });
+    out.push({ color: seg.color, name: seg.name, pct: seg.pct, w, x });
     acc += widths[i] ?? 0;
   }
 
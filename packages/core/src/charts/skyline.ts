@@ -1,4 +1,5 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -8,14 +9,19 @@ import {
 import type { BitfieldData, NormalizedSkyline, SkylineSpec } from "./types";
 
 export const skylineChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "skyline-seg",
 
         labelFallback: "Segment",
       }),
-      label: a11yLabelWithSegmentsSummary("Skyline chart", normalized.segments),
+      label: a11yLabelWithSegmentsSummary(
+        "Skyline chart",
+        normalized.segments,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -62,6 +68,7 @@ export const skylineChart = {
 
         return {
           className: `mv-skyline-bar${classSuffix}`,
+          datum: segmentDatum(seg, i),
           fill: run.color,
           h,
           id: `skyline-bar-${i}`,
@@ -75,8 +82,8 @@ export const skylineChart = {
       })
       .filter((m) => m !== null);
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "skyline" as const };
   },
   preferredAspectRatio: "wide" as const,
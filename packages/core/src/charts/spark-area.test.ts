@@ -16,7 +16,7 @@ describe("spark-area", () => {
     expect(a.stats?.warnings).toBeUndefined();
     expect(a.defs?.length).toBe(1);
     expect(a.stats?.hasDefs).toBe(true);
-    expect(a.marks.map((m) => m.type)).toEqual(["path", "path", "circle"]);
+    expect(a.marks.map((m) => m.type)).toEqual(["area", "polyline", "circle"]);
     expect(a.marks.map((m) => m.id)).toEqual([
       "spark-area-area",
       "spark-area-line",
@@ -25,11 +25,48 @@ describe("spark-area", () => {
 
     const def = a.defs?.[0];
     const area = a.marks[0];
-    if (def?.type === "linearGradient" && area?.type === "path") {
+    if (def?.type === "linearGradient" && area?.type === "area") {
       expect(area.fill).toBe(`url(#${def.id})`);
       expect(area.stroke).toBe("none");
+      expect(area.baseline).toBe(29);
       expect(def.stops[0]?.opacity).toBeCloseTo(0.45, 6);
       expect(def.stops[1]?.opacity).toBe(0);
     }
   });
+
+  test("splits the area and line at gaps", () => {
+    const model = computeModel({
+      data: [10, 20, null, 30, 40, null],
+      size: { height: 32, width: 100 },
+      spec: { type: "spark-area" },
+    });
+
+    expect(model.marks.map((m) => m.id)).toEqual([
+      "spark-area-area-0",
+      "spark-area-area-3",
+      "spark-area-line-0",
+      "spark-area-line-3",
+      "spark-area-dot",
+    ]);
+    const dot = model.marks.at(-1);
+    expect(dot?.datum).toEqual({ index: 4, value: 40 });
+    expect(model.stats?.warnings).toBeUndefined();
+  });
+
+  test("fills curved areas down to the baseline", () => {
+    const model = computeModel({
+      data: [10, 60, 30],
+      size: { height: 32, width: 100 },
+      spec: { curve: "basis", type: "spark-area" },
+    });
+
+    const [area, line] = model.marks;
+    if (area?.type !== "path" || line?.type !== "path")
+      throw new Error("expected paths");
+    expect(area.fill).toMatch(/^url\(#/);
+    expect(area.d.endsWith("V 29.00 H 3.00 Z")).toBe(true);
+    expect(line.fill).toBe("none");
+    expect(line.d).toBe(area.d.replace(" V 29.00 H 3.00 Z", ""));
+    expect(model.stats?.warnings).toBeUndefined();
+  });
 });
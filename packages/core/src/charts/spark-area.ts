@@ -1,28 +1,61 @@
-import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import {
+  a11yItemsForMarkers,
+  a11yItemsForSeries,
+  a11yLabelWithSeriesSummary,
+} from "../a11y";
+import { resolveDomain } from "../domain";
 import type { Mark } from "../model";
+import { themePaint } from "../theme";
+import { curveAreaPath, curvePath } from "../utils/curve";
+import { seriesDatum, seriesPointData } from "../utils/datum";
 import { applyFillRules } from "../utils/defs";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
   coerceFiniteNonNegative,
-  isFiniteNumber,
-  normalizedPct,
+  downsampleNormalizedSeries,
+  LINE_PAINT,
+  lineChartScales,
+  lineDownsampleDefaults,
+  normalizeLineSeries,
+  PCT_DOMAIN,
+  SERIES_FILL_PAINT,
+  seriesMarkerMarks,
+  seriesRunId,
+  seriesRuns,
+  seriesXPosition,
   sparkAreaGradientId,
+  warnOutOfDomain,
 } from "./shared";
 import type {
+  LineSeriesData,
   NormalizedSparkArea,
   SparkAreaSpec,
-  SparklineData,
 } from "./types";
 
 export const sparkAreaChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
-      items: a11yItemsForSeries(normalized.series, {
-        idPrefix: "spark-area-point",
-        labelPrefix: "Point",
-      }),
-      label: a11yLabelWithSeriesSummary("Spark area chart", normalized.series),
+      items: [
+        ...a11yItemsForSeries(normalized.series, {
+          format: spec.format,
+          idPrefix: "spark-area-point",
+          labelPrefix: "Point",
+          x: normalized.x,
+          xScale: normalized.xScale,
+        }),
+        ...a11yItemsForMarkers(normalized.series, spec.markers, {
+          format: spec.format,
+          idPrefix: "spark-area-marker",
+          x: normalized.x,
+          xScale: normalized.xScale,
+        }),
+      ],
+      label: a11yLabelWithSeriesSummary(
+        "Spark area chart",
+        normalized.series,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -65,13 +98,21 @@ export const sparkAreaChart = {
     ];
   },
   displayName: "Spark Area",
+  downsample(spec, normalized, layout, warnings) {
+    return downsampleNormalizedSeries(
+      spec.downsample,
+      normalized,
+      lineDownsampleDefaults(layout),
+      warnings,
+    );
+  },
   emptyDataWarningMessage: "No series data.",
   isEmpty(normalized) {
-    return normalized.series.length === 0;
+    return normalized.series.every((v) => v === null);
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const series = normalized.series;
-    if (series.length === 0) return [];
+    if (series.every((v) => v === null)) return [];
 
     const strokeWidth = coerceFiniteNonNegative(
       spec.strokeWidth ?? 2,
@@ -91,69 +132,138 @@ export const sparkAreaChart = {
     const y0 = layout.pad;
     const y1 = layout.height - layout.pad;
 
-    const dx = series.length > 1 ? (x1 - x0) / (series.length - 1) : x1 - x0;
+    const xAt = seriesXPosition(series.length, x0, x1, normalized.x);
     const ySpan = y1 - y0 || 1;
+    const { max, min } = normalized;
+    const denom = max - min || 1;
+    warnOutOfDomain(series, { max, min }, warnings);
 
     const points = series.map((v, i) => {
-      const pct = normalizedPct(v);
-      return { x: x0 + dx * i, y: y1 - (pct / 100) * ySpan };
+      if (v === null) return null;
+      const t = (clamp(v, min, max) - min) / denom;
+      return { x: xAt(i), y: y1 - t * ySpan };
     });
 
-    let lineD = `M ${points[0].x.toFixed(2)} ${points[0].y.toFixed(2)}`;
-    for (let i = 1; i < points.length; i++)
-      lineD += ` L ${points[i].x.toFixed(2)} ${points[i].y.toFixed(2)}`;
-
-    const last = points[points.length - 1];
+    const runs = seriesRuns(series, points);
+    let lastIndex = series.length - 1;
+    while (lastIndex >= 0 && series[lastIndex] === null) lastIndex -= 1;
+    const last = points[lastIndex];
     const gradId = sparkAreaGradientId(series);
-    const areaD = `${lineD} L ${(last?.x ?? x1).toFixed(2)} ${y1.toFixed(2)} L ${points[0].x.toFixed(2)} ${y1.toFixed(2)} Z`;
 
     const classSuffix = spec.className ? ` ${spec.className}` : "";
+    const linePaint = themePaint(theme, LINE_PAINT);
 
-    const marks: Mark[] = [
-      {
+    const curve = spec.curve ?? "linear";
+    const areas: Mark[] = [];
+    const lines: Mark[] = [];
+    for (const run of runs) {
+      const pointData = seriesPointData(run.values, run.start, normalized.x);
+      const areaId = seriesRunId("spark-area-area", run, runs);
+      const lineId = seriesRunId("spark-area-line", run, runs);
+      if (curve !== "linear") {
+        areas.push({
+          className: `mv-spark-area-area${classSuffix}`,
+          d: curveAreaPath(run.points, y1, curve),
+          id: areaId,
+          pointData,
+          stroke: "none",
+          type: "path",
+        });
+        lines.push({
+          ...linePaint,
+          className: `mv-spark-area-line${classSuffix}`,
+          d: curvePath(run.points, curve),
+          fill: "none",
+          id: lineId,
+          pointData,
+          strokeLinecap: "round",
+          strokeLinejoin: "round",
+          strokeWidth,
+          type: "path",
+        });
+        continue;
+      }
+
+      const linePoints = run.points.flatMap((p) => [p.x, p.y]);
+      areas.push({
+        baseline: y1,
         className: `mv-spark-area-area${classSuffix}`,
-        d: areaD,
-        id: "spark-area-area",
+        id: areaId,
+        pointData,
+        points: linePoints,
         stroke: "none",
-        type: "path",
-      },
-      {
+        type: "area",
+      });
+      lines.push({
+        ...linePaint,
         className: `mv-spark-area-line${classSuffix}`,
-        d: lineD,
-        fill: "none",
-        id: "spark-area-line",
+        id: lineId,
+        pointData,
+        points: linePoints,
         strokeLinecap: "round",
         strokeLinejoin: "round",
         strokeWidth,
-        type: "path",
-      },
+        type: "polyline",
+      });
+    }
+
+    const marks: Mark[] = [
+      ...areas,
+      ...lines,
       {
+        ...themePaint(theme, SERIES_FILL_PAINT),
         className: `mv-spark-area-dot${classSuffix}`,
         cx: last?.x ?? x1,
         cy: last?.y ?? y1,
+        datum: seriesDatum(
+          series[lastIndex] ?? 0,
+          lastIndex,
+          normalized.x?.[lastIndex],
+        ),
         id: "spark-area-dot",
         r: dotRadius,
         type: "circle",
       },
+      ...seriesMarkerMarks(
+        spec.markers,
+        series,
+        points,
+        {
+          idPrefix: "spark-area-marker",
+          layout,
+          radius: spec.markerRadius,
+          theme,
+          x: normalized.x,
+        },
+        warnings,
+      ),
     ];
     const fillRules = [
       {
         id: gradId,
-        match: { id: "spark-area-area" },
+        match: { id: /^spark-area-area/ },
       },
     ];
 
     return applyFillRules(marks, fillRules);
   },
-  normalize(_spec, data) {
-    const series = data.filter(isFiniteNumber);
-    return { series, type: "spark-area" };
+  normalize(spec, data) {
+    const line = normalizeLineSeries(data, spec);
+    const { max, min } = resolveDomain(line.series, spec.domain, PCT_DOMAIN);
+    return { ...line, max, min, type: "spark-area" };
   },
   preferredAspectRatio: "wide" as const,
+  scales(_spec, normalized, layout) {
+    return lineChartScales(
+      layout,
+      { max: normalized.max, min: normalized.min },
+      { series: normalized.series, x: normalized.x },
+    );
+  },
   type: "spark-area",
 } satisfies ChartDefinition<
   "spark-area",
   SparkAreaSpec,
-  SparklineData,
+  LineSeriesData,
   NormalizedSparkArea
 >;
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "vitest";
 import { computeModel } from "../compute";
+import { computeSharedDomain } from "../domain";
 
 describe("sparkline-bars", () => {
   test("produces a deterministic RenderModel", () => {
@@ -58,6 +59,19 @@ describe("sparkline-bars", () => {
     }
   });
 
+  test("shares a y-domain across charts", () => {
+    const domain = computeSharedDomain([[50, 100], [25]], { zero: true });
+    const heights = [[50, 100], [25]].map((data) =>
+      computeModel({
+        data,
+        size: { height: 100, width: 100 },
+        spec: { domain, gap: 0, pad: 0, type: "sparkline-bars" },
+      }).marks.map((m) => (m.type === "rect" ? m.h : Number.NaN)),
+    );
+
+    expect(heights).toEqual([[50, 100], [25]]);
+  });
+
   test("bars grow from bottom", () => {
     const input = {
       data: [50],
@@ -127,4 +141,36 @@ describe("sparkline-bars", () => {
     const model = computeModel(input);
     expect(model.marks.length).toBe(1);
   });
+
+  test("leaves an empty slot for gaps", () => {
+    const model = computeModel({
+      data: [1, null, 3],
+      size: { height: 20, width: 32 },
+      spec: { gap: 1, pad: 0, type: "sparkline-bars" },
+    });
+
+    expect(model.marks.map((m) => m.id)).toEqual([
+      "sparkline-bars-bar-0",
+      "sparkline-bars-bar-2",
+    ]);
+    const last = model.marks[1];
+    if (last?.type !== "rect") throw new Error("expected a rect");
+    expect(last.x).toBeCloseTo(22);
+  });
+
+  test("keeps min/max buckets when there are more bars than pixels", () => {
+    const data = Array.from({ length: 10_000 }, (_, i) =>
+      i === 4_321 ? 99 : i % 7,
+    );
+    const model = computeModel({
+      data,
+      size: { height: 20, width: 104 },
+      spec: { gap: 0, pad: 2, type: "sparkline-bars" },
+    });
+
+    expect(model.stats?.points?.rendered).toBeLessThanOrEqual(100);
+    const bars = model.marks.filter((m) => m.type === "rect");
+    expect(bars.length).toBe(model.stats?.points?.rendered);
+    expect(bars.some((bar) => bar.datum?.index === 4_321)).toBe(true);
+  });
 });
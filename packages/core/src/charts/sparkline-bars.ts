@@ -1,27 +1,61 @@
 import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import { annotationValues } from "../annotations";
+import { resolveDomain } from "../domain";
+import type { DiagnosticWarning } from "../model";
+import { themePaint, themeRadius } from "../theme";
+import { seriesDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
-import { coerceFiniteNonNegative, isFiniteNumber } from "./shared";
+import type { Layout } from "./context";
+import {
+  clamp,
+  coerceFiniteNonNegative,
+  columnChartScales,
+  downsampleNormalizedSeries,
+  normalizeGappedSeries,
+  SERIES_FILL_PAINT,
+  warnOutOfDomain,
+} from "./shared";
 import type {
   NormalizedSparklineBars,
   SparklineBarsSpec,
   SparklineData,
 } from "./types";
 
+function barColumns(
+  spec: SparklineBarsSpec,
+  count: number,
+  layout: Layout,
+  warnings: DiagnosticWarning[] | undefined,
+): { barW: number; gap: number } {
+  const usableW = Math.max(0, layout.width - layout.pad * 2);
+  const gap = coerceFiniteNonNegative(
+    spec.gap ?? 1,
+    1,
+    warnings,
+    "Non-finite sparkline-bars gap; defaulted to 1.",
+  );
+  const totalGap = gap * Math.max(0, count - 1);
+  return { barW: count === 0 ? 0 : (usableW - totalGap) / count, gap };
+}
+
 /**
  * Sparkline-bars chart: Vertical bars directly from series data.
- * One bar per data point with height based on min-max normalized value.
+ * One bar per data point with height based on min-max normalized value;
+ * `null` gaps leave an empty slot.
  * The bar chart equivalent of a sparkline.
  */
 export const sparklineBarsChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSeries(normalized.series, {
+        format: spec.format,
         idPrefix: "sparkline-bars-bar",
         labelPrefix: "Bar",
       }),
       label: a11yLabelWithSeriesSummary(
         "Sparkline bars chart",
         normalized.series,
+        spec.format,
       ),
       role: "img",
     };
@@ -29,27 +63,32 @@ export const sparklineBarsChart = {
   category: "bars" as const,
   defaultPad: 2,
   displayName: "Sparkline bars",
+  downsample(spec, normalized, layout, warnings) {
+    // Min/max buckets, as many as fit at 1px per bar plus the gap.
+    const { gap } = barColumns(spec, 0, layout, undefined);
+    const usableW = Math.max(0, layout.width - layout.pad * 2);
+    return downsampleNormalizedSeries(
+      spec.downsample,
+      normalized,
+      {
+        indexX: false,
+        maxPoints: Math.max(2, Math.floor((usableW + gap) / (1 + gap))),
+        method: "min-max",
+      },
+      warnings,
+    );
+  },
   emptyDataWarningMessage: "No series data.",
   isEmpty(normalized) {
-    return normalized.series.length === 0;
+    return normalized.series.every((v) => v === null);
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const { series, min, max } = normalized;
     if (series.length === 0) return [];
+    warnOutOfDomain(series, { max, min }, warnings);
 
-    const usableW = Math.max(0, layout.width - layout.pad * 2);
     const usableH = Math.max(0, layout.height - layout.pad * 2);
-
-    const gap = coerceFiniteNonNegative(
-      spec.gap ?? 1,
-      1,
-      warnings,
-      "Non-finite sparkline-bars gap; defaulted to 1.",
-    );
-
-    const n = series.length;
-    const totalGap = gap * Math.max(0, n - 1);
-    const barW = n === 0 ? 0 : (usableW - totalGap) / n;
+    const { barW, gap } = barColumns(spec, series.length, layout, warnings);
     if (barW <= 0) return [];
 
     const denom = max - min || 1;
@@ -61,10 +100,11 @@ export const sparklineBarsChart = {
     const colors = spec.colors;
     const fallbackColor =
       colors && colors.length > 0 ? colors[colors.length - 1] : undefined;
+    const themeFill = themePaint(theme, SERIES_FILL_PAINT).fill;
 
     const barRadius =
       spec.barRadius === undefined
-        ? undefined
+        ? themeRadius(theme)
         : coerceFiniteNonNegative(
             spec.barRadius,
             0,
@@ -72,35 +112,56 @@ export const sparklineBarsChart = {
             "Non-finite sparkline-bars barRadius; defaulted to 0.",
           );
 
-    return series.map((value, i) => {
+    return series.flatMap((value, i) => {
+      // A gap keeps its slot but draws no bar.
+      if (value === null) return [];
       // Normalize value to 0-1 range, then scale to usable height
       // Ensure minimum height of 2px for visibility
-      const normalizedValue = (value - min) / denom;
+      const normalizedValue = (clamp(value, min, max) - min) / denom;
       const barH = Math.max(2, normalizedValue * usableH);
       const x = x0 + i * (barW + gap);
       const y = y0 + usableH - barH;
 
-      return {
-        className: `mv-sparkline-bars-bar${classSuffix}`,
-        fill: colors ? (colors[i] ?? fallbackColor) : undefined,
-        h: barH,
-        id: `sparkline-bars-bar-${i}`,
-        rx: barRadius,
-        ry: barRadius,
-        type: "rect" as const,
-        w: barW,
-        x,
-        y,
-      };
+      return [
+        {
+          className: `mv-sparkline-bars-bar${classSuffix}`,
+          datum: seriesDatum(value, i),
+          fill: colors ? (colors[i] ?? fallbackColor) : themeFill,
+          h: barH,
+          id: `sparkline-bars-bar-${i}`,
+          rx: barRadius,
+          ry: barRadius,
+          type: "rect" as const,
+          w: barW,
+          x,
+          y,
+        },
+      ];
     });
   },
-  normalize(_spec, data) {
-    const series = data.filter(isFiniteNumber);
-    const min = series.length > 0 ? Math.min(...series) : 0;
-    const max = series.length > 0 ? Math.max(...series) : 1;
+  normalize(spec, data) {
+    const series = normalizeGappedSeries(data, spec.interpolateGaps);
+    const { max, min } = resolveDomain(
+      [...series, ...annotationValues(spec.annotations)],
+      spec.domain,
+    );
     return { max, min, series, type: "sparkline-bars" as const };
   },
   preferredAspectRatio: "square" as const,
+  scales(spec, normalized, layout) {
+    const { barW, gap } = barColumns(
+      spec,
+      normalized.series.length,
+      layout,
+      undefined,
+    );
+    if (barW <= 0) return null;
+    return columnChartScales(
+      layout,
+      { max: normalized.max, min: normalized.min },
+      { barWidth: barW, gap, minHeight: 2, series: normalized.series },
+    );
+  },
   type: "sparkline-bars",
 } satisfies ChartDefinition<
   "sparkline-bars",
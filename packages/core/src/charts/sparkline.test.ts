@@ -17,7 +17,202 @@ describe("sparkline", () => {
     expect(a.stats?.warnings).toBeUndefined();
     expect(a.a11y?.label).toBe("Sparkline chart (min 10, max 30, last 20)");
 
-    const lines = a.marks.filter((mark) => mark.type === "line");
-    expect(lines.length).toBe(4);
+    const line = a.marks.find((mark) => mark.id === "sparkline-line");
+    expect(line?.type).toBe("polyline");
+    if (line?.type === "polyline") expect(line.points).toHaveLength(10);
+  });
+
+  test("maps through an explicit domain and warns on clamped values", () => {
+    const model = computeModel({
+      data: [100, 100, 120],
+      size: { height: 30, width: 100 },
+      spec: {
+        domain: { max: 100, zero: true },
+        pad: 0,
+        showDot: false,
+        type: "sparkline",
+      },
+    });
+
+    const line = model.marks.find((mark) => mark.id === "sparkline-line");
+    if (line?.type !== "polyline") throw new Error("expected a polyline");
+    expect(line.points).toEqual([0, 0, 50, 0, 100, 0]);
+    expect(model.stats?.warnings).toEqual([
+      {
+        code: "OUT_OF_RANGE",
+        message: "1 value(s) outside the y-domain [0, 100]; clamped.",
+        phase: "compute",
+      },
+    ]);
+  });
+
+  test("breaks the line at null gaps without shifting later points", () => {
+    const model = computeModel({
+      data: [1, 2, null, 4, 5],
+      size: { height: 40, width: 40 },
+      spec: { pad: 0, showDot: false, type: "sparkline" },
+    });
+
+    const lines = model.marks.filter((mark) => mark.type === "polyline");
+    expect(lines.map((m) => m.id)).toEqual([
+      "sparkline-line-0",
+      "sparkline-line-3",
+    ]);
+    const [, second] = lines;
+    if (second?.type !== "polyline") throw new Error("expected a polyline");
+    expect(second.points).toEqual([30, 10, 40, 0]);
+    expect(second.pointData?.[0]).toEqual({ index: 3, value: 4 });
+    expect(model.a11y?.label).toBe(
+      "Sparkline chart (min 1, max 5, last 5, 1 gap)",
+    );
+    expect(model.a11y?.summary).toMatchObject({ count: 5, gaps: 1 });
+    expect(model.a11y?.items?.map((item) => item.id)).not.toContain(
+      "sparkline-point-2",
+    );
+  });
+
+  test("interpolates across interior gaps when asked", () => {
+    const model = computeModel({
+      data: [null, 0, null, 4],
+      size: { height: 40, width: 30 },
+      spec: {
+        interpolateGaps: true,
+        pad: 0,
+        showDot: false,
+        type: "sparkline",
+      },
+    });
+
+    expect(model.marks.map((m) => m.id)).toEqual(["sparkline-line"]);
+    const [line] = model.marks;
+    if (line?.type !== "polyline") throw new Error("expected a polyline");
+    // The leading gap has nothing to interpolate from and stays empty.
+    expect(line.points).toEqual([10, 40, 20, 20, 30, 0]);
+  });
+
+  test("spaces x/y points by x and labels items with dates", () => {
+    const model = computeModel({
+      data: [
+        { x: "2025-03-03", y: 42 },
+        { x: "2025-03-01", y: 40 },
+        { x: "2025-03-11", y: 38 },
+      ],
+      size: { height: 20, width: 100 },
+      spec: { pad: 0, showDot: false, type: "sparkline" },
+    });
+
+    const [line] = model.marks;
+    if (line?.type !== "polyline") throw new Error("expected a polyline");
+    // Sorted by date: Mar 1, Mar 3 (2 of 10 days in), Mar 11.
+    expect(line.points).toEqual([0, 10, 20, 0, 100, 20]);
+    expect(model.a11y?.items?.map((item) => item.label)).toEqual([
+      "Mar 1",
+      "Mar 3",
+      "Mar 11",
+    ]);
+    expect(model.a11y?.items?.[1]?.datum).toEqual({
+      index: 1,
+      value: 42,
+      x: Date.UTC(2025, 2, 3),
+    });
+  });
+
+  test("accepts parallel x/y arrays on a linear scale", () => {
+    const model = computeModel({
+      data: { x: [0, 1, 4], y: [0, 1, 4] },
+      size: { height: 40, width: 40 },
+      spec: { pad: 0, showDot: false, type: "sparkline" },
+    });
+
+    const [line] = model.marks;
+    if (line?.type !== "polyline") throw new Error("expected a polyline");
+    expect(line.points).toEqual([0, 40, 10, 30, 40, 0]);
+    expect(model.a11y?.items?.[2]?.label).toBe("4");
+  });
+
+  test("draws curved lines as paths that keep per-point datums", () => {
+    const model = computeModel({
+      data: [20, 0, 10, 10],
+      size: { height: 20, width: 30 },
+      spec: { curve: "monotone", pad: 0, showDot: false, type: "sparkline" },
+    });
+
+    const [line] = model.marks;
+    if (line?.type !== "path") throw new Error("expected a path");
+    expect(line.id).toBe("sparkline-line");
+    expect(line.fill).toBe("none");
+    expect(line.d.startsWith("M 0.00 0.00 C")).toBe(true);
+    expect(line.pointData).toHaveLength(4);
+    expect(model.stats?.warnings).toBeUndefined();
+  });
+
+  test("draws min/max/first/last markers inside the viewport", () => {
+    const model = computeModel({
+      data: [null, 40, 87, 10, 87, 55],
+      size: { height: 20, width: 100 },
+      spec: {
+        markers: ["min", "max", "first", "last"],
+        pad: 0,
+        showDot: false,
+        type: "sparkline",
+      },
+    });
+
+    const markers = model.marks.filter((m) => m.id.includes("-marker-"));
+    expect(markers.map((m) => [m.id, m.className, m.datum?.index])).toEqual([
+      ["sparkline-marker-min", "mv-marker mv-marker-min", 3],
+      ["sparkline-marker-max", "mv-marker mv-marker-max", 2],
+      ["sparkline-marker-first", "mv-marker mv-marker-first", 1],
+      ["sparkline-marker-last", "mv-marker mv-marker-last", 5],
+    ]);
+    // The max sits on the top edge and the min on the bottom; both are
+    // pulled in by the radius.
+    expect(markers[1]).toMatchObject({ cx: 40, cy: 2.4 });
+    expect(markers[0]).toMatchObject({ cy: 17.6 });
+    expect(markers[3]).toMatchObject({ cx: 97.6 });
+    expect(model.stats?.warnings).toBeUndefined();
+
+    const items = model.a11y?.items?.filter((i) => i.id.includes("-marker-"));
+    expect(items?.map((i) => i.label)).toEqual([
+      "Minimum 10 at point 4",
+      "Maximum 87 at point 3",
+      "First 40 at point 2",
+      "Last 55 at point 6",
+    ]);
+  });
+
+  test("downsamples long series to the plot width", () => {
+    const data = Array.from({ length: 50_000 }, (_, i) =>
+      i === 31_337 ? 500 : Math.sin(i / 500) * 100,
+    );
+    const model = computeModel({
+      data,
+      size: { height: 32, width: 206 },
+      spec: { markers: ["max"], pad: 3, type: "sparkline" },
+    });
+
+    expect(model.stats?.points).toEqual({ original: 50_000, rendered: 200 });
+    const line = model.marks.find((mark) => mark.id === "sparkline-line");
+    if (line?.type !== "polyline") throw new Error("expected a polyline");
+    expect(line.points).toHaveLength(400);
+    // Datums point back at the input, without a synthetic x.
+    expect(line.pointData?.at(-1)).toEqual({
+      index: 49_999,
+      value: data[49_999],
+    });
+    expect(
+      model.marks.find((m) => m.id === "sparkline-marker-max")?.datum,
+    ).toEqual({
+      index: 31_337,
+      value: 500,
+    });
+    expect(model.a11y?.label).toContain("max 500");
+
+    const full = computeModel({
+      data: data.slice(0, 1000),
+      size: { height: 32, width: 206 },
+      spec: { downsample: false, type: "sparkline" },
+    });
+    expect(full.stats?.points).toEqual({ original: 1000, rendered: 1000 });
   });
 });
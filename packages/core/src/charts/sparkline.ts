@@ -1,62 +1,125 @@
-import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import {
+  a11yItemsForMarkers,
+  a11yItemsForSeries,
+  a11yLabelWithSeriesSummary,
+} from "../a11y";
+import { annotationValues } from "../annotations";
+import { resolveDomain } from "../domain";
 import type { Mark } from "../model";
+import { themePaint } from "../theme";
+import { curvePath } from "../utils/curve";
+import { seriesDatum, seriesPointData } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
-  isFiniteNumber,
+  downsampleNormalizedSeries,
+  LINE_PAINT,
+  lineChartScales,
+  lineDownsampleDefaults,
+  normalizeLineSeries,
+  SERIES_FILL_PAINT,
+  seriesMarkerMarks,
+  seriesRunId,
+  seriesRuns,
   sparklineSeries,
+  warnOutOfDomain,
 } from "./shared";
 import type {
+  LineSeriesData,
   NormalizedSparkline,
-  SparklineData,
   SparklineSpec,
 } from "./types";
 
 export const sparklineChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
-      items: a11yItemsForSeries(normalized.series, {
-        idPrefix: "sparkline-point",
-        labelPrefix: "Point",
-      }),
-      label: a11yLabelWithSeriesSummary("Sparkline chart", normalized.series),
+      items: [
+        ...a11yItemsForSeries(normalized.series, {
+          format: spec.format,
+          idPrefix: "sparkline-point",
+          labelPrefix: "Point",
+          x: normalized.x,
+          xScale: normalized.xScale,
+        }),
+        ...a11yItemsForMarkers(normalized.series, spec.markers, {
+          format: spec.format,
+          idPrefix: "sparkline-marker",
+          x: normalized.x,
+          xScale: normalized.xScale,
+        }),
+      ],
+      label: a11yLabelWithSeriesSummary(
+        "Sparkline chart",
+        normalized.series,
+        spec.format,
+      ),
       role: "img",
     };
   },
   category: "lines" as const,
   defaultPad: 3,
   displayName: "Sparkline",
+  downsample(spec, normalized, layout, warnings) {
+    return downsampleNormalizedSeries(
+      spec.downsample,
+      normalized,
+      lineDownsampleDefaults(layout),
+      warnings,
+    );
+  },
   emptyDataHint: "Provide an array of numbers",
   emptyDataWarningMessage: "No series data.",
   exampleHtml:
     '<microviz-sparkline data="[10, 25, 15, 30, 20]"></microviz-sparkline>',
   isEmpty(normalized) {
-    return normalized.series.length === 0;
+    return normalized.series.every((v) => v === null);
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
-    const { last, points } = sparklineSeries(
+  marks(spec, normalized, layout, _state, theme, warnings) {
+    const domain = { max: normalized.max, min: normalized.min };
+    warnOutOfDomain(normalized.series, domain, warnings);
+    const { last, lastIndex, points } = sparklineSeries(
       normalized.series,
       layout.width,
       layout.height,
       layout.pad,
+      domain,
+      normalized.x,
     );
 
     const className = `mv-line${spec.className ? ` ${spec.className}` : ""}`;
+    const linePaint = themePaint(theme, LINE_PAINT);
     const marks: Mark[] = [];
 
-    for (let i = 1; i < points.length; i++) {
-      const prev = points[i - 1];
-      const curr = points[i];
-      marks.push({
-        className,
-        id: `sparkline-line-${i - 1}`,
-        strokeLinecap: "round",
-        type: "line",
-        x1: prev.x,
-        x2: curr.x,
-        y1: prev.y,
-        y2: curr.y,
-      });
+    const curve = spec.curve ?? "linear";
+    const runs = seriesRuns(normalized.series, points);
+    for (const run of runs) {
+      if (run.points.length < 2) continue;
+      const id = seriesRunId("sparkline-line", run, runs);
+      const pointData = seriesPointData(run.values, run.start, normalized.x);
+      marks.push(
+        curve === "linear"
+          ? {
+              ...linePaint,
+              className,
+              id,
+              pointData,
+              points: run.points.flatMap((p) => [p.x, p.y]),
+              strokeLinecap: "round",
+              strokeLinejoin: "round",
+              type: "polyline",
+            }
+          : {
+              ...linePaint,
+              className,
+              d: curvePath(run.points, curve),
+              fill: "none",
+              id,
+              pointData,
+              strokeLinecap: "round",
+              strokeLinejoin: "round",
+              type: "path",
+            },
+      );
     }
 
     const showDot = spec.showDot ?? true;
@@ -69,28 +132,58 @@ export const sparklineChart = {
         "Non-finite dot radius; defaulted to 2.4.",
       );
       marks.push({
+        ...themePaint(theme, SERIES_FILL_PAINT),
         className: "mv-sparkline-dot",
         cx: last.x,
         cy: last.y,
+        datum: seriesDatum(
+          normalized.series[lastIndex] ?? 0,
+          lastIndex,
+          normalized.x?.[lastIndex],
+        ),
         id: "sparkline-dot",
         r: dotRadius,
         type: "circle",
       });
     }
 
+    marks.push(
+      ...seriesMarkerMarks(
+        spec.markers,
+        normalized.series,
+        points,
+        {
+          idPrefix: "sparkline-marker",
+          layout,
+          radius: spec.markerRadius,
+          theme,
+          x: normalized.x,
+        },
+        warnings,
+      ),
+    );
     return marks;
   },
-  normalize(_spec, data) {
-    const series = data.filter(isFiniteNumber);
-    const min = series.length > 0 ? Math.min(...series) : 0;
-    const max = series.length > 0 ? Math.max(...series) : 1;
-    return { max, min, series, type: "sparkline" };
+  normalize(spec, data) {
+    const line = normalizeLineSeries(data, spec);
+    const { max, min } = resolveDomain(
+      [...line.series, ...annotationValues(spec.annotations)],
+      spec.domain,
+    );
+    return { ...line, max, min, type: "sparkline" };
   },
   preferredAspectRatio: "wide" as const,
+  scales(_spec, normalized, layout) {
+    return lineChartScales(
+      layout,
+      { max: normalized.max, min: normalized.min },
+      { series: normalized.series, x: normalized.x },
+    );
+  },
   type: "sparkline",
 } satisfies ChartDefinition<
   "sparkline",
   SparklineSpec,
-  SparklineData,
+  LineSeriesData,
   NormalizedSparkline
 >;
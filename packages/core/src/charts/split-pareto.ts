@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
@@ -14,9 +15,10 @@ import type {
 } from "./types";
 
 export const splitParetoChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "split-pareto-seg",
 
         labelFallback: "Segment",
@@ -24,6 +26,7 @@ export const splitParetoChart = {
       label: a11yLabelWithSegmentsSummary(
         "Split Pareto chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -79,6 +82,7 @@ export const splitParetoChart = {
 
       marks.push({
         className: `mv-split-pareto-seg${classSuffix}`,
+        datum: segmentDatum(run, i),
         fill: run.color,
         h: usableH,
         id: `split-pareto-seg-${i}`,
@@ -108,8 +112,8 @@ export const splitParetoChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "split-pareto" as const };
   },
   preferredAspectRatio: "wide" as const,
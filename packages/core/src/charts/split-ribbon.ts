@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
@@ -15,9 +16,10 @@ import type {
 } from "./types";
 
 export const splitRibbonChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "split-ribbon-seg",
 
         labelFallback: "Segment",
@@ -25,6 +27,7 @@ export const splitRibbonChart = {
       label: a11yLabelWithSegmentsSummary(
         "Split ribbon chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -106,6 +109,7 @@ export const splitRibbonChart = {
     for (const [i, seg] of topLayouts.entries()) {
       marks.push({
         className: `mv-split-ribbon-top${classSuffix}`,
+        datum: segmentDatum(topSegments[i] ?? seg, i),
         fill: seg.color,
         h: ribbonHeight,
         id: `split-ribbon-top-${i}`,
@@ -120,6 +124,7 @@ export const splitRibbonChart = {
     for (const [i, seg] of bottomLayouts.entries()) {
       marks.push({
         className: `mv-split-ribbon-bottom${classSuffix}`,
+        datum: segmentDatum(bottomSegments[i] ?? seg, splitAt + i),
         fill: seg.color,
         h: ribbonHeight,
         id: `split-ribbon-bottom-${i}`,
@@ -132,8 +137,8 @@ export const splitRibbonChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "split-ribbon" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,7 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { themeRadius } from "../theme";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { layoutSegmentsByPct, normalizeSegments } from "./shared";
 import type {
@@ -9,15 +11,17 @@ import type {
 } from "./types";
 
 export const stackedBarChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "stacked-bar-seg",
         labelFallback: "Segment",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Stacked bar chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -29,7 +33,7 @@ export const stackedBarChart = {
   isEmpty(normalized) {
     return normalized.segments.length === 0;
   },
-  marks(spec, normalized, layout, _state, _theme, _warnings) {
+  marks(spec, normalized, layout, _state, theme, _warnings) {
     const usableW = Math.max(0, layout.width - layout.pad * 2);
     const usableH = Math.max(0, layout.height - layout.pad * 2);
     const x0 = layout.pad;
@@ -41,7 +45,7 @@ export const stackedBarChart = {
     const runs = layoutSegmentsByPct(segments, usableW, 0);
     const classSuffix = spec.className ? ` ${spec.className}` : "";
 
-    const baseRadius = Math.min(usableH / 2, 4);
+    const baseRadius = Math.min(usableH / 2, themeRadius(theme) ?? 4);
     const hasRadius = baseRadius > 0 && runs.length > 0;
 
     const marks: Mark[] = [];
@@ -51,11 +55,13 @@ export const stackedBarChart = {
       const x = x0 + run.x;
       const w = run.w;
       const fill = run.color;
+      const datum = segmentDatum(run, i);
       const className = `mv-stacked-bar-seg${classSuffix}`;
 
       if (!hasRadius) {
         marks.push({
           className,
+          datum,
           fill,
           h: usableH,
           id: `stacked-bar-seg-${i}`,
@@ -75,6 +81,7 @@ export const stackedBarChart = {
       if (isSingle) {
         marks.push({
           className,
+          datum,
           fill,
           h: usableH,
           id: `stacked-bar-seg-${i}`,
@@ -91,6 +98,7 @@ export const stackedBarChart = {
       if (isFirst) {
         marks.push({
           className,
+          datum,
           fill,
           h: usableH,
           id: `stacked-bar-seg-${i}`,
@@ -105,6 +113,7 @@ export const stackedBarChart = {
         if (innerW > 0) {
           marks.push({
             className,
+            datum,
             fill,
             h: usableH,
             id: `stacked-bar-seg-${i}-inner`,
@@ -120,6 +129,7 @@ export const stackedBarChart = {
       if (isLast) {
         marks.push({
           className,
+          datum,
           fill,
           h: usableH,
           id: `stacked-bar-seg-${i}`,
@@ -134,6 +144,7 @@ export const stackedBarChart = {
         if (innerW > 0) {
           marks.push({
             className,
+            datum,
             fill,
             h: usableH,
             id: `stacked-bar-seg-${i}-inner`,
@@ -148,6 +159,7 @@ export const stackedBarChart = {
 
       marks.push({
         className,
+        datum,
         fill,
         h: usableH,
         id: `stacked-bar-seg-${i}`,
@@ -160,8 +172,8 @@ export const stackedBarChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "stacked-bar" };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteInt,
@@ -13,15 +14,17 @@ import type {
 } from "./types";
 
 export const stackedChipsChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "stacked-chips-chip",
         labelFallback: "Chip",
       }),
       label: a11yLabelWithSegmentsSummary(
         "Stacked chips chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -126,6 +129,7 @@ export const stackedChipsChart = {
       const w = (widths[i] ?? 0) * scale;
       chips.push({
         className: `mv-stacked-chips-chip${classSuffix}`,
+        datum: segmentDatum(seg, i),
         fill: seg.color,
         h,
         id: `stacked-chips-chip-${i}`,
@@ -144,8 +148,8 @@ export const stackedChipsChart = {
     // Match legacy z-index: earlier chips sit on top.
     return chips.reverse();
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "stacked-chips" as const };
   },
   preferredAspectRatio: "square" as const,
@@ -104,4 +104,32 @@ describe("step-line", () => {
 
     expect(line?.className).toContain("mv-line");
   });
+
+  test("leaves steps touching a gap undrawn", () => {
+    const model = computeModel({
+      data: [1, null, 3, 4],
+      size: { height: 32, width: 100 },
+      spec: { showDot: false, type: "step-line" },
+    });
+
+    expect(model.marks.map((m) => m.id)).toEqual([
+      "step-line-h-2",
+      "step-line-v-2",
+    ]);
+  });
+
+  test("labels markers by x value", () => {
+    const model = computeModel({
+      data: [
+        { x: "2026-03-01", y: 4 },
+        { x: "2026-03-02", y: 9 },
+      ],
+      size: { height: 32, width: 200 },
+      spec: { markers: ["max", "max"], type: "step-line" },
+    });
+
+    const markers = model.marks.filter((m) => m.id.includes("-marker-"));
+    expect(markers.map((m) => m.id)).toEqual(["step-line-marker-max"]);
+    expect(model.a11y?.items?.at(-1)?.label).toBe("Maximum 9 at Mar 2");
+  });
 });
@@ -1,72 +1,99 @@
-import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import {
+  a11yItemsForMarkers,
+  a11yItemsForSeries,
+  a11yLabelWithSeriesSummary,
+} from "../a11y";
+import { annotationValues } from "../annotations";
+import { resolveDomain } from "../domain";
 import type { Mark } from "../model";
+import { themePaint } from "../theme";
+import { seriesDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
-import { coerceFiniteNonNegative, isFiniteNumber } from "./shared";
-import type { NormalizedStepLine, SparklineData, StepLineSpec } from "./types";
-
-function stepLinePoints(
-  series: readonly number[],
-  w: number,
-  h: number,
-  pad: number,
-): {
-  last: { x: number; y: number } | null;
-  points: { x: number; y: number }[];
-} {
-  if (series.length === 0) return { last: null, points: [] };
-
-  const x0 = pad;
-  const x1 = w - pad;
-  const y0 = pad;
-  const y1 = h - pad;
-
-  const min = Math.min(...series);
-  const max = Math.max(...series);
-  const denom = max - min || 1;
-
-  const dx = series.length > 1 ? (x1 - x0) / (series.length - 1) : 0;
-  const points = series.map((v, i) => ({
-    x: x0 + dx * i,
-    y: y1 - ((v - min) / denom) * (y1 - y0),
-  }));
-  return { last: points[points.length - 1] ?? null, points };
-}
+import {
+  coerceFiniteNonNegative,
+  downsampleNormalizedSeries,
+  LINE_PAINT,
+  lineChartScales,
+  lineDownsampleDefaults,
+  normalizeLineSeries,
+  SERIES_FILL_PAINT,
+  seriesMarkerMarks,
+  sparklineSeries,
+  warnOutOfDomain,
+} from "./shared";
+import type { LineSeriesData, NormalizedStepLine, StepLineSpec } from "./types";
 
 export const stepLineChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
-      items: a11yItemsForSeries(normalized.series, {
-        idPrefix: "step-line-point",
-        labelPrefix: "Step",
-      }),
-      label: a11yLabelWithSeriesSummary("Step line chart", normalized.series),
+      items: [
+        ...a11yItemsForSeries(normalized.series, {
+          format: spec.format,
+          idPrefix: "step-line-point",
+          labelPrefix: "Step",
+          x: normalized.x,
+          xScale: normalized.xScale,
+        }),
+        ...a11yItemsForMarkers(normalized.series, spec.markers, {
+          format: spec.format,
+          idPrefix: "step-line-marker",
+          x: normalized.x,
+          xScale: normalized.xScale,
+        }),
+      ],
+      label: a11yLabelWithSeriesSummary(
+        "Step line chart",
+        normalized.series,
+        spec.format,
+      ),
       role: "img",
     };
   },
   category: "lines" as const,
   defaultPad: 3,
   displayName: "Step Line",
+  downsample(spec, normalized, layout, warnings) {
+    return downsampleNormalizedSeries(
+      spec.downsample,
+      normalized,
+      lineDownsampleDefaults(layout),
+      warnings,
+    );
+  },
   emptyDataWarningMessage: "No series data.",
   isEmpty(normalized) {
-    return normalized.series.length === 0;
+    return normalized.series.every((v) => v === null);
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     if (normalized.series.length === 0) return [];
 
-    const { last, points } = stepLinePoints(
+    const domain = { max: normalized.max, min: normalized.min };
+    warnOutOfDomain(normalized.series, domain, warnings);
+    const { last, lastIndex, points } = sparklineSeries(
       normalized.series,
       layout.width,
       layout.height,
       layout.pad,
+      domain,
+      normalized.x,
     );
 
     const className = `mv-line${spec.className ? ` ${spec.className}` : ""}`;
+    const linePaint = themePaint(theme, LINE_PAINT);
     const marks: Mark[] = [];
     for (let i = 1; i < points.length; i++) {
       const prev = points[i - 1];
       const curr = points[i];
+      // A gap on either side leaves this step undrawn.
+      if (!prev || !curr) continue;
       marks.push({
+        ...linePaint,
         className,
+        datum: seriesDatum(
+          normalized.series[i - 1] ?? 0,
+          i - 1,
+          normalized.x?.[i - 1],
+        ),
         id: `step-line-h-${i - 1}`,
         strokeLinecap: "square",
         strokeLinejoin: "miter",
@@ -77,7 +104,9 @@ export const stepLineChart = {
         y2: prev.y,
       });
       marks.push({
+        ...linePaint,
         className,
+        datum: seriesDatum(normalized.series[i] ?? 0, i, normalized.x?.[i]),
         id: `step-line-v-${i - 1}`,
         strokeLinecap: "square",
         strokeLinejoin: "miter",
@@ -99,28 +128,58 @@ export const stepLineChart = {
         "Non-finite dot radius; defaulted to 2.4.",
       );
       marks.push({
+        ...themePaint(theme, SERIES_FILL_PAINT),
         className: "mv-step-line-dot",
         cx: last.x,
         cy: last.y,
+        datum: seriesDatum(
+          normalized.series[lastIndex] ?? 0,
+          lastIndex,
+          normalized.x?.[lastIndex],
+        ),
         id: "step-line-dot",
         r: dotRadius,
         type: "circle",
       });
     }
 
+    marks.push(
+      ...seriesMarkerMarks(
+        spec.markers,
+        normalized.series,
+        points,
+        {
+          idPrefix: "step-line-marker",
+          layout,
+          radius: spec.markerRadius,
+          theme,
+          x: normalized.x,
+        },
+        warnings,
+      ),
+    );
     return marks;
   },
-  normalize(_spec, data) {
-    const series = data.filter(isFiniteNumber);
-    const min = series.length > 0 ? Math.min(...series) : 0;
-    const max = series.length > 0 ? Math.max(...series) : 1;
-    return { max, min, series, type: "step-line" as const };
+  normalize(spec, data) {
+    const line = normalizeLineSeries(data, spec);
+    const { max, min } = resolveDomain(
+      [...line.series, ...annotationValues(spec.annotations)],
+      spec.domain,
+    );
+    return { ...line, max, min, type: "step-line" as const };
   },
   preferredAspectRatio: "wide" as const,
+  scales(_spec, normalized, layout) {
+    return lineChartScales(
+      layout,
+      { max: normalized.max, min: normalized.min },
+      { series: normalized.series, x: normalized.x },
+    );
+  },
   type: "step-line",
 } satisfies ChartDefinition<
   "step-line",
   StepLineSpec,
-  SparklineData,
+  LineSeriesData,
   NormalizedStepLine
 >;
@@ -1,4 +1,5 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -12,9 +13,10 @@ import type {
 } from "./types";
 
 export const steppedAreaChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "stepped-area-seg",
 
         labelFallback: "Segment",
@@ -22,6 +24,7 @@ export const steppedAreaChart = {
       label: a11yLabelWithSegmentsSummary(
         "Stepped area chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -67,6 +70,7 @@ export const steppedAreaChart = {
 
         return {
           className: `mv-stepped-area-seg${classSuffix}`,
+          datum: segmentDatum(seg, i),
           fill: run.color,
           h,
           id: `stepped-area-seg-${i}`,
@@ -80,8 +84,8 @@ export const steppedAreaChart = {
       })
       .filter((m) => m !== null);
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "stepped-area" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Def, Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import { applyFillRules } from "../utils/defs";
 import type { ChartDefinition } from "./chart-definition";
 import {
@@ -14,9 +15,10 @@ import type {
 } from "./types";
 
 export const stripeDensityChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "stripe-density-seg",
 
         labelFallback: "Segment",
@@ -24,6 +26,7 @@ export const stripeDensityChart = {
       label: a11yLabelWithSegmentsSummary(
         "Stripe density chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -108,6 +111,7 @@ export const stripeDensityChart = {
       if (!run) continue;
       marks.push({
         className: `mv-stripe-density-seg${classSuffix}`,
+        datum: segmentDatum(run, i),
         h: usableH,
         id: `stripe-density-seg-${i}`,
         type: "rect",
@@ -124,8 +128,8 @@ export const stripeDensityChart = {
 
     return applyFillRules(marks, fillRules);
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "stripe-density" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
@@ -31,14 +32,19 @@ function taperedPath(options: {
 }
 
 export const taperedChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "tapered-seg",
 
         labelFallback: "Segment",
       }),
-      label: a11yLabelWithSegmentsSummary("Tapered chart", normalized.segments),
+      label: a11yLabelWithSegmentsSummary(
+        "Tapered chart",
+        normalized.segments,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -93,6 +99,7 @@ export const taperedChart = {
       marks.push({
         className: `mv-tapered-seg${classSuffix}`,
         d: taperedPath({ height: h, taperPct, width: run.w, x, y }),
+        datum: segmentDatum(run, i),
         fill: run.color,
         id: `tapered-seg-${i}`,
         type: "path",
@@ -101,8 +108,8 @@ export const taperedChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "tapered" as const };
   },
   preferredAspectRatio: "wide" as const,
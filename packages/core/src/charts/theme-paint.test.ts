@@ -0,0 +1,74 @@
+import { describe, expect, test } from "vitest";
+import { computeModel } from "../compute";
+import type { Mark } from "../model";
+import { chartRegistry } from "./registry";
+
+const SERIES_SAMPLE: number[] = [0, 1, 2, 3, 4, 3, 2];
+const SEGMENTS_SAMPLE = [
+  { name: "A", pct: 50 },
+  { name: "B", pct: 30 },
+  { name: "C", pct: 20 },
+];
+
+function sampleData(type: string, def: unknown): unknown {
+  if (type === "bar") return { max: 100, value: 72 };
+  if (type === "box-plot") return [1, 4, 5, 6, 9, 30];
+  if (type === "bullet")
+    return { ranges: [50, 75, 100], target: 80, value: 72 };
+  if (type === "bullet-delta") return { current: 70, max: 100, previous: 40 };
+  if (type === "calendar-heatmap")
+    return SERIES_SAMPLE.map((value, i) => ({
+      date: Date.UTC(2025, 2, 3 + i),
+      value,
+    }));
+  if (type === "dumbbell") return { current: 40, max: 100, target: 80 };
+  if (type === "dot-matrix") return { series: SERIES_SAMPLE };
+  if (type === "heatgrid") return { series: SERIES_SAMPLE };
+  if (type === "histogram") return { series: SERIES_SAMPLE };
+  if (type === "multi-sparkline")
+    return [
+      { name: "A", values: SERIES_SAMPLE },
+      { name: "B", values: [...SERIES_SAMPLE].reverse() },
+    ];
+  if (type === "win-loss") return [1, -1, 0, 1];
+
+  const emptyDataWarningMessage = (
+    def as { emptyDataWarningMessage?: string } | null
+  )?.emptyDataWarningMessage;
+  if (emptyDataWarningMessage?.includes("series")) return SERIES_SAMPLE;
+
+  return SEGMENTS_SAMPLE;
+}
+
+function leaves(marks: ReadonlyArray<Mark>): Mark[] {
+  return marks.flatMap((m) => (m.type === "group" ? leaves(m.marks) : [m]));
+}
+
+/** Why a mark would fall back to renderer defaults on Canvas, or null. */
+function unpainted(mark: Mark): string | null {
+  const { fill, stroke } = mark as { fill?: string; stroke?: string };
+  for (const color of [fill, stroke])
+    if (color?.includes("var(") || color === "currentColor")
+      return `unresolved ${color}`;
+  const strokeOnly =
+    mark.type === "line" || mark.type === "polyline" || fill === "none";
+  if (strokeOnly) return stroke === undefined ? "no stroke" : null;
+  return fill === undefined ? "no fill" : null;
+}
+
+describe("theme paint", () => {
+  test("every chart paints its marks concretely when given a theme", () => {
+    for (const [type, def] of Object.entries(chartRegistry)) {
+      const model = computeModel({
+        data: sampleData(type, def) as never,
+        size: { height: 80, width: 160 },
+        spec: { type } as never,
+        theme: { fg: "black", muted: "gray", series: ["red", "green"] },
+      });
+      expect(model.marks.length, `${type} drew nothing`).toBeGreaterThan(0);
+      for (const mark of leaves(model.marks)) {
+        expect(unpainted(mark), `${type} ${mark.id}`).toBeNull();
+      }
+    }
+  });
+});
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -9,9 +10,10 @@ import {
 import type { BitfieldData, NormalizedTwoTier, TwoTierSpec } from "./types";
 
 export const twoTierChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "two-tier-seg",
 
         labelFallback: "Segment",
@@ -19,6 +21,7 @@ export const twoTierChart = {
       label: a11yLabelWithSegmentsSummary(
         "Two-tier chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -76,6 +79,7 @@ export const twoTierChart = {
 
         marks.push({
           className: `mv-two-tier-top${classSuffix}`,
+          datum: segmentDatum(topSegments[i] ?? run, i),
           fill: run.color,
           h: topH,
           id: `two-tier-top-${i}`,
@@ -98,6 +102,7 @@ export const twoTierChart = {
 
       marks.push({
         className: `mv-two-tier-bottom${classSuffix}`,
+        datum: segmentDatum(run, i),
         fill: run.color,
         fillOpacity: bottomOpacity,
         h: bottomH,
@@ -113,8 +118,8 @@ export const twoTierChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "two-tier" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,17 +1,95 @@
+import type { Annotation } from "../annotations";
+import type { SeriesDomain } from "../domain";
+import type { DownsampleOption } from "../downsample";
+import type { ValueFormat } from "../format";
+
 export type SparklineSpec = {
   type: "sparkline";
   pad?: number;
+  /**
+   * Y-domain; defaults to the data extent, widened to include rule and band
+   * annotations.
+   */
+  domain?: SeriesDomain;
+  /** Draw straight across interior `null` gaps instead of breaking. */
+  interpolateGaps?: boolean;
+  /**
+   * X-scale for `{ x, y }` data; defaults to `time` when x values are dates
+   * or date strings, otherwise `linear`.
+   */
+  xScale?: XScaleType;
+  /** Interpolation between points; defaults to `linear`. */
+  curve?: CurveType;
+  showDot?: boolean;
+  dotRadius?: number;
+  /** Points to highlight with a marker, e.g. `["min", "max"]`. */
+  markers?: ReadonlyArray<SeriesMarker>;
+  markerRadius?: number;
+  /**
+   * Thin long series to the plot width; on by default (LTTB for lines,
+   * min/max buckets for bars).
+   */
+  downsample?: DownsampleOption;
+  /** Reference rules, bands and points drawn in the chart's coordinates. */
+  annotations?: ReadonlyArray<Annotation>;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
+  className?: string;
+};
+
+/**
+ * Series aren't downsampled: each one is a single line mark, and one kept
+ * index can't follow every series' extremes.
+ */
+export type MultiSparklineSpec = {
+  type: "multi-sparkline";
+  pad?: number;
+  /**
+   * Shared y-domain; defaults to the extent of all series, widened to include
+   * rule and band annotations.
+   */
+  domain?: SeriesDomain;
+  /** Interpolation between points; defaults to `linear`. */
+  curve?: CurveType;
+  /** Draw a dot at each series' last point. */
   showDot?: boolean;
   dotRadius?: number;
+  /** Reference rules, bands and points drawn in the chart's coordinates. */
+  annotations?: ReadonlyArray<Annotation>;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
 export type SparkAreaSpec = {
   type: "spark-area";
   pad?: number;
+  /** Y-domain; defaults to 0–100. */
+  domain?: SeriesDomain;
+  /** Draw straight across interior `null` gaps instead of breaking. */
+  interpolateGaps?: boolean;
+  /**
+   * X-scale for `{ x, y }` data; defaults to `time` when x values are dates
+   * or date strings, otherwise `linear`.
+   */
+  xScale?: XScaleType;
+  /** Interpolation between points; defaults to `linear`. */
+  curve?: CurveType;
   dotRadius?: number;
   strokeWidth?: number;
   gradientTopOpacity?: number;
+  /** Points to highlight with a marker, e.g. `["min", "max"]`. */
+  markers?: ReadonlyArray<SeriesMarker>;
+  markerRadius?: number;
+  /**
+   * Thin long series to the plot width; on by default (LTTB for lines,
+   * min/max buckets for bars).
+   */
+  downsample?: DownsampleOption;
+  /** Reference rules, bands and points drawn in the chart's coordinates. */
+  annotations?: ReadonlyArray<Annotation>;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
@@ -22,6 +100,37 @@ export type RangeBandSpec = {
   dotRadius?: number;
   bandOpacity?: number;
   strokeWidth?: number;
+  /** Points to highlight with a marker, e.g. `["min", "max"]`. */
+  markers?: ReadonlyArray<SeriesMarker>;
+  markerRadius?: number;
+  /** Thin long series to the plot width with LTTB; on by default. */
+  downsample?: DownsampleOption;
+  /** Reference rules, bands and points drawn in the chart's coordinates. */
+  annotations?: ReadonlyArray<Annotation>;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
+  className?: string;
+};
+
+export type BulletOrientation = "horizontal" | "vertical";
+
+export type BulletSpec = {
+  type: "bullet";
+  pad?: number;
+  /** Defaults to `"horizontal"`. */
+  orientation?: BulletOrientation;
+  /**
+   * Names for the qualitative ranges, lowest first; defaults to a standard
+   * scale ("poor", "satisfactory", "good") for 2–5 ranges.
+   */
+  rangeLabels?: ReadonlyArray<string>;
+  /** Value bar thickness as a fraction of the chart's thickness (default 1/3). */
+  barSize?: number;
+  /** Target tick length as a fraction of the chart's thickness (default 0.7). */
+  targetSize?: number;
+  targetWidth?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
@@ -39,6 +148,8 @@ export type BulletDeltaSpec = {
   arrowBaseOffset?: number;
   arrowHalfWidth?: number;
   arrowOpacity?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
@@ -49,23 +160,62 @@ export type BulletGaugeSpec = {
   markerPosition?: number;
   markerOpacity?: number;
   markerWidth?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type BarSpec = {
   type: "bar";
   pad?: number;
+  /** Reference rules, bands and points drawn in the chart's coordinates. */
+  annotations?: ReadonlyArray<Annotation>;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
+  className?: string;
+};
+
+/**
+ * Whisker reach: `"iqr"` stops at the last sample within 1.5×IQR of the box
+ * and plots the rest as outliers; `"min-max"` reaches the extremes.
+ */
+export type BoxPlotWhiskers = "iqr" | "min-max";
+
+export type BoxPlotSpec = {
+  type: "box-plot";
+  pad?: number;
+  /** X-domain; defaults to the data extent, outliers included. */
+  domain?: SeriesDomain;
+  /**
+   * Defaults to `"iqr"` for raw samples and `"min-max"` for a precomputed
+   * summary, whose `min`/`max` would otherwise fall inside the fences.
+   */
+  whiskers?: BoxPlotWhiskers;
+  /** Most outlier dots to draw (default 8); the most extreme are kept. */
+  maxOutliers?: number;
+  outlierRadius?: number;
+  /** Box height; defaults to the plot height. */
+  boxHeight?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
 export type HistogramSpec = {
   type: "histogram";
   pad?: number;
+  /** Y-domain; defaults to 0–100. */
+  domain?: SeriesDomain;
   bins?: number;
   gap?: number;
   barRadius?: number;
   gradient?: boolean;
   gradientTopOpacity?: number;
+  /** Reference rules, bands and points drawn in the chart's coordinates. */
+  annotations?: ReadonlyArray<Annotation>;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
@@ -74,6 +224,28 @@ export type HeatgridSpec = {
   pad?: number;
   cols?: number;
   rows?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
+  className?: string;
+};
+
+export type CalendarHeatmapSpec = {
+  type: "calendar-heatmap";
+  pad?: number;
+  /** First weekday of each column: 0 = Sunday (default) … 6 = Saturday. */
+  weekStart?: number;
+  /** Number of color steps values are quantized into (default: 4). */
+  steps?: number;
+  /** Gap between day cells in px (default: 1). */
+  gap?: number;
+  /** Outline where each month starts (default: true). */
+  monthBoundaries?: boolean;
+  /** Noun for a11y values, e.g. `"commit"` → "12 commits". */
+  unit?: string;
+  /** Plural of `unit` (default: `unit` + "s"). */
+  unitPlural?: string;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
@@ -83,6 +255,8 @@ export type DotMatrixSpec = {
   cols?: number;
   maxDots?: number;
   dotRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
@@ -92,16 +266,23 @@ export type BarcodeSpec = {
   bins?: number;
   gap?: number;
   interleave?: boolean;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type WaveformSpec = {
   type: "waveform";
   pad?: number;
+  /** Y-domain; defaults to the data extent. */
+  domain?: SeriesDomain;
   bins?: number;
   gap?: number;
   barWidth?: number;
   colors?: string[];
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
@@ -112,7 +293,10 @@ export type PixelGridSpec = {
   rows?: number;
   gap?: number;
   interleave?: boolean;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type PixelTreemapSpec = {
@@ -122,7 +306,10 @@ export type PixelTreemapSpec = {
   stroke?: string;
   strokeWidth?: number;
   strokeOpacity?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type PixelPillSpec = {
@@ -131,7 +318,10 @@ export type PixelPillSpec = {
   gap?: number;
   minPx?: number;
   cornerRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type PixelColumnSpec = {
@@ -140,7 +330,10 @@ export type PixelColumnSpec = {
   gap?: number;
   minPx?: number;
   cornerRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type DotRowSpec = {
@@ -149,7 +342,10 @@ export type DotRowSpec = {
   dots?: number;
   gap?: number;
   dotRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type DotCascadeSpec = {
@@ -157,7 +353,10 @@ export type DotCascadeSpec = {
   pad?: number;
   dots?: number;
   dotRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type ShapeRowSpec = {
@@ -166,27 +365,39 @@ export type ShapeRowSpec = {
   maxShapes?: number;
   shapeSize?: number;
   cornerRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type MosaicSpec = {
   type: "mosaic";
   pad?: number;
   gap?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type StackedBarSpec = {
   type: "stacked-bar";
   pad?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type SegmentedBarSpec = {
   type: "segmented-bar";
   pad?: number;
   gap?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type SegmentedPillSpec = {
@@ -195,7 +406,10 @@ export type SegmentedPillSpec = {
   separatorStroke?: string;
   separatorStrokeWidth?: number;
   separatorStrokeOpacity?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type StackedChipsSpec = {
@@ -208,7 +422,10 @@ export type StackedChipsSpec = {
   chipHeight?: number;
   cornerRadius?: number;
   strokeWidth?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type GradientFadeSpec = {
@@ -217,7 +434,10 @@ export type GradientFadeSpec = {
   midOpacity?: number;
   endOpacity?: number;
   cornerRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type StripeDensitySpec = {
@@ -227,7 +447,10 @@ export type StripeDensitySpec = {
   minTileWidth?: number;
   maxTileWidth?: number;
   densityScale?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type PerforatedSpec = {
@@ -237,26 +460,38 @@ export type PerforatedSpec = {
   patternSize?: number;
   dotRadius?: number;
   dotOpacity?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type MaskedWaveSpec = {
   type: "masked-wave";
   pad?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type ChevronSpec = {
   type: "chevron";
   pad?: number;
   overlap?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type InterlockingSpec = {
   type: "interlocking";
   pad?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type TaperedSpec = {
@@ -265,7 +500,10 @@ export type TaperedSpec = {
   taperPct?: number;
   heightStepPct?: number;
   minHeightPct?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type PipelineSpec = {
@@ -274,7 +512,10 @@ export type PipelineSpec = {
   overlap?: number;
   strokeWidth?: number;
   strokeOpacity?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type ProgressPillsSpec = {
@@ -282,7 +523,10 @@ export type ProgressPillsSpec = {
   pad?: number;
   gap?: number;
   pillHeight?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type DumbbellSpec = {
@@ -296,6 +540,8 @@ export type DumbbellSpec = {
   targetFillOpacity?: number;
   targetStrokeOpacity?: number;
   targetStrokeWidth?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
@@ -304,7 +550,10 @@ export type BitfieldSpec = {
   pad?: number;
   cellSize?: number;
   dotRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type RankedLanesSpec = {
@@ -312,7 +561,10 @@ export type RankedLanesSpec = {
   pad?: number;
   maxLanes?: number;
   laneHeight?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type SkylineSpec = {
@@ -320,7 +572,10 @@ export type SkylineSpec = {
   pad?: number;
   gap?: number;
   minHeightPct?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type CascadeStepsSpec = {
@@ -329,7 +584,10 @@ export type CascadeStepsSpec = {
   gap?: number;
   stepDecrement?: number;
   minHeightPct?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type LollipopSpec = {
@@ -339,7 +597,10 @@ export type LollipopSpec = {
   stemWidth?: number;
   dotRadius?: number;
   minStemHeight?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type VariableRibbonSpec = {
@@ -348,7 +609,10 @@ export type VariableRibbonSpec = {
   gap?: number;
   stepDecrement?: number;
   minHeightPct?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type ParetoSpec = {
@@ -356,7 +620,10 @@ export type ParetoSpec = {
   pad?: number;
   gap?: number;
   bgOpacity?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type SteppedAreaSpec = {
@@ -364,7 +631,10 @@ export type SteppedAreaSpec = {
   pad?: number;
   gap?: number;
   stepOffset?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type SplitParetoSpec = {
@@ -374,7 +644,10 @@ export type SplitParetoSpec = {
   threshold?: number;
   dividerOpacity?: number;
   dividerWidth?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type TwoTierSpec = {
@@ -383,7 +656,10 @@ export type TwoTierSpec = {
   gap?: number;
   topRatio?: number;
   bottomOpacity?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type MicroHeatlineSpec = {
@@ -392,19 +668,91 @@ export type MicroHeatlineSpec = {
   gap?: number;
   maxLines?: number;
   lineHeight?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
-export type SparklineData = ReadonlyArray<number>;
+/** Series values; `null` marks a missing point (a gap). */
+export type SparklineData = ReadonlyArray<number | null>;
+
+export type XScaleType = "linear" | "time";
+
+/**
+ * How line-family charts join points. `monotone` never overshoots the data;
+ * `catmullRom` passes through every point but may; `basis` smooths without
+ * passing through interior points; the step modes hold each value until the
+ * next point (`step-after`) or jump to it early (`step-before`).
+ */
+export type CurveType =
+  | "linear"
+  | "monotone"
+  | "catmullRom"
+  | "step-before"
+  | "step-after"
+  | "basis";
+
+/** Highlighted point on a line-family chart: the extremes or the ends. */
+export type SeriesMarker = "min" | "max" | "first" | "last";
+
+/** An x value: a number, a `Date`, or a date string such as `2025-03-03`. */
+export type SeriesXValue = number | Date | string;
+
+export type XYPoint = { x: SeriesXValue; y: number | null };
+
+/** Irregularly sampled series: `{ x, y }` points or parallel arrays. */
+export type XYSeriesData =
+  | ReadonlyArray<XYPoint>
+  | {
+      x: ReadonlyArray<SeriesXValue>;
+      y: ReadonlyArray<number | null>;
+    };
+
+/** Data for line-family charts: plain values or x/y pairs. */
+export type LineSeriesData = SparklineData | XYSeriesData;
+
+export type MultiSparklineSeries = {
+  name: string;
+  values: ReadonlyArray<number>;
+  /** Line color; defaults to `var(--mv-series-N)` by series position. */
+  color?: string;
+};
+export type MultiSparklineData = ReadonlyArray<MultiSparklineSeries>;
 
 export type BarData = { value: number; max?: number };
 
+/**
+ * `ranges` are the upper bounds of the qualitative ranges, lowest first
+ * (e.g. `[50, 75, 100]`); `max` defaults to the largest of the ranges,
+ * value and target.
+ */
+export type BulletData = {
+  value: number;
+  target?: number;
+  ranges: ReadonlyArray<number>;
+  max?: number;
+};
+
 export type BulletDeltaData = {
   current: number;
   previous: number;
   max?: number;
 };
 
+/** Precomputed five-number summary. */
+export type BoxPlotSummary = {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  outliers?: ReadonlyArray<number>;
+};
+
+/** Raw samples, or a precomputed summary. */
+export type BoxPlotData = ReadonlyArray<number> | BoxPlotSummary;
+
 export type HistogramData = {
   series: ReadonlyArray<number>;
   opacities?: ReadonlyArray<number>;
@@ -415,6 +763,18 @@ export type HeatgridData = {
   opacities?: ReadonlyArray<number>;
 };
 
+export type CalendarHeatmapRecord = {
+  /**
+   * A date string, `Date` or epoch ms; the time of day is dropped. Epoch ms
+   * and `"YYYY-MM-DD"` strings are read as UTC days, `Date` objects and other
+   * strings by their local calendar date.
+   */
+  date: SeriesXValue;
+  value: number | null;
+};
+
+export type CalendarHeatmapData = ReadonlyArray<CalendarHeatmapRecord>;
+
 export type DotMatrixData = {
   series: ReadonlyArray<number>;
   opacities?: ReadonlyArray<number>;
@@ -426,24 +786,80 @@ export type DumbbellData = {
   max?: number;
 };
 
-export type BitfieldSegment = { name?: string; pct: number; color: string };
+/**
+ * A part-to-whole segment. Without a `color`, one is assigned from the
+ * spec's `palette`.
+ */
+export type BitfieldSegment = { name?: string; pct: number; color?: string };
+
+/** Built-in categorical palettes (see `categoricalPalettes`). */
+export type CategoricalPaletteName = "tableau10" | "okabe-ito";
+
+/**
+ * Colors for segments without a `color`. `"series"` (the default) assigns
+ * `var(--mv-series-N)` by position. A named palette or a color list assigns
+ * by segment name, so a segment keeps its color when the data is reordered
+ * or another chart shows the same names.
+ */
+export type SegmentPalette =
+  | "series"
+  | CategoricalPaletteName
+  | ReadonlyArray<string>;
 export type BitfieldData = ReadonlyArray<BitfieldSegment>;
 
 export type NormalizedSparkline = {
   type: "sparkline";
-  series: number[];
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
+  /** Numeric x per point (epoch ms on a time scale); absent for index data. */
+  x?: number[];
+  xScale?: XScaleType;
+  min: number;
+  max: number;
+};
+
+export type NormalizedMultiSparklineSeries = {
+  /** Stable, id-safe key derived from the series name. */
+  key: string;
+  name: string;
+  color: string;
+  values: number[];
+};
+
+export type NormalizedMultiSparkline = {
+  type: "multi-sparkline";
+  series: NormalizedMultiSparklineSeries[];
+  /** Shared y-domain across every series. */
   min: number;
   max: number;
 };
 
 export type NormalizedSparkArea = {
   type: "spark-area";
-  series: number[];
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
+  /** Numeric x per point (epoch ms on a time scale); absent for index data. */
+  x?: number[];
+  xScale?: XScaleType;
+  min: number;
+  max: number;
 };
 
 export type NormalizedRangeBand = {
   type: "range-band";
-  series: number[];
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
+  /** Input index of each point, once downsampled; absent otherwise. */
+  x?: number[];
+};
+
+export type NormalizedBullet = {
+  type: "bullet";
+  value: number;
+  target?: number;
+  /** Ascending upper bounds, clamped to `0..max`. */
+  ranges: number[];
+  max: number;
 };
 
 export type NormalizedBulletDelta = {
@@ -464,9 +880,36 @@ export type NormalizedBar = {
   max: number;
 };
 
+export type BoxPlotOutlier = {
+  /** Index into the samples, or into the summary's `outliers`. */
+  index: number;
+  value: number;
+};
+
+export type BoxPlotStats = {
+  q1: number;
+  median: number;
+  q3: number;
+  /** Whisker ends, after applying the spec's `whiskers` rule. */
+  low: number;
+  high: number;
+  outliers: BoxPlotOutlier[];
+};
+
+export type NormalizedBoxPlot = {
+  type: "box-plot";
+  /** `null` when there are no samples. */
+  stats: BoxPlotStats | null;
+  whiskers: BoxPlotWhiskers;
+  min: number;
+  max: number;
+};
+
 export type NormalizedHistogram = {
   type: "histogram";
   series: number[];
+  min: number;
+  max: number;
   opacities?: number[];
 };
 
@@ -476,6 +919,23 @@ export type NormalizedHeatgrid = {
   opacities?: number[];
 };
 
+export type CalendarHeatmapDay = {
+  /** UTC midnight, epoch ms. */
+  date: number;
+  /** Summed value; undefined for days without a record. */
+  value?: number;
+  /** Index of the day's first record in the input data. */
+  index?: number;
+};
+
+export type NormalizedCalendarHeatmap = {
+  type: "calendar-heatmap";
+  /** Every day from the first record to the last, in order. */
+  days: CalendarHeatmapDay[];
+  max: number;
+  weekStart: number;
+};
+
 export type NormalizedDotMatrix = {
   type: "dot-matrix";
   series: number[];
@@ -489,7 +949,8 @@ export type NormalizedBarcode = {
 
 export type NormalizedWaveform = {
   type: "waveform";
-  series: number[];
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
   min: number;
   max: number;
 };
@@ -667,7 +1128,10 @@ export type DnaHelixSpec = {
   gap?: number;
   strandGap?: number;
   strandHeight?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedDnaHelix = {
@@ -681,7 +1145,10 @@ export type ConcentricArcsSpec = {
   rings?: number;
   strokeWidth?: number;
   ringGap?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedConcentricArcs = {
@@ -697,7 +1164,10 @@ export type ConcentricArcsHorizSpec = {
   /** Height decrement per arc (default: 10) */
   step?: number;
   strokeWidth?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedConcentricArcsHoriz = {
@@ -711,7 +1181,10 @@ export type SplitRibbonSpec = {
   gap?: number;
   ribbonGap?: number;
   splitAt?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedSplitRibbon = {
@@ -724,7 +1197,10 @@ export type MatryoshkaSpec = {
   pad?: number;
   heightDecrement?: number;
   cornerRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedMatryoshka = {
@@ -738,7 +1214,10 @@ export type LayeredWavesSpec = {
   waveOffset?: number;
   baseOpacity?: number;
   cornerRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedLayeredWaves = {
@@ -753,7 +1232,10 @@ export type HandOfCardsSpec = {
   overlap?: number;
   /** Card height as percentage of usable height (default: 70) */
   cardHeightPct?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedHandOfCards = {
@@ -764,14 +1246,42 @@ export type NormalizedHandOfCards = {
 export type StepLineSpec = {
   type: "step-line";
   pad?: number;
+  /**
+   * Y-domain; defaults to the data extent, widened to include rule and band
+   * annotations.
+   */
+  domain?: SeriesDomain;
+  /** Draw straight across interior `null` gaps instead of breaking. */
+  interpolateGaps?: boolean;
+  /**
+   * X-scale for `{ x, y }` data; defaults to `time` when x values are dates
+   * or date strings, otherwise `linear`.
+   */
+  xScale?: XScaleType;
   showDot?: boolean;
   dotRadius?: number;
+  /** Points to highlight with a marker, e.g. `["min", "max"]`. */
+  markers?: ReadonlyArray<SeriesMarker>;
+  markerRadius?: number;
+  /**
+   * Thin long series to the plot width; on by default (LTTB for lines,
+   * min/max buckets for bars).
+   */
+  downsample?: DownsampleOption;
+  /** Reference rules, bands and points drawn in the chart's coordinates. */
+  annotations?: ReadonlyArray<Annotation>;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
 export type NormalizedStepLine = {
   type: "step-line";
-  series: number[];
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
+  /** Numeric x per point (epoch ms on a time scale); absent for index data. */
+  x?: number[];
+  xScale?: XScaleType;
   min: number;
   max: number;
 };
@@ -782,7 +1292,10 @@ export type FadedPyramidSpec = {
   gap?: number;
   heightDecrement?: number;
   minHeightPct?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedFadedPyramid = {
@@ -795,7 +1308,10 @@ export type SegmentedRingSpec = {
   pad?: number;
   strokeWidth?: number;
   gapSize?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedSegmentedRing = {
@@ -808,7 +1324,10 @@ export type NanoRingSpec = {
   pad?: number;
   strokeWidth?: number;
   gapSize?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedNanoRing = {
@@ -827,12 +1346,15 @@ export type CodeMinimapSpec = {
   lineRadius?: number;
   widthPattern?: number[];
   colors?: string[];
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
 export type NormalizedCodeMinimap = {
   type: "code-minimap";
-  series: number[];
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
   min: number;
   max: number;
 };
@@ -840,7 +1362,10 @@ export type NormalizedCodeMinimap = {
 export type PatternTilesSpec = {
   type: "pattern-tiles";
   pad?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedPatternTiles = {
@@ -851,16 +1376,26 @@ export type NormalizedPatternTiles = {
 export type EqualizerSpec = {
   type: "equalizer";
   pad?: number;
+  /**
+   * Y-domain; defaults to the data extent, widened to include rule and band
+   * annotations.
+   */
+  domain?: SeriesDomain;
   bins?: number;
   gap?: number;
   barWidth?: number;
   colors?: string[];
+  /** Reference rules, bands and points drawn in the chart's coordinates. */
+  annotations?: ReadonlyArray<Annotation>;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
 export type NormalizedEqualizer = {
   type: "equalizer";
-  series: number[];
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
   min: number;
   max: number;
 };
@@ -868,24 +1403,69 @@ export type NormalizedEqualizer = {
 export type SparklineBarsSpec = {
   type: "sparkline-bars";
   pad?: number;
+  /**
+   * Y-domain; defaults to the data extent, widened to include rule and band
+   * annotations.
+   */
+  domain?: SeriesDomain;
+  /** Draw straight across interior `null` gaps instead of breaking. */
+  interpolateGaps?: boolean;
   gap?: number;
   barRadius?: number;
   colors?: string[];
+  /**
+   * Thin long series to the plot width; on by default (LTTB for lines,
+   * min/max buckets for bars).
+   */
+  downsample?: DownsampleOption;
+  /** Reference rules, bands and points drawn in the chart's coordinates. */
+  annotations?: ReadonlyArray<Annotation>;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
 };
 
 export type NormalizedSparklineBars = {
   type: "sparkline-bars";
-  series: number[];
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
   min: number;
   max: number;
 };
 
+/**
+ * Signed outcomes: positive values are wins, negative losses, zero draws.
+ * Magnitudes are ignored.
+ */
+export type WinLossSpec = {
+  type: "win-loss";
+  pad?: number;
+  gap?: number;
+  /** Height of win and loss ticks; defaults to just under half the plot. */
+  tickHeight?: number;
+  /** Height of the centered draw tick; defaults to a third of `tickHeight`. */
+  drawHeight?: number;
+  /** Draw the center baseline (`mv-win-loss-baseline`). */
+  baseline?: boolean;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
+  className?: string;
+};
+
+export type NormalizedWinLoss = {
+  type: "win-loss";
+  /** `null` entries are gaps. */
+  series: Array<number | null>;
+};
+
 export type DonutSpec = {
   type: "donut";
   pad?: number;
   innerRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedDonut = {
@@ -900,7 +1480,10 @@ export type OrbitalDotsSpec = {
   ringStrokeWidth?: number;
   minDotRadius?: number;
   maxDotRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedOrbitalDots = {
@@ -915,7 +1498,10 @@ export type RadialBarsSpec = {
   minLength?: number;
   maxLength?: number;
   strokeWidth?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedRadialBars = {
@@ -926,7 +1512,10 @@ export type NormalizedRadialBars = {
 export type RadialBurstSpec = {
   type: "radial-burst";
   pad?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedRadialBurst = {
@@ -940,7 +1529,10 @@ export type ShadowDepthSpec = {
   gap?: number;
   maxItems?: number;
   cornerRadius?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedShadowDepth = {
@@ -951,7 +1543,10 @@ export type NormalizedShadowDepth = {
 export type VerticalStackSpec = {
   type: "vertical-stack";
   pad?: number;
+  /** Number format for a11y text and event details. */
+  format?: ValueFormat;
   className?: string;
+  palette?: SegmentPalette;
 };
 
 export type NormalizedVerticalStack = {
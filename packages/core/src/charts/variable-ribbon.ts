@@ -1,4 +1,5 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   coerceFiniteNonNegative,
@@ -12,9 +13,10 @@ import type {
 } from "./types";
 
 export const variableRibbonChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "variable-ribbon-seg",
 
         labelFallback: "Segment",
@@ -22,6 +24,7 @@ export const variableRibbonChart = {
       label: a11yLabelWithSegmentsSummary(
         "Variable ribbon chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -71,6 +74,7 @@ export const variableRibbonChart = {
 
         return {
           className: `mv-variable-ribbon-seg${classSuffix}`,
+          datum: segmentDatum(seg, i),
           fill: run.color,
           h,
           id: `variable-ribbon-seg-${i}`,
@@ -84,8 +88,8 @@ export const variableRibbonChart = {
       })
       .filter((m) => m !== null);
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "variable-ribbon" as const };
   },
   preferredAspectRatio: "wide" as const,
@@ -1,5 +1,6 @@
 import { a11yItemsForSegments, a11yLabelWithSegmentsSummary } from "../a11y";
 import type { Mark } from "../model";
+import { segmentDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import { normalizeSegments } from "./shared";
 import type {
@@ -9,9 +10,10 @@ import type {
 } from "./types";
 
 export const verticalStackChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSegments(normalized.segments, {
+        format: spec.format,
         idPrefix: "vertical-stack-seg",
 
         labelFallback: "Segment",
@@ -19,6 +21,7 @@ export const verticalStackChart = {
       label: a11yLabelWithSegmentsSummary(
         "Vertical stack chart",
         normalized.segments,
+        spec.format,
       ),
       role: "img",
     };
@@ -62,10 +65,12 @@ export const verticalStackChart = {
 
       const className = `mv-vertical-stack-seg${classSuffix}`;
       const fill = seg.color;
+      const datum = segmentDatum(seg, i);
 
       if (!hasRadius) {
         marks.push({
           className,
+          datum,
           fill,
           h,
           id: `vertical-stack-seg-${i}`,
@@ -86,6 +91,7 @@ export const verticalStackChart = {
       if (isSingle) {
         marks.push({
           className,
+          datum,
           fill,
           h,
           id: `vertical-stack-seg-${i}`,
@@ -104,6 +110,7 @@ export const verticalStackChart = {
         // First segment: rounded top corners
         marks.push({
           className,
+          datum,
           fill,
           h,
           id: `vertical-stack-seg-${i}`,
@@ -119,6 +126,7 @@ export const verticalStackChart = {
         if (innerH > 0) {
           marks.push({
             className,
+            datum,
             fill,
             h: innerH,
             id: `vertical-stack-seg-${i}-inner`,
@@ -136,6 +144,7 @@ export const verticalStackChart = {
         // Last segment: rounded bottom corners
         marks.push({
           className,
+          datum,
           fill,
           h,
           id: `vertical-stack-seg-${i}`,
@@ -151,6 +160,7 @@ export const verticalStackChart = {
         if (innerH > 0) {
           marks.push({
             className,
+            datum,
             fill,
             h: innerH,
             id: `vertical-stack-seg-${i}-inner`,
@@ -167,6 +177,7 @@ export const verticalStackChart = {
       // Middle segments: no rounding
       marks.push({
         className,
+        datum,
         fill,
         h,
         id: `vertical-stack-seg-${i}`,
@@ -180,8 +191,8 @@ export const verticalStackChart = {
 
     return marks;
   },
-  normalize(_spec, data) {
-    const segments = normalizeSegments(data);
+  normalize(spec, data) {
+    const segments = normalizeSegments(data, spec.palette);
     return { segments, type: "vertical-stack" as const };
   },
   preferredAspectRatio: "tall" as const,
@@ -1,22 +1,31 @@
 import { a11yItemsForSeries, a11yLabelWithSeriesSummary } from "../a11y";
+import { resolveDomain } from "../domain";
+import { themePaint } from "../theme";
+import { resampledSeriesDatum } from "../utils/datum";
 import type { ChartDefinition } from "./chart-definition";
 import {
   clamp,
   coerceFiniteInt,
   coerceFiniteNonNegative,
-  isFiniteNumber,
+  normalizeGappedSeries,
   resampleSeries,
+  warnOutOfDomain,
 } from "./shared";
 import type { NormalizedWaveform, SparklineData, WaveformSpec } from "./types";
 
 export const waveformChart = {
-  a11y(_spec, normalized, _layout) {
+  a11y(spec, normalized, _layout) {
     return {
       items: a11yItemsForSeries(normalized.series, {
+        format: spec.format,
         idPrefix: "waveform-sample",
         labelPrefix: "Sample",
       }),
-      label: a11yLabelWithSeriesSummary("Waveform chart", normalized.series),
+      label: a11yLabelWithSeriesSummary(
+        "Waveform chart",
+        normalized.series,
+        spec.format,
+      ),
       role: "img",
     };
   },
@@ -25,9 +34,9 @@ export const waveformChart = {
   displayName: "Waveform",
   emptyDataWarningMessage: "No series data.",
   isEmpty(normalized) {
-    return normalized.series.length === 0;
+    return normalized.series.every((v) => v === null);
   },
-  marks(spec, normalized, layout, _state, _theme, warnings) {
+  marks(spec, normalized, layout, _state, theme, warnings) {
     const bins = coerceFiniteInt(
       spec.bins ?? normalized.series.length,
       normalized.series.length,
@@ -38,6 +47,11 @@ export const waveformChart = {
 
     const series = normalized.series;
     if (series.length === 0) return [];
+    warnOutOfDomain(
+      series,
+      { max: normalized.max, min: normalized.min },
+      warnings,
+    );
 
     const values = resampleSeries(series, bins);
     if (values.length === 0) return [];
@@ -67,31 +81,36 @@ export const waveformChart = {
     const denom = normalized.max - normalized.min || 1;
     const colors = spec.colors;
     const fallbackColor = colors?.[colors.length - 1];
+    const themeFill = themePaint(theme, { fill: "fg" }).fill;
 
     const x0 = layout.pad;
     const y0 = layout.pad;
 
-    return values.map((value, i) => {
+    return values.flatMap((value, i) => {
+      // A gap keeps its slot but draws no bar.
+      if (value === null) return [];
       const normalizedValue = clamp((value - normalized.min) / denom, 0, 1);
       const barH = Math.max(2, normalizedValue * usableH);
       const y = y0 + (usableH - barH) / 2;
       const x = x0 + i * (barW + gap);
-      return {
-        className: `mv-waveform-bar${classSuffix}`,
-        fill: colors ? (colors[i] ?? fallbackColor) : undefined,
-        h: barH,
-        id: `waveform-bar-${i}`,
-        type: "rect",
-        w: barW,
-        x,
-        y,
-      };
+      return [
+        {
+          className: `mv-waveform-bar${classSuffix}`,
+          datum: resampledSeriesDatum(series, i, values.length),
+          fill: colors ? (colors[i] ?? fallbackColor) : themeFill,
+          h: barH,
+          id: `waveform-bar-${i}`,
+          type: "rect" as const,
+          w: barW,
+          x,
+          y,
+        },
+      ];
     });
   },
-  normalize(_spec, data) {
-    const series = data.filter(isFiniteNumber);
-    const min = series.length > 0 ? Math.min(...series) : 0;
-    const max = series.length > 0 ? Math.max(...series) : 1;
+  normalize(spec, data) {
+    const series = normalizeGappedSeries(data);
+    const { max, min } = resolveDomain(series, spec.domain);
     return { max, min, series, type: "waveform" };
   },
   preferredAspectRatio: "wide" as const,
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "vitest";
+import { computeModel } from "../compute";
+import type { RectMark } from "../model";
+
+function ticks(data: Array<number | null>, spec = {}) {
+  const model = computeModel({
+    data,
+    size: { height: 20, width: 100 },
+    spec: { gap: 0, pad: 0, type: "win-loss" as const, ...spec },
+  });
+  return {
+    model,
+    rects: model.marks.filter((m): m is RectMark => m.type === "rect"),
+  };
+}
+
+describe("win-loss", () => {
+  test("produces a deterministic RenderModel", () => {
+    const input = {
+      data: [1, -1, 0, 2, -3],
+      size: { height: 20, width: 100 },
+      spec: { type: "win-loss" as const },
+    };
+
+    const a = computeModel(input);
+    const b = computeModel(input);
+
+    expect(a).toEqual(b);
+    expect(a.marks.length).toBe(5);
+    expect(a.stats?.warnings).toBeUndefined();
+  });
+
+  test("wins tick up, losses down and draws sit on the baseline", () => {
+    const { rects } = ticks([5, -2, 0]);
+    const [win, loss, draw] = rects;
+
+    expect(win?.className).toBe("mv-win-loss-tick mv-win");
+    expect(win?.y).toBe(0);
+    expect(win?.h).toBe(10);
+
+    expect(loss?.className).toBe("mv-win-loss-tick mv-loss");
+    expect(loss?.y).toBe(10);
+    expect(loss?.h).toBe(10);
+
+    expect(draw?.className).toBe("mv-win-loss-tick mv-draw");
+    expect(draw?.h).toBeCloseTo(10 / 3);
+    expect((draw?.y ?? 0) + (draw?.h ?? 0) / 2).toBeCloseTo(10);
+  });
+
+  test("ignores magnitudes", () => {
+    const { rects } = ticks([1, 100]);
+    expect(rects[0]?.h).toBe(rects[1]?.h);
+  });
+
+  test("applies tickHeight, drawHeight and gap", () => {
+    const { rects } = ticks([1, 0], { drawHeight: 2, gap: 10, tickHeight: 4 });
+    expect(rects[0]?.y).toBe(6);
+    expect(rects[0]?.h).toBe(4);
+    expect(rects[1]?.y).toBe(9);
+    expect(rects[1]?.h).toBe(2);
+    expect(rects[0]?.w).toBe(45);
+    expect(rects[1]?.x).toBe(55);
+  });
+
+  test("keeps a slot for gaps", () => {
+    const { rects } = ticks([1, null, -1]);
+    expect(rects.map((r) => r.id)).toEqual([
+      "win-loss-tick-0",
+      "win-loss-tick-2",
+    ]);
+    expect(rects[1]?.x).toBeCloseTo(200 / 3);
+  });
+
+  test("draws the baseline when asked", () => {
+    const { model } = ticks([1, -1], { baseline: true });
+    const baseline = model.marks.find((m) => m.id === "win-loss-baseline");
+    expect(baseline).toMatchObject({ type: "line", y1: 10, y2: 10 });
+  });
+
+  test("summarizes totals and the current streak", () => {
+    const { model } = ticks([1, -1, 1, -1, 1, -1, 1, 1, 1, 1]);
+    expect(model.a11y.label).toBe(
+      "Win/loss chart (7 wins, 3 losses, current streak 4 wins)",
+    );
+    expect(model.a11y.items?.[1]).toMatchObject({
+      id: "win-loss-tick-1",
+      label: "Result 2",
+      valueText: "loss",
+    });
+  });
+
+  test("lists draws and skips gaps in the streak", () => {
+    const { model } = ticks([1, 0, null, 0]);
+    expect(model.a11y.label).toBe(
+      "Win/loss chart (1 win, 0 losses, 2 draws, current streak 2 draws)",
+    );
+  });
+
+  test("warns on empty data", () => {
+    const { model } = ticks([]);
+    expect(model.marks).toEqual([]);
+    expect(model.stats?.warnings?.[0]?.code).toBe("EMPTY_DATA");
+  });
+});
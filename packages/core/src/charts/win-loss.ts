@@ -0,0 +1,180 @@
+import { a11yItemsForSeries } from "../a11y";
+import type { DiagnosticWarning, Mark } from "../model";
+import { type ThemePaint, themePaint } from "../theme";
+import { seriesDatum } from "../utils/datum";
+import type { ChartDefinition } from "./chart-definition";
+import type { Layout } from "./context";
+import { coerceFiniteNonNegative, normalizeGappedSeries } from "./shared";
+import type { NormalizedWinLoss, SparklineData, WinLossSpec } from "./types";
+
+type Outcome = "win" | "loss" | "draw";
+
+const OUTCOME_PLURALS: Record<Outcome, string> = {
+  draw: "draws",
+  loss: "losses",
+  win: "wins",
+};
+
+/** Theme fill of each outcome, as in the `mv-win`/`mv-loss`/`mv-draw` rules. */
+const OUTCOME_PAINT: Record<Outcome, ThemePaint> = {
+  draw: { fill: "muted" },
+  loss: { fill: "series-5" },
+  win: { fill: "series-2" },
+};
+
+function outcomeOf(value: number): Outcome {
+  if (value > 0) return "win";
+  return value < 0 ? "loss" : "draw";
+}
+
+function countText(count: number, outcome: Outcome): string {
+  return `${count} ${count === 1 ? outcome : OUTCOME_PLURALS[outcome]}`;
+}
+
+/**
+ * "7 wins, 3 losses, current streak 4 wins". Draws are listed only when
+ * present; gaps neither count nor break the streak.
+ */
+function streakSummary(series: ReadonlyArray<number | null>): string | null {
+  const counts: Record<Outcome, number> = { draw: 0, loss: 0, win: 0 };
+  let current: Outcome | null = null;
+  let streak = 0;
+  for (const value of series) {
+    if (value === null) continue;
+    const outcome = outcomeOf(value);
+    counts[outcome] += 1;
+    streak = outcome === current ? streak + 1 : 1;
+    current = outcome;
+  }
+  if (current === null) return null;
+
+  const parts = [countText(counts.win, "win"), countText(counts.loss, "loss")];
+  if (counts.draw > 0) parts.push(countText(counts.draw, "draw"));
+  parts.push(`current streak ${countText(streak, current)}`);
+  return parts.join(", ");
+}
+
+function tickColumns(
+  spec: WinLossSpec,
+  count: number,
+  layout: Layout,
+  warnings: DiagnosticWarning[] | undefined,
+): { tickW: number; gap: number } {
+  const usableW = Math.max(0, layout.width - layout.pad * 2);
+  const gap = coerceFiniteNonNegative(
+    spec.gap ?? 1,
+    1,
+    warnings,
+    "Non-finite win-loss gap; defaulted to 1.",
+  );
+  const totalGap = gap * Math.max(0, count - 1);
+  return { gap, tickW: count === 0 ? 0 : (usableW - totalGap) / count };
+}
+
+/**
+ * Win/loss chart: Tufte's signed-outcome sparkline.
+ * Wins tick up from a center baseline, losses tick down, and draws get a
+ * short tick centered on the baseline. Every tick has the same height, so
+ * only the sign of each value matters; `null` gaps leave an empty slot.
+ */
+export const winLossChart = {
+  a11y(_spec, normalized, _layout) {
+    const summary = streakSummary(normalized.series);
+    return {
+      items: a11yItemsForSeries(normalized.series, {
+        idPrefix: "win-loss-tick",
+        labelPrefix: "Result",
+        valueText: (value) => outcomeOf(value),
+      }),
+      label: summary ? `Win/loss chart (${summary})` : "Win/loss chart (empty)",
+      role: "img",
+    };
+  },
+  category: "bars" as const,
+  defaultPad: 2,
+  displayName: "Win/loss",
+  emptyDataWarningMessage: "No series data.",
+  isEmpty(normalized) {
+    return normalized.series.every((v) => v === null);
+  },
+  marks(spec, normalized, layout, _state, theme, warnings) {
+    const { series } = normalized;
+    if (series.length === 0) return [];
+
+    const usableW = Math.max(0, layout.width - layout.pad * 2);
+    const usableH = Math.max(0, layout.height - layout.pad * 2);
+    const { tickW, gap } = tickColumns(spec, series.length, layout, warnings);
+    if (tickW <= 0) return [];
+
+    const half = usableH / 2;
+    const mid = layout.pad + half;
+    const tickH = Math.min(
+      half,
+      coerceFiniteNonNegative(
+        spec.tickHeight ?? half,
+        half,
+        warnings,
+        "Non-finite win-loss tickHeight; defaulted to half the height.",
+      ),
+    );
+    const drawH = Math.min(
+      usableH,
+      coerceFiniteNonNegative(
+        spec.drawHeight ?? Math.max(1, tickH / 3),
+        Math.max(1, tickH / 3),
+        warnings,
+        "Non-finite win-loss drawHeight; defaulted to a third of tickHeight.",
+      ),
+    );
+
+    const classSuffix = spec.className ? ` ${spec.className}` : "";
+    const marks: Mark[] = [];
+    if (spec.baseline) {
+      marks.push({
+        ...themePaint(theme, { stroke: "grid" }),
+        className: `mv-win-loss-baseline${classSuffix}`,
+        id: "win-loss-baseline",
+        type: "line",
+        x1: layout.pad,
+        x2: layout.pad + usableW,
+        y1: mid,
+        y2: mid,
+      });
+    }
+
+    series.forEach((value, i) => {
+      // A gap keeps its slot but draws no tick.
+      if (value === null) return;
+      const outcome = outcomeOf(value);
+      const h = outcome === "draw" ? drawH : tickH;
+      const y =
+        outcome === "win"
+          ? mid - tickH
+          : outcome === "loss"
+            ? mid
+            : mid - h / 2;
+      marks.push({
+        ...themePaint(theme, OUTCOME_PAINT[outcome]),
+        className: `mv-win-loss-tick mv-${outcome}${classSuffix}`,
+        datum: seriesDatum(value, i),
+        h,
+        id: `win-loss-tick-${i}`,
+        type: "rect",
+        w: tickW,
+        x: layout.pad + i * (tickW + gap),
+        y,
+      });
+    });
+    return marks;
+  },
+  normalize(_spec, data) {
+    return { series: normalizeGappedSeries(data), type: "win-loss" as const };
+  },
+  preferredAspectRatio: "wide" as const,
+  type: "win-loss",
+} satisfies ChartDefinition<
+  "win-loss",
+  WinLossSpec,
+  SparklineData,
+  NormalizedWinLoss
+>;
@@ -178,4 +178,25 @@ describe("computeModel pipeline", () => {
       ),
     ).toBe(true);
   });
+
+  test("accepts radialGradient defs for fill and stroke references", () => {
+    const marks: Mark[] = [
+      { cx: 5, cy: 5, fill: "url(#glow)", id: "a", r: 4, type: "circle" },
+      { d: "M 0 0 L 10 10", id: "b", stroke: "url(#glow)", type: "path" },
+    ];
+    const defs: Def[] = [
+      {
+        id: "glow",
+        stops: [
+          { color: "#fff", offset: 0 },
+          { color: "#000", offset: 1 },
+        ],
+        type: "radialGradient",
+      },
+    ];
+
+    const warnings: DiagnosticWarning[] = [];
+    validateDefReferences(marks, defs, warnings);
+    expect(warnings).toEqual([]);
+  });
 });
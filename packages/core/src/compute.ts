@@ -1,4 +1,13 @@
-import { inferA11yItems, inferA11ySummary } from "./a11y";
+import {
+  a11yNodesForAnnotations,
+  inferA11yItems,
+  inferA11ySummary,
+} from "./a11y";
+import {
+  type Annotation,
+  annotationMarks,
+  type ChartScales,
+} from "./annotations";
 import type {
   ChartDefinition,
   PreferredAspectRatio,
@@ -17,13 +26,24 @@ import {
   pushWarning,
 } from "./charts/shared";
 import { validateDefReferences } from "./diagnostics";
+import type { Downsampled } from "./downsample";
+import type { ValueFormat } from "./format";
+import { applyInteractionToMarks } from "./interaction";
 import type {
+  A11yNode,
   A11yTree,
   Def,
   DiagnosticWarning,
+  GroupMark,
   Mark,
+  MarkDatum,
   RenderModel,
 } from "./model";
+import { applyThemeToDefs, applyThemeToMarks } from "./theme";
+import { arcBounds } from "./utils/arc";
+import { applyGroupTransform } from "./utils/group";
+import { pathBounds } from "./utils/path";
+import { pointsBounds } from "./utils/points";
 import { type ValidationMode, validateChartData } from "./validation";
 
 export type { InteractionState, Layout, ThemeTokens } from "./charts/context";
@@ -34,14 +54,29 @@ export type {
   BitfieldData,
   BitfieldSegment,
   BitfieldSpec,
+  BoxPlotData,
+  BoxPlotOutlier,
+  BoxPlotSpec,
+  BoxPlotStats,
+  BoxPlotSummary,
+  BoxPlotWhiskers,
+  BulletData,
   BulletDeltaData,
   BulletDeltaSpec,
   BulletGaugeSpec,
+  BulletOrientation,
+  BulletSpec,
+  CalendarHeatmapData,
+  CalendarHeatmapDay,
+  CalendarHeatmapRecord,
+  CalendarHeatmapSpec,
   CascadeStepsSpec,
+  CategoricalPaletteName,
   ChevronSpec,
   CodeMinimapSpec,
   ConcentricArcsHorizSpec,
   ConcentricArcsSpec,
+  CurveType,
   DnaHelixSpec,
   DonutSpec,
   DotCascadeSpec,
@@ -60,17 +95,24 @@ export type {
   HistogramSpec,
   InterlockingSpec,
   LayeredWavesSpec,
+  LineSeriesData,
   LollipopSpec,
   MaskedWaveSpec,
   MatryoshkaSpec,
   MicroHeatlineSpec,
   MosaicSpec,
+  MultiSparklineData,
+  MultiSparklineSeries,
+  MultiSparklineSpec,
   NanoRingSpec,
   NormalizedBar,
   NormalizedBarcode,
   NormalizedBitfield,
+  NormalizedBoxPlot,
+  NormalizedBullet,
   NormalizedBulletDelta,
   NormalizedBulletGauge,
+  NormalizedCalendarHeatmap,
   NormalizedCascadeSteps,
   NormalizedChevron,
   NormalizedCodeMinimap,
@@ -95,6 +137,7 @@ export type {
   NormalizedMatryoshka,
   NormalizedMicroHeatline,
   NormalizedMosaic,
+  NormalizedMultiSparkline,
   NormalizedNanoRing,
   NormalizedOrbitalDots,
   NormalizedPareto,
@@ -131,6 +174,7 @@ export type {
   NormalizedVariableRibbon,
   NormalizedVerticalStack,
   NormalizedWaveform,
+  NormalizedWinLoss,
   OrbitalDotsSpec,
   ParetoSpec,
   PatternTilesSpec,
@@ -148,6 +192,9 @@ export type {
   SegmentedBarSpec,
   SegmentedPillSpec,
   SegmentedRingSpec,
+  SegmentPalette,
+  SeriesMarker,
+  SeriesXValue,
   ShadowDepthSpec,
   ShapeRowSpec,
   SkylineSpec,
@@ -167,6 +214,10 @@ export type {
   VariableRibbonSpec,
   VerticalStackSpec,
   WaveformSpec,
+  WinLossSpec,
+  XScaleType,
+  XYPoint,
+  XYSeriesData,
 } from "./charts/types";
 
 export type { ChartMeta, PreferredAspectRatio };
@@ -223,10 +274,9 @@ export type ComputeModelInput<S extends ChartSpec = ChartSpec> = {
   data: ChartDataBySpec<S>;
   size: Size;
   /**
-   * Optional theme overrides for chart computation.
-   *
-   * Note: built-in charts are currently CSS-first and do not consume these
-   * tokens; prefer CSS variables (`--mv-*`) for styling.
+   * Theme for chart computation. Without one, marks stay CSS-first
+   * (`mv-*` classes and `var(--mv-*)` paint); with one they carry concrete
+   * colors, for renderers that can't see CSS (Canvas, PNG export).
    */
   theme?: ThemeTokens;
   state?: InteractionState;
@@ -263,7 +313,18 @@ type ErasedChartDefinition = {
     layout: Layout,
     warnings: DiagnosticWarning[] | undefined,
   ) => Def[];
+  downsample?: (
+    spec: ChartSpec,
+    normalized: Normalized,
+    layout: Layout,
+    warnings: DiagnosticWarning[] | undefined,
+  ) => Downsampled<Normalized>;
   a11y: (spec: ChartSpec, normalized: Normalized, layout: Layout) => A11yTree;
+  scales?: (
+    spec: ChartSpec,
+    normalized: Normalized,
+    layout: Layout,
+  ) => ChartScales | null;
 };
 
 function getChartDefinition(type: ChartType): ErasedChartDefinition {
@@ -319,7 +380,7 @@ export function computeMarks(
   warnings?: DiagnosticWarning[],
 ): Mark[] {
   if (spec.type !== normalized.type) return [];
-  return getChartDefinition(spec.type).marks(
+  const marks = getChartDefinition(spec.type).marks(
     spec,
     normalized,
     layout,
@@ -327,6 +388,8 @@ export function computeMarks(
     theme,
     warnings,
   );
+  const themed = theme ? applyThemeToMarks(marks, theme) : marks;
+  return state ? applyInteractionToMarks(themed, state, theme) : themed;
 }
 
 export function computeDefs(
@@ -334,12 +397,13 @@ export function computeDefs(
   normalized: Normalized,
   layout: Layout,
   warnings?: DiagnosticWarning[],
+  theme?: ThemeTokens,
 ): Def[] {
   if (spec.type !== normalized.type) return [];
-  return (
+  const defs =
     getChartDefinition(spec.type).defs?.(spec, normalized, layout, warnings) ??
-    []
-  );
+    [];
+  return theme ? applyThemeToDefs(defs, theme) : defs;
 }
 
 export function computeA11y(
@@ -351,7 +415,8 @@ export function computeA11y(
     return { label: `Chart (${spec.type})`, role: "img" };
   const tree = getChartDefinition(spec.type).a11y(spec, normalized, layout);
   const summary = tree.summary ?? inferA11ySummary(normalized);
-  const items = tree.items ?? inferA11yItems(normalized);
+  const format = (spec as { format?: ValueFormat }).format;
+  const items = tree.items ?? inferA11yItems(normalized, format);
   if (!summary && !items) return tree;
   return {
     ...tree,
@@ -362,30 +427,28 @@ export function computeA11y(
 
 type Bounds = { maxX: number; maxY: number; minX: number; minY: number };
 
-function maybeBoundsForPath(mark: Mark): Bounds | null {
-  if (mark.type !== "path") return null;
-
-  const commands = mark.d.match(/[a-zA-Z]/g) ?? [];
-  for (const c of commands) {
-    const upper = c.toUpperCase();
-    if (upper !== "M" && upper !== "L" && upper !== "Z") return null;
-  }
-
-  const nums = mark.d.match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi);
-  if (!nums || nums.length < 2) return null;
+function boundsForGroup(mark: GroupMark): Bounds | null {
   let minX = Number.POSITIVE_INFINITY;
   let minY = Number.POSITIVE_INFINITY;
   let maxX = Number.NEGATIVE_INFINITY;
   let maxY = Number.NEGATIVE_INFINITY;
 
-  for (let i = 0; i + 1 < nums.length; i += 2) {
-    const x = Number(nums[i]);
-    const y = Number(nums[i + 1]);
-    if (!isFiniteNumber(x) || !isFiniteNumber(y)) return null;
-    minX = Math.min(minX, x);
-    minY = Math.min(minY, y);
-    maxX = Math.max(maxX, x);
-    maxY = Math.max(maxY, y);
+  for (const child of mark.marks) {
+    const bounds = boundsForMark(child);
+    if (!bounds) continue;
+    const corners = [
+      { x: bounds.minX, y: bounds.minY },
+      { x: bounds.maxX, y: bounds.minY },
+      { x: bounds.maxX, y: bounds.maxY },
+      { x: bounds.minX, y: bounds.maxY },
+    ];
+    for (const corner of corners) {
+      const p = applyGroupTransform(mark.transform, corner);
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
   }
 
   if (!isFiniteNumber(minX) || !isFiniteNumber(minY)) return null;
@@ -424,7 +487,15 @@ function boundsForMark(mark: Mark): Bounds | null {
     case "text":
       return { maxX: mark.x, maxY: mark.y, minX: mark.x, minY: mark.y };
     case "path":
-      return maybeBoundsForPath(mark);
+      return pathBounds(mark.d);
+    case "polyline":
+      return pointsBounds(mark.points);
+    case "area":
+      return pointsBounds(mark.points, mark.baseline);
+    case "arc":
+      return arcBounds(mark);
+    case "group":
+      return boundsForGroup(mark);
   }
 }
 
@@ -460,7 +531,13 @@ function hasNonFiniteNumbers(mark: Mark): boolean {
       );
       break;
     case "text":
-      numericValues.push(mark.x, mark.y);
+      numericValues.push(
+        mark.x,
+        mark.y,
+        ...(mark.fontSize === undefined ? [] : [mark.fontSize]),
+        ...(mark.rotate === undefined ? [] : [mark.rotate]),
+        ...(mark.maxWidth === undefined ? [] : [mark.maxWidth]),
+      );
       break;
     case "path":
       if (mark.d.includes("NaN") || mark.d.includes("Infinity")) return true;
@@ -468,6 +545,36 @@ function hasNonFiniteNumbers(mark: Mark): boolean {
         ...(mark.strokeWidth === undefined ? [] : [mark.strokeWidth]),
       );
       break;
+    case "polyline":
+    case "area":
+      for (const v of mark.points) numericValues.push(v);
+      if (mark.type === "area" && mark.baseline !== undefined)
+        numericValues.push(mark.baseline);
+      numericValues.push(
+        ...(mark.strokeWidth === undefined ? [] : [mark.strokeWidth]),
+      );
+      break;
+    case "arc":
+      numericValues.push(
+        mark.cx,
+        mark.cy,
+        mark.innerR,
+        mark.outerR,
+        mark.startAngle,
+        mark.endAngle,
+        ...(mark.cornerRadius === undefined ? [] : [mark.cornerRadius]),
+        ...(mark.padAngle === undefined ? [] : [mark.padAngle]),
+        ...(mark.strokeWidth === undefined ? [] : [mark.strokeWidth]),
+      );
+      break;
+    case "group":
+      if (mark.marks.some(hasNonFiniteNumbers)) return true;
+      numericValues.push(
+        ...Object.values(mark.transform ?? {}).filter(
+          (v): v is number => v !== undefined,
+        ),
+      );
+      break;
   }
 
   if (mark.opacity !== undefined) numericValues.push(mark.opacity);
@@ -523,6 +630,105 @@ function validateMarks(
   }
 }
 
+/**
+ * Runs the chart's downsampling, for charts that have it. Null for other
+ * charts and mismatched data.
+ */
+function downsampleData(
+  spec: ChartSpec,
+  normalized: Normalized,
+  layout: Layout,
+  warnings: DiagnosticWarning[],
+): Downsampled<Normalized> | null {
+  if (spec.type !== normalized.type) return null;
+  return (
+    getChartDefinition(spec.type).downsample?.(
+      spec,
+      normalized,
+      layout,
+      warnings,
+    ) ?? null
+  );
+}
+
+/**
+ * Points the datums of marks drawn from downsampled data back at the input:
+ * `index` maps each drawn index to its input index. Without input x values,
+ * the index-based `x` used for positioning is dropped again. Group children
+ * are remapped too.
+ */
+function remapDownsampledDatums(
+  marks: Mark[],
+  index: ReadonlyArray<number>,
+  keepX: boolean,
+): Mark[] {
+  const remap = (datum: MarkDatum): MarkDatum => {
+    if (datum.index === undefined) return datum;
+    const { x: _x, ...rest } = datum;
+    return {
+      ...(keepX ? datum : rest),
+      index: index[datum.index] ?? datum.index,
+    };
+  };
+  const remapMark = (mark: Mark): Mark => {
+    let next = mark.datum ? { ...mark, datum: remap(mark.datum) } : mark;
+    if ("pointData" in next && next.pointData)
+      next = { ...next, pointData: next.pointData.map(remap) };
+    if (next.type === "group")
+      next = { ...next, marks: next.marks.map(remapMark) };
+    return next;
+  };
+  return marks.map(remapMark);
+}
+
+/**
+ * Adds the spec's annotations around the data marks (rules and bands behind,
+ * points in front) and describes the drawn ones for a11y. Blank charts and
+ * charts without scales are left alone.
+ */
+function applyAnnotations(
+  spec: ChartSpec,
+  normalized: Normalized,
+  layout: Layout,
+  marks: Mark[],
+  warnings: DiagnosticWarning[],
+  index?: ReadonlyArray<number>,
+  theme?: ThemeTokens,
+): { marks: Mark[]; nodes: A11yNode[] } {
+  const annotations = (spec as { annotations?: ReadonlyArray<Annotation> })
+    .annotations;
+  if (!annotations || annotations.length === 0 || marks.length === 0)
+    return { marks, nodes: [] };
+  if (spec.type !== normalized.type) return { marks, nodes: [] };
+  const scales = getChartDefinition(spec.type).scales?.(
+    spec,
+    normalized,
+    layout,
+  );
+  if (!scales) return { marks, nodes: [] };
+
+  // Point annotations name input indices; find them among the kept points.
+  const { point } = scales;
+  const mapped =
+    index && point
+      ? { ...scales, point: (i: number) => point(index.indexOf(i)) }
+      : scales;
+  const { behind, front } = annotationMarks(
+    annotations,
+    mapped,
+    warnings,
+    theme,
+  );
+  const drawn = new Set([...behind, ...front].map((m) => m.id));
+  return {
+    marks: [...behind, ...marks, ...front],
+    nodes: a11yNodesForAnnotations(
+      annotations,
+      (spec as { format?: ValueFormat }).format,
+    ).filter((n) => drawn.has(n.id)),
+  };
+}
+
 export function computeModel<S extends ChartSpec>(
   input: ComputeModelInput<S>,
 ): RenderModel {
@@ -561,15 +767,34 @@ export function computeModel<S extends ChartSpec>(
   }
 
   const layout = computeLayout(input.spec, input.size, warnings);
-  const marks = computeMarks(
+  const sampled = downsampleData(input.spec, normalized, layout, warnings);
+  const reduced =
+    sampled && sampled.normalized !== normalized ? sampled : undefined;
+  const drawn = reduced?.normalized ?? normalized;
+
+  let dataMarks = computeMarks(
     input.spec,
-    normalized,
+    drawn,
     layout,
     input.state,
     input.theme,
     warnings,
   );
-  const defs = computeDefs(input.spec, normalized, layout, warnings);
+  if (reduced) {
+    const keepX = (normalized as { x?: unknown }).x !== undefined;
+    dataMarks = remapDownsampledDatums(dataMarks, reduced.index, keepX);
+  }
+  const annotated = applyAnnotations(
+    input.spec,
+    drawn,
+    layout,
+    dataMarks,
+    warnings,
+    reduced?.index,
+    input.theme,
+  );
+  const marks = annotated.marks;
+  const defs = computeDefs(input.spec, drawn, layout, warnings, input.theme);
   if (marks.length === 0) {
     // Determine the cause of blank render from upstream warnings
     const cause = warnings.find(
@@ -594,9 +819,24 @@ export function computeModel<S extends ChartSpec>(
   };
 
   model.a11y = computeA11y(input.spec, normalized, layout);
+  if (annotated.nodes.length > 0) {
+    // Annotations add to whatever nodes the chart describes itself.
+    model.a11y = {
+      ...model.a11y,
+      nodes: [...(model.a11y.nodes ?? []), ...annotated.nodes],
+    };
+  }
   model.stats = {
     hasDefs: defs.length > 0,
     markCount: marks.length,
+    ...(sampled
+      ? {
+          points: {
+            original: sampled.originalCount,
+            rendered: sampled.index.length,
+          },
+        }
+      : {}),
     textCount: marks.filter((m) => m.type === "text").length,
     warnings: warnings.length > 0 ? warnings : undefined,
   };
@@ -47,4 +47,12 @@ describe("csv helpers", () => {
     expect(series?.columnIndex).toBe(0);
     expect(series?.series).toEqual([1, 3]);
   });
+
+  it("pairs the series with a date column", () => {
+    const table = parseCsv("day,visits\n2025-03-01,3\n2025-03-04,7");
+    const series = csvToNumberSeries(table);
+    expect(series?.series).toEqual([3, 7]);
+    expect(series?.x).toEqual(["2025-03-01", "2025-03-04"]);
+    expect(series?.xHeader).toBe("day");
+  });
 });
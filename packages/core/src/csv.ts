@@ -1,3 +1,5 @@
+import { inferSeriesType } from "./infer";
+
 export type CsvParseOptions = {
   delimiter?: string;
   header?: boolean | "auto";
@@ -178,6 +180,13 @@ export type CsvNumberSeries = {
   columnIndex: number;
   header?: string;
   orientation: "row" | "column";
+  /**
+   * Raw cells of the first date column, when the table has one; pair them
+   * with `series` as `{ x, y }` data for a time x-scale.
+   */
+  x?: string[];
+  xColumnIndex?: number;
+  xHeader?: string;
 };
 
 function coerceNumber(value: string): number | null {
@@ -239,14 +248,35 @@ export function csvToNumberSeries(table: CsvTable): CsvNumberSeries | null {
   for (let col = 0; col < columnCount; col += 1) {
     const series = columnToSeries(rows, col);
     if (series) {
+      const xColumnIndex = findDateColumn(rows, columnCount);
       return {
         columnIndex: col,
         header: table.headers?.[col],
         orientation: "column",
         series,
+        ...(xColumnIndex === undefined
+          ? {}
+          : {
+              x: rows.map((row) => (row[xColumnIndex] ?? "").trim()),
+              xColumnIndex,
+              xHeader: table.headers?.[xColumnIndex],
+            }),
       };
     }
   }
 
   return null;
 }
+
+function findDateColumn(
+  rows: string[][],
+  columnCount: number,
+): number | undefined {
+  for (let col = 0; col < columnCount; col += 1) {
+    const cells = rows.map((row) => row[col] ?? "");
+    const type = inferSeriesType(cells);
+    if (type.kind === "temporal" && type.temporalCount === cells.length)
+      return col;
+  }
+  return undefined;
+}
@@ -1,6 +1,12 @@
 import { MAX_DIAGNOSTIC_WARNINGS, pushWarning } from "./charts/shared";
 import type { Def, DiagnosticWarning, Mark } from "./model";
 
+const PAINT_SERVER_DEF_TYPES: ReadonlyArray<Def["type"]> = [
+  "linearGradient",
+  "radialGradient",
+  "pattern",
+];
+
 function parseUrlRef(value: string): string | null {
   const trimmed = value.trim();
   if (!trimmed.startsWith("url(")) return null;
@@ -66,7 +72,14 @@ export function validateDefReferences(
     }
   };
 
-  for (const mark of marks) {
+  const visit = (mark: Mark) => {
+    if (mark.type === "group") {
+      if (mark.clipPath)
+        expectDef(mark, "clipPath", mark.clipPath, ["clipRect"]);
+      for (const child of mark.marks) visit(child);
+      return;
+    }
+
     if ("clipPath" in mark && mark.clipPath)
       expectDef(mark, "clipPath", mark.clipPath, ["clipRect"]);
 
@@ -77,12 +90,14 @@ export function validateDefReferences(
 
     if ("fill" in mark && typeof mark.fill === "string") {
       const id = parseUrlRef(mark.fill);
-      if (id) expectDef(mark, "fill", id, ["linearGradient", "pattern"]);
+      if (id) expectDef(mark, "fill", id, PAINT_SERVER_DEF_TYPES);
     }
 
     if ("stroke" in mark && typeof mark.stroke === "string") {
       const id = parseUrlRef(mark.stroke);
-      if (id) expectDef(mark, "stroke", id, ["linearGradient", "pattern"]);
+      if (id) expectDef(mark, "stroke", id, PAINT_SERVER_DEF_TYPES);
     }
-  }
+  };
+
+  for (const mark of marks) visit(mark);
 }
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeSharedDomain,
+  countOutOfDomain,
+  niceDomain,
+  resolveDomain,
+} from "./domain";
+
+describe("niceDomain", () => {
+  it("rounds outward to 1/2/5 steps", () => {
+    expect(niceDomain(3, 97)).toEqual({ max: 100, min: 0 });
+    expect(niceDomain(0.12, 0.87)).toEqual({ max: 0.9, min: 0.1 });
+  });
+
+  it("leaves degenerate domains unchanged", () => {
+    expect(niceDomain(5, 5)).toEqual({ max: 5, min: 5 });
+  });
+});
+
+describe("resolveDomain", () => {
+  it("defaults to the data extent", () => {
+    expect(resolveDomain([4, 9, 2])).toEqual({ max: 9, min: 2 });
+    expect(resolveDomain([])).toEqual({ max: 1, min: 0 });
+  });
+
+  it("starts from the fallback when given", () => {
+    expect(resolveDomain([4, 9], undefined, { max: 100, min: 0 })).toEqual({
+      max: 100,
+      min: 0,
+    });
+  });
+
+  it("includes zero, then nices, then applies explicit bounds", () => {
+    expect(resolveDomain([100, 100], { zero: true })).toEqual({
+      max: 100,
+      min: 0,
+    });
+    expect(resolveDomain([12, 87], { nice: true, zero: true })).toEqual({
+      max: 100,
+      min: 0,
+    });
+    expect(resolveDomain([12, 87], { max: 50, nice: true })).toEqual({
+      max: 50,
+      min: 0,
+    });
+  });
+
+  it("orders inverted explicit bounds", () => {
+    expect(resolveDomain([1, 2], { max: 0, min: 10 })).toEqual({
+      max: 10,
+      min: 0,
+    });
+  });
+});
+
+describe("computeSharedDomain", () => {
+  it("covers every dataset", () => {
+    expect(computeSharedDomain([[1, 5], [-2, 3], []])).toEqual({
+      max: 5,
+      min: -2,
+    });
+    expect(computeSharedDomain([[1, 5], [12]], { nice: true })).toEqual({
+      max: 12,
+      min: 0,
+    });
+  });
+});
+
+describe("countOutOfDomain", () => {
+  it("counts finite values outside the bounds", () => {
+    expect(
+      countOutOfDomain([-1, 0, 5, 11, Number.NaN], { max: 10, min: 0 }),
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Y-domain helpers for series charts.
+ *
+ * By default each chart scales to its own data, so a row of sparklines can't
+ * be compared. A spec `domain` pins or widens the scale; `computeSharedDomain`
+ * derives one domain for several datasets so small multiples line up.
+ */
+
+/**
+ * Y-domain option shared by series charts. Unset bounds come from the chart's
+ * default extent (the data's min/max, or 0–100 for percentage charts).
+ */
+export type SeriesDomain = {
+  min?: number;
+  max?: number;
+  /** Extend the domain to include 0. */
+  zero?: boolean;
+  /** Round the bounds outward to 1/2/5×10ⁿ steps. */
+  nice?: boolean;
+};
+
+export type ResolvedDomain = { min: number; max: number };
+
+const NICE_TICK_COUNT = 5;
+
+function roundFloat(value: number): number {
+  return Number(value.toPrecision(12));
+}
+
+function niceStep(span: number, count: number): number {
+  const raw = span / count;
+  const power = 10 ** Math.floor(Math.log10(raw));
+  const error = raw / power;
+  const factor = error >= 7.5 ? 10 : error >= 3.5 ? 5 : error >= 1.5 ? 2 : 1;
+  return factor * power;
+}
+
+/**
+ * Rounds `min` down and `max` up to multiples of a 1/2/5×10ⁿ step sized for
+ * roughly `count` ticks. Empty or inverted domains are returned unchanged.
+ */
+export function niceDomain(
+  min: number,
+  max: number,
+  count = NICE_TICK_COUNT,
+): ResolvedDomain {
+  if (!Number.isFinite(min) || !Number.isFinite(max) || !(max > min))
+    return { max, min };
+  const step = niceStep(max - min, Math.max(1, count));
+  return {
+    max: roundFloat(Math.ceil(max / step) * step),
+    min: roundFloat(Math.floor(min / step) * step),
+  };
+}
+
+function finiteExtent(
+  values: Iterable<number | null>,
+): ResolvedDomain | undefined {
+  let min = Number.POSITIVE_INFINITY;
+  let max = Number.NEGATIVE_INFINITY;
+  for (const v of values) {
+    if (v === null || !Number.isFinite(v)) continue;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return min <= max ? { max, min } : undefined;
+}
+
+/**
+ * Resolves a spec `domain` against `values`, skipping `null` gaps. `fallback`
+ * replaces the data extent as the starting point (e.g. 0–100 for percentage
+ * charts); without data or fallback the extent is 0–1. `zero` and `nice`
+ * widen the extent, then explicit `min`/`max` override it.
+ */
+export function resolveDomain(
+  values: ReadonlyArray<number | null>,
+  domain?: SeriesDomain,
+  fallback?: ResolvedDomain,
+): ResolvedDomain {
+  const extent = fallback ?? finiteExtent(values) ?? { max: 1, min: 0 };
+  let { max, min } = extent;
+
+  if (domain?.zero) {
+    min = Math.min(min, 0);
+    max = Math.max(max, 0);
+  }
+  if (domain?.nice) ({ max, min } = niceDomain(min, max));
+
+  if (domain?.min !== undefined && Number.isFinite(domain.min))
+    min = domain.min;
+  if (domain?.max !== undefined && Number.isFinite(domain.max))
+    max = domain.max;
+
+  return min <= max ? { max, min } : { max: min, min: max };
+}
+
+/**
+ * One domain covering every dataset, for small multiples: pass the result as
+ * each chart's `spec.domain`.
+ */
+export function computeSharedDomain(
+  datasets: ReadonlyArray<ReadonlyArray<number | null>>,
+  options?: SeriesDomain,
+): ResolvedDomain {
+  return resolveDomain(datasets.flat(), options);
+}
+
+/** Number of finite values outside `domain`; `null` gaps are ignored. */
+export function countOutOfDomain(
+  values: ReadonlyArray<number | null>,
+  domain: ResolvedDomain,
+): number {
+  let count = 0;
+  for (const v of values) {
+    if (v !== null && Number.isFinite(v) && (v < domain.min || v > domain.max))
+      count += 1;
+  }
+  return count;
+}
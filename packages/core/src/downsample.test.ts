@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { downsampleSeries, lttbIndices, minMaxIndices } from "./downsample";
+
+const wave = Array.from({ length: 1000 }, (_, i) => Math.sin(i / 40) * 50);
+
+describe("lttbIndices", () => {
+  it("keeps the ends and returns the requested count", () => {
+    const kept = lttbIndices(wave, 50);
+    expect(kept).toHaveLength(50);
+    expect(kept[0]).toBe(0);
+    expect(kept.at(-1)).toBe(999);
+    expect(kept).toEqual([...kept].sort((a, b) => a - b));
+  });
+
+  it("keeps the global extremes", () => {
+    const values = wave.map((v, i) => (i === 501 ? 400 : i === 733 ? -400 : v));
+    const kept = lttbIndices(values, 20);
+    expect(kept).toContain(501);
+    expect(kept).toContain(733);
+  });
+
+  it("returns short series unchanged", () => {
+    expect(lttbIndices([1, 2, 3], 10)).toEqual([0, 1, 2]);
+    expect(lttbIndices([1, 2, 3, 4], 2)).toEqual([0, 3]);
+  });
+});
+
+describe("minMaxIndices", () => {
+  it("keeps each bucket's min and max in input order", () => {
+    expect(minMaxIndices([5, 1, 9, 3, 7, 2, 8, 4], 2)).toEqual([1, 2, 5, 6]);
+  });
+});
+
+describe("downsampleSeries", () => {
+  it("reduces each run separately and keeps one null per gap", () => {
+    const series = [...wave.slice(0, 500), null, null, null, ...wave];
+    const result = downsampleSeries(series, 100);
+
+    const gaps = result.series.filter((v) => v === null);
+    expect(gaps).toHaveLength(1);
+    expect(result.index[result.series.indexOf(null)]).toBe(502);
+    expect(result.series.length).toBeLessThanOrEqual(102);
+    expect(result.index.map((i) => series[i])).toEqual(result.series);
+  });
+
+  it("carries x values and picks min-max on request", () => {
+    const x = wave.map((_, i) => i * 10);
+    const result = downsampleSeries(wave, 40, { method: "min-max", x });
+    expect(result.x).toEqual(result.index.map((i) => i * 10));
+    expect(result.series.length).toBeLessThanOrEqual(40);
+  });
+});
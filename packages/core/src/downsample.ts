@@ -0,0 +1,203 @@
+/**
+ * Downsampling for very long series.
+ *
+ * A 50k-point sparkline has far more vertices than pixels, and every one of
+ * them costs SVG, DOM patching and animation time. Line charts thin their
+ * data with Largest-Triangle-Three-Buckets, which keeps the visual shape;
+ * bar-style charts keep each bucket's minimum and maximum so spikes survive.
+ * `computeModel` applies it once the layout width is known.
+ */
+
+export type DownsampleMethod = "lttb" | "min-max";
+
+/**
+ * Spec `downsample` option. On by default; `false` draws every point, and an
+ * object picks the method or the point budget.
+ */
+export type DownsampleOption =
+  | boolean
+  | {
+      method?: DownsampleMethod;
+      /** Point budget; defaults to what the plot width can show. */
+      maxPoints?: number;
+    };
+
+export type DownsampledSeries = {
+  /** Kept values; a single `null` stands in for each gap. */
+  series: Array<number | null>;
+  /** Kept x values, when `x` was given. */
+  x?: number[];
+  /** Input index of each kept entry. */
+  index: number[];
+};
+
+/** A chart's normalized data after downsampling, as `computeModel` uses it. */
+export type Downsampled<N> = {
+  normalized: N;
+  /** Input index of each kept series entry. */
+  index: ReadonlyArray<number>;
+  /** Series length before downsampling. */
+  originalCount: number;
+};
+
+function extremeIndices(
+  values: ReadonlyArray<number>,
+  start: number,
+  end: number,
+): { max: number; min: number } {
+  let min = start;
+  let max = start;
+  for (let i = start + 1; i < end; i++) {
+    const v = values[i] as number;
+    if (v < (values[min] as number)) min = i;
+    if (v > (values[max] as number)) max = i;
+  }
+  return { max, min };
+}
+
+/**
+ * Largest-Triangle-Three-Buckets: indices of `threshold` points that best
+ * keep the shape of `values`; the first and last are always kept. A bucket
+ * holding the series' minimum or maximum keeps that point instead, so
+ * extremes (and min/max markers) survive.
+ */
+export function lttbIndices(
+  values: ReadonlyArray<number>,
+  threshold: number,
+  x?: ReadonlyArray<number>,
+): number[] {
+  const n = values.length;
+  const budget = Math.max(2, Math.floor(threshold));
+  if (n <= budget) return values.map((_, i) => i);
+  if (budget === 2) return [0, n - 1];
+
+  const xAt = (i: number) => x?.[i] ?? i;
+  const yAt = (i: number) => values[i] as number;
+  const { max, min } = extremeIndices(values, 0, n);
+
+  const out = [0];
+  const every = (n - 2) / (budget - 2);
+  let a = 0;
+  for (let b = 0; b < budget - 2; b++) {
+    const start = Math.floor(b * every) + 1;
+    const end = Math.floor((b + 1) * every) + 1;
+
+    const pinned = [min, max]
+      .filter((i) => i >= start && i < end)
+      .sort((p, q) => p - q);
+    if (pinned.length > 0) {
+      if (pinned[0] !== pinned[1]) out.push(...pinned);
+      else out.push(pinned[0] as number);
+      a = out[out.length - 1] as number;
+      continue;
+    }
+
+    // The next bucket's average is the triangle's third corner.
+    const nextStart = end;
+    const nextEnd = Math.min(Math.floor((b + 2) * every) + 1, n);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += xAt(i);
+      avgY += yAt(i);
+    }
+    const count = nextEnd - nextStart || 1;
+    avgX /= count;
+    avgY /= count;
+
+    let best = start;
+    let bestArea = -1;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (xAt(a) - avgX) * (yAt(i) - yAt(a)) -
+          (xAt(a) - xAt(i)) * (avgY - yAt(a)),
+      );
+      if (area > bestArea) {
+        bestArea = area;
+        best = i;
+      }
+    }
+    out.push(best);
+    a = best;
+  }
+  out.push(n - 1);
+  return out;
+}
+
+/**
+ * Min/max bucketing: splits `values` into `buckets` equal runs and keeps the
+ * minimum and maximum of each, in input order. For bar-style charts, where a
+ * dropped spike would be a visibly missing bar.
+ */
+export function minMaxIndices(
+  values: ReadonlyArray<number>,
+  buckets: number,
+): number[] {
+  const n = values.length;
+  const count = Math.max(1, Math.floor(buckets));
+  if (n <= count * 2) return values.map((_, i) => i);
+
+  const out: number[] = [];
+  const size = n / count;
+  for (let b = 0; b < count; b++) {
+    const start = Math.floor(b * size);
+    const end = Math.floor((b + 1) * size);
+    if (end <= start) continue;
+    const { max, min } = extremeIndices(values, start, end);
+    if (min === max) out.push(min);
+    else out.push(Math.min(min, max), Math.max(min, max));
+  }
+  return out;
+}
+
+/**
+ * Thins `series` to about `maxPoints` entries. Each run between `null` gaps is
+ * reduced on its own, with a share of the budget proportional to its length,
+ * and each gap collapses to a single `null`. Series that already fit are
+ * returned as they are.
+ */
+export function downsampleSeries(
+  series: ReadonlyArray<number | null>,
+  maxPoints: number,
+  options: { method?: DownsampleMethod; x?: ReadonlyArray<number> } = {},
+): DownsampledSeries {
+  const budget = Math.max(2, Math.floor(maxPoints));
+  const { x } = options;
+  const pick = (index: number[]): DownsampledSeries => ({
+    index,
+    series: index.map((i) => series[i] ?? null),
+    ...(x ? { x: index.map((i) => x[i] ?? 0) } : {}),
+  });
+  if (series.length <= budget) return pick(series.map((_, i) => i));
+
+  const runs: Array<{ start: number; values: number[] }> = [];
+  let present = 0;
+  series.forEach((v, i) => {
+    if (v === null) return;
+    const run = runs[runs.length - 1];
+    if (run && run.start + run.values.length === i) run.values.push(v);
+    else runs.push({ start: i, values: [v] });
+    present += 1;
+  });
+
+  const index: number[] = [];
+  for (const run of runs) {
+    // One null before each run keeps the gap a gap.
+    if (run.start > 0) index.push(run.start - 1);
+    const share = Math.max(
+      Math.min(run.values.length, 2),
+      Math.floor((run.values.length / present) * budget),
+    );
+    const runX = x?.slice(run.start, run.start + run.values.length);
+    const kept =
+      options.method === "min-max"
+        ? minMaxIndices(run.values, share / 2)
+        : lttbIndices(run.values, share, runX);
+    for (const i of kept) index.push(run.start + i);
+  }
+  const last = runs[runs.length - 1];
+  if (last && last.start + last.values.length < series.length)
+    index.push(last.start + last.values.length);
+
+  return pick(index);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { computeModel } from "./compute";
+import {
+  createValueFormatter,
+  createXFormatter,
+  formatPercent,
+  formatValue,
+} from "./format";
+
+describe("formatValue", () => {
+  it("keeps the plain a11y form without a format", () => {
+    expect(formatValue(1204)).toBe("1204");
+    expect(formatValue(1.23456)).toBe("1.23");
+  });
+
+  it("formats currency, units, percents and compact notation", () => {
+    expect(
+      formatValue(1_200_000, {
+        currency: "USD",
+        notation: "compact",
+        style: "currency",
+      }),
+    ).toBe("$1.2M");
+    expect(formatValue(3.4, { style: "unit", unit: "millisecond" })).toBe(
+      "3.4 ms",
+    );
+    expect(formatValue(0.42, { style: "percent" })).toBe("42%");
+    expect(formatValue(1204, {})).toBe("1,204");
+    expect(formatValue(1204.5, { locale: "de-DE", precision: 1 })).toBe(
+      "1.204,5",
+    );
+  });
+
+  it("falls back to plain numbers for invalid options", () => {
+    const format = createValueFormatter({ style: "unit", unit: "parsec-ish" });
+    expect(format(12.5)).toBe("12.5");
+  });
+
+  it("formats segment shares and dates by locale", () => {
+    expect(formatPercent(42.4)).toBe("42%");
+    expect(formatPercent(42.44, { locale: "fr-FR", precision: 1 })).toBe(
+      "42,4 %",
+    );
+    const day = Date.UTC(2024, 2, 3);
+    expect(createXFormatter([day], "time")(day)).toBe("Mar 3");
+    expect(createXFormatter([day], "time", { locale: "de-DE" })(day)).toBe(
+      "3. März",
+    );
+  });
+});
+
+describe("spec format", () => {
+  it("formats series labels and item values", () => {
+    const model = computeModel({
+      data: [1200, 980_000, 1_450_000],
+      size: { height: 24, width: 80 },
+      spec: {
+        format: { currency: "USD", notation: "compact", style: "currency" },
+        type: "sparkline",
+      },
+    });
+
+    expect(model.a11y?.label).toBe(
+      "Sparkline chart (min $1.2K, max $1.5M, last $1.5M)",
+    );
+    expect(model.a11y?.items?.[1]?.valueText).toBe("$980K");
+  });
+
+  it("formats annotation nodes", () => {
+    const model = computeModel({
+      data: [1, 2, 3],
+      size: { height: 24, width: 80 },
+      spec: {
+        annotations: [{ label: "target", type: "rule", y: 2.5 }],
+        format: { style: "unit", unit: "millisecond" },
+        type: "sparkline",
+      },
+    });
+
+    expect(model.a11y?.nodes?.[0]?.label).toBe("target 2.5 ms");
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Value and date formatting for a11y text, labels and event details.
+ *
+ * Without a `ValueFormat`, numbers keep the compact a11y form (rounded to 2
+ * decimals, no grouping) so existing labels don't change. With one, they go
+ * through `Intl.NumberFormat`.
+ */
+import type { XScaleType } from "./charts/types";
+
+/**
+ * Spec-level number format. `percent` follows `Intl` and formats fractions
+ * (0.42 → "42%"); `unit` takes an `Intl` unit identifier such as
+ * `"millisecond"` or `"megabyte"`.
+ */
+export type ValueFormat = {
+  style?: "decimal" | "percent" | "currency" | "unit";
+  /** ISO 4217 code for `style: "currency"`, e.g. `"USD"`. */
+  currency?: string;
+  unit?: string;
+  /** `"compact"` abbreviates large values ("1.2M"). */
+  notation?: "standard" | "compact";
+  /** Maximum fraction digits (default: 2, or 1 for compact notation). */
+  precision?: number;
+  /** BCP 47 locale; defaults to `"en-US"`. */
+  locale?: string;
+};
+
+export type ValueFormatter = (value: number) => string;
+
+const DEFAULT_LOCALE = "en-US";
+
+const DAY_MS = 86_400_000;
+
+function formatPlainNumber(value: number): string {
+  if (!Number.isFinite(value)) return "0";
+  const roundedInt = Math.round(value);
+  if (Math.abs(value - roundedInt) < 1e-6) return String(roundedInt);
+  return String(Math.round(value * 100) / 100);
+}
+
+function fractionDigits(format: ValueFormat, fallback: number): number {
+  const { precision } = format;
+  if (precision === undefined || !Number.isFinite(precision)) return fallback;
+  return Math.min(20, Math.max(0, Math.round(precision)));
+}
+
+/** `Intl.NumberFormat`, or null when the options are invalid. */
+function numberFormat(
+  locale: string | undefined,
+  options: Intl.NumberFormatOptions,
+): Intl.NumberFormat | null {
+  try {
+    return new Intl.NumberFormat(locale ?? DEFAULT_LOCALE, options);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A formatter for `format`. Invalid options (an unknown currency or unit)
+ * fall back to the unformatted number rather than throwing.
+ */
+export function createValueFormatter(format?: ValueFormat): ValueFormatter {
+  if (!format) return formatPlainNumber;
+  const compact = format.notation === "compact";
+  const style = format.style ?? "decimal";
+  const maximumFractionDigits = fractionDigits(format, compact ? 1 : 2);
+  const intl = numberFormat(format.locale, {
+    maximumFractionDigits,
+    minimumFractionDigits: Math.min(
+      maximumFractionDigits,
+      style === "currency" && !compact ? 2 : 0,
+    ),
+    notation: compact ? "compact" : "standard",
+    style,
+    ...(style === "currency" ? { currency: format.currency ?? "USD" } : {}),
+    ...(style === "unit" && format.unit ? { unit: format.unit } : {}),
+  });
+  if (!intl) return formatPlainNumber;
+  return (value) => (Number.isFinite(value) ? intl.format(value) : "0");
+}
+
+export function formatValue(value: number, format?: ValueFormat): string {
+  return createValueFormatter(format)(value);
+}
+
+/**
+ * Formats a 0–100 share as a percentage ("42%"). Only the format's locale
+ * and precision apply; segment shares are always percentages.
+ */
+export function formatPercent(pct: number, format?: ValueFormat): string {
+  if (!format) return `${Math.round(pct)}%`;
+  const intl = numberFormat(format.locale, {
+    maximumFractionDigits: fractionDigits(format, 0),
+    style: "percent",
+  });
+  return intl ? intl.format(pct / 100) : `${Math.round(pct)}%`;
+}
+
+/**
+ * Formats x values: plain numbers (or `format`) on a linear scale, UTC dates
+ * ("Mar 3") on a time scale, with the time of day ("Mar 3, 14:05") once any
+ * value falls off midnight.
+ */
+export function createXFormatter(
+  x: ReadonlyArray<number>,
+  scale: XScaleType,
+  format?: ValueFormat,
+): ValueFormatter {
+  if (scale === "linear") return createValueFormatter(format);
+  const withTime = x.some((v) => v % DAY_MS !== 0);
+  const options: Intl.DateTimeFormatOptions = withTime
+    ? {
+        day: "numeric",
+        hour: "2-digit",
+        hourCycle: "h23",
+        minute: "2-digit",
+        month: "short",
+        timeZone: "UTC",
+      }
+    : { day: "numeric", month: "short", timeZone: "UTC" };
+  let intl: Intl.DateTimeFormat;
+  try {
+    intl = new Intl.DateTimeFormat(format?.locale ?? DEFAULT_LOCALE, options);
+  } catch {
+    intl = new Intl.DateTimeFormat(DEFAULT_LOCALE, options);
+  }
+  return (value) => intl.format(value);
+}
+
+/**
+ * Formats UTC days as weekday, month and day ("Tue Mar 4"). Only the format's
+ * locale applies; the locale's punctuation is dropped so day labels read the
+ * same in every a11y list.
+ */
+export function createDayFormatter(format?: ValueFormat): ValueFormatter {
+  const options: Intl.DateTimeFormatOptions = {
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+    weekday: "short",
+  };
+  let intl: Intl.DateTimeFormat;
+  try {
+    intl = new Intl.DateTimeFormat(format?.locale ?? DEFAULT_LOCALE, options);
+  } catch {
+    intl = new Intl.DateTimeFormat(DEFAULT_LOCALE, options);
+  }
+  return (value) =>
+    intl
+      .formatToParts(value)
+      .filter((part) => part.type !== "literal")
+      .map((part) => part.value)
+      .join(" ");
+}
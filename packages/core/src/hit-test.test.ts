@@ -17,6 +17,112 @@ describe("hitTest", () => {
     expect(hitTest(model, { x: 5, y: 5 })).toBeNull();
   });
 
+  test("reports the hit mark's datum", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          datum: { index: 2, segment: "A", value: 40 },
+          h: 20,
+          id: "r",
+          type: "rect",
+          w: 20,
+          x: 10,
+          y: 10,
+        },
+        {
+          datum: { series: "outer" },
+          id: "g",
+          marks: [{ h: 10, id: "inner", type: "rect", w: 10, x: 80, y: 80 }],
+          type: "group",
+        },
+      ],
+      width: 100,
+    };
+
+    expect(hitTest(model, { x: 15, y: 15 })).toEqual({
+      datum: { index: 2, segment: "A", value: 40 },
+      markId: "r",
+      markType: "rect",
+    });
+    expect(hitTest(model, { x: 85, y: 85 })?.datum).toEqual({
+      series: "outer",
+    });
+  });
+
+  test("resolves polyline hits to the nearest vertex datum", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          id: "line",
+          pointData: [
+            { index: 0, value: 1 },
+            { index: 1, value: 5 },
+            { index: 2, value: 3 },
+          ],
+          points: [0, 50, 50, 50, 100, 50],
+          type: "polyline",
+        },
+      ],
+      width: 100,
+    };
+
+    expect(hitTest(model, { x: 60, y: 51 })?.datum).toEqual({
+      index: 1,
+      value: 5,
+    });
+    expect(hitTest(model, { x: 90, y: 50 })?.datum).toEqual({
+      index: 2,
+      value: 3,
+    });
+  });
+
+  test("hits marks nested in transformed groups", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        { h: 100, id: "bg", type: "rect", w: 100, x: 0, y: 0 },
+        {
+          id: "g",
+          marks: [{ h: 10, id: "inner", type: "rect", w: 20, x: 0, y: 0 }],
+          transform: { rotate: 90, translateX: 50, translateY: 50 },
+          type: "group",
+        },
+      ],
+      width: 100,
+    };
+
+    // Rotated 90deg: local (x, y) maps to (50 - y, 50 + x).
+    expect(hitTest(model, { x: 45, y: 65 })).toEqual({
+      markId: "inner",
+      markType: "rect",
+    });
+    expect(hitTest(model, { x: 65, y: 55 })?.markId).toBe("bg");
+  });
+
+  test("ignores marks outside a group's clip rect", () => {
+    const model: RenderModel = {
+      defs: [{ h: 10, id: "clip", type: "clipRect", w: 10, x: 0, y: 0 }],
+      height: 100,
+      marks: [
+        { h: 100, id: "bg", type: "rect", w: 100, x: 0, y: 0 },
+        {
+          clipPath: "clip",
+          id: "g",
+          marks: [{ h: 20, id: "inner", type: "rect", w: 20, x: 0, y: 0 }],
+          transform: { translateX: 50, translateY: 50 },
+          type: "group",
+        },
+      ],
+      width: 100,
+    };
+
+    // The clip is in the group's local space, like the renderers apply it.
+    expect(hitTest(model, { x: 55, y: 55 })?.markId).toBe("inner");
+    expect(hitTest(model, { x: 65, y: 65 })?.markId).toBe("bg");
+  });
+
   test("hits circle marks", () => {
     const model: RenderModel = {
       height: 100,
@@ -49,6 +155,32 @@ describe("hitTest", () => {
     expect(hitTest(model, { x: 50, y: 50 })).toBeNull();
   });
 
+  test("hits arc marks with an exact polar test", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          cx: 50,
+          cy: 50,
+          endAngle: 0,
+          id: "arc",
+          innerR: 20,
+          outerR: 30,
+          startAngle: -Math.PI / 2,
+          type: "arc",
+        },
+      ],
+      width: 100,
+    };
+
+    // Top-right quadrant, inside the ring
+    expect(hitTest(model, { x: 68, y: 32 })?.markId).toBe("arc");
+    // Inside the hole
+    expect(hitTest(model, { x: 55, y: 45 })).toBeNull();
+    // Right radius, wrong quadrant
+    expect(hitTest(model, { x: 32, y: 68 })).toBeNull();
+  });
+
   test("hits line marks with stroke tolerance", () => {
     const model: RenderModel = {
       height: 100,
@@ -70,6 +202,45 @@ describe("hitTest", () => {
     expect(hitTest(model, { x: 50, y: 20 })).toBeNull();
   });
 
+  test("hits polyline marks on their nearest segment", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          id: "pl",
+          points: new Float32Array([10, 80, 50, 20, 90, 80]),
+          strokeWidth: 2,
+          type: "polyline",
+        },
+      ],
+      width: 100,
+    };
+
+    expect(hitTest(model, { x: 30, y: 51 })?.markId).toBe("pl");
+    expect(hitTest(model, { x: 70, y: 49 })?.markId).toBe("pl");
+    // Between the arms: polylines are never filled.
+    expect(hitTest(model, { x: 50, y: 60 })).toBeNull();
+  });
+
+  test("hits area marks down to their baseline", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          baseline: 90,
+          id: "area",
+          points: [10, 40, 50, 20, 90, 40],
+          type: "area",
+        },
+      ],
+      width: 100,
+    };
+
+    expect(hitTest(model, { x: 50, y: 85 })?.markId).toBe("area");
+    expect(hitTest(model, { x: 50, y: 95 })).toBeNull();
+    expect(hitTest(model, { x: 15, y: 25 })).toBeNull();
+  });
+
   test("hits filled polygon path marks", () => {
     const model: RenderModel = {
       height: 100,
@@ -126,21 +297,49 @@ describe("hitTest", () => {
     expect(hitTest(model, { x: 25, y: 25 })).toBeNull();
   });
 
-  test("ignores non-polygon path commands", () => {
+  test("ignores relative path commands", () => {
     const model: RenderModel = {
       height: 100,
       marks: [
         {
-          d: "M 0 0 C 10 10 20 20 30 30",
+          d: "m 0 0 l 30 0 l 0 30 z",
           fill: "black",
-          id: "cubic",
+          id: "relative",
           type: "path",
         },
       ],
       width: 100,
     };
 
-    expect(hitTest(model, { x: 1, y: 1 })).toBeNull();
+    expect(hitTest(model, { x: 20, y: 5 })).toBeNull();
+  });
+
+  test("hits cubic path strokes along the curve", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          d: "M 0 50 C 0 0 100 0 100 50",
+          fill: "none",
+          id: "curve",
+          pointData: [
+            { index: 0, value: 1 },
+            { index: 1, value: 2 },
+          ],
+          strokeWidth: 2,
+          type: "path",
+        },
+      ],
+      width: 100,
+    };
+
+    // The curve peaks at y = 12.5; its chord (y = 50) is nowhere near it.
+    expect(hitTest(model, { x: 50, y: 13 })?.markId).toBe("curve");
+    expect(hitTest(model, { x: 50, y: 50 })).toBeNull();
+    expect(hitTest(model, { x: 84, y: 22 })?.datum).toEqual({
+      index: 1,
+      value: 2,
+    });
   });
 
   test("hits arc path marks when Path2D is available", () => {
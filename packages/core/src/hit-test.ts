@@ -1,10 +1,25 @@
-import type { Mark, RenderModel } from "./model";
+import type {
+  AreaMark,
+  ClipRectDef,
+  GroupMark,
+  Mark,
+  MarkDatum,
+  PathMark,
+  PolylineMark,
+  RenderModel,
+} from "./model";
+import { pointInArc } from "./utils/arc";
+import { invertGroupTransform } from "./utils/group";
+import { flattenPath, pathAnchors } from "./utils/path";
+import { areaOutline, readPoints } from "./utils/points";
 
 export type Point = { x: number; y: number };
 
 export type HitResult = {
   markId: string;
   markType: Mark["type"];
+  /** Source datum of the hit mark (or hit vertex), when the chart set one. */
+  datum?: MarkDatum;
 };
 
 export type HitTestOptions = {
@@ -157,98 +172,6 @@ function pointNearPolyline(
   return false;
 }
 
-type ParsedPath = {
-  subpaths: ReadonlyArray<ReadonlyArray<Point>>;
-  closed: ReadonlyArray<boolean>;
-};
-
-function parseSimplePath(d: string): ParsedPath | null {
-  const tokens = d.match(/[a-zA-Z]|-?\d*\.?\d+(?:e[-+]?\d+)?/gi);
-  if (!tokens || tokens.length === 0) return null;
-
-  const subpaths: Point[][] = [];
-  const closed: boolean[] = [];
-  let current: Point[] | null = null;
-  let currentClosed = false;
-
-  const readNumber = (i: number): number | null => {
-    const n = Number(tokens[i]);
-    return Number.isFinite(n) ? n : null;
-  };
-
-  const readPair = (i: number): { point: Point; nextIndex: number } | null => {
-    const x = readNumber(i);
-    const y = readNumber(i + 1);
-    if (x === null || y === null) return null;
-    return { nextIndex: i + 2, point: { x, y } };
-  };
-
-  for (let i = 0; i < tokens.length; ) {
-    const token = tokens[i];
-    if (!token) return null;
-
-    if (!/^[a-zA-Z]$/.test(token)) return null;
-
-    const cmd = token;
-    const upper = cmd.toUpperCase();
-    if (cmd !== upper) return null;
-    i++;
-
-    if (upper === "M") {
-      const first = readPair(i);
-      if (!first) return null;
-
-      if (current) {
-        subpaths.push(current);
-        closed.push(currentClosed);
-      }
-
-      current = [first.point];
-      currentClosed = false;
-      i = first.nextIndex;
-
-      // Additional coordinate pairs after M are implicit L commands.
-      for (;;) {
-        const maybe = readPair(i);
-        if (!maybe) break;
-        current.push(maybe.point);
-        i = maybe.nextIndex;
-      }
-      continue;
-    }
-
-    if (upper === "L") {
-      if (!current) return null;
-      let any = false;
-      for (;;) {
-        const maybe = readPair(i);
-        if (!maybe) break;
-        current.push(maybe.point);
-        i = maybe.nextIndex;
-        any = true;
-      }
-      if (!any) return null;
-      continue;
-    }
-
-    if (upper === "Z") {
-      if (!current) return null;
-      currentClosed = true;
-      continue;
-    }
-
-    return null;
-  }
-
-  if (current) {
-    subpaths.push(current);
-    closed.push(currentClosed);
-  }
-
-  if (subpaths.length === 0) return null;
-  return { closed, subpaths };
-}
-
 function getStrokeTolerancePx(mark: { strokeWidth?: number }, slop: number) {
   const halfStroke = Math.max(0, (mark.strokeWidth ?? 1) / 2);
   return halfStroke + Math.max(0, slop);
@@ -450,28 +373,90 @@ function tryHitTestCircleStrokeWithCanvas(
   return hit;
 }
 
-export function hitTest(
-  model: RenderModel,
+function nearestVertex(
+  mark: PolylineMark | AreaMark | PathMark,
   point: Point,
-  options?: HitTestOptions,
-): HitResult | null {
-  if (!isFiniteNumber(point.x) || !isFiniteNumber(point.y)) return null;
+): number | null {
+  const vertices =
+    mark.type === "path"
+      ? (pathAnchors(mark.d) ?? [])
+      : readPoints(mark.points);
+  let best: number | null = null;
+  let bestDist = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < vertices.length; i++) {
+    const v = vertices[i];
+    if (!v) continue;
+    const dist = (v.x - point.x) ** 2 + (v.y - point.y) ** 2;
+    if (dist < bestDist) {
+      best = i;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
 
-  const strokeSlopPx = options?.strokeSlopPx ?? 2;
+function hitResult(mark: Exclude<Mark, GroupMark>, point: Point): HitResult {
+  let datum = mark.datum;
+  if (
+    (mark.type === "polyline" ||
+      mark.type === "area" ||
+      mark.type === "path") &&
+    mark.pointData
+  ) {
+    const vertex = nearestVertex(mark, point);
+    datum = (vertex === null ? undefined : mark.pointData[vertex]) ?? datum;
+  }
+  return datum
+    ? { datum, markId: mark.id, markType: mark.type }
+    : { markId: mark.id, markType: mark.type };
+}
+
+/**
+ * Whether `point` is inside the mark's clip rect (corners treated as square,
+ * like rect marks). Unclipped marks, and clips without a `clipRect` def, which
+ * renderers ignore too, never exclude it.
+ */
+function insideClip(
+  clipPath: string | undefined,
+  point: Point,
+  clips: ReadonlyMap<string, ClipRectDef>,
+): boolean {
+  const clip = clipPath === undefined ? undefined : clips.get(clipPath);
+  return !clip || pointInRect(point, clip);
+}
 
-  for (let i = model.marks.length - 1; i >= 0; i--) {
-    const mark = model.marks[i];
+function hitTestMarks(
+  marks: ReadonlyArray<Mark>,
+  point: Point,
+  strokeSlopPx: number,
+  clips: ReadonlyMap<string, ClipRectDef>,
+): HitResult | null {
+  for (let i = marks.length - 1; i >= 0; i--) {
+    const mark = marks[i];
     if (!mark) continue;
 
+    if (mark.type === "group") {
+      // Children are tested in group-local space, where the group's clip
+      // applies too; the innermost mark wins.
+      const local = invertGroupTransform(mark.transform, point);
+      if (!local || !insideClip(mark.clipPath, local, clips)) continue;
+      const hit = hitTestMarks(mark.marks, local, strokeSlopPx, clips);
+      if (hit && !hit.datum && mark.datum) return { ...hit, datum: mark.datum };
+      if (hit) return hit;
+      continue;
+    }
+
+    if ("clipPath" in mark && !insideClip(mark.clipPath, point, clips))
+      continue;
+
     if (mark.type === "rect") {
-      if (pointInRect(point, mark))
-        return { markId: mark.id, markType: mark.type };
+      if (pointInRect(point, mark)) return hitResult(mark, point);
     }
 
     if (mark.type === "circle") {
       const wantsFill = mark.fill !== "none";
       if (wantsFill && pointInCircle(point, mark))
-        return { markId: mark.id, markType: mark.type };
+        return hitResult(mark, point);
 
       const wantsStroke =
         mark.fill === "none" ||
@@ -480,34 +465,57 @@ export function hitTest(
         mark.strokeDashoffset !== undefined;
       if (wantsStroke) {
         const hit = tryHitTestCircleStrokeWithCanvas(mark, point, strokeSlopPx);
-        if (hit === true) return { markId: mark.id, markType: mark.type };
+        if (hit === true) return hitResult(mark, point);
 
         // Fallback approximation: treat as a full ring.
         const tol = getStrokeTolerancePx(mark, strokeSlopPx);
         const dx = point.x - mark.cx;
         const dy = point.y - mark.cy;
         const dist = Math.sqrt(dx * dx + dy * dy);
-        if (Math.abs(dist - mark.r) <= tol)
-          return { markId: mark.id, markType: mark.type };
+        if (Math.abs(dist - mark.r) <= tol) return hitResult(mark, point);
       }
     }
 
+    if (mark.type === "arc") {
+      const tol = wantsStrokeHitTest(mark)
+        ? getStrokeTolerancePx(mark, strokeSlopPx)
+        : 0;
+      if (pointInArc(mark, point, tol)) return hitResult(mark, point);
+    }
+
     if (mark.type === "line") {
       const tol = getStrokeTolerancePx(mark, strokeSlopPx);
-      if (pointNearLineSegment(point, mark, tol))
-        return { markId: mark.id, markType: mark.type };
+      if (pointNearLineSegment(point, mark, tol)) return hitResult(mark, point);
+    }
+
+    if (mark.type === "polyline") {
+      const tol = getStrokeTolerancePx(mark, strokeSlopPx);
+      if (pointNearPolyline(point, readPoints(mark.points), false, tol))
+        return hitResult(mark, point);
+    }
+
+    if (mark.type === "area") {
+      const outline = areaOutline(mark);
+      if (mark.fill !== "none" && pointInSubpathsNonZero(point, [outline]))
+        return hitResult(mark, point);
+
+      if (wantsStrokeHitTest(mark)) {
+        const tol = getStrokeTolerancePx(mark, strokeSlopPx);
+        if (pointNearPolyline(point, outline, true, tol))
+          return hitResult(mark, point);
+      }
     }
 
     if (mark.type === "path") {
       const hit = tryHitTestWithCanvasPath2D(mark, point, strokeSlopPx);
-      if (hit === true) return { markId: mark.id, markType: mark.type };
+      if (hit === true) return hitResult(mark, point);
 
-      const parsed = parseSimplePath(mark.d);
+      const parsed = flattenPath(mark.d);
       if (!parsed) continue;
 
       const wantsFill = wantsFillHitTest(mark);
       if (wantsFill && pointInSubpathsNonZero(point, parsed.subpaths))
-        return { markId: mark.id, markType: mark.type };
+        return hitResult(mark, point);
 
       const wantsStroke = wantsStrokeHitTest(mark);
       if (wantsStroke) {
@@ -516,7 +524,7 @@ export function hitTest(
           const poly = parsed.subpaths[sp];
           const isClosed = parsed.closed[sp] ?? false;
           if (pointNearPolyline(point, poly, isClosed, tol))
-            return { markId: mark.id, markType: mark.type };
+            return hitResult(mark, point);
         }
       }
     }
@@ -524,3 +532,17 @@ export function hitTest(
 
   return null;
 }
+
+export function hitTest(
+  model: RenderModel,
+  point: Point,
+  options?: HitTestOptions,
+): HitResult | null {
+  if (!isFiniteNumber(point.x) || !isFiniteNumber(point.y)) return null;
+
+  const strokeSlopPx = options?.strokeSlopPx ?? 2;
+  const clips = new Map<string, ClipRectDef>();
+  for (const def of model.defs ?? [])
+    if (def.type === "clipRect") clips.set(def.id, def);
+  return hitTestMarks(model.marks, point, strokeSlopPx, clips);
+}
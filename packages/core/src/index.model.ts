@@ -1,9 +1,16 @@
 export * from "./a11y";
+export * from "./annotations";
 export * from "./compute";
 export * from "./csv";
+export * from "./domain";
+export * from "./downsample";
+export * from "./format";
 export * from "./hit-test";
 export * from "./infer";
+export * from "./interaction";
 export * from "./measure";
 export * from "./model";
 export * from "./overlays";
+export * from "./palette";
+export * from "./theme";
 export * from "./validation";
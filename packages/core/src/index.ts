@@ -204,9 +204,12 @@ export function buildPixelSegments(
 
 export * from "./index.model";
 export * from "./transition";
+export { resolveArcSweep } from "./utils/arc";
 export {
   applyFillRules,
   type FillRule,
   fillUrl,
   type MarkMatcher,
 } from "./utils/defs";
+export { applyGroupTransform, invertGroupTransform } from "./utils/group";
+export { pointsBounds } from "./utils/points";
@@ -50,6 +50,46 @@ describe("inferSpec", () => {
     expect(result?.data).toEqual([1, 2, 3]);
   });
 
+  it("infers multi-sparkline from arrays of number arrays", () => {
+    const result = inferSpec([
+      [1, 2, 3],
+      ["4", 5, 6],
+    ]);
+    expect(result?.spec.type).toBe("multi-sparkline");
+    expect(result?.reason).toBe("series-array");
+    expect(result?.data).toEqual([
+      { name: "Series 1", values: [1, 2, 3] },
+      { name: "Series 2", values: [4, 5, 6] },
+    ]);
+  });
+
+  it("infers multi-sparkline from named series", () => {
+    const result = inferSpec([{ color: "#f00", name: "p95", values: [1, 2] }]);
+    expect(result?.spec.type).toBe("multi-sparkline");
+    expect(result?.data).toEqual([
+      { color: "#f00", name: "p95", values: [1, 2] },
+    ]);
+  });
+
+  it("infers an x/y sparkline from records with a date column", () => {
+    const result = inferSpec([
+      { date: "2025-03-01", value: 3 },
+      { date: "2025-03-03", value: "5" },
+    ]);
+    expect(result?.reason).toBe("xy-series");
+    expect(result?.spec.type).toBe("sparkline");
+    expect(result?.data).toEqual({
+      x: ["2025-03-01", "2025-03-03"],
+      y: [3, 5],
+    });
+  });
+
+  it("infers an x/y sparkline from parallel arrays", () => {
+    const result = inferSpec({ x: [0, 5, 6], y: [1, null, 3] });
+    expect(result?.reason).toBe("xy-series");
+    expect(result?.data).toEqual({ x: [0, 5, 6], y: [1, null, 3] });
+  });
+
   it("infers donut from segment arrays", () => {
     const result = inferSpec([{ color: "#111", pct: 60 }]);
     expect(result?.spec.type).toBe("donut");
@@ -66,6 +106,22 @@ describe("inferSpec", () => {
     expect(result?.reason).toBe("segments-field");
   });
 
+  it("infers bullet from value/target/ranges data", () => {
+    const result = inferSpec({
+      ranges: [50, 75, 100],
+      target: "80",
+      value: 72,
+    });
+    expect(result?.spec.type).toBe("bullet");
+    expect(result?.reason).toBe("bullet");
+    expect(result?.data).toEqual({
+      max: undefined,
+      ranges: [50, 75, 100],
+      target: 80,
+      value: 72,
+    });
+  });
+
   it("infers bullet-delta from current/previous data", () => {
     const result = inferSpec({ current: 8, max: 10, previous: 4 });
     expect(result?.spec.type).toBe("bullet-delta");
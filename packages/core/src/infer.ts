@@ -103,7 +103,7 @@ export function inferSeriesType(
   };
 }
 
-type Segment = { pct: number; color: string; name?: string };
+type Segment = { pct: number; color?: string; name?: string };
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
@@ -120,27 +120,138 @@ function coerceNumberArray(value: unknown): number[] | null {
   return series;
 }
 
+type SeriesEntry = { name: string; values: number[]; color?: string };
+
+function coerceSeriesArray(value: unknown): SeriesEntry[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const series: SeriesEntry[] = [];
+  for (const [i, entry] of value.entries()) {
+    const values = coerceNumberArray(isRecord(entry) ? entry.values : entry);
+    if (!values) return null;
+    const name =
+      isRecord(entry) && typeof entry.name === "string"
+        ? entry.name
+        : `Series ${i + 1}`;
+    const color =
+      isRecord(entry) && typeof entry.color === "string"
+        ? entry.color
+        : undefined;
+    series.push(color ? { color, name, values } : { name, values });
+  }
+  return series;
+}
+
+type XYSeries = { x: Array<number | string | Date>; y: Array<number | null> };
+
+function coerceXValue(value: unknown): number | string | Date | null {
+  if (isFiniteNumber(value)) return value;
+  if (value instanceof Date)
+    return Number.isFinite(value.getTime()) ? value : null;
+  if (typeof value === "string" && inferValueType(value) === "temporal")
+    return value.trim();
+  return coerceNumber(value);
+}
+
+function coerceYValues(
+  values: ReadonlyArray<unknown>,
+): Array<number | null> | null {
+  const y: Array<number | null> = [];
+  for (const value of values) {
+    if (value === null || value === undefined || value === "") {
+      y.push(null);
+      continue;
+    }
+    const num = coerceNumber(value);
+    if (num === null) return null;
+    y.push(num);
+  }
+  return y;
+}
+
+function isTemporalColumn(values: ReadonlyArray<unknown>): boolean {
+  const type = inferSeriesType(values);
+  return type.kind === "temporal" && type.temporalCount === values.length;
+}
+
+/**
+ * Finds x/y series: `{ x: [], y: [] }`, `[{ x, y }]`, or records with one
+ * date field and one numeric field, e.g. `[{ date, value }]`.
+ */
+function coerceXYSeries(value: unknown): XYSeries | null {
+  if (isRecord(value) && Array.isArray(value.x) && Array.isArray(value.y)) {
+    if (value.x.length === 0 || value.x.length !== value.y.length) return null;
+    const x = value.x.map(coerceXValue);
+    const y = coerceYValues(value.y);
+    if (!y || x.some((v) => v === null)) return null;
+    return { x: x as XYSeries["x"], y };
+  }
+
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (!value.every(isRecord)) return null;
+  const records = value as Array<Record<string, unknown>>;
+  const keys = Object.keys(records[0] ?? {});
+
+  const xKey = keys.includes("x")
+    ? "x"
+    : keys.find((key) => isTemporalColumn(records.map((r) => r[key])));
+  if (!xKey) return null;
+  const yKey =
+    keys.includes("y") && xKey === "x"
+      ? "y"
+      : keys.find(
+          (key) => key !== xKey && coerceYValues(records.map((r) => r[key])),
+        );
+  if (!yKey) return null;
+
+  const x = records.map((r) => coerceXValue(r[xKey]));
+  const y = coerceYValues(records.map((r) => r[yKey]));
+  if (!y || x.some((v) => v === null)) return null;
+  return { x: x as XYSeries["x"], y };
+}
+
+/**
+ * Finds part-to-whole segments: `[{ pct, name?, color? }]`, or
+ * `[{ label, value }]` records, whose values become percentage shares.
+ */
 function coerceSegmentArray(value: unknown): Segment[] | null {
-  if (!Array.isArray(value)) return null;
+  if (!Array.isArray(value) || value.length === 0) return null;
   const segments: Segment[] = [];
+  let shares = false;
   for (const entry of value) {
     if (!isRecord(entry)) return null;
     const pct = coerceNumber(entry.pct);
-    const color = typeof entry.color === "string" ? entry.color : null;
-    if (pct === null || !color) return null;
-    segments.push({
-      color,
-      name: typeof entry.name === "string" ? entry.name : undefined,
-      pct,
-    });
+    const amount = pct === null ? coerceNumber(entry.value) : null;
+    if (pct === null && amount === null) return null;
+    if (amount !== null) shares = true;
+    const color =
+      typeof entry.color === "string" && entry.color.length > 0
+        ? entry.color
+        : undefined;
+    const name =
+      typeof entry.name === "string"
+        ? entry.name
+        : typeof entry.label === "string"
+          ? entry.label
+          : undefined;
+    segments.push({ color, name, pct: pct ?? (amount as number) });
   }
-  return segments;
+  if (!shares) return segments;
+
+  const total = segments.reduce((sum, s) => sum + Math.max(0, s.pct), 0);
+  if (total <= 0) return null;
+  return segments.map((s) => ({
+    ...s,
+    pct: (Math.max(0, s.pct) / total) * 100,
+  }));
 }
 
 export type InferenceReason =
   | "number-array"
+  | "xy-series"
+  | "series-array"
   | "segment-array"
   | "segments-field"
+  | "bullet"
   | "bullet-delta"
   | "dumbbell"
   | "bar"
@@ -170,6 +281,26 @@ export function inferSpec(
     };
   }
 
+  // Irregularly sampled points, e.g. timestamps from telemetry.
+  const xySeries = coerceXYSeries(input);
+  if (xySeries) {
+    return {
+      data: xySeries,
+      reason: "xy-series",
+      spec: { type: "sparkline" },
+    };
+  }
+
+  // number[][] or [{ name, values }]: one line per series.
+  const seriesArray = coerceSeriesArray(input);
+  if (seriesArray) {
+    return {
+      data: seriesArray,
+      reason: "series-array",
+      spec: { type: "multi-sparkline" },
+    };
+  }
+
   const segments = coerceSegmentArray(input);
   if (segments) {
     return {
@@ -191,6 +322,24 @@ export function inferSpec(
       }
     }
 
+    // { value, target?, ranges, max? }: value against qualitative ranges.
+    const value = coerceNumber(input.value);
+    const ranges = coerceNumberArray(input.ranges);
+    if (value !== null && ranges) {
+      const max = coerceNumber(input.max ?? null);
+      const target = coerceNumber(input.target ?? null);
+      return {
+        data: {
+          max: max ?? undefined,
+          ranges,
+          target: target ?? undefined,
+          value,
+        },
+        reason: "bullet",
+        spec: { type: "bullet" },
+      };
+    }
+
     const current = coerceNumber(input.current);
     const previous = coerceNumber(input.previous);
     if (current !== null && previous !== null) {
@@ -212,7 +361,6 @@ export function inferSpec(
       };
     }
 
-    const value = coerceNumber(input.value);
     if (value !== null) {
       const max = coerceNumber(input.max ?? null);
       return {
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { computeModel } from "./compute";
+import { applyInteractionToMarks } from "./interaction";
+import type { Mark } from "./model";
+
+const segments = [
+  { name: "A", pct: 40 },
+  { name: "B", pct: 35 },
+  { name: "C", pct: 25 },
+];
+
+function computeBar(state?: Parameters<typeof computeModel>[0]["state"]) {
+  return computeModel({
+    data: segments,
+    size: { height: 8, width: 100 },
+    spec: { type: "segmented-bar" },
+    state,
+  });
+}
+
+describe("interaction state", () => {
+  it("classes hovered, selected and dimmed marks", () => {
+    const model = computeBar({
+      hoveredMarkId: "segmented-bar-seg-0",
+      selectedMarkIds: ["segmented-bar-seg-2"],
+    });
+
+    expect(model.marks.map((m) => m.className)).toEqual([
+      "mv-segmented-bar-seg mv-hovered",
+      "mv-segmented-bar-seg mv-dimmed",
+      "mv-segmented-bar-seg mv-selected",
+    ]);
+    expect(model.marks.every((m) => m.opacity === undefined)).toBe(true);
+  });
+
+  it("dims inactive marks by dimOpacity", () => {
+    const model = computeBar({
+      dimOpacity: 0.3,
+      focusedMarkId: "segmented-bar-seg-1",
+    });
+
+    expect(model.marks.map((m) => m.opacity)).toEqual([0.3, undefined, 0.3]);
+    expect(model.marks[1]?.className).toContain("mv-hovered");
+  });
+
+  it("paints concrete highlights when a theme is given", () => {
+    const model = computeModel({
+      data: segments,
+      size: { height: 8, width: 100 },
+      spec: { type: "segmented-bar" },
+      state: {
+        hoveredMarkId: "segmented-bar-seg-0",
+        selectedMarkIds: ["segmented-bar-seg-2"],
+      },
+      theme: { fg: "#111" },
+    });
+
+    expect(
+      model.marks.map((m) =>
+        m.type === "rect" ? [m.opacity, m.stroke, m.strokeWidth] : null,
+      ),
+    ).toEqual([
+      [undefined, "#111", 1],
+      [0.4, undefined, undefined],
+      [undefined, "#111", 2],
+    ]);
+  });
+
+  it("widens stroke-only marks instead of outlining them", () => {
+    const marks: Mark[] = [
+      {
+        datum: { index: 0 },
+        id: "l",
+        stroke: "red",
+        strokeWidth: 1.5,
+        type: "line",
+        x1: 0,
+        x2: 1,
+        y1: 0,
+        y2: 0,
+      },
+    ];
+    expect(
+      applyInteractionToMarks(marks, {
+        dimOpacity: 0.5,
+        selectedMarkIds: ["l"],
+      }),
+    ).toEqual([expect.objectContaining({ stroke: "red", strokeWidth: 3.5 })]);
+  });
+
+  it("leaves marks alone when the state names no mark", () => {
+    expect(computeBar({ dimOpacity: 0.3, hoveredMarkId: "missing" })).toEqual(
+      computeBar(),
+    );
+  });
+
+  it("skips marks without a datum and recurses into groups", () => {
+    const marks: Mark[] = [
+      { h: 8, id: "track", type: "rect", w: 100, x: 0, y: 0 },
+      {
+        id: "g",
+        marks: [
+          { cx: 1, cy: 1, datum: { index: 0 }, id: "a", r: 1, type: "circle" },
+          { cx: 2, cy: 1, datum: { index: 1 }, id: "b", r: 1, type: "circle" },
+        ],
+        type: "group",
+      },
+    ];
+
+    const [track, group] = applyInteractionToMarks(marks, {
+      dimOpacity: 0.5,
+      hoveredMarkId: "b",
+    });
+    expect(track).toEqual(marks[0]);
+    expect(group?.type === "group" && group.marks).toEqual([
+      expect.objectContaining({ className: "mv-dimmed", opacity: 0.5 }),
+      expect.objectContaining({ className: "mv-hovered", id: "b" }),
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Interaction styling for computed marks.
+ *
+ * `computeModel` reads `InteractionState` and marks the data marks it names:
+ * hovered marks get `mv-hovered`, selected marks `mv-selected`, and the other
+ * data marks `mv-dimmed`. Keyboard focus counts as hover. The stylesheets
+ * style those classes. With `dimOpacity` or a theme, marks also get concrete
+ * paint, so Canvas (which can't see the classes) highlights the same way as
+ * SVG and HTML: dimmed marks a lower `opacity` (`DEFAULT_DIM_OPACITY` unless
+ * set), hovered and selected marks an outline, or a wider stroke for
+ * stroke-only marks.
+ *
+ * Data marks are marks bound to a datum; backgrounds, tracks and
+ * annotations are left alone.
+ */
+import type { InteractionState, ThemeTokens } from "./charts/context";
+import type { Mark } from "./model";
+import { resolveTheme } from "./theme";
+
+/** Opacity of dimmed marks; matches the `.mv-dimmed` rule. */
+export const DEFAULT_DIM_OPACITY = 0.4;
+
+/** Outline widths; match the `.mv-hovered` and `.mv-selected` rules. */
+const HOVER_STROKE_WIDTH = 1;
+const SELECT_STROKE_WIDTH = 2;
+
+type ActiveIds = {
+  hovered: ReadonlySet<string>;
+  selected: ReadonlySet<string>;
+};
+
+/** Concrete paint for renderers without CSS; null leaves it to the classes. */
+type ConcretePaint = { dimOpacity: number; stroke: string } | null;
+
+function isDataMark(mark: Mark): boolean {
+  return (
+    mark.datum !== undefined ||
+    ("pointData" in mark && mark.pointData !== undefined)
+  );
+}
+
+function collectIds(marks: ReadonlyArray<Mark>, ids: Set<string>): void {
+  for (const mark of marks) {
+    ids.add(mark.id);
+    if (mark.type === "group") collectIds(mark.marks, ids);
+  }
+}
+
+function withClasses(mark: Mark, classes: string[]): Mark {
+  if (classes.length === 0) return mark;
+  const className = [mark.className, ...classes].filter(Boolean).join(" ");
+  return { ...mark, className };
+}
+
+/**
+ * Outlines a hovered or selected mark. Stroke-only marks (lines) keep their
+ * color and widen instead; groups and text are left to their classes.
+ */
+function highlight(mark: Mark, width: number, stroke: string): Mark {
+  if (mark.type === "group" || mark.type === "text") return mark;
+  const strokeOnly =
+    mark.type === "line" || mark.type === "polyline" || mark.fill === "none";
+  if (strokeOnly) {
+    return { ...mark, strokeWidth: (mark.strokeWidth ?? 1) + width };
+  }
+  return {
+    ...mark,
+    stroke,
+    strokeWidth: Math.max(mark.strokeWidth ?? 0, width),
+  };
+}
+
+function styleMark(mark: Mark, active: ActiveIds, paint: ConcretePaint): Mark {
+  const hovered = active.hovered.has(mark.id);
+  const selected = active.selected.has(mark.id);
+  // An active group highlights as a whole; its children stay as drawn.
+  if (hovered || selected) {
+    const classed = withClasses(mark, [
+      ...(hovered ? ["mv-hovered"] : []),
+      ...(selected ? ["mv-selected"] : []),
+    ]);
+    if (!paint) return classed;
+    const width = selected ? SELECT_STROKE_WIDTH : HOVER_STROKE_WIDTH;
+    return highlight(classed, width, paint.stroke);
+  }
+
+  if (mark.type === "group" && !isDataMark(mark)) {
+    return {
+      ...mark,
+      marks: mark.marks.map((child) => styleMark(child, active, paint)),
+    };
+  }
+  if (!isDataMark(mark)) return mark;
+
+  const dimmed = withClasses(mark, ["mv-dimmed"]);
+  return paint
+    ? { ...dimmed, opacity: (mark.opacity ?? 1) * paint.dimOpacity }
+    : dimmed;
+}
+
+/**
+ * Applies hover, selection and dimming classes (see the module comment).
+ * Returns `marks` unchanged when the state names no mark in them.
+ */
+export function applyInteractionToMarks(
+  marks: ReadonlyArray<Mark>,
+  state: InteractionState,
+  theme?: ThemeTokens,
+): Mark[] {
+  const present = new Set<string>();
+  collectIds(marks, present);
+
+  const hovered = new Set(
+    [state.hoveredMarkId, state.focusedMarkId].filter(
+      (id): id is string => id !== undefined && present.has(id),
+    ),
+  );
+  const selected = new Set(
+    (state.selectedMarkIds ?? []).filter((id) => present.has(id)),
+  );
+  if (hovered.size === 0 && selected.size === 0) return [...marks];
+
+  const dimOpacity =
+    state.dimOpacity !== undefined && Number.isFinite(state.dimOpacity)
+      ? Math.min(1, Math.max(0, state.dimOpacity))
+      : undefined;
+  const paint: ConcretePaint =
+    theme || dimOpacity !== undefined
+      ? {
+          dimOpacity: dimOpacity ?? DEFAULT_DIM_OPACITY,
+          stroke: theme ? resolveTheme(theme).fg : "currentColor",
+        }
+      : null;
+  return marks.map((mark) => styleMark(mark, { hovered, selected }, paint));
+}
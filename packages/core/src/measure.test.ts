@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  createApproximateTextMeasurer,
+  fitTextMark,
+  textMarkFont,
+  truncateText,
+} from "./measure";
+
+const measurer = createApproximateTextMeasurer({ avgCharWidthPx: 10 });
+const scaledMeasurer = createApproximateTextMeasurer({
+  avgCharWidthPx: 10,
+  scaleWithFontSize: true,
+});
+
+describe("createApproximateTextMeasurer", () => {
+  it("ignores the font unless asked to scale", () => {
+    expect(measurer.measureText("abc", "bold 24px serif")).toEqual({
+      ascent: 8,
+      descent: 2,
+      width: 30,
+    });
+  });
+
+  it("scales glyph widths with the font size when asked", () => {
+    expect(
+      scaledMeasurer.measureText("abc", "normal 12px sans-serif").width,
+    ).toBe(30);
+    expect(scaledMeasurer.measureText("abc", "bold 24px serif").width).toBe(60);
+  });
+
+  it("counts UTF-16 code units, so a surrogate pair is two characters", () => {
+    expect(measurer.measureText("😀a", "12px sans-serif").width).toBe(30);
+  });
+});
+
+describe("truncateText", () => {
+  const font = "normal 12px sans-serif";
+
+  it("keeps text that fits", () => {
+    expect(truncateText("hello", 50, font, measurer)).toBe("hello");
+  });
+
+  it("appends an ellipsis to the longest fitting prefix", () => {
+    expect(truncateText("hello world", 50, font, measurer)).toBe("hell…");
+  });
+
+  it("clips without an ellipsis", () => {
+    expect(truncateText("hello world", 55, font, measurer, "clip")).toBe(
+      "hello",
+    );
+  });
+
+  it("drops text when not even the ellipsis fits", () => {
+    expect(truncateText("hello", 5, font, measurer)).toBe("");
+  });
+
+  it("never splits surrogate pairs", () => {
+    expect(truncateText("😀😀😀", 50, font, measurer, "clip")).toBe("😀😀");
+  });
+});
+
+describe("fitTextMark", () => {
+  it("builds the font from the mark", () => {
+    expect(textMarkFont({ fontSize: 9, fontWeight: 600 })).toBe(
+      "600 9px sans-serif",
+    );
+  });
+
+  it("only truncates marks with a maxWidth", () => {
+    const mark = { fontSize: 6, text: "1,234,567" };
+    expect(fitTextMark(mark, measurer)).toBe("1,234,567");
+    expect(fitTextMark({ ...mark, maxWidth: 20 }, scaledMeasurer)).toBe("1,2…");
+  });
+});
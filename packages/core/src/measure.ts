@@ -1,11 +1,15 @@
 /**
- * Text measurement utilities for future charts that emit `text` marks.
+ * Text measurement utilities for `text` marks.
  *
- * Today, none of the built-in chart registry entries emit text marks, but this
- * module is kept intentionally for:
- * - label/truncation work (Baseline 2025; no polyfills)
- * - Worker-safe measurement via `OffscreenCanvas` where available
+ * Renderers use `fitTextMark` to truncate labels that set `maxWidth`, so SVG,
+ * Canvas and HTML output cut text at the same character. Measurement is:
+ * - Worker-safe via `OffscreenCanvas` where available (Baseline 2025; no
+ *   polyfills)
+ * - Approximate (average glyph width, optionally scaled by font size)
+ *   elsewhere
  */
+import type { TextMark, TextOverflow } from "./model";
+
 export type TextMetricsLite = {
   width: number;
   ascent?: number;
@@ -16,21 +20,42 @@ export interface TextMeasurer {
   measureText(text: string, font: string): TextMetricsLite;
 }
 
+/** Font size `textMarkFont` assumes when a mark leaves it unset. */
+export const DEFAULT_TEXT_FONT_SIZE = 12;
+export const DEFAULT_TEXT_FONT_FAMILY = "sans-serif";
+
+function fontSizePx(font: string): number | null {
+  const match = /(\d*\.?\d+)px/.exec(font);
+  const size = match ? Number(match[1]) : Number.NaN;
+  return Number.isFinite(size) && size > 0 ? size : null;
+}
+
+/**
+ * Measures text as `avgCharWidthPx` per UTF-16 code unit (`text.length`, so a
+ * surrogate pair counts twice). With `scaleWithFontSize`, the metrics describe
+ * a 12px font and scale with the px size in `font`; otherwise `font` is
+ * ignored.
+ */
 export function createApproximateTextMeasurer(options?: {
   avgCharWidthPx?: number;
   ascentPx?: number;
   descentPx?: number;
+  scaleWithFontSize?: boolean;
 }): TextMeasurer {
   const avgCharWidthPx = options?.avgCharWidthPx ?? 7;
   const ascentPx = options?.ascentPx ?? 8;
   const descentPx = options?.descentPx ?? 2;
+  const scaled = options?.scaleWithFontSize ?? false;
 
   return {
-    measureText(text) {
+    measureText(text, font) {
+      const scale = scaled
+        ? (fontSizePx(font) ?? DEFAULT_TEXT_FONT_SIZE) / DEFAULT_TEXT_FONT_SIZE
+        : 1;
       return {
-        ascent: ascentPx,
-        descent: descentPx,
-        width: avgCharWidthPx * text.length,
+        ascent: ascentPx * scale,
+        descent: descentPx * scale,
+        width: avgCharWidthPx * scale * text.length,
       };
     },
   };
@@ -60,3 +85,85 @@ export function createOffscreenCanvasTextMeasurer(): TextMeasurer | null {
   if (!ctx) return null;
   return createCanvasTextMeasurer(ctx);
 }
+
+let defaultTextMeasurer: TextMeasurer | undefined;
+
+/**
+ * Shared measurer renderers fall back to: `OffscreenCanvas` metrics when
+ * available, the approximate measurer otherwise.
+ */
+export function getDefaultTextMeasurer(): TextMeasurer {
+  defaultTextMeasurer ??=
+    createOffscreenCanvasTextMeasurer() ??
+    createApproximateTextMeasurer({ scaleWithFontSize: true });
+  return defaultTextMeasurer;
+}
+
+/**
+ * CSS `font` shorthand for a text mark, filling unset properties with
+ * `DEFAULT_TEXT_FONT_SIZE` / `DEFAULT_TEXT_FONT_FAMILY`.
+ */
+export function textMarkFont(
+  mark: Pick<TextMark, "fontFamily" | "fontSize" | "fontWeight">,
+): string {
+  const weight = mark.fontWeight ?? "normal";
+  const size = mark.fontSize ?? DEFAULT_TEXT_FONT_SIZE;
+  const family = mark.fontFamily ?? DEFAULT_TEXT_FONT_FAMILY;
+  return `${weight} ${size}px ${family}`;
+}
+
+const ELLIPSIS = "\u2026";
+
+/**
+ * Truncates `text` to fit `maxWidth` when rendered in `font`. "ellipsis"
+ * appends "…" to the longest prefix that still fits with it; "clip" keeps the
+ * longest fitting prefix. Splits on code points, so surrogate pairs stay whole.
+ */
+export function truncateText(
+  text: string,
+  maxWidth: number,
+  font: string,
+  measurer: TextMeasurer,
+  overflow: TextOverflow = "ellipsis",
+): string {
+  if (!Number.isFinite(maxWidth)) return text;
+  if (measurer.measureText(text, font).width <= maxWidth) return text;
+
+  const chars = [...text];
+  const suffix = overflow === "ellipsis" ? ELLIPSIS : "";
+  const fits = (count: number) =>
+    measurer.measureText(chars.slice(0, count).join("") + suffix, font).width <=
+    maxWidth;
+
+  if (!fits(0)) return "";
+  // Binary search for the longest fitting prefix.
+  let lo = 0;
+  let hi = chars.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (fits(mid)) lo = mid;
+    else hi = mid - 1;
+  }
+  return chars.slice(0, lo).join("") + suffix;
+}
+
+/**
+ * Text a renderer should draw for `mark`: the full text, or the truncated
+ * text when `maxWidth` is set.
+ */
+export function fitTextMark(
+  mark: Pick<
+    TextMark,
+    "fontFamily" | "fontSize" | "fontWeight" | "maxWidth" | "overflow" | "text"
+  >,
+  measurer: TextMeasurer = getDefaultTextMeasurer(),
+): string {
+  if (mark.maxWidth === undefined) return mark.text;
+  return truncateText(
+    mark.text,
+    Math.max(0, mark.maxWidth),
+    textMarkFont(mark),
+    measurer,
+    mark.overflow,
+  );
+}
@@ -6,6 +6,44 @@ export type TextBaseline = "alphabetic" | "central" | "hanging" | "middle";
 export type StrokeLinecap = "butt" | "round" | "square";
 export type StrokeLinejoin = "bevel" | "miter" | "round";
 
+/**
+ * How a mark blends with what is painted beneath it, using the CSS
+ * `mix-blend-mode` keywords (Canvas maps them onto `globalCompositeOperation`).
+ */
+export type BlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "color-dodge"
+  | "color-burn"
+  | "hard-light"
+  | "soft-light"
+  | "difference"
+  | "exclusion"
+  | "hue"
+  | "saturation"
+  | "color"
+  | "luminosity";
+
+/**
+ * Source data a mark was drawn from. Charts set it so hit-testing, events and
+ * tooltips can resolve the underlying value without parsing mark ids.
+ */
+export type MarkDatum = {
+  /** Index into the chart's input data (series point or segment). */
+  index?: number;
+  /** Series key for charts that draw more than one series. */
+  series?: string;
+  value?: number;
+  /** X value for series with explicit x (epoch ms on a time scale). */
+  x?: number;
+  /** Segment name for part-to-whole charts. */
+  segment?: string;
+};
+
 export type RectMark = {
   type: "rect";
   id: MarkId;
@@ -21,10 +59,14 @@ export type RectMark = {
   stroke?: string;
   strokeOpacity?: number;
   strokeWidth?: number;
+  strokeDasharray?: string;
+  strokeDashoffset?: string;
   clipPath?: string;
   mask?: string;
   filter?: string;
+  blendMode?: BlendMode;
   className?: string;
+  datum?: MarkDatum;
 };
 
 export type PathMark = {
@@ -37,14 +79,26 @@ export type PathMark = {
   stroke?: string;
   strokeOpacity?: number;
   strokeWidth?: number;
+  strokeDasharray?: string;
+  strokeDashoffset?: string;
   strokeLinecap?: StrokeLinecap;
   strokeLinejoin?: StrokeLinejoin;
   clipPath?: string;
   mask?: string;
   filter?: string;
+  blendMode?: BlendMode;
   className?: string;
+  datum?: MarkDatum;
+  /**
+   * Per-anchor datums, parallel to the path's on-curve points (the ends of
+   * its `M`, `L`, `C` and `Q` commands). Hit-testing reports the datum of the
+   * anchor nearest the pointer instead of `datum`.
+   */
+  pointData?: ReadonlyArray<MarkDatum>;
 };
 
+export type TextOverflow = "clip" | "ellipsis";
+
 export type TextMark = {
   type: "text";
   id: MarkId;
@@ -53,12 +107,26 @@ export type TextMark = {
   text: string;
   anchor?: TextAnchor;
   baseline?: TextBaseline;
+  /** Font size in px; inherited from the host when unset. */
+  fontSize?: number;
+  fontWeight?: number | "normal" | "bold";
+  fontFamily?: string;
+  /** Rotation in degrees around (x, y), clockwise in screen space. */
+  rotate?: number;
+  /**
+   * Width budget in px. Longer text is truncated (see `fitTextMark`) with an
+   * ellipsis, or cut off at the last fitting character for "clip".
+   */
+  maxWidth?: number;
+  overflow?: TextOverflow;
   opacity?: number;
   fill?: string;
   fillOpacity?: number;
   mask?: string;
   filter?: string;
+  blendMode?: BlendMode;
   className?: string;
+  datum?: MarkDatum;
 };
 
 export type CircleMark = {
@@ -78,7 +146,9 @@ export type CircleMark = {
   strokeLinecap?: StrokeLinecap;
   mask?: string;
   filter?: string;
+  blendMode?: BlendMode;
   className?: string;
+  datum?: MarkDatum;
 };
 
 export type LineMark = {
@@ -92,20 +162,164 @@ export type LineMark = {
   stroke?: string;
   strokeOpacity?: number;
   strokeWidth?: number;
+  strokeDasharray?: string;
+  strokeDashoffset?: string;
   strokeLinecap?: StrokeLinecap;
   strokeLinejoin?: StrokeLinejoin;
   mask?: string;
   filter?: string;
+  blendMode?: BlendMode;
   className?: string;
+  datum?: MarkDatum;
 };
 
-export type Mark = RectMark | PathMark | TextMark | CircleMark | LineMark;
+/**
+ * Flat, interleaved `[x0, y0, x1, y1, …]` coordinates. A trailing odd value is
+ * ignored.
+ */
+export type PointBuffer = Float32Array | ReadonlyArray<number>;
 
-export type PatternRectMark = Omit<RectMark, "clipPath" | "id">;
-export type PatternPathMark = Omit<PathMark, "clipPath" | "id">;
-export type PatternTextMark = Omit<TextMark, "id">;
-export type PatternCircleMark = Omit<CircleMark, "id">;
-export type PatternLineMark = Omit<LineMark, "id">;
+/**
+ * Open polyline through `points`. Never filled; use `AreaMark` for regions.
+ */
+export type PolylineMark = {
+  type: "polyline";
+  id: MarkId;
+  points: PointBuffer;
+  opacity?: number;
+  stroke?: string;
+  strokeOpacity?: number;
+  strokeWidth?: number;
+  strokeDasharray?: string;
+  strokeDashoffset?: string;
+  strokeLinecap?: StrokeLinecap;
+  strokeLinejoin?: StrokeLinejoin;
+  clipPath?: string;
+  mask?: string;
+  filter?: string;
+  blendMode?: BlendMode;
+  className?: string;
+  datum?: MarkDatum;
+  /**
+   * Per-vertex datums, parallel to `points`. Hit-testing resolves the vertex
+   * nearest the pointer and reports its datum instead of `datum`.
+   */
+  pointData?: ReadonlyArray<MarkDatum>;
+};
+
+/**
+ * Filled region under `points`. With a `baseline` (a y coordinate) the outline
+ * drops from the last point to the baseline and back to the first point;
+ * without one the polyline is closed on itself.
+ */
+export type AreaMark = {
+  type: "area";
+  id: MarkId;
+  points: PointBuffer;
+  baseline?: number;
+  opacity?: number;
+  fill?: string;
+  fillOpacity?: number;
+  stroke?: string;
+  strokeOpacity?: number;
+  strokeWidth?: number;
+  strokeLinejoin?: StrokeLinejoin;
+  clipPath?: string;
+  mask?: string;
+  filter?: string;
+  blendMode?: BlendMode;
+  className?: string;
+  datum?: MarkDatum;
+  /**
+   * Per-vertex datums, parallel to `points`. Hit-testing resolves the vertex
+   * nearest the pointer and reports its datum instead of `datum`.
+   */
+  pointData?: ReadonlyArray<MarkDatum>;
+};
+
+/**
+ * Annular sector centred on (cx, cy). Angles are in radians, measured
+ * clockwise in screen space from 3 o'clock (so `-Math.PI / 2` is 12 o'clock).
+ * An `innerR` of 0 draws a pie wedge.
+ */
+export type ArcMark = {
+  type: "arc";
+  id: MarkId;
+  cx: number;
+  cy: number;
+  innerR: number;
+  outerR: number;
+  startAngle: number;
+  endAngle: number;
+  /** Rounds the four corners; clamped to fit the ring thickness and sweep. */
+  cornerRadius?: number;
+  /** Angular padding (radians) trimmed from the sweep, split between both ends. */
+  padAngle?: number;
+  opacity?: number;
+  fill?: string;
+  fillOpacity?: number;
+  stroke?: string;
+  strokeOpacity?: number;
+  strokeWidth?: number;
+  clipPath?: string;
+  mask?: string;
+  filter?: string;
+  blendMode?: BlendMode;
+  className?: string;
+  datum?: MarkDatum;
+};
+
+/**
+ * Group transform, applied as `translate → rotate → scale` (SVG order).
+ * Rotation is in degrees, clockwise in screen space.
+ */
+export type GroupTransform = {
+  translateX?: number;
+  translateY?: number;
+  rotate?: number;
+  scaleX?: number;
+  scaleY?: number;
+};
+
+export type GroupMark = {
+  type: "group";
+  id: MarkId;
+  transform?: GroupTransform;
+  opacity?: number;
+  clipPath?: string;
+  blendMode?: BlendMode;
+  /**
+   * Composites the group as its own layer, so descendants' blend modes mix
+   * only with each other (CSS `isolation: isolate`).
+   */
+  isolate?: boolean;
+  className?: string;
+  datum?: MarkDatum;
+  marks: ReadonlyArray<Mark>;
+};
+
+export type Mark =
+  | RectMark
+  | PathMark
+  | TextMark
+  | CircleMark
+  | LineMark
+  | PolylineMark
+  | AreaMark
+  | ArcMark
+  | GroupMark;
+
+export type PatternRectMark = Omit<
+  RectMark,
+  "blendMode" | "clipPath" | "datum" | "id"
+>;
+export type PatternPathMark = Omit<
+  PathMark,
+  "blendMode" | "clipPath" | "datum" | "id"
+>;
+export type PatternTextMark = Omit<TextMark, "blendMode" | "datum" | "id">;
+export type PatternCircleMark = Omit<CircleMark, "blendMode" | "datum" | "id">;
+export type PatternLineMark = Omit<LineMark, "blendMode" | "datum" | "id">;
 
 export type PatternMark =
   | PatternRectMark
@@ -114,6 +328,12 @@ export type PatternMark =
   | PatternCircleMark
   | PatternLineMark;
 
+export type GradientStop = {
+  offset: number;
+  color: string;
+  opacity?: number;
+};
+
 export type LinearGradientDef = {
   type: "linearGradient";
   id: string;
@@ -121,11 +341,21 @@ export type LinearGradientDef = {
   y1?: number;
   x2?: number;
   y2?: number;
-  stops: ReadonlyArray<{
-    offset: number;
-    color: string;
-    opacity?: number;
-  }>;
+  stops: ReadonlyArray<GradientStop>;
+};
+
+export type RadialGradientDef = {
+  type: "radialGradient";
+  id: string;
+  cx?: number;
+  cy?: number;
+  r?: number;
+  /** Focal point; defaults to (cx, cy). */
+  fx?: number;
+  fy?: number;
+  /** Defaults to "objectBoundingBox" (SVG default). */
+  gradientUnits?: "userSpaceOnUse" | "objectBoundingBox";
+  stops: ReadonlyArray<GradientStop>;
 };
 
 export type ClipRectDef = {
@@ -164,6 +394,24 @@ export type MaskDef = {
   marks: ReadonlyArray<PatternMark>;
 };
 
+export type FilterCompositeOperator =
+  | "over"
+  | "in"
+  | "out"
+  | "atop"
+  | "xor"
+  | "arithmetic";
+
+export type FilterBlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "difference"
+  | "exclusion";
+
 export type FilterPrimitive =
   | {
       type: "dropShadow";
@@ -201,6 +449,56 @@ export type FilterPrimitive =
       scale?: number;
       xChannelSelector?: "R" | "G" | "B" | "A";
       yChannelSelector?: "R" | "G" | "B" | "A";
+    }
+  | {
+      type: "colorMatrix";
+      in?: string;
+      result?: string;
+      /** Maps to `feColorMatrix[type]`; defaults to "matrix". */
+      matrixType?: "matrix" | "saturate" | "hueRotate" | "luminanceToAlpha";
+      /**
+       * A 4×5 row-major matrix (20 numbers) for "matrix", a factor for
+       * "saturate", or degrees for "hueRotate". Ignored by "luminanceToAlpha".
+       */
+      values?: number | ReadonlyArray<number>;
+    }
+  | {
+      type: "offset";
+      in?: string;
+      result?: string;
+      dx?: number;
+      dy?: number;
+    }
+  | {
+      type: "flood";
+      result?: string;
+      floodColor?: string;
+      floodOpacity?: number;
+    }
+  | {
+      type: "composite";
+      in?: string;
+      in2?: string;
+      result?: string;
+      operator?: FilterCompositeOperator;
+      /** Coefficients for the "arithmetic" operator. */
+      k1?: number;
+      k2?: number;
+      k3?: number;
+      k4?: number;
+    }
+  | {
+      type: "merge";
+      result?: string;
+      /** Inputs painted bottom to top. */
+      inputs: ReadonlyArray<string>;
+    }
+  | {
+      type: "blend";
+      in?: string;
+      in2?: string;
+      result?: string;
+      mode?: FilterBlendMode;
     };
 
 export type FilterDef = {
@@ -216,6 +514,7 @@ export type FilterDef = {
 
 export type Def =
   | LinearGradientDef
+  | RadialGradientDef
   | ClipRectDef
   | PatternDef
   | MaskDef
@@ -235,7 +534,10 @@ export type A11yNode = {
 
 export type A11ySeriesSummary = {
   kind: "series";
+  /** Number of slots, gaps included. */
   count: number;
+  /** Number of `null` gaps. */
+  gaps?: number;
   min?: number;
   max?: number;
   last?: number;
@@ -251,6 +553,12 @@ export type A11ySegmentsSummary = {
 
 export type A11ySummary = A11ySeriesSummary | A11ySegmentsSummary;
 
+/** An item's cell in a two-dimensional layout (e.g. a calendar's week/day). */
+export type A11yGridCell = {
+  col: number;
+  row: number;
+};
+
 export type A11yItem = {
   id: MarkId;
   label: string;
@@ -258,6 +566,14 @@ export type A11yItem = {
   valueText?: string;
   series?: string;
   rank?: number;
+  datum?: MarkDatum;
+  /** Swatch color for legends: the segment's or series' resolved color. */
+  color?: string;
+  /**
+   * Grid cell for row/column keyboard navigation: arrow keys move between
+   * neighboring cells instead of stepping through items in order.
+   */
+  grid?: A11yGridCell;
 };
 
 export type A11yTree = {
@@ -319,6 +635,8 @@ export type ModelStats = {
   markCount: number;
   textCount: number;
   hasDefs: boolean;
+  /** Series points in the input vs drawn, for charts that downsample. */
+  points?: { original: number; rendered: number };
   warnings?: ReadonlyArray<DiagnosticWarning>;
 };
 
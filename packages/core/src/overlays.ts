@@ -111,7 +111,14 @@ export type ModelIdAllocator = {
  */
 export function createModelIdAllocator(model: RenderModel): ModelIdAllocator {
   const usedDefs = new Set((model.defs ?? []).map((d) => d.id));
-  const usedMarks = new Set(model.marks.map((m) => m.id));
+  const usedMarks = new Set<string>();
+  const collect = (marks: ReadonlyArray<Mark>) => {
+    for (const mark of marks) {
+      usedMarks.add(mark.id);
+      if (mark.type === "group") collect(mark.marks);
+    }
+  };
+  collect(model.marks);
   return {
     defId: (base) => allocateUniqueId(base, usedDefs),
     markId: (base) => allocateUniqueId(base, usedMarks),
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { computeModel } from "./compute";
+import { assignPaletteColors, categoricalPalettes } from "./palette";
+
+describe("assignPaletteColors", () => {
+  it("assigns series tokens by position and keeps explicit colors", () => {
+    expect(
+      assignPaletteColors([{}, { color: "#f00" }, { color: " " }]),
+    ).toEqual([
+      "var(--mv-series-1, currentColor)",
+      "#f00",
+      "var(--mv-series-3, currentColor)",
+    ]);
+  });
+
+  it("keeps a name's color when the data is reordered", () => {
+    const names = ["Chrome", "Safari", "Firefox", "Edge"].map((name) => ({
+      name,
+    }));
+    const forward = assignPaletteColors(names, "tableau10");
+    const reversed = assignPaletteColors([...names].reverse(), "tableau10");
+    expect(reversed).toEqual([...forward].reverse());
+    expect(new Set(forward).size).toBe(4);
+    for (const color of forward)
+      expect(categoricalPalettes.tableau10).toContain(color);
+  });
+
+  it("gives colliding names distinct slots while the palette lasts", () => {
+    const entries = Array.from({ length: 3 }, (_, i) => ({ name: `n${i}` }));
+    const colors = assignPaletteColors(entries, ["a", "b", "c"]);
+    expect([...colors].sort()).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("segment colors", () => {
+  it("colors segments that have none", () => {
+    const model = computeModel({
+      data: [
+        { name: "A", pct: 60 },
+        { name: "B", pct: 40 },
+      ],
+      size: { height: 32, width: 32 },
+      spec: { type: "donut" },
+    });
+
+    expect(model.marks.map((m) => ("fill" in m ? m.fill : undefined))).toEqual([
+      "var(--mv-series-1, currentColor)",
+      "var(--mv-series-2, currentColor)",
+    ]);
+    expect(model.a11y?.items?.map((item) => item.color)).toEqual([
+      "var(--mv-series-1, currentColor)",
+      "var(--mv-series-2, currentColor)",
+    ]);
+    expect(model.stats?.warnings).toBeUndefined();
+  });
+
+  it("uses the spec palette", () => {
+    const model = computeModel({
+      data: [{ name: "A", pct: 60 }, { pct: 40 }],
+      size: { height: 8, width: 100 },
+      spec: { palette: ["#111", "#222"], type: "segmented-bar" },
+    });
+
+    const fills = model.marks.map((m) => ("fill" in m ? m.fill : undefined));
+    expect([...fills].sort()).toEqual(["#111", "#222"]);
+  });
+
+  it("keeps a segment's color when an earlier segment is zero", () => {
+    const model = computeModel({
+      data: [
+        { name: "A", pct: 0 },
+        { name: "B", pct: 40 },
+      ],
+      size: { height: 32, width: 32 },
+      spec: { type: "donut" },
+    });
+
+    expect(model.marks.map((m) => ("fill" in m ? m.fill : undefined))).toEqual([
+      "var(--mv-series-2, currentColor)",
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Color assignment for series and segments that don't carry a color.
+ */
+import type { CategoricalPaletteName, SegmentPalette } from "./charts/types";
+
+/** Number of `--mv-series-N` tokens the default palette cycles through. */
+const SERIES_PALETTE_SIZE = 8;
+
+/** `var(--mv-series-N)` for a 0-based position, cycling the palette. */
+export function seriesColor(index: number): string {
+  return `var(--mv-series-${(index % SERIES_PALETTE_SIZE) + 1}, currentColor)`;
+}
+
+export const categoricalPalettes: Readonly<
+  Record<CategoricalPaletteName, ReadonlyArray<string>>
+> = {
+  "okabe-ito": [
+    "#e69f00",
+    "#56b4e9",
+    "#009e73",
+    "#f0e442",
+    "#0072b2",
+    "#d55e00",
+    "#cc79a7",
+    "#000000",
+  ],
+  tableau10: [
+    "#4e79a7",
+    "#f28e2b",
+    "#e15759",
+    "#76b7b2",
+    "#59a14f",
+    "#edc948",
+    "#b07aa1",
+    "#ff9da7",
+    "#9c755f",
+    "#bab0ac",
+  ],
+};
+
+/** FNV-1a; small and stable across runtimes. */
+function hashName(name: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Resolves a color for every entry, keeping explicit (non-empty) colors.
+ *
+ * With the `"series"` palette, uncolored entries get `var(--mv-series-N)`
+ * by position. Otherwise each name hashes to a palette slot; when two names
+ * in one chart collide, the later one takes the next free slot. Unnamed
+ * entries fill the remaining slots in order.
+ */
+export function assignPaletteColors(
+  entries: ReadonlyArray<{ name?: string; color?: string }>,
+  palette: SegmentPalette = "series",
+): string[] {
+  const explicit = (i: number) => entries[i]?.color?.trim() || undefined;
+  if (palette === "series")
+    return entries.map((_, i) => explicit(i) ?? seriesColor(i));
+
+  const colors =
+    typeof palette === "string" ? categoricalPalettes[palette] : palette;
+  if (colors.length === 0)
+    return entries.map((_, i) => explicit(i) ?? seriesColor(i));
+
+  const used = new Set<number>();
+  const take = (preferred: number): number => {
+    if (used.size >= colors.length) return preferred;
+    let slot = preferred;
+    while (used.has(slot)) slot = (slot + 1) % colors.length;
+    used.add(slot);
+    return slot;
+  };
+
+  const slots = entries.map((entry, i) => {
+    const name = entry.name?.trim();
+    return explicit(i) === undefined && name
+      ? take(hashName(name) % colors.length)
+      : undefined;
+  });
+  let next = 0;
+  return entries.map((_, i) => {
+    const color = explicit(i);
+    if (color !== undefined) return color;
+    const slot = slots[i] ?? take(next++ % colors.length);
+    return colors[slot] as string;
+  });
+}
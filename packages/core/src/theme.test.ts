@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { computeModel } from "./compute";
+import { resolveTheme, resolveThemeColor, themePresets } from "./theme";
+
+const size = { height: 32, width: 100 };
+
+describe("resolveThemeColor", () => {
+  const theme = resolveTheme({ fg: "black", series: ["red", "green"] });
+
+  it("resolves --mv-* references and cycles the palette", () => {
+    expect(resolveThemeColor(theme, "var(--mv-series-1, currentColor)")).toBe(
+      "red",
+    );
+    expect(resolveThemeColor(theme, "var(--mv-series-3)")).toBe("red");
+    expect(resolveThemeColor(theme, "currentColor")).toBe("black");
+  });
+
+  it("falls back for unknown tokens", () => {
+    expect(resolveThemeColor(theme, "var(--brand, var(--mv-fg))")).toBe(
+      "black",
+    );
+    expect(resolveThemeColor(theme, "#123456")).toBe("#123456");
+  });
+});
+
+describe("computeModel theme", () => {
+  it("stays CSS-first without a theme", () => {
+    const model = computeModel({
+      data: [1, 3, 2],
+      size,
+      spec: { type: "sparkline" },
+    });
+    const line = model.marks.find((m) => m.id === "sparkline-line");
+    expect(line).not.toHaveProperty("stroke");
+  });
+
+  it("paints class-styled marks with concrete theme colors", () => {
+    const model = computeModel({
+      data: [1, 3, 2],
+      size,
+      spec: { type: "sparkline" },
+      theme: { series: ["#0072b2"], strokeWidth: 2 },
+    });
+    expect(model.marks.find((m) => m.id === "sparkline-line")).toMatchObject({
+      stroke: "#0072b2",
+      strokeWidth: 2,
+    });
+    expect(model.marks.find((m) => m.id === "sparkline-dot")).toMatchObject({
+      fill: "#0072b2",
+    });
+  });
+
+  it("resolves per-series colors against a preset", () => {
+    const model = computeModel({
+      data: [
+        { name: "a", values: [1, 2] },
+        { name: "b", values: [2, 1] },
+      ],
+      size,
+      spec: { type: "multi-sparkline" },
+      theme: themePresets.g90,
+    });
+    const strokes = model.marks
+      .filter((m) => m.type === "polyline")
+      .map((m) => m.stroke);
+    expect(strokes).toEqual(themePresets.g90.series.slice(0, 2));
+  });
+
+  it("resolves gradient stops in defs", () => {
+    const model = computeModel({
+      data: [1, 3, 2],
+      size,
+      spec: { fill: "gradient", type: "spark-area" },
+      theme: { series: ["teal"] },
+    });
+    const colors = (model.defs ?? []).flatMap((def) =>
+      "stops" in def ? def.stops.map((s) => s.color) : [],
+    );
+    expect(colors.length).toBeGreaterThan(0);
+    expect(colors.every((c) => c === "teal")).toBe(true);
+  });
+
+  it("rounds bar and segment corners with the theme radius", () => {
+    const radii = (
+      spec: Parameters<typeof computeModel>[0]["spec"],
+      data: Parameters<typeof computeModel>[0]["data"],
+      theme?: { radius?: number },
+    ) =>
+      computeModel({ data, size, spec, theme }).marks.map((m) =>
+        m.type === "rect" ? m.rx : undefined,
+      );
+    const segments = [{ color: "red", pct: 100 }];
+
+    expect(
+      radii({ type: "histogram" }, { series: [1, 2] }, { radius: 3 }),
+    ).toEqual([3, 3]);
+    expect(
+      radii({ barRadius: 1, type: "sparkline-bars" }, [1, 2], { radius: 3 }),
+    ).toEqual([1, 1]);
+    expect(radii({ type: "segmented-bar" }, segments, { radius: 3 })).toEqual([
+      3,
+    ]);
+    // Without a radius token, charts keep their own corners.
+    expect(radii({ type: "segmented-bar" }, segments, {})).toEqual([2]);
+    expect(radii({ type: "histogram" }, { series: [1, 2] }, {})).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("draws the win-loss baseline in the grid color", () => {
+    const model = computeModel({
+      data: [1, -1],
+      size,
+      spec: { baseline: true, type: "win-loss" },
+      theme: themePresets.g90,
+    });
+    expect(model.marks.find((m) => m.id === "win-loss-baseline")).toMatchObject(
+      { stroke: themePresets.g90.grid },
+    );
+  });
+});
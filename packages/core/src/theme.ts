@@ -0,0 +1,316 @@
+/**
+ * Theme tokens for chart computation.
+ *
+ * Built-in charts are CSS-first: marks carry `mv-*` classes and
+ * `var(--mv-*)` paint, and the stylesheet colors them. Canvas and PNG export
+ * can't see CSS, so when `computeModel` gets a `theme` it passes it to each
+ * chart's `marks()`, and charts paint their class-styled marks with
+ * `themePaint`. Afterwards `var(--mv-*)` references and `currentColor`
+ * resolve against the theme. The presets mirror `@microviz/themes`
+ * (tokens.css and variants.css).
+ */
+import type { ThemeTokens } from "./charts/context";
+import type { Def, GradientStop, Mark, PatternMark } from "./model";
+
+/** A theme with every token filled in. */
+export type ResolvedTheme = {
+  series: ReadonlyArray<string>;
+  bg: string;
+  fg: string;
+  muted: string;
+  grid: string;
+  radius: number;
+  strokeWidth: number;
+  fontFamily: string;
+  fontSize: number;
+};
+
+export type ThemePresetName = "default" | "white" | "g10" | "g90" | "g100";
+
+const LIGHT_SERIES = [
+  "oklch(0.65 0.15 250)",
+  "oklch(0.7 0.15 150)",
+  "oklch(0.72 0.15 80)",
+  "oklch(0.72 0.12 30)",
+  "oklch(0.68 0.14 10)",
+  "oklch(0.67 0.16 295)",
+  "oklch(0.71 0.14 200)",
+  "oklch(0.73 0.13 120)",
+] as const;
+
+const DEFAULT_THEME: ResolvedTheme = {
+  bg: "oklch(1 0 0)",
+  fg: "oklch(0.24 0 0)",
+  fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+  fontSize: 12,
+  grid: "oklch(0.9 0 0)",
+  muted: "oklch(0.55 0 0)",
+  radius: 2,
+  series: LIGHT_SERIES,
+  strokeWidth: 1.5,
+};
+
+/** Built-in themes: `default` is tokens.css, the rest are variants.css. */
+export const themePresets: Readonly<Record<ThemePresetName, ResolvedTheme>> = {
+  default: DEFAULT_THEME,
+  g10: {
+    ...DEFAULT_THEME,
+    bg: "oklch(0.97 0 0)",
+    fg: "oklch(0.22 0 0)",
+    grid: "oklch(0.88 0 0)",
+    muted: "oklch(0.52 0 0)",
+  },
+  g90: {
+    ...DEFAULT_THEME,
+    bg: "oklch(0.25 0 0)",
+    fg: "oklch(0.94 0 0)",
+    grid: "oklch(0.42 0 0)",
+    muted: "oklch(0.76 0 0)",
+    series: [
+      "oklch(0.74 0.15 250)",
+      "oklch(0.78 0.15 150)",
+      "oklch(0.8 0.14 80)",
+      "oklch(0.78 0.12 30)",
+      "oklch(0.74 0.13 10)",
+      "oklch(0.74 0.15 295)",
+      "oklch(0.78 0.13 200)",
+      "oklch(0.8 0.12 120)",
+    ],
+  },
+  g100: {
+    ...DEFAULT_THEME,
+    bg: "oklch(0.2 0 0)",
+    fg: "oklch(0.95 0 0)",
+    grid: "oklch(0.36 0 0)",
+    muted: "oklch(0.78 0 0)",
+    series: [
+      "oklch(0.78 0.15 250)",
+      "oklch(0.82 0.15 150)",
+      "oklch(0.84 0.14 80)",
+      "oklch(0.82 0.12 30)",
+      "oklch(0.78 0.13 10)",
+      "oklch(0.78 0.15 295)",
+      "oklch(0.82 0.13 200)",
+      "oklch(0.84 0.12 120)",
+    ],
+  },
+  white: DEFAULT_THEME,
+};
+
+/** Fills unset tokens from the default preset. */
+export function resolveTheme(theme: ThemeTokens): ResolvedTheme {
+  const base = DEFAULT_THEME;
+  const series =
+    theme.series && theme.series.length > 0
+      ? theme.series
+      : theme.series1
+        ? [theme.series1, ...base.series.slice(1)]
+        : base.series;
+  return {
+    bg: theme.bg ?? base.bg,
+    fg: theme.fg ?? base.fg,
+    fontFamily: theme.fontFamily ?? base.fontFamily,
+    fontSize: theme.fontSize ?? base.fontSize,
+    grid: theme.grid ?? base.grid,
+    muted: theme.muted ?? base.muted,
+    radius: theme.radius ?? base.radius,
+    series,
+    strokeWidth: theme.strokeWidth ?? base.strokeWidth,
+  };
+}
+
+/**
+ * Value of the `--mv-<name>` token: `series-N` cycles through the palette;
+ * unknown names are undefined.
+ */
+export function themeToken(
+  theme: ResolvedTheme,
+  name: string,
+): string | undefined {
+  const series = /^series-(\d+)$/.exec(name);
+  if (series) {
+    const n = Number(series[1]);
+    return n >= 1 ? theme.series[(n - 1) % theme.series.length] : undefined;
+  }
+  switch (name) {
+    case "bg":
+    case "fg":
+    case "grid":
+    case "muted":
+      return theme[name];
+    default:
+      return undefined;
+  }
+}
+
+/** Index of the `)` closing the `(` at `open`, or -1. */
+function closingParen(value: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < value.length; i++) {
+    if (value[i] === "(") depth += 1;
+    else if (value[i] === ")" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Replaces `var(--mv-*)` references (falling back to their fallback for
+ * unknown tokens) and `currentColor` with concrete theme values.
+ */
+export function resolveThemeColor(theme: ResolvedTheme, color: string): string {
+  if (color === "currentColor") return theme.fg;
+  let out = "";
+  let rest = color;
+  for (let at = rest.indexOf("var("); at >= 0; at = rest.indexOf("var(")) {
+    const close = closingParen(rest, at + 3);
+    if (close < 0) break;
+    const body = rest.slice(at + 4, close);
+    const comma = body.indexOf(",");
+    const name = (comma < 0 ? body : body.slice(0, comma)).trim();
+    const fallback = comma < 0 ? undefined : body.slice(comma + 1).trim();
+    const value = name.startsWith("--mv-")
+      ? themeToken(theme, name.slice(5))
+      : undefined;
+    const resolved =
+      value ??
+      (fallback === undefined
+        ? rest.slice(at, close + 1)
+        : resolveThemeColor(theme, fallback));
+    out += rest.slice(0, at) + resolved;
+    rest = rest.slice(close + 1);
+  }
+  return out + rest;
+}
+
+/** A theme color by its `--mv-*` token name. */
+export type ThemeColorToken = "fg" | "muted" | "grid" | `series-${number}`;
+
+/**
+ * Paint a chart gives a mark when it has a theme: the same tokens its class
+ * rule uses in the stylesheets (`elements/src/styles.ts`, `themes/base.css`).
+ */
+export type ThemePaint = {
+  fill?: ThemeColorToken | "none";
+  fillOpacity?: number;
+  stroke?: ThemeColorToken;
+  strokeDasharray?: string;
+  /** Stroke with the theme's `strokeWidth`. */
+  strokeWidth?: true;
+};
+
+/** Concrete paint fields, spread into a mark. */
+export type MarkPaint = {
+  fill?: string;
+  fillOpacity?: number;
+  stroke?: string;
+  strokeDasharray?: string;
+  strokeWidth?: number;
+};
+
+/**
+ * Concrete paint for a mark under `theme`. Without a theme it is empty, so
+ * the mark stays CSS-first and its class rule paints it. Charts spread it
+ * before their own paint fields, which win.
+ */
+export function themePaint(
+  theme: ThemeTokens | undefined,
+  paint: ThemePaint,
+): MarkPaint {
+  if (!theme) return {};
+  const resolved = resolveTheme(theme);
+  const color = (token: ThemeColorToken) =>
+    themeToken(resolved, token) ?? resolved.fg;
+  const out: MarkPaint = {};
+  if (paint.fill) out.fill = paint.fill === "none" ? "none" : color(paint.fill);
+  if (paint.fillOpacity !== undefined) out.fillOpacity = paint.fillOpacity;
+  if (paint.stroke) out.stroke = color(paint.stroke);
+  if (paint.strokeDasharray) out.strokeDasharray = paint.strokeDasharray;
+  if (paint.strokeWidth) out.strokeWidth = resolved.strokeWidth;
+  return out;
+}
+
+/**
+ * The theme's corner radius for bars and segments, or undefined when the
+ * theme doesn't set one (or is absent) and the chart keeps its default.
+ */
+export function themeRadius(
+  theme: ThemeTokens | undefined,
+): number | undefined {
+  const radius = theme?.radius;
+  return radius !== undefined && Number.isFinite(radius) && radius >= 0
+    ? radius
+    : undefined;
+}
+
+/** The paint fields `themeMark` reads and writes, across all mark types. */
+type Paintable = {
+  fill?: string;
+  fontFamily?: string;
+  fontSize?: number;
+  stroke?: string;
+};
+
+/**
+ * Resolves the colors a chart wrote as `var(--mv-*)` or `currentColor`
+ * (segment and series palettes, user colors). Text gets the theme's font and,
+ * when unpainted, its foreground, as it would inherit from the host.
+ */
+function themeMark<M extends Mark | PatternMark>(
+  mark: M,
+  theme: ResolvedTheme,
+): M {
+  if (mark.type === "group") {
+    return {
+      ...mark,
+      marks: mark.marks.map((child) => themeMark(child, theme)),
+    };
+  }
+
+  const source = mark as Paintable;
+  const next: Paintable & Record<string, unknown> = { ...source };
+  if (source.fill !== undefined)
+    next.fill = resolveThemeColor(theme, source.fill);
+  else if (mark.type === "text") next.fill = theme.fg;
+  if (source.stroke !== undefined)
+    next.stroke = resolveThemeColor(theme, source.stroke);
+  if (mark.type === "text") {
+    next.fontFamily = source.fontFamily ?? theme.fontFamily;
+    next.fontSize = source.fontSize ?? theme.fontSize;
+  }
+  return next as unknown as M;
+}
+
+/** Resolves token colors in marks under a theme (see `themeMark`). */
+export function applyThemeToMarks(
+  marks: ReadonlyArray<Mark>,
+  theme: ThemeTokens,
+): Mark[] {
+  const resolved = resolveTheme(theme);
+  return marks.map((mark) => themeMark(mark, resolved));
+}
+
+/** Resolves `var(--mv-*)` colors in gradient stops and pattern marks. */
+export function applyThemeToDefs(
+  defs: ReadonlyArray<Def>,
+  theme: ThemeTokens,
+): Def[] {
+  const resolved = resolveTheme(theme);
+  const stop = (s: GradientStop): GradientStop => ({
+    ...s,
+    color: resolveThemeColor(resolved, s.color),
+  });
+  return defs.map((def) => {
+    switch (def.type) {
+      case "linearGradient":
+      case "radialGradient":
+        return { ...def, stops: def.stops.map(stop) };
+      case "pattern":
+        return {
+          ...def,
+          marks: def.marks.map((mark) => themeMark(mark, resolved)),
+        };
+      default:
+        return def;
+    }
+  });
+}
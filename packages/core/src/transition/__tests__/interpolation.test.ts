@@ -1,9 +1,11 @@
 import { describe, expect, test } from "vitest";
 import { computeModel } from "../../compute";
 import type {
+  ArcMark,
   CircleMark,
+  GroupMark,
   LineMark,
-  PathMark,
+  PolylineMark,
   RectMark,
   RenderModel,
   TextMark,
@@ -133,6 +135,32 @@ describe("interpolateMark", () => {
     expect(mid.y2).toBe(105);
   });
 
+  test("animates dash offsets for draw-on reveals", () => {
+    const base: LineMark = {
+      id: "l1",
+      strokeDasharray: "100 100",
+      type: "line",
+      x1: 0,
+      x2: 100,
+      y1: 0,
+      y2: 0,
+    };
+    const from: LineMark = { ...base, strokeDashoffset: "100" };
+    const to: LineMark = { ...base, strokeDashoffset: "0" };
+
+    const mid = interpolateMark(from, to, 0.25) as LineMark;
+    expect(mid.strokeDashoffset).toBe("75");
+    expect(mid.strokeDasharray).toBe("100 100");
+
+    // Non-numeric offsets snap at the end of the transition.
+    const odd = interpolateMark(
+      from,
+      { ...base, strokeDashoffset: "50%" },
+      0.5,
+    ) as LineMark;
+    expect(odd.strokeDashoffset).toBe("100");
+  });
+
   test("interpolates TextMark position (text snaps)", () => {
     const from: TextMark = {
       id: "t1",
@@ -214,7 +242,68 @@ describe("interpolateMark", () => {
     expect(mid.opacity).toBe(0.5);
   });
 
-  test("interpolates donut geometry without path pinching", () => {
+  test("interpolates polyline points without parsing", () => {
+    const from: PolylineMark = {
+      id: "pl",
+      points: new Float32Array([0, 10, 10, 20]),
+      type: "polyline",
+    };
+    const to: PolylineMark = {
+      id: "pl",
+      points: new Float32Array([0, 30, 10, 40]),
+      type: "polyline",
+    };
+
+    const mid = interpolateMark(from, to, 0.5) as PolylineMark;
+    expect(mid.points).toBeInstanceOf(Float32Array);
+    expect(Array.from(mid.points)).toEqual([0, 20, 10, 30]);
+  });
+
+  test("resamples polylines when the point count changes", () => {
+    const from: PolylineMark = {
+      id: "pl",
+      points: [0, 0, 10, 10],
+      type: "polyline",
+    };
+    const to: PolylineMark = {
+      id: "pl",
+      points: [0, 0, 10, 10, 20, 20],
+      type: "polyline",
+    };
+
+    const start = interpolateMark(from, to, 0) as PolylineMark;
+    expect(start.points).toEqual([0, 0, 5, 5, 10, 10]);
+    const end = interpolateMark(from, to, 1) as PolylineMark;
+    expect(end.points).toEqual(to.points);
+  });
+
+  test("interpolates arcs by angle", () => {
+    const from: ArcMark = {
+      cx: 50,
+      cy: 50,
+      endAngle: Math.PI / 2,
+      id: "a",
+      innerR: 20,
+      outerR: 40,
+      startAngle: 0,
+      type: "arc",
+    };
+    const to: ArcMark = {
+      ...from,
+      endAngle: Math.PI * 2,
+      innerR: 30,
+      startAngle: Math.PI,
+    };
+
+    const mid = interpolateMark(from, to, 0.5) as ArcMark;
+    expect(mid.startAngle).toBeCloseTo(Math.PI / 2);
+    // Sweep tweens independently: (π/2 + π) / 2
+    expect(mid.endAngle - mid.startAngle).toBeCloseTo((Math.PI * 3) / 4);
+    expect(mid.innerR).toBe(25);
+    expect(mid.outerR).toBe(40);
+  });
+
+  test("interpolates donut segments as arcs", () => {
     const fromModel = computeModel({
       data: [
         { color: "#6366f1", pct: 60 },
@@ -234,12 +323,12 @@ describe("interpolateMark", () => {
     });
 
     const from = fromModel.marks.find(
-      (mark): mark is PathMark =>
-        mark.type === "path" && mark.id === "donut-segment-0",
+      (mark): mark is ArcMark =>
+        mark.type === "arc" && mark.id === "donut-segment-1",
     );
     const to = toModel.marks.find(
-      (mark): mark is PathMark =>
-        mark.type === "path" && mark.id === "donut-segment-0",
+      (mark): mark is ArcMark =>
+        mark.type === "arc" && mark.id === "donut-segment-1",
     );
 
     expect(from).toBeTruthy();
@@ -247,10 +336,9 @@ describe("interpolateMark", () => {
 
     if (!from || !to) return;
 
-    const mid = interpolateMark(from, to, 0.5) as PathMark;
-    expect(mid.d).not.toBe(from.d);
-    expect(mid.d).not.toBe(to.d);
-    expect(mid.d).toContain("A");
+    const mid = interpolateMark(from, to, 0.5) as ArcMark;
+    expect(mid.startAngle).toBeCloseTo((from.startAngle + to.startAngle) / 2);
+    expect(mid.outerR).toBe(from.outerR);
   });
 });
 
@@ -286,6 +374,71 @@ describe("interpolateModel", () => {
     expect(mid.height).toBe(150);
   });
 
+  test("interpolates group transforms and nested marks by ID", () => {
+    const from = createModel([
+      {
+        id: "badge",
+        marks: [{ h: 10, id: "badge-bg", type: "rect", w: 10, x: 0, y: 0 }],
+        opacity: 0,
+        transform: { translateX: 0, translateY: 0 },
+        type: "group",
+      },
+    ]);
+    const to = createModel([
+      {
+        id: "badge",
+        marks: [{ h: 10, id: "badge-bg", type: "rect", w: 30, x: 0, y: 0 }],
+        opacity: 1,
+        transform: { rotate: 90, translateX: 100, translateY: 40 },
+        type: "group",
+      },
+    ]);
+
+    const mid = interpolateModel(from, to, 0.5).marks[0] as GroupMark;
+    expect(mid.opacity).toBe(0.5);
+    expect(mid.transform).toMatchObject({
+      rotate: 45,
+      scaleX: 1,
+      translateX: 50,
+      translateY: 20,
+    });
+    expect((mid.marks[0] as RectMark).w).toBe(20);
+  });
+
+  test("carries blend modes and isolation over from the target", () => {
+    const from = createModel([
+      {
+        id: "waves",
+        marks: [{ h: 10, id: "wave", type: "rect", w: 10, x: 0, y: 0 }],
+        type: "group",
+      },
+    ]);
+    const to = createModel([
+      {
+        blendMode: "screen",
+        id: "waves",
+        isolate: true,
+        marks: [
+          {
+            blendMode: "multiply",
+            h: 20,
+            id: "wave",
+            type: "rect",
+            w: 10,
+            x: 0,
+            y: 0,
+          },
+        ],
+        type: "group",
+      },
+    ]);
+
+    const mid = interpolateModel(from, to, 0.5).marks[0] as GroupMark;
+    expect(mid.blendMode).toBe("screen");
+    expect(mid.isolate).toBe(true);
+    expect((mid.marks[0] as RectMark).blendMode).toBe("multiply");
+  });
+
   test("new marks appear immediately", () => {
     const from = createModel([
       { h: 50, id: "bar-1", type: "rect", w: 10, x: 0, y: 0 },
@@ -67,6 +67,15 @@ describe("parsePath", () => {
     ]);
   });
 
+  test("splits implicit command repeats", () => {
+    expect(parsePath("M0,0 5,5 C1,1,2,2,3,3,4,4,5,5,6,6")).toEqual([
+      { args: [0, 0], type: "M" },
+      { args: [5, 5], type: "L" },
+      { args: [1, 1, 2, 2, 3, 3], type: "C" },
+      { args: [4, 4, 5, 5, 6, 6], type: "C" },
+    ]);
+  });
+
   test("returns empty array for empty string", () => {
     expect(parsePath("")).toEqual([]);
   });
@@ -165,6 +174,22 @@ describe("interpolatePath", () => {
     expect(interpolatePath(from, to, 0.5)).toEqual(to);
   });
 
+  test("promotes lines to cubics when morphing into a curve", () => {
+    const from = [
+      { args: [0, 0], type: "M" },
+      { args: [30, 0], type: "L" },
+    ];
+    const to = [
+      { args: [0, 0], type: "M" },
+      { args: [0, 30, 30, 30, 30, 0], type: "C" },
+    ];
+
+    expect(interpolatePath(from, to, 0.5)).toEqual([
+      { args: [0, 0], type: "M" },
+      { args: [5, 15, 25, 15, 30, 0], type: "C" },
+    ]);
+  });
+
   test("interpolates arc commands", () => {
     const from = [
       { args: [0, 0], type: "M" },
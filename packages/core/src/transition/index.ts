@@ -14,6 +14,7 @@ export {
 } from "./interpolation";
 
 export {
+  alignPathCommands,
   arePathsCompatible,
   interpolatePath,
   interpolatePathMark,
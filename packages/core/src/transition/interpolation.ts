@@ -1,13 +1,18 @@
 import type {
+  ArcMark,
+  AreaMark,
   CircleMark,
+  GroupMark,
   LineMark,
   Mark,
   PathMark,
+  PolylineMark,
   RectMark,
   RenderModel,
   TextMark,
 } from "../model";
-import { interpolatePathMark, parsePath } from "./pathMorph";
+import { lerpPoints } from "../utils/points";
+import { interpolatePathMark } from "./pathMorph";
 
 /**
  * Easing functions for animation timing.
@@ -44,6 +49,22 @@ function lerpOptional(
   return lerp(from, to, t);
 }
 
+/**
+ * Interpolate a numeric `stroke-dashoffset` (stored as a string). Non-numeric
+ * values snap like other optional values, so "draw-on" reveals animate from a
+ * dash-length offset down to 0.
+ */
+export function lerpDashOffset(
+  from: string | undefined,
+  to: string | undefined,
+  t: number,
+): string | undefined {
+  const a = from === undefined ? Number.NaN : Number(from);
+  const b = to === undefined ? Number.NaN : Number(to);
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return t < 1 ? from : to;
+  return String(lerp(a, b, t));
+}
+
 /**
  * Interpolate a RectMark between two states.
  */
@@ -59,6 +80,11 @@ function interpolateRectMark(
     opacity: lerpOptional(from.opacity, to.opacity, t),
     rx: lerpOptional(from.rx, to.rx, t),
     ry: lerpOptional(from.ry, to.ry, t),
+    strokeDashoffset: lerpDashOffset(
+      from.strokeDashoffset,
+      to.strokeDashoffset,
+      t,
+    ),
     strokeOpacity: lerpOptional(from.strokeOpacity, to.strokeOpacity, t),
     strokeWidth: lerpOptional(from.strokeWidth, to.strokeWidth, t),
     w: lerp(from.w, to.w, t),
@@ -82,6 +108,11 @@ function interpolateCircleMark(
     fillOpacity: lerpOptional(from.fillOpacity, to.fillOpacity, t),
     opacity: lerpOptional(from.opacity, to.opacity, t),
     r: lerp(from.r, to.r, t),
+    strokeDashoffset: lerpDashOffset(
+      from.strokeDashoffset,
+      to.strokeDashoffset,
+      t,
+    ),
     strokeOpacity: lerpOptional(from.strokeOpacity, to.strokeOpacity, t),
     strokeWidth: lerpOptional(from.strokeWidth, to.strokeWidth, t),
   };
@@ -98,6 +129,11 @@ function interpolateLineMark(
   return {
     ...to,
     opacity: lerpOptional(from.opacity, to.opacity, t),
+    strokeDashoffset: lerpDashOffset(
+      from.strokeDashoffset,
+      to.strokeDashoffset,
+      t,
+    ),
     strokeOpacity: lerpOptional(from.strokeOpacity, to.strokeOpacity, t),
     strokeWidth: lerpOptional(from.strokeWidth, to.strokeWidth, t),
     x1: lerp(from.x1, to.x1, t),
@@ -107,6 +143,48 @@ function interpolateLineMark(
   };
 }
 
+/**
+ * Interpolate a PolylineMark between two states.
+ * Points lerp directly; differing point counts are resampled.
+ */
+function interpolatePolylineMark(
+  from: PolylineMark,
+  to: PolylineMark,
+  t: number,
+): PolylineMark {
+  return {
+    ...to,
+    opacity: lerpOptional(from.opacity, to.opacity, t),
+    points: lerpPoints(from.points, to.points, t),
+    strokeDashoffset: lerpDashOffset(
+      from.strokeDashoffset,
+      to.strokeDashoffset,
+      t,
+    ),
+    strokeOpacity: lerpOptional(from.strokeOpacity, to.strokeOpacity, t),
+    strokeWidth: lerpOptional(from.strokeWidth, to.strokeWidth, t),
+  };
+}
+
+/**
+ * Interpolate an AreaMark between two states.
+ */
+function interpolateAreaMark(
+  from: AreaMark,
+  to: AreaMark,
+  t: number,
+): AreaMark {
+  return {
+    ...to,
+    baseline: lerpOptional(from.baseline, to.baseline, t),
+    fillOpacity: lerpOptional(from.fillOpacity, to.fillOpacity, t),
+    opacity: lerpOptional(from.opacity, to.opacity, t),
+    points: lerpPoints(from.points, to.points, t),
+    strokeOpacity: lerpOptional(from.strokeOpacity, to.strokeOpacity, t),
+    strokeWidth: lerpOptional(from.strokeWidth, to.strokeWidth, t),
+  };
+}
+
 /**
  * Interpolate a TextMark between two states.
  * Text content snaps to target; only position interpolates.
@@ -127,233 +205,68 @@ function interpolateTextMark(
   };
 }
 
-const TAU = Math.PI * 2;
-const DONUT_SEGMENT_CLASS = "mv-donut-segment";
-
-function isDonutSegmentMark(mark: PathMark): boolean {
-  if (mark.id.startsWith("donut-segment-")) return true;
-  if (!mark.className) return false;
-  return mark.className.split(/\s+/).includes(DONUT_SEGMENT_CLASS);
-}
-
-type DonutArcGeometry = {
-  cx: number;
-  cy: number;
-  outerR: number;
-  innerR: number;
-  startAngle: number;
-  endAngle: number;
-};
-
-type Point = { x: number; y: number };
-
-function normalizeSweep(sweep: number): number {
-  if (!Number.isFinite(sweep)) return 0;
-  let value = sweep;
-  while (value < 0) value += TAU;
-  while (value > TAU) value -= TAU;
-  return value;
-}
-
-function wrapAngle(angle: number): number {
-  let value = (angle + Math.PI) % TAU;
-  if (value < 0) value += TAU;
-  return value - Math.PI;
-}
-
-function lerpAngle(from: number, to: number, t: number): number {
-  const delta = wrapAngle(to - from);
-  return from + delta * t;
-}
-
-function arcToCenter(
-  start: Point,
-  end: Point,
-  radius: number,
-  largeArcFlag: boolean,
-  sweepFlag: boolean,
-): { cx: number; cy: number; startAngle: number; endAngle: number } | null {
-  if (!Number.isFinite(radius) || radius <= 0) return null;
-
-  const dx2 = (start.x - end.x) / 2;
-  const dy2 = (start.y - end.y) / 2;
-  const x1p = dx2;
-  const y1p = dy2;
-
-  const rSq = radius * radius;
-  const x1pSq = x1p * x1p;
-  const y1pSq = y1p * y1p;
-  const denom = x1pSq + y1pSq;
-  if (denom === 0) return null;
-
-  let radicant = (rSq - x1pSq - y1pSq) / denom;
-  radicant = Math.max(0, radicant);
-
-  const coef = (largeArcFlag === sweepFlag ? -1 : 1) * Math.sqrt(radicant);
-  const cxp = coef * y1p;
-  const cyp = coef * -x1p;
-
-  const cx = cxp + (start.x + end.x) / 2;
-  const cy = cyp + (start.y + end.y) / 2;
-
-  const startAngle = Math.atan2((y1p - cyp) / radius, (x1p - cxp) / radius);
-  const endAngleBase = Math.atan2((-y1p - cyp) / radius, (-x1p - cxp) / radius);
-  let delta = endAngleBase - startAngle;
-  if (!sweepFlag && delta > 0) delta -= TAU;
-  if (sweepFlag && delta < 0) delta += TAU;
-  const endAngle = startAngle + delta;
-
-  return { cx, cy, endAngle, startAngle };
-}
-
-function extractDonutGeometry(mark: PathMark): DonutArcGeometry | null {
-  const commands = parsePath(mark.d);
-  let outerStart: Point | null = null;
-  let outerArc: { args: number[] } | null = null;
-  let innerArc: { args: number[] } | null = null;
-
-  for (const cmd of commands) {
-    if (!outerStart && cmd.type === "M" && cmd.args.length >= 2) {
-      outerStart = { x: cmd.args[0] ?? 0, y: cmd.args[1] ?? 0 };
-      continue;
-    }
-    if (cmd.type === "A" && cmd.args.length >= 7) {
-      const sweepFlag = Number(cmd.args[4]) === 1;
-      if (sweepFlag && !outerArc) {
-        outerArc = cmd;
-      } else if (!sweepFlag && !innerArc) {
-        innerArc = cmd;
-      }
-    }
-  }
-
-  if (!outerStart || !outerArc || !innerArc) return null;
-
-  const outerR = Number(outerArc.args[0]);
-  const innerR = Number(innerArc.args[0]);
-  const outerEnd: Point = {
-    x: Number(outerArc.args[5]),
-    y: Number(outerArc.args[6]),
-  };
-  const largeArcFlag = Number(outerArc.args[3]) === 1;
-  const sweepFlag = Number(outerArc.args[4]) === 1;
-
-  const center = arcToCenter(
-    outerStart,
-    outerEnd,
-    outerR,
-    largeArcFlag,
-    sweepFlag,
-  );
-  if (!center) return null;
-
-  return {
-    cx: center.cx,
-    cy: center.cy,
-    endAngle: center.endAngle,
-    innerR,
-    outerR,
-    startAngle: center.startAngle,
-  };
-}
-
-function createArcPath(
-  cx: number,
-  cy: number,
-  outerR: number,
-  innerR: number,
-  startAngle: number,
-  endAngle: number,
-): string {
-  const isFullCircle = Math.abs(endAngle - startAngle) >= TAU - 0.001;
-
-  if (isFullCircle) {
-    const midAngle = startAngle + Math.PI;
-    return (
-      createHalfArcPath(cx, cy, outerR, innerR, startAngle, midAngle) +
-      " " +
-      createHalfArcPath(cx, cy, outerR, innerR, midAngle, endAngle)
-    );
-  }
-
-  const outerStart = polarToCartesian(cx, cy, outerR, startAngle);
-  const outerEnd = polarToCartesian(cx, cy, outerR, endAngle);
-  const innerStart = polarToCartesian(cx, cy, innerR, startAngle);
-  const innerEnd = polarToCartesian(cx, cy, innerR, endAngle);
-
-  const largeArcFlag = endAngle - startAngle > Math.PI ? 1 : 0;
-
-  return [
-    `M ${outerStart.x.toFixed(2)} ${outerStart.y.toFixed(2)}`,
-    `A ${outerR.toFixed(2)} ${outerR.toFixed(2)} 0 ${largeArcFlag} 1 ${outerEnd.x.toFixed(2)} ${outerEnd.y.toFixed(2)}`,
-    `L ${innerEnd.x.toFixed(2)} ${innerEnd.y.toFixed(2)}`,
-    `A ${innerR.toFixed(2)} ${innerR.toFixed(2)} 0 ${largeArcFlag} 0 ${innerStart.x.toFixed(2)} ${innerStart.y.toFixed(2)}`,
-    "Z",
-  ].join(" ");
-}
-
-function createHalfArcPath(
-  cx: number,
-  cy: number,
-  outerR: number,
-  innerR: number,
-  startAngle: number,
-  endAngle: number,
-): string {
-  const outerStart = polarToCartesian(cx, cy, outerR, startAngle);
-  const outerEnd = polarToCartesian(cx, cy, outerR, endAngle);
-  const innerStart = polarToCartesian(cx, cy, innerR, startAngle);
-  const innerEnd = polarToCartesian(cx, cy, innerR, endAngle);
-
-  return [
-    `M ${outerStart.x.toFixed(2)} ${outerStart.y.toFixed(2)}`,
-    `A ${outerR.toFixed(2)} ${outerR.toFixed(2)} 0 0 1 ${outerEnd.x.toFixed(2)} ${outerEnd.y.toFixed(2)}`,
-    `L ${innerEnd.x.toFixed(2)} ${innerEnd.y.toFixed(2)}`,
-    `A ${innerR.toFixed(2)} ${innerR.toFixed(2)} 0 0 0 ${innerStart.x.toFixed(2)} ${innerStart.y.toFixed(2)}`,
-    "Z",
-  ].join(" ");
-}
+/**
+ * Interpolate a GroupMark between two states.
+ * Transform components tween individually; children are matched by ID.
+ */
+function interpolateGroupMark(
+  from: GroupMark,
+  to: GroupMark,
+  t: number,
+): GroupMark {
+  const fromTransform = from.transform ?? {};
+  const toTransform = to.transform ?? {};
+  const hasTransform =
+    from.transform !== undefined || to.transform !== undefined;
 
-function polarToCartesian(
-  cx: number,
-  cy: number,
-  radius: number,
-  angle: number,
-): Point {
   return {
-    x: cx + radius * Math.cos(angle),
-    y: cy + radius * Math.sin(angle),
+    ...to,
+    marks: interpolateMarks(from.marks, to.marks, t),
+    opacity: lerpOptional(from.opacity, to.opacity, t),
+    transform: hasTransform
+      ? {
+          rotate: lerp(fromTransform.rotate ?? 0, toTransform.rotate ?? 0, t),
+          scaleX: lerp(fromTransform.scaleX ?? 1, toTransform.scaleX ?? 1, t),
+          scaleY: lerp(fromTransform.scaleY ?? 1, toTransform.scaleY ?? 1, t),
+          translateX: lerp(
+            fromTransform.translateX ?? 0,
+            toTransform.translateX ?? 0,
+            t,
+          ),
+          translateY: lerp(
+            fromTransform.translateY ?? 0,
+            toTransform.translateY ?? 0,
+            t,
+          ),
+        }
+      : undefined,
   };
 }
 
-function interpolateDonutPathMark(
-  from: PathMark,
-  to: PathMark,
-  t: number,
-): PathMark {
-  const fromGeom = extractDonutGeometry(from);
-  const toGeom = extractDonutGeometry(to);
-  if (!fromGeom || !toGeom) {
-    return interpolatePathMark(from, to, t);
-  }
-
-  const startAngle = lerpAngle(fromGeom.startAngle, toGeom.startAngle, t);
-  const sweepFrom = normalizeSweep(fromGeom.endAngle - fromGeom.startAngle);
-  const sweepTo = normalizeSweep(toGeom.endAngle - toGeom.startAngle);
-  const sweep = lerp(sweepFrom, sweepTo, t);
-  const endAngle = startAngle + sweep;
-
-  const cx = lerp(fromGeom.cx, toGeom.cx, t);
-  const cy = lerp(fromGeom.cy, toGeom.cy, t);
-  const outerR = lerp(fromGeom.outerR, toGeom.outerR, t);
-  const innerR = lerp(fromGeom.innerR, toGeom.innerR, t);
-  const d = createArcPath(cx, cy, outerR, innerR, startAngle, endAngle);
+/**
+ * Interpolate an ArcMark by angle: the start angle and sweep are tweened
+ * separately so segments rotate and grow instead of morphing their outline.
+ */
+function interpolateArcMark(from: ArcMark, to: ArcMark, t: number): ArcMark {
+  const startAngle = lerp(from.startAngle, to.startAngle, t);
+  const sweep = lerp(
+    from.endAngle - from.startAngle,
+    to.endAngle - to.startAngle,
+    t,
+  );
 
   return {
     ...to,
-    d,
+    cornerRadius: lerpOptional(from.cornerRadius, to.cornerRadius, t),
+    cx: lerp(from.cx, to.cx, t),
+    cy: lerp(from.cy, to.cy, t),
+    endAngle: startAngle + sweep,
     fillOpacity: lerpOptional(from.fillOpacity, to.fillOpacity, t),
+    innerR: lerp(from.innerR, to.innerR, t),
     opacity: lerpOptional(from.opacity, to.opacity, t),
+    outerR: lerp(from.outerR, to.outerR, t),
+    padAngle: lerpOptional(from.padAngle, to.padAngle, t),
+    startAngle,
     strokeOpacity: lerpOptional(from.strokeOpacity, to.strokeOpacity, t),
     strokeWidth: lerpOptional(from.strokeWidth, to.strokeWidth, t),
   };
@@ -378,36 +291,38 @@ export function interpolateMark(from: Mark, to: Mark, t: number): Mark {
       return interpolateLineMark(from, to as LineMark, t);
     case "text":
       return interpolateTextMark(from, to as TextMark, t);
-    case "path": {
-      const toPath = to as PathMark;
-      if (isDonutSegmentMark(from) || isDonutSegmentMark(toPath)) {
-        return interpolateDonutPathMark(from, toPath, t);
-      }
-      return interpolatePathMark(from, toPath, t);
-    }
+    case "polyline":
+      return interpolatePolylineMark(from, to as PolylineMark, t);
+    case "area":
+      return interpolateAreaMark(from, to as AreaMark, t);
+    case "group":
+      return interpolateGroupMark(from, to as GroupMark, t);
+    case "arc":
+      return interpolateArcMark(from, to as ArcMark, t);
+    case "path":
+      return interpolatePathMark(from, to as PathMark, t);
     default:
       return to;
   }
 }
 
 /**
- * Interpolate a RenderModel between two states.
- * Matches marks by ID and interpolates matching pairs.
+ * Interpolate a list of marks, matching by ID.
  * New marks appear immediately; removed marks disappear immediately.
  */
-export function interpolateModel(
-  from: RenderModel,
-  to: RenderModel,
+function interpolateMarks(
+  from: ReadonlyArray<Mark>,
+  to: ReadonlyArray<Mark>,
   t: number,
-): RenderModel {
+): Mark[] {
   // Build map of existing marks by ID
   const fromById = new Map<string, Mark>();
-  for (const mark of from.marks) {
+  for (const mark of from) {
     fromById.set(mark.id, mark);
   }
 
   // Interpolate marks that exist in target
-  const interpolatedMarks = to.marks.map((toMark) => {
+  return to.map((toMark) => {
     const fromMark = fromById.get(toMark.id);
     if (fromMark) {
       return interpolateMark(fromMark, toMark, t);
@@ -415,11 +330,21 @@ export function interpolateModel(
     // New mark: appear immediately
     return toMark;
   });
+}
 
+/**
+ * Interpolate a RenderModel between two states.
+ * Matches marks by ID (recursing into groups) and interpolates matching pairs.
+ */
+export function interpolateModel(
+  from: RenderModel,
+  to: RenderModel,
+  t: number,
+): RenderModel {
   return {
     ...to,
     height: lerp(from.height, to.height, t),
-    marks: interpolatedMarks,
+    marks: interpolateMarks(from.marks, to.marks, t),
     // Interpolate viewport dimensions
     width: lerp(from.width, to.width, t),
   };
@@ -1,5 +1,5 @@
 import type { PathMark } from "../model";
-import { lerp } from "./interpolation";
+import { lerp, lerpDashOffset } from "./interpolation";
 
 /**
  * Parsed SVG path command with type and numeric arguments.
@@ -23,7 +23,42 @@ const PATH_COMMAND_REGEX =
 const NUMBER_REGEX = /-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g;
 
 /**
- * Parse an SVG path d attribute into an array of commands.
+ * Argument count per command. Extra arguments repeat the command (after `M`
+ * they are implicit `L`s).
+ */
+const COMMAND_ARITY: Record<string, number> = {
+  A: 7,
+  C: 6,
+  H: 1,
+  L: 2,
+  M: 2,
+  Q: 4,
+  S: 4,
+  T: 2,
+  V: 1,
+  Z: 0,
+};
+
+function pushCommand(
+  commands: PathCommand[],
+  type: string,
+  args: number[],
+): void {
+  const arity = COMMAND_ARITY[type.toUpperCase()] ?? 0;
+  if (arity === 0 || args.length <= arity || args.length % arity !== 0) {
+    commands.push({ args, type });
+    return;
+  }
+  for (let i = 0; i < args.length; i += arity) {
+    const repeatType =
+      i === 0 ? type : type === "M" ? "L" : type === "m" ? "l" : type;
+    commands.push({ args: args.slice(i, i + arity), type: repeatType });
+  }
+}
+
+/**
+ * Parse an SVG path d attribute into an array of commands. Implicit repeats
+ * (`C` with 12 arguments, `M` followed by extra pairs) become one command each.
  *
  * @example
  * parsePath("M 0 0 L 10 20 Z")
@@ -53,7 +88,7 @@ export function parsePath(d: string): PathCommand[] {
       }
     }
 
-    commands.push({ args, type });
+    pushCommand(commands, type, args);
     match = PATH_COMMAND_REGEX.exec(d);
   }
 
@@ -92,22 +127,117 @@ export function arePathsCompatible(
   );
 }
 
+/** Absolute end point of each command, for promoting lines to cubics. */
+function commandEndPoints(
+  commands: PathCommand[],
+): Array<{ x: number; y: number } | null> {
+  const ends: Array<{ x: number; y: number } | null> = [];
+  let pen: { x: number; y: number } | null = null;
+  let start: { x: number; y: number } | null = null;
+  for (const cmd of commands) {
+    const n = cmd.args.length;
+    switch (cmd.type) {
+      case "M":
+      case "L":
+      case "C":
+      case "Q":
+      case "T":
+      case "S":
+      case "A":
+        pen = { x: cmd.args[n - 2] ?? 0, y: cmd.args[n - 1] ?? 0 };
+        if (cmd.type === "M") start = pen;
+        break;
+      case "H":
+        pen = pen ? { x: cmd.args[0] ?? 0, y: pen.y } : null;
+        break;
+      case "V":
+        pen = pen ? { x: pen.x, y: cmd.args[0] ?? 0 } : null;
+        break;
+      case "Z":
+        pen = start;
+        break;
+      default:
+        // Relative commands: stop tracking.
+        pen = null;
+    }
+    ends.push(pen);
+  }
+  return ends;
+}
+
+function lineAsCubic(
+  from: { x: number; y: number },
+  to: PathCommand,
+): PathCommand {
+  const [x = 0, y = 0] = to.args;
+  return {
+    args: [
+      from.x + (x - from.x) / 3,
+      from.y + (y - from.y) / 3,
+      from.x + ((x - from.x) * 2) / 3,
+      from.y + ((y - from.y) * 2) / 3,
+      x,
+      y,
+    ],
+    type: "C",
+  };
+}
+
+/**
+ * Make two paths interpolatable when they differ only in `L` vs `C` at the
+ * same positions (a straight line morphing into a curve). Each such `L` is
+ * rewritten as the equivalent straight cubic. Returns null when the paths
+ * differ in any other way.
+ */
+export function alignPathCommands(
+  a: PathCommand[],
+  b: PathCommand[],
+): [PathCommand[], PathCommand[]] | null {
+  if (arePathsCompatible(a, b)) return [a, b];
+  if (a.length !== b.length) return null;
+
+  const endsA = commandEndPoints(a);
+  const endsB = commandEndPoints(b);
+  const outA: PathCommand[] = [];
+  const outB: PathCommand[] = [];
+  for (let i = 0; i < a.length; i++) {
+    let ca = a[i];
+    let cb = b[i];
+    if (ca.type === "L" && cb.type === "C") {
+      const pen = endsA[i - 1];
+      if (!pen) return null;
+      ca = lineAsCubic(pen, ca);
+    } else if (ca.type === "C" && cb.type === "L") {
+      const pen = endsB[i - 1];
+      if (!pen) return null;
+      cb = lineAsCubic(pen, cb);
+    }
+    if (ca.type !== cb.type || ca.args.length !== cb.args.length) return null;
+    outA.push(ca);
+    outB.push(cb);
+  }
+  return [outA, outB];
+}
+
 /**
- * Interpolate between two compatible path command arrays.
- * If paths are incompatible, returns the target immediately.
+ * Interpolate between two path command arrays. Lines facing cubics are
+ * promoted (see `alignPathCommands`); other incompatible paths return the
+ * target immediately.
  */
 export function interpolatePath(
   from: PathCommand[],
   to: PathCommand[],
   t: number,
 ): PathCommand[] {
-  if (!arePathsCompatible(from, to)) {
+  const aligned = alignPathCommands(from, to);
+  if (!aligned) {
     // Incompatible paths: snap to target
     return to;
   }
 
-  return from.map((cmd, i) => ({
-    args: cmd.args.map((arg, j) => lerp(arg, to[i].args[j], t)),
+  const [a, b] = aligned;
+  return a.map((cmd, i) => ({
+    args: cmd.args.map((arg, j) => lerp(arg, b[i].args[j], t)),
     type: cmd.type,
   }));
 }
@@ -122,15 +252,14 @@ export function interpolatePathMark(
   to: PathMark,
   t: number,
 ): PathMark {
-  const fromCmds = parsePath(from.d);
-  const toCmds = parsePath(to.d);
+  const aligned = alignPathCommands(parsePath(from.d), parsePath(to.d));
 
-  if (!arePathsCompatible(fromCmds, toCmds)) {
+  if (!aligned) {
     // Incompatible paths: snap to target
     return t < 1 ? from : to;
   }
 
-  const interpolated = interpolatePath(fromCmds, toCmds, t);
+  const interpolated = interpolatePath(aligned[0], aligned[1], t);
 
   return {
     ...to,
@@ -148,6 +277,11 @@ export function interpolatePathMark(
         : t < 1
           ? from.opacity
           : to.opacity,
+    strokeDashoffset: lerpDashOffset(
+      from.strokeDashoffset,
+      to.strokeDashoffset,
+      t,
+    ),
     strokeOpacity:
       from.strokeOpacity !== undefined && to.strokeOpacity !== undefined
         ? lerp(from.strokeOpacity, to.strokeOpacity, t)
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { ArcMark } from "../model";
+import { arcBounds, pointInArc, resolveArcSweep } from "./arc";
+
+const quarter: ArcMark = {
+  cx: 50,
+  cy: 50,
+  endAngle: 0,
+  id: "a",
+  innerR: 10,
+  outerR: 20,
+  startAngle: -Math.PI / 2,
+  type: "arc",
+};
+
+describe("arcBounds", () => {
+  it("bounds a quarter ring using its end points and cardinal extremes", () => {
+    const bounds = arcBounds(quarter);
+    expect(bounds?.minX).toBeCloseTo(50);
+    expect(bounds?.maxX).toBeCloseTo(70);
+    expect(bounds?.minY).toBeCloseTo(30);
+    expect(bounds?.maxY).toBeCloseTo(50);
+  });
+
+  it("bounds full rings as the outer circle", () => {
+    const bounds = arcBounds({ ...quarter, endAngle: Math.PI * 1.5 });
+    expect(bounds).toEqual({ maxX: 70, maxY: 70, minX: 30, minY: 30 });
+  });
+});
+
+describe("resolveArcSweep", () => {
+  it("trims padAngle from both ends and orders the sweep", () => {
+    expect(
+      resolveArcSweep({ endAngle: 0, padAngle: 0.2, startAngle: 1 }),
+    ).toEqual({ end: 0.9, start: 0.1 });
+    expect(
+      resolveArcSweep({ endAngle: 0.1, padAngle: 0.2, startAngle: 0 }),
+    ).toBeNull();
+  });
+});
+
+describe("pointInArc", () => {
+  it("tests radius and angle, wrapping across ±π", () => {
+    expect(pointInArc(quarter, { x: 62, y: 38 })).toBe(true);
+    expect(pointInArc(quarter, { x: 52, y: 48 })).toBe(false);
+    expect(pointInArc(quarter, { x: 38, y: 62 })).toBe(false);
+
+    const wrapped: ArcMark = {
+      ...quarter,
+      endAngle: Math.PI * 1.25,
+      startAngle: Math.PI * 0.75,
+    };
+    expect(pointInArc(wrapped, { x: 35, y: 50 })).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import type { ArcMark } from "../model";
+
+type Point = { x: number; y: number };
+type Bounds = { maxX: number; maxY: number; minX: number; minY: number };
+
+const TAU = Math.PI * 2;
+const EPSILON = 1e-6;
+
+/**
+ * Returns the drawn sweep of an arc mark as `start <= end`, after trimming
+ * `padAngle`. The sweep is capped at a full turn; null when nothing is drawn.
+ * Shared by hit testing, bounds and every renderer.
+ */
+export function resolveArcSweep(
+  mark: Pick<ArcMark, "startAngle" | "endAngle" | "padAngle">,
+): { start: number; end: number } | null {
+  let start = Math.min(mark.startAngle, mark.endAngle);
+  let end = Math.max(mark.startAngle, mark.endAngle);
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
+  if (end - start >= TAU - EPSILON) return { end: start + TAU, start };
+
+  const pad = Math.max(0, mark.padAngle ?? 0);
+  start += pad / 2;
+  end -= pad / 2;
+  return end - start > EPSILON ? { end, start } : null;
+}
+
+function angleInSweep(angle: number, start: number, end: number): boolean {
+  if (end - start >= TAU) return true;
+  const offset = (((angle - start) % TAU) + TAU) % TAU;
+  return offset <= end - start;
+}
+
+/**
+ * Axis-aligned bounds of an arc mark (corner rounding is ignored, so the
+ * result is conservative).
+ */
+export function arcBounds(mark: ArcMark): Bounds | null {
+  const angles = resolveArcSweep(mark);
+  if (!angles) return null;
+  const outerR = Math.max(0, mark.outerR);
+  const innerR = Math.max(0, Math.min(mark.innerR, outerR));
+
+  const points: Point[] = [];
+  const addPolar = (r: number, angle: number) =>
+    points.push({
+      x: mark.cx + r * Math.cos(angle),
+      y: mark.cy + r * Math.sin(angle),
+    });
+
+  for (const angle of [angles.start, angles.end]) {
+    addPolar(outerR, angle);
+    addPolar(innerR, angle);
+  }
+  // Extremes of the outer edge fall on the cardinal directions in the sweep.
+  for (let k = 0; k < 4; k++) {
+    const cardinal = (k * Math.PI) / 2;
+    if (angleInSweep(cardinal, angles.start, angles.end))
+      addPolar(outerR, cardinal);
+  }
+
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+
+  if (!Number.isFinite(minX) || !Number.isFinite(minY)) return null;
+  if (!Number.isFinite(maxX) || !Number.isFinite(maxY)) return null;
+  return { maxX, maxY, minX, minY };
+}
+
+/**
+ * Exact polar containment test: the point's radius must fall within
+ * `[innerR, outerR]` (widened by `radialTolerance`) and its angle within the
+ * drawn sweep.
+ */
+export function pointInArc(
+  mark: ArcMark,
+  point: Point,
+  radialTolerance = 0,
+): boolean {
+  const angles = resolveArcSweep(mark);
+  if (!angles) return false;
+
+  const dx = point.x - mark.cx;
+  const dy = point.y - mark.cy;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  const tol = Math.max(0, radialTolerance);
+  if (dist < mark.innerR - tol || dist > mark.outerR + tol) return false;
+  if (dist === 0) return mark.innerR - tol <= 0;
+
+  return angleInSweep(Math.atan2(dy, dx), angles.start, angles.end);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { curveAreaPath, curvePath } from "./curve";
+import { pathAnchors, pathBounds } from "./path";
+
+const points = [
+  { x: 0, y: 20 },
+  { x: 10, y: 0 },
+  { x: 20, y: 10 },
+  { x: 30, y: 10 },
+];
+
+describe("curvePath", () => {
+  it("joins points with straight lines by default", () => {
+    expect(curvePath(points.slice(0, 2))).toBe("M 0.00 20.00 L 10.00 0.00");
+  });
+
+  it("draws steps with H/V corners", () => {
+    expect(curvePath(points.slice(0, 2), "step-after")).toBe(
+      "M 0.00 20.00 H 10.00 L 10.00 0.00",
+    );
+    expect(curvePath(points.slice(0, 2), "step-before")).toBe(
+      "M 0.00 20.00 V 0.00 L 10.00 0.00",
+    );
+  });
+
+  it("keeps one anchor per point for every curve", () => {
+    for (const curve of [
+      "linear",
+      "monotone",
+      "catmullRom",
+      "step-before",
+      "step-after",
+      "basis",
+    ] as const) {
+      expect(pathAnchors(curvePath(points, curve))).toHaveLength(4);
+    }
+  });
+
+  it("passes through the points without overshooting when monotone", () => {
+    const d = curvePath(points, "monotone");
+    expect(pathAnchors(d)).toEqual(points);
+    expect(pathBounds(d)).toEqual({ maxX: 30, maxY: 20, minX: 0, minY: 0 });
+  });
+
+  it("overshoots the extrema with catmullRom", () => {
+    const bounds = pathBounds(curvePath(points, "catmullRom"));
+    expect(bounds?.minY).toBeLessThan(0);
+  });
+
+  it("pins basis curves to the first and last points", () => {
+    const anchors = pathAnchors(curvePath(points, "basis")) ?? [];
+    expect(anchors[0]).toEqual(points[0]);
+    expect(anchors[3]).toEqual(points[3]);
+    expect(anchors[1]?.y).toBeGreaterThan(0);
+  });
+});
+
+describe("curveAreaPath", () => {
+  it("closes the curve down to the baseline", () => {
+    const d = curveAreaPath(points, 30, "monotone");
+    expect(d.endsWith("V 30.00 H 0.00 Z")).toBe(true);
+    expect(pathBounds(d)?.maxY).toBe(30);
+  });
+});
@@ -0,0 +1,190 @@
+import type { CurveType } from "../charts/types";
+
+type Point = { x: number; y: number };
+
+function fmt(n: number): string {
+  return n.toFixed(2);
+}
+
+function pair(p: Point): string {
+  return `${fmt(p.x)} ${fmt(p.y)}`;
+}
+
+function cubic(c1: Point, c2: Point, to: Point): string {
+  return `C ${pair(c1)} ${pair(c2)} ${pair(to)}`;
+}
+
+function sign(n: number): number {
+  return n < 0 ? -1 : 1;
+}
+
+/**
+ * Fritsch–Carlson tangents: interior slopes are zeroed at local extrema and
+ * capped elsewhere, so each segment stays between its endpoints' y values.
+ */
+function monotoneTangents(points: ReadonlyArray<Point>): number[] {
+  const n = points.length;
+  const secants: number[] = [];
+  for (let i = 0; i + 1 < n; i++) {
+    const a = points[i] as Point;
+    const b = points[i + 1] as Point;
+    const h = b.x - a.x;
+    secants.push(h === 0 ? 0 : (b.y - a.y) / h);
+  }
+
+  const tangents = new Array<number>(n).fill(0);
+  for (let i = 1; i + 1 < n; i++) {
+    const s0 = secants[i - 1] ?? 0;
+    const s1 = secants[i] ?? 0;
+    if (s0 * s1 <= 0) continue;
+    const h0 = (points[i] as Point).x - (points[i - 1] as Point).x;
+    const h1 = (points[i + 1] as Point).x - (points[i] as Point).x;
+    const p = (s0 * h1 + s1 * h0) / (h0 + h1);
+    tangents[i] =
+      (sign(s0) + sign(s1)) *
+        Math.min(Math.abs(s0), Math.abs(s1), 0.5 * Math.abs(p)) || 0;
+  }
+  if (n > 2) {
+    tangents[0] = (3 * (secants[0] ?? 0) - (tangents[1] ?? 0)) / 2;
+    tangents[n - 1] = (3 * (secants[n - 2] ?? 0) - (tangents[n - 2] ?? 0)) / 2;
+  } else {
+    tangents[0] = secants[0] ?? 0;
+    tangents[n - 1] = secants[0] ?? 0;
+  }
+  return tangents;
+}
+
+function monotoneCommands(points: ReadonlyArray<Point>): string[] {
+  const tangents = monotoneTangents(points);
+  const out: string[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1] as Point;
+    const b = points[i] as Point;
+    const h = (b.x - a.x) / 3;
+    out.push(
+      cubic(
+        { x: a.x + h, y: a.y + (tangents[i - 1] ?? 0) * h },
+        { x: b.x - h, y: b.y - (tangents[i] ?? 0) * h },
+        b,
+      ),
+    );
+  }
+  return out;
+}
+
+/** Uniform Catmull–Rom; the end points stand in for their missing neighbours. */
+function catmullRomCommands(points: ReadonlyArray<Point>): string[] {
+  const out: string[] = [];
+  const at = (i: number) =>
+    points[Math.min(points.length - 1, Math.max(0, i))] as Point;
+  for (let i = 1; i < points.length; i++) {
+    const p0 = at(i - 2);
+    const p1 = at(i - 1);
+    const p2 = at(i);
+    const p3 = at(i + 1);
+    out.push(
+      cubic(
+        { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+        { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+        p2,
+      ),
+    );
+  }
+  return out;
+}
+
+/**
+ * Uniform cubic B-spline. Reflected phantom points pin the ends to the first
+ * and last data points; interior points only pull the curve towards them.
+ */
+function basisCommands(points: ReadonlyArray<Point>): {
+  start: Point;
+  commands: string[];
+} {
+  const n = points.length;
+  const first = points[0] as Point;
+  const last = points[n - 1] as Point;
+  const at = (i: number): Point => {
+    if (i < 0) {
+      const next = points[1] as Point;
+      return { x: 2 * first.x - next.x, y: 2 * first.y - next.y };
+    }
+    if (i >= n) {
+      const prev = points[n - 2] as Point;
+      return { x: 2 * last.x - prev.x, y: 2 * last.y - prev.y };
+    }
+    return points[i] as Point;
+  };
+  const knot = (i: number): Point => {
+    const a = at(i - 1);
+    const b = at(i);
+    const c = at(i + 1);
+    return { x: (a.x + 4 * b.x + c.x) / 6, y: (a.y + 4 * b.y + c.y) / 6 };
+  };
+
+  const commands: string[] = [];
+  for (let i = 0; i + 1 < n; i++) {
+    const a = at(i);
+    const b = at(i + 1);
+    commands.push(
+      cubic(
+        { x: (2 * a.x + b.x) / 3, y: (2 * a.y + b.y) / 3 },
+        { x: (a.x + 2 * b.x) / 3, y: (a.y + 2 * b.y) / 3 },
+        knot(i + 1),
+      ),
+    );
+  }
+  return { commands, start: knot(0) };
+}
+
+/**
+ * Path data through `points` (in x order) for the given curve. Each point
+ * after the first ends exactly one `L` or `C` command (step corners use
+ * `H`/`V`), so path anchors stay parallel to the points.
+ */
+export function curvePath(
+  points: ReadonlyArray<Point>,
+  curve: CurveType = "linear",
+): string {
+  const first = points[0];
+  if (!first) return "";
+  if (points.length === 1) return `M ${pair(first)}`;
+
+  if (curve === "basis") {
+    const { commands, start } = basisCommands(points);
+    return [`M ${pair(start)}`, ...commands].join(" ");
+  }
+
+  let commands: string[];
+  switch (curve) {
+    case "monotone":
+      commands = monotoneCommands(points);
+      break;
+    case "catmullRom":
+      commands = catmullRomCommands(points);
+      break;
+    case "step-after":
+      commands = points.slice(1).map((p) => `H ${fmt(p.x)} L ${pair(p)}`);
+      break;
+    case "step-before":
+      commands = points.slice(1).map((p) => `V ${fmt(p.y)} L ${pair(p)}`);
+      break;
+    default:
+      commands = points.slice(1).map((p) => `L ${pair(p)}`);
+  }
+  return [`M ${pair(first)}`, ...commands].join(" ");
+}
+
+/**
+ * Closed area path: the curve through `points`, then down to `baseline` and
+ * back to the first x.
+ */
+export function curveAreaPath(
+  points: ReadonlyArray<Point>,
+  baseline: number,
+  curve: CurveType = "linear",
+): string {
+  const first = points[0];
+  if (!first) return "";
+  return `${curvePath(points, curve)} V ${fmt(baseline)} H ${fmt(first.x)} Z`;
+}
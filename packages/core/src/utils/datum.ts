@@ -0,0 +1,60 @@
+import type { MarkDatum } from "../model";
+
+/**
+ * Datum for the `index`-th point of a numeric series; `x` is set for series
+ * with explicit x values.
+ */
+export function seriesDatum(
+  value: number,
+  index: number,
+  x?: number,
+): MarkDatum {
+  return x === undefined ? { index, value } : { index, value, x };
+}
+
+/**
+ * Datum for the `index`-th segment of a part-to-whole chart; `value` is the
+ * segment's share in percent.
+ */
+export function segmentDatum(
+  segment: { name?: string; pct?: number },
+  index: number,
+): MarkDatum {
+  const name = segment.name?.trim();
+  return name
+    ? { index, segment: name, value: segment.pct }
+    : { index, value: segment.pct };
+}
+
+/**
+ * Per-vertex datums for a series drawn as a polyline or area. `start` offsets
+ * the indices when `series` is one run of a gap-broken line; `x` holds the
+ * whole series' x values, if any.
+ */
+export function seriesPointData(
+  series: ReadonlyArray<number>,
+  start = 0,
+  x?: ReadonlyArray<number>,
+): ReadonlyArray<MarkDatum> {
+  return series.map((value, i) =>
+    seriesDatum(value, start + i, x?.[start + i]),
+  );
+}
+
+/**
+ * Datum for the `index`-th of `count` evenly resampled positions along a
+ * series: the nearest source point, or none when that point is a gap.
+ */
+export function resampledSeriesDatum(
+  series: ReadonlyArray<number | null>,
+  index: number,
+  count: number,
+): MarkDatum | undefined {
+  if (series.length === 0) return undefined;
+  const source =
+    count <= 1 ? 0 : Math.round((index * (series.length - 1)) / (count - 1));
+  const value = series[source];
+  return value === undefined || value === null
+    ? undefined
+    : seriesDatum(value, source);
+}
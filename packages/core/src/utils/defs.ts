@@ -45,7 +45,8 @@ function matches(matcher: MarkMatcher, mark: Mark): boolean {
 }
 
 /**
- * Apply SVG def-backed fills (e.g. `pattern`, `linearGradient`) to marks using
+ * Apply SVG def-backed fills (e.g. `pattern`, `linearGradient`,
+ * `radialGradient`) to marks using
  * a matcher list similar to nivo's `defs` + `fill` rules.
  *
  * By default, rules only apply when a mark has no explicit `fill` set.
@@ -59,7 +60,9 @@ export function applyFillRules(
   if (rules.length === 0) return [...marks];
 
   return marks.map((mark) => {
-    if (mark.type === "line") return mark;
+    if (mark.type === "line" || mark.type === "polyline") return mark;
+    if (mark.type === "group")
+      return { ...mark, marks: applyFillRules(mark.marks, rules, options) };
     const fill = (mark as Mark & { fill?: string }).fill;
     if (!overwrite && fill !== undefined) return mark;
 
@@ -0,0 +1,51 @@
+import type { GroupTransform } from "../model";
+
+type Point = { x: number; y: number };
+
+function degToRad(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+/**
+ * Maps a point from group-local space into the parent space
+ * (`translate → rotate → scale`, matching the SVG `transform` order).
+ */
+export function applyGroupTransform(
+  transform: GroupTransform | undefined,
+  point: Point,
+): Point {
+  if (!transform) return point;
+  const sx = point.x * (transform.scaleX ?? 1);
+  const sy = point.y * (transform.scaleY ?? 1);
+  const rad = degToRad(transform.rotate ?? 0);
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return {
+    x: sx * cos - sy * sin + (transform.translateX ?? 0),
+    y: sx * sin + sy * cos + (transform.translateY ?? 0),
+  };
+}
+
+/**
+ * Maps a point from the parent space into group-local space.
+ * Returns null when the transform is not invertible (zero scale).
+ */
+export function invertGroupTransform(
+  transform: GroupTransform | undefined,
+  point: Point,
+): Point | null {
+  if (!transform) return point;
+  const scaleX = transform.scaleX ?? 1;
+  const scaleY = transform.scaleY ?? 1;
+  if (scaleX === 0 || scaleY === 0) return null;
+
+  const tx = point.x - (transform.translateX ?? 0);
+  const ty = point.y - (transform.translateY ?? 0);
+  const rad = degToRad(transform.rotate ?? 0);
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return {
+    x: (tx * cos + ty * sin) / scaleX,
+    y: (-tx * sin + ty * cos) / scaleY,
+  };
+}
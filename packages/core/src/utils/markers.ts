@@ -0,0 +1,31 @@
+import type { SeriesMarker } from "../charts/types";
+
+/**
+ * Index of each requested marker in `series`, in request order: the first
+ * occurrence of the minimum or maximum, the first or last non-gap point.
+ * Repeated kinds are dropped; an all-gap series has no markers.
+ */
+export function seriesMarkerIndices(
+  series: ReadonlyArray<number | null>,
+  markers: ReadonlyArray<SeriesMarker>,
+): Array<{ kind: SeriesMarker; index: number }> {
+  let first = -1;
+  let last = -1;
+  let min = -1;
+  let max = -1;
+  series.forEach((v, i) => {
+    if (v === null || !Number.isFinite(v)) return;
+    if (first < 0) first = i;
+    last = i;
+    if (min < 0 || v < (series[min] as number)) min = i;
+    if (max < 0 || v > (series[max] as number)) max = i;
+  });
+  if (first < 0) return [];
+
+  const byKind = { first, last, max, min };
+  const out: Array<{ kind: SeriesMarker; index: number }> = [];
+  for (const kind of new Set(markers)) {
+    if (Object.hasOwn(byKind, kind)) out.push({ index: byKind[kind], kind });
+  }
+  return out;
+}
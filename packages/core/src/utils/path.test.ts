@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { flattenPath, pathAnchors, pathBounds } from "./path";
+
+describe("pathBounds", () => {
+  it("includes cubic extrema, not just end points", () => {
+    expect(pathBounds("M 0 50 C 0 0 100 0 100 50")).toEqual({
+      maxX: 100,
+      maxY: 50,
+      minX: 0,
+      minY: 12.5,
+    });
+  });
+
+  it("includes quadratic extrema and H/V moves", () => {
+    expect(pathBounds("M 0 10 Q 10 -10 20 10 V 30 H 0 Z")).toEqual({
+      maxX: 20,
+      maxY: 30,
+      minX: 0,
+      minY: 0,
+    });
+  });
+
+  it("rejects arcs and relative commands", () => {
+    expect(pathBounds("M 0 0 A 5 5 0 0 1 10 0")).toBeNull();
+    expect(pathBounds("m 0 0 l 10 10")).toBeNull();
+  });
+});
+
+describe("flattenPath", () => {
+  it("samples curves and tracks closed subpaths", () => {
+    const flat = flattenPath("M 0 0 C 0 10 10 10 10 0 Z M 20 0 L 30 0", 4);
+    expect(flat?.closed).toEqual([true, false]);
+    expect(flat?.subpaths[0]).toHaveLength(5);
+    expect(flat?.subpaths[1]).toEqual([
+      { x: 20, y: 0 },
+      { x: 30, y: 0 },
+    ]);
+  });
+});
+
+describe("pathAnchors", () => {
+  it("expands implicit repeats and skips H/V corners", () => {
+    expect(pathAnchors("M 0 0 5 5 H 10 L 10 10")).toEqual([
+      { x: 0, y: 0 },
+      { x: 5, y: 5 },
+      { x: 10, y: 10 },
+    ]);
+  });
+});
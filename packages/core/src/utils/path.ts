@@ -0,0 +1,237 @@
+type Point = { x: number; y: number };
+type Bounds = { maxX: number; maxY: number; minX: number; minY: number };
+
+/**
+ * One drawing command of absolute path data. `to` is where the pen ends up;
+ * `controls` holds the Bézier control points of `C` and `Q`.
+ */
+type PathSegment = {
+  command: "C" | "H" | "L" | "M" | "Q" | "V" | "Z";
+  controls: Point[];
+  to: Point;
+};
+
+const ARITY = { C: 6, H: 1, L: 2, M: 2, Q: 4, V: 1, Z: 0 } as const;
+
+function isSupportedCommand(cmd: string): cmd is keyof typeof ARITY {
+  return Object.hasOwn(ARITY, cmd);
+}
+
+/**
+ * Parses absolute `M`/`L`/`H`/`V`/`C`/`Q`/`Z` path data, expanding implicit
+ * repeats. Returns null for anything else (arcs, relative commands, malformed
+ * numbers) so callers can bail out instead of guessing.
+ */
+function parseSegments(d: string): PathSegment[] | null {
+  const tokens = d.match(/[a-zA-Z]|-?\d*\.?\d+(?:e[-+]?\d+)?/gi);
+  if (!tokens || tokens.length === 0) return null;
+
+  const segments: PathSegment[] = [];
+  let pen: Point | null = null;
+  let start: Point | null = null;
+
+  for (let i = 0; i < tokens.length; ) {
+    const cmd = tokens[i] ?? "";
+    if (!isSupportedCommand(cmd)) return null;
+    i++;
+
+    if (cmd === "Z") {
+      if (!pen || !start) return null;
+      segments.push({ command: "Z", controls: [], to: start });
+      pen = start;
+      continue;
+    }
+
+    const arity = ARITY[cmd];
+    let repeat = 0;
+    // Extra argument groups repeat the command (after M they are implicit Ls).
+    while (i + arity <= tokens.length) {
+      const args: number[] = [];
+      for (let k = 0; k < arity; k++) {
+        const n = Number(tokens[i + k]);
+        if (!Number.isFinite(n)) break;
+        args.push(n);
+      }
+      if (args.length < arity) break;
+      i += arity;
+
+      const command = cmd === "M" && repeat > 0 ? "L" : cmd;
+      if (command !== "M" && !pen) return null;
+      const [a = 0, b = 0, c = 0, e = 0, f = 0, g = 0] = args;
+      const segment: PathSegment =
+        command === "H"
+          ? { command, controls: [], to: { x: a, y: pen?.y ?? 0 } }
+          : command === "V"
+            ? { command, controls: [], to: { x: pen?.x ?? 0, y: a } }
+            : command === "C"
+              ? {
+                  command,
+                  controls: [
+                    { x: a, y: b },
+                    { x: c, y: e },
+                  ],
+                  to: { x: f, y: g },
+                }
+              : command === "Q"
+                ? { command, controls: [{ x: a, y: b }], to: { x: c, y: e } }
+                : { command, controls: [], to: { x: a, y: b } };
+      segments.push(segment);
+      pen = segment.to;
+      if (command === "M") start = segment.to;
+      repeat++;
+    }
+    if (repeat === 0) return null;
+  }
+
+  return segments;
+}
+
+function cubicAt(p0: number, p1: number, p2: number, p3: number, t: number) {
+  const u = 1 - t;
+  return u * u * u * p0 + 3 * u * u * t * p1 + 3 * u * t * t * p2 + t ** 3 * p3;
+}
+
+function quadAt(p0: number, p1: number, p2: number, t: number) {
+  const u = 1 - t;
+  return u * u * p0 + 2 * u * t * p1 + t * t * p2;
+}
+
+function segmentAt(from: Point, segment: PathSegment, t: number): Point {
+  const [c1, c2] = segment.controls;
+  const to = segment.to;
+  if (segment.command === "C" && c1 && c2)
+    return {
+      x: cubicAt(from.x, c1.x, c2.x, to.x, t),
+      y: cubicAt(from.y, c1.y, c2.y, to.y, t),
+    };
+  if (segment.command === "Q" && c1)
+    return {
+      x: quadAt(from.x, c1.x, to.x, t),
+      y: quadAt(from.y, c1.y, to.y, t),
+    };
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+  };
+}
+
+/** Parameters in (0, 1) where one axis of a curve segment turns around. */
+function extremaParams(from: Point, segment: PathSegment): number[] {
+  const [c1, c2] = segment.controls;
+  const out: number[] = [];
+  const axes = ["x", "y"] as const;
+  for (const axis of axes) {
+    const p0 = from[axis];
+    if (segment.command === "Q" && c1) {
+      const denom = p0 - 2 * c1[axis] + segment.to[axis];
+      if (denom !== 0) out.push((p0 - c1[axis]) / denom);
+    } else if (segment.command === "C" && c1 && c2) {
+      // Roots of the derivative: a t² + b t + c = 0.
+      const p1 = c1[axis];
+      const p2 = c2[axis];
+      const p3 = segment.to[axis];
+      const a = -p0 + 3 * p1 - 3 * p2 + p3;
+      const b = 2 * (p0 - 2 * p1 + p2);
+      const c = p1 - p0;
+      if (Math.abs(a) < 1e-12) {
+        if (b !== 0) out.push(-c / b);
+      } else {
+        const disc = b * b - 4 * a * c;
+        if (disc >= 0) {
+          const root = Math.sqrt(disc);
+          out.push((-b + root) / (2 * a), (-b - root) / (2 * a));
+        }
+      }
+    }
+  }
+  return out.filter((t) => t > 0 && t < 1);
+}
+
+/**
+ * Exact axis-aligned bounds of absolute line/Bézier path data (curve extrema
+ * included, not just control points). Null when the path can't be parsed.
+ */
+export function pathBounds(d: string): Bounds | null {
+  const segments = parseSegments(d);
+  if (!segments) return null;
+
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  const include = (p: Point) => {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  };
+
+  let pen: Point | null = null;
+  for (const segment of segments) {
+    include(segment.to);
+    if (pen) {
+      for (const t of extremaParams(pen, segment))
+        include(segmentAt(pen, segment, t));
+    }
+    pen = segment.to;
+  }
+
+  if (!Number.isFinite(minX) || !Number.isFinite(minY)) return null;
+  if (!Number.isFinite(maxX) || !Number.isFinite(maxY)) return null;
+  return { maxX, maxY, minX, minY };
+}
+
+export type FlattenedPath = {
+  subpaths: ReadonlyArray<ReadonlyArray<Point>>;
+  closed: ReadonlyArray<boolean>;
+};
+
+/**
+ * Approximates path data as polylines, sampling each Bézier segment at
+ * `curveSteps` intervals. Null when the path can't be parsed.
+ */
+export function flattenPath(d: string, curveSteps = 12): FlattenedPath | null {
+  const segments = parseSegments(d);
+  if (!segments) return null;
+
+  const subpaths: Point[][] = [];
+  const closed: boolean[] = [];
+  let current: Point[] | null = null;
+
+  for (const segment of segments) {
+    if (segment.command === "M") {
+      current = [segment.to];
+      subpaths.push(current);
+      closed.push(false);
+      continue;
+    }
+    if (!current) return null;
+    if (segment.command === "Z") {
+      closed[closed.length - 1] = true;
+      continue;
+    }
+
+    const from = current[current.length - 1] ?? segment.to;
+    if (segment.command === "C" || segment.command === "Q") {
+      for (let s = 1; s < curveSteps; s++)
+        current.push(segmentAt(from, segment, s / curveSteps));
+    }
+    current.push(segment.to);
+  }
+
+  if (subpaths.length === 0) return null;
+  return { closed, subpaths };
+}
+
+/**
+ * On-curve anchor points: where each `M`, `L`, `C` and `Q` command ends.
+ * `H`/`V` corners are skipped, so step paths can pair anchors with data
+ * points. Null when the path can't be parsed.
+ */
+export function pathAnchors(d: string): Point[] | null {
+  const segments = parseSegments(d);
+  if (!segments) return null;
+  return segments
+    .filter((s) => s.command !== "H" && s.command !== "V" && s.command !== "Z")
+    .map((s) => s.to);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { areaOutline, lerpPoints, pointsBounds, readPoints } from "./points";
+
+describe("readPoints", () => {
+  it("pairs interleaved coordinates and drops a trailing odd value", () => {
+    expect(readPoints(new Float32Array([1, 2, 3, 4, 5]))).toEqual([
+      { x: 1, y: 2 },
+      { x: 3, y: 4 },
+    ]);
+  });
+});
+
+describe("pointsBounds", () => {
+  it("extends the bounds to the baseline", () => {
+    expect(pointsBounds([0, 10, 20, 5], 30)).toEqual({
+      maxX: 20,
+      maxY: 30,
+      minX: 0,
+      minY: 5,
+    });
+    expect(pointsBounds([])).toBeNull();
+  });
+});
+
+describe("areaOutline", () => {
+  it("drops the last and first points onto the baseline", () => {
+    expect(areaOutline({ baseline: 30, points: [0, 10, 20, 5] })).toEqual([
+      { x: 0, y: 10 },
+      { x: 20, y: 5 },
+      { x: 20, y: 30 },
+      { x: 0, y: 30 },
+    ]);
+  });
+});
+
+describe("lerpPoints", () => {
+  it("keeps the target buffer kind", () => {
+    const mid = lerpPoints([0, 0], new Float32Array([10, 20]), 0.5);
+    expect(mid).toBeInstanceOf(Float32Array);
+    expect(Array.from(mid)).toEqual([5, 10]);
+  });
+});
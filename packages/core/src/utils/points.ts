@@ -0,0 +1,111 @@
+import type { AreaMark, PointBuffer } from "../model";
+
+type Point = { x: number; y: number };
+type Bounds = { maxX: number; maxY: number; minX: number; minY: number };
+
+/**
+ * Number of complete (x, y) pairs in a point buffer.
+ */
+export function pointCount(points: PointBuffer): number {
+  return Math.floor(points.length / 2);
+}
+
+/**
+ * Expands a point buffer into point objects (for polygon/segment helpers).
+ */
+export function readPoints(points: PointBuffer): Point[] {
+  const count = pointCount(points);
+  const out: Point[] = new Array(count);
+  for (let i = 0; i < count; i++)
+    out[i] = { x: points[i * 2] ?? 0, y: points[i * 2 + 1] ?? 0 };
+  return out;
+}
+
+/**
+ * Closed outline of an area mark: the points, then (when a baseline is set) the
+ * last and first x positions dropped onto the baseline.
+ */
+export function areaOutline(
+  mark: Pick<AreaMark, "points" | "baseline">,
+): Point[] {
+  const outline = readPoints(mark.points);
+  const { baseline } = mark;
+  if (baseline === undefined || outline.length === 0) return outline;
+
+  const last = outline[outline.length - 1];
+  const first = outline[0];
+  if (last) outline.push({ x: last.x, y: baseline });
+  if (first) outline.push({ x: first.x, y: baseline });
+  return outline;
+}
+
+/**
+ * Axis-aligned bounds of a point buffer, optionally extended to a baseline y.
+ */
+export function pointsBounds(
+  points: PointBuffer,
+  baseline?: number,
+): Bounds | null {
+  const count = pointCount(points);
+  if (count === 0) return null;
+
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = baseline ?? Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = baseline ?? Number.NEGATIVE_INFINITY;
+  for (let i = 0; i < count; i++) {
+    const x = points[i * 2] ?? Number.NaN;
+    const y = points[i * 2 + 1] ?? Number.NaN;
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  if (!Number.isFinite(minX) || !Number.isFinite(minY)) return null;
+  if (!Number.isFinite(maxX) || !Number.isFinite(maxY)) return null;
+  return { maxX, maxY, minX, minY };
+}
+
+/**
+ * Interpolates two point buffers coordinate-wise. When the point counts
+ * differ, `from` is resampled along its index to the target count so series
+ * that grow or shrink still morph smoothly. The result keeps the target's
+ * buffer kind (typed array vs. plain array).
+ */
+export function lerpPoints(
+  from: PointBuffer,
+  to: PointBuffer,
+  t: number,
+): PointBuffer {
+  const n = pointCount(to);
+  const m = pointCount(from);
+  if (m === 0 || n === 0) return to;
+
+  const out: number[] | Float32Array =
+    to instanceof Float32Array ? new Float32Array(n * 2) : new Array(n * 2);
+
+  for (let j = 0; j < n; j++) {
+    let fx: number;
+    let fy: number;
+    if (m === n) {
+      fx = from[j * 2] ?? 0;
+      fy = from[j * 2 + 1] ?? 0;
+    } else {
+      const pos = n > 1 ? (j * (m - 1)) / (n - 1) : 0;
+      const i0 = Math.floor(pos);
+      const i1 = Math.min(m - 1, i0 + 1);
+      const f = pos - i0;
+      const x0 = from[i0 * 2] ?? 0;
+      const y0 = from[i0 * 2 + 1] ?? 0;
+      fx = x0 + ((from[i1 * 2] ?? 0) - x0) * f;
+      fy = y0 + ((from[i1 * 2 + 1] ?? 0) - y0) * f;
+    }
+    const tx = to[j * 2] ?? 0;
+    const ty = to[j * 2 + 1] ?? 0;
+    out[j * 2] = fx + (tx - fx) * t;
+    out[j * 2 + 1] = fy + (ty - fy) * t;
+  }
+
+  return out;
+}
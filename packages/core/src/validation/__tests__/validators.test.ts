@@ -156,8 +156,33 @@ describe("chart-specific validators", () => {
       expect(result).toEqual({ data: [], success: true });
     });
 
+    it("accepts null gaps and reports their count", () => {
+      const result = validateSparklineData([1, null, 3, null]);
+      expect(result).toEqual({
+        data: [1, null, 3, null],
+        gaps: 2,
+        success: true,
+      });
+    });
+
+    it("validates x/y points for line charts", () => {
+      expect(
+        validateChartData({ type: "sparkline" }, [
+          { x: "2025-03-01", y: 1 },
+          { x: "2025-03-02", y: null },
+        ]),
+      ).toMatchObject({ gaps: 1, success: true });
+
+      const result = validateChartData(
+        { type: "sparkline" },
+        { x: ["2025-03-01", "soon"], y: [1, 2] },
+      );
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.errors[0]?.path).toEqual(["x", 1]);
+    });
+
     it("reports invalid items with paths", () => {
-      const result = validateSparklineData([1, "two", 3, null, 5]);
+      const result = validateSparklineData([1, "two", 3, undefined, 5]);
       expect(result.success).toBe(false);
       if (!result.success) {
         expect(result.errors).toMatchInlineSnapshot(`
@@ -176,11 +201,11 @@ describe("chart-specific validators", () => {
 					    "code": "MISSING_VALUE",
 					    "expected": "number",
 					    "hint": "Provide a numeric value",
-					    "message": "Expected number, got null",
+					    "message": "Expected number, got undefined",
 					    "path": [
 					      3,
 					    ],
-					    "received": "null",
+					    "received": "undefined",
 					  },
 					]
 				`);
@@ -218,26 +243,20 @@ describe("chart-specific validators", () => {
       expect(result.success).toBe(true);
     });
 
+    it("accepts segments without a color", () => {
+      const result = validateSegmentData([{ pct: 50 }, { name: "B", pct: 50 }]);
+      expect(result.success).toBe(true);
+    });
+
     it("reports missing required fields", () => {
       const result = validateSegmentData([
-        { pct: 50 }, // missing color
+        { pct: 50 }, // color is optional
         { color: "#f00" }, // missing pct
       ]);
       expect(result.success).toBe(false);
       if (!result.success) {
         expect(result.errors).toMatchInlineSnapshot(`
 					[
-					  {
-					    "code": "MISSING_FIELD",
-					    "expected": "string (hex color like #f00 or #ff0000)",
-					    "hint": "Add color: "#6366f1"",
-					    "message": "Segment missing required field: color",
-					    "path": [
-					      0,
-					      "color",
-					    ],
-					    "received": "undefined",
-					  },
 					  {
 					    "code": "MISSING_FIELD",
 					    "expected": "number (0-100)",
@@ -347,7 +366,7 @@ describe("chart-specific validators", () => {
 					  {
 					    "code": "MISSING_DATA",
 					    "example": "<microviz-donut data='[{"pct": 60, "color": "#6366f1"}, {"pct": 40, "color": "#22c55e"}]'></microviz-donut>",
-					    "expected": "array of segments [{pct, color, name?}]",
+					    "expected": "array of segments [{pct, color?, name?}]",
 					    "hint": "Try: data='[{"pct":50,"color":"#6366f1"}]'",
 					    "message": "Donut chart requires data",
 					    "path": [],
@@ -370,7 +389,7 @@ describe("chart-specific validators", () => {
 					  {
 					    "code": "INVALID_DATA_SHAPE",
 					    "example": "<microviz-donut data='[{"pct": 60, "color": "#6366f1"}, {"pct": 40, "color": "#22c55e"}]'></microviz-donut>",
-					    "expected": "array of segments [{pct, color, name?}]",
+					    "expected": "array of segments [{pct, color?, name?}]",
 					    "hint": "Donut needs segment objects, not plain numbers. Try: [{pct: 50, color: "#6366f1"}]",
 					    "message": "Donut chart expects segment objects, got number array",
 					    "path": [],
@@ -26,6 +26,10 @@ const NUMBER_ARRAY_CHART_TYPES = new Set([
   "sparkline-bars",
 ]);
 
+// Number-array chart types that also accept `{ x, y }` points or parallel
+// `x`/`y` arrays
+const XY_SERIES_CHART_TYPES = new Set(["sparkline", "spark-area"]);
+
 // Chart types that use segment data
 const SEGMENT_CHART_TYPES = new Set(["donut", "bitfield"]);
 
@@ -34,16 +38,42 @@ const SEGMENT_CHART_TYPES = new Set(["donut", "bitfield"]);
  */
 export type Segment = {
   pct: number;
-  color: string;
+  /** Assigned from the chart's palette when absent. */
+  color?: string;
   name?: string;
 };
 
 /**
- * Validate sparkline data (array of numbers).
+ * Result of validating series data. `gaps` counts the `null` values
+ * (missing points) and is omitted when there are none.
+ */
+export type SeriesValidationResult<T> =
+  | { success: true; data: T; gaps?: number }
+  | { success: false; errors: ValidationError[] };
+
+export type SparklineValidationResult = SeriesValidationResult<
+  Array<number | null>
+>;
+
+function withGaps<T>(data: T, gaps: number): SeriesValidationResult<T> {
+  return gaps > 0 ? { data, gaps, success: true } : { data, success: true };
+}
+
+/**
+ * Validate a sparkline value: a finite number, or `null` for a gap.
+ */
+function validateSparklineValue(
+  input: unknown,
+): ValidationResult<number | null> {
+  return input === null ? success(null) : validateNumber(input);
+}
+
+/**
+ * Validate sparkline data (array of numbers, with `null` marking gaps).
  */
 export function validateSparklineData(
   input: unknown,
-): ValidationResult<number[]> {
+): SparklineValidationResult {
   // Handle non-arrays with sparkline-specific hint
   if (!Array.isArray(input)) {
     return fail({
@@ -58,7 +88,100 @@ export function validateSparklineData(
     });
   }
 
-  return validateArray(input, validateNumber);
+  const result = validateArray(input, validateSparklineValue);
+  if (!result.success) return result;
+  return withGaps(result.data, result.data.filter((v) => v === null).length);
+}
+
+function isXValue(input: unknown): boolean {
+  if (typeof input === "number") return Number.isFinite(input);
+  if (input instanceof Date) return Number.isFinite(input.getTime());
+  if (typeof input !== "string" || !input.trim()) return false;
+  return Number.isFinite(Number(input)) || Number.isFinite(Date.parse(input));
+}
+
+function validateXValue(input: unknown): ValidationResult<unknown> {
+  if (isXValue(input)) return success(input);
+  return fail({
+    code: "INVALID_VALUE",
+    expected: "number, Date or date string",
+    hint: 'Use a number or an ISO date like "2025-03-03"',
+    message: "Expected an x value (number or date)",
+    path: [],
+    received: stringify(input),
+  });
+}
+
+function validateXYPoint(input: unknown): ValidationResult<unknown> {
+  if (typeof input !== "object" || input === null || !("x" in input)) {
+    return fail({
+      code: "INVALID_TYPE",
+      expected: "object with {x, y}",
+      hint: 'Use: {x: "2025-03-03", y: 42}',
+      message: "Point must be an object with x and y",
+      path: [],
+      received: stringify(input),
+    });
+  }
+  const { x, y } = input as { x: unknown; y?: unknown };
+  const errors = [
+    prependPath(validateXValue(x), "x"),
+    prependPath(validateSparklineValue(y ?? null), "y"),
+  ].flatMap((result) => (result.success ? [] : result.errors));
+  return errors.length > 0 ? failure(errors) : success(input);
+}
+
+/**
+ * Check if data is `{ x, y }` points or parallel `x`/`y` arrays rather than a
+ * plain number array.
+ */
+function isXYSeriesShape(data: unknown): boolean {
+  if (Array.isArray(data)) {
+    return data.some((d) => typeof d === "object" && d !== null);
+  }
+  return (
+    typeof data === "object" && data !== null && "x" in data && "y" in data
+  );
+}
+
+/**
+ * Validate x/y series data: `{ x, y }` points or parallel `x`/`y` arrays.
+ * A `null` or missing y is a gap.
+ */
+export function validateXYSeriesData(
+  input: unknown,
+): SeriesValidationResult<unknown> {
+  if (Array.isArray(input)) {
+    const result = validateArray(input, validateXYPoint);
+    if (!result.success) return result;
+    const gaps = input.filter(
+      (p: { y?: unknown }) => (p.y ?? null) === null,
+    ).length;
+    return withGaps(input, gaps);
+  }
+
+  const { x, y } = input as { x: unknown; y: unknown };
+  const errors: ValidationError[] = [];
+  const xs = prependPath(validateArray(x, validateXValue), "x");
+  if (!xs.success) errors.push(...xs.errors);
+  const ys = validateSparklineData(y);
+  if (!ys.success) {
+    for (const error of ys.errors)
+      errors.push({ ...error, path: ["y", ...error.path] });
+  }
+  if (!ys.success || errors.length > 0) return failure(errors);
+
+  if (Array.isArray(x) && Array.isArray(y) && x.length !== y.length) {
+    return fail({
+      code: "INVALID_DATA_SHAPE",
+      expected: "x and y arrays of equal length",
+      hint: "Give every y value an x value",
+      message: `x has ${x.length} values but y has ${y.length}`,
+      path: [],
+      received: stringify(input),
+    });
+  }
+  return withGaps(input, ys.gaps ?? 0);
 }
 
 /**
@@ -73,7 +196,7 @@ function validateSegment(
       code: "INVALID_TYPE",
       example:
         '<microviz-donut data=\'[{"pct": 60, "color": "#6366f1"}, {"pct": 40, "color": "#22c55e"}]\'></microviz-donut>',
-      expected: "object with {pct, color, name?}",
+      expected: "object with {pct, color?, name?}",
       hint: 'Use: {pct: 50, color: "#6366f1"}',
       message: "Segment must be an object",
       path: [],
@@ -118,17 +241,8 @@ function validateSegment(
     }
   }
 
-  // Validate color
-  if (obj.color === undefined) {
-    errors.push({
-      code: "MISSING_FIELD",
-      expected: "string (hex color like #f00 or #ff0000)",
-      hint: 'Add color: "#6366f1"',
-      message: "Segment missing required field: color",
-      path: [index, "color"],
-      received: "undefined",
-    });
-  } else {
+  // Validate optional color
+  if (obj.color !== undefined) {
     const colorResult = validateString(obj.color);
     if (!colorResult.success) {
       errors.push({
@@ -160,7 +274,7 @@ function validateSegment(
   }
 
   return success({
-    color: obj.color as string,
+    color: obj.color as string | undefined,
     name: obj.name as string | undefined,
     pct: obj.pct as number,
   });
@@ -177,7 +291,7 @@ export function validateSegmentData(
       code: "INVALID_TYPE",
       example:
         '<microviz-donut data=\'[{"pct": 60, "color": "#6366f1"}, {"pct": 40, "color": "#22c55e"}]\'></microviz-donut>',
-      expected: "array of segments [{pct, color, name?}]",
+      expected: "array of segments [{pct, color?, name?}]",
       hint: 'Try: data=\'[{"pct":50,"color":"#6366f1"}]\'',
       message: "Segment data must be an array",
       path: [],
@@ -244,7 +358,7 @@ export function validateChartData(
     const chartName = chartType.charAt(0).toUpperCase() + chartType.slice(1);
     const expectedShape =
       dataType === "segments"
-        ? "array of segments [{pct, color, name?}]"
+        ? "array of segments [{pct, color?, name?}]"
         : "array of numbers";
     const example =
       dataType === "segments"
@@ -275,7 +389,7 @@ export function validateChartData(
       return fail({
         code: "INVALID_DATA_SHAPE",
         example: `<microviz-${chartType} data='[{"pct": 60, "color": "#6366f1"}, {"pct": 40, "color": "#22c55e"}]'></microviz-${chartType}>`,
-        expected: "array of segments [{pct, color, name?}]",
+        expected: "array of segments [{pct, color?, name?}]",
         hint: `${chartName} needs segment objects, not plain numbers. Try: [{pct: 50, color: "#6366f1"}]`,
         message: `${chartName} chart expects segment objects, got number array`,
         path: [],
@@ -287,6 +401,9 @@ export function validateChartData(
 
   // Number array charts
   if (dataType === "number-array") {
+    if (XY_SERIES_CHART_TYPES.has(chartType) && isXYSeriesShape(data)) {
+      return validateXYSeriesData(data);
+    }
     return validateSparklineData(data);
   }
 
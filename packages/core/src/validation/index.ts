@@ -16,11 +16,16 @@
  */
 
 // Chart-specific validators
-export type { Segment } from "./chart-validators";
+export type {
+  Segment,
+  SeriesValidationResult,
+  SparklineValidationResult,
+} from "./chart-validators";
 export {
   validateChartData,
   validateSegmentData,
   validateSparklineData,
+  validateXYSeriesData,
 } from "./chart-validators";
 // Formatting utilities
 export {
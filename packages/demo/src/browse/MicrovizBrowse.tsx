@@ -122,6 +122,7 @@ const chartSubtypeOptions = [
 /** Charts with minimal data requirements (single value/ratio). Shown in Primitives section. */
 const PRIMITIVE_CHART_IDS = new Set<ChartId>([
   "bar",
+  "bullet",
   "bullet-delta",
   "dumbbell",
 ]);
@@ -674,8 +675,6 @@ function isHtmlSafeMark(mark: Mark, defsById: Map<string, Def>): boolean {
     )
       return false;
   }
-  if ("strokeDasharray" in mark && mark.strokeDasharray) return false;
-  if ("strokeDashoffset" in mark && mark.strokeDashoffset) return false;
   const fill = "fill" in mark ? mark.fill : undefined;
   const stroke = "stroke" in mark ? mark.stroke : undefined;
   const fillRefId = extractUrlRefId(fill);
@@ -684,12 +683,16 @@ function isHtmlSafeMark(mark: Mark, defsById: Map<string, Def>): boolean {
     if (!fillDef) return false;
     if (fillDef.type === "linearGradient" && mark.type !== "rect") return false;
     if (
-      fillDef.type === "pattern" &&
+      (fillDef.type === "pattern" || fillDef.type === "radialGradient") &&
       mark.type !== "rect" &&
       mark.type !== "circle"
     )
       return false;
-    if (fillDef.type !== "linearGradient" && fillDef.type !== "pattern")
+    if (
+      fillDef.type !== "linearGradient" &&
+      fillDef.type !== "radialGradient" &&
+      fillDef.type !== "pattern"
+    )
       return false;
   }
   const strokeRefId = extractUrlRefId(stroke);
@@ -1676,6 +1679,25 @@ export const MicrovizBrowse: FC<{
         size,
         spec: { cellSize: 4, dotRadius: 1.6, type: "bitfield" },
       },
+      "box-plot": {
+        data: series,
+        size,
+        spec: { pad: 3, type: "box-plot" },
+      },
+      bullet: {
+        data: {
+          max: compareRange.max,
+          ranges: [
+            compareRange.max * 0.5,
+            compareRange.max * 0.75,
+            compareRange.max,
+          ],
+          target: compareRange.reference,
+          value: compareRange.current,
+        },
+        size,
+        spec: { type: "bullet" },
+      },
       "bullet-delta": {
         data: {
           current: compareRange.current,
@@ -1690,6 +1712,14 @@ export const MicrovizBrowse: FC<{
         size,
         spec: { gap: 0, pad: 0, type: "bullet-gauge" },
       },
+      "calendar-heatmap": {
+        data: series.map((value, i) => ({
+          date: Date.UTC(2025, 0, 5 + i),
+          value,
+        })),
+        size,
+        spec: { type: "calendar-heatmap", unit: "event" },
+      },
       "cascade-steps": {
         data: segments,
         size,
@@ -1879,6 +1909,14 @@ export const MicrovizBrowse: FC<{
         size,
         spec: { gap: 1, pad: 0, type: "mosaic" },
       },
+      "multi-sparkline": {
+        data: [
+          { name: "This week", values: series },
+          { name: "Last week", values: [...series].reverse() },
+        ],
+        size,
+        spec: { pad: 3, type: "multi-sparkline" },
+      },
       "nano-ring": {
         data: segments,
         size: sizeFor("nano-ring"),
@@ -2103,6 +2141,11 @@ export const MicrovizBrowse: FC<{
           type: "waveform",
         },
       },
+      "win-loss": {
+        data: series.map((v, i) => Math.sign(v - (series[i - 1] ?? v))),
+        size,
+        spec: { baseline: true, gap: 1, pad: 2, type: "win-loss" },
+      },
     };
   }, [
     bandSeed,
@@ -8,7 +8,10 @@ import {
 // Demo-only diagnostic overlay: apply a deterministic `turbulence → displacementMap`
 // filter to stress renderer parity (filter handling, transforms, clipping, compositing).
 export function applyNoiseDisplacementOverlay(model: RenderModel): RenderModel {
-  const needsOverlay = model.marks.some((mark) => mark.filter === undefined);
+  // Groups carry no filter of their own; their children are left as-is.
+  const needsOverlay = model.marks.some(
+    (mark) => mark.type !== "group" && mark.filter === undefined,
+  );
   if (!needsOverlay) return model;
 
   const { defId } = createModelIdAllocator(model);
@@ -44,7 +47,9 @@ export function applyNoiseDisplacementOverlay(model: RenderModel): RenderModel {
   };
 
   const nextMarks = model.marks.map((mark) =>
-    mark.filter === undefined ? { ...mark, filter: filterId } : mark,
+    mark.type !== "group" && mark.filter === undefined
+      ? { ...mark, filter: filterId }
+      : mark,
   );
 
   return patchRenderModel(
@@ -937,17 +937,17 @@ export const Orbital: FC<{
     },
   });
 
-  const ringCircle = ringModel.marks.find(
-    (mark): mark is Extract<Mark, { type: "circle" }> => mark.type === "circle",
+  const ringArc = ringModel.marks.find(
+    (mark): mark is Extract<Mark, { type: "arc" }> => mark.type === "arc",
   );
 
   const track: Mark = {
     className: "text-slate-300 dark:text-slate-500",
-    cx: ringCircle?.cx ?? 16,
-    cy: ringCircle?.cy ?? 16,
+    cx: ringArc?.cx ?? 16,
+    cy: ringArc?.cy ?? 16,
     fill: "none",
     id: "orbital-track",
-    r: ringCircle?.r ?? 12,
+    r: ringArc ? (ringArc.innerR + ringArc.outerR) / 2 : 12,
     stroke: "currentColor",
     strokeWidth: 2,
     type: "circle",
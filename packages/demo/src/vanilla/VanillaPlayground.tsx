@@ -143,6 +143,16 @@ const demoInputBuilders = {
     size: CHART_SIZE,
     spec: { cellSize: 4, dotRadius: 1.6, type: "bitfield" },
   }),
+  "box-plot": () => ({
+    data: DEMO_SERIES,
+    size: CHART_SIZE,
+    spec: { pad: 3, type: "box-plot" },
+  }),
+  bullet: ({ targetValue, value }) => ({
+    data: { max: 100, ranges: [50, 75, 100], target: targetValue, value },
+    size: CHART_SIZE,
+    spec: { type: "bullet" },
+  }),
   "bullet-delta": ({ targetValue, value }) => ({
     data: { current: value, max: 100, previous: targetValue },
     size: CHART_SIZE,
@@ -153,6 +163,14 @@ const demoInputBuilders = {
     size: CHART_SIZE,
     spec: { gap: 0, pad: 0, type: "bullet-gauge" },
   }),
+  "calendar-heatmap": () => ({
+    data: DEMO_SERIES.map((value, i) => ({
+      date: Date.UTC(2025, 0, 5 + i),
+      value,
+    })),
+    size: CHART_SIZE,
+    spec: { type: "calendar-heatmap", unit: "event" },
+  }),
   "cascade-steps": () => ({
     data: DEMO_SEGMENTS,
     size: CHART_SIZE,
@@ -340,6 +358,14 @@ const demoInputBuilders = {
     size: CHART_SIZE,
     spec: { gap: 1, pad: 0, type: "mosaic" },
   }),
+  "multi-sparkline": () => ({
+    data: [
+      { name: "This week", values: DEMO_SERIES },
+      { name: "Last week", values: [...DEMO_SERIES].reverse() },
+    ],
+    size: CHART_SIZE,
+    spec: { pad: 3, type: "multi-sparkline" },
+  }),
   "nano-ring": () => ({
     data: DEMO_SEGMENTS,
     size: { height: 24, width: 24 },
@@ -564,6 +590,11 @@ const demoInputBuilders = {
       type: "waveform",
     },
   }),
+  "win-loss": () => ({
+    data: [1, -1, 1, 1, 0, -1, 1, 1, 1, -1, 1, 1],
+    size: CHART_SIZE,
+    spec: { baseline: true, gap: 1, pad: 2, type: "win-loss" },
+  }),
 } satisfies Record<ChartId, DemoInputBuilder>;
 
 const chartOptions = Object.keys(demoInputBuilders) as ChartId[];
@@ -5,6 +5,8 @@ import type {
   PatternMark,
   RenderModel,
 } from "@microviz/core";
+import { fitTextMark } from "@microviz/core";
+import { arcPathData, areaPointsAttr, pointsAttr } from "@microviz/renderers";
 
 const SVG_NS = "http://www.w3.org/2000/svg";
 
@@ -38,6 +40,26 @@ function renderDefs(defs: readonly Def[]): SVGDefsElement {
       continue;
     }
 
+    if (def.type === "radialGradient") {
+      const grad = document.createElementNS(SVG_NS, "radialGradient");
+      setAttr(grad, "id", def.id);
+      setAttr(grad, "cx", def.cx);
+      setAttr(grad, "cy", def.cy);
+      setAttr(grad, "r", def.r);
+      setAttr(grad, "fx", def.fx);
+      setAttr(grad, "fy", def.fy);
+      setAttr(grad, "gradientUnits", def.gradientUnits);
+      for (const stop of def.stops) {
+        const stopEl = document.createElementNS(SVG_NS, "stop");
+        setAttr(stopEl, "offset", `${Math.round(stop.offset * 10000) / 100}%`);
+        setAttr(stopEl, "stop-color", stop.color);
+        setAttr(stopEl, "stop-opacity", stop.opacity);
+        grad.appendChild(stopEl);
+      }
+      defsEl.appendChild(grad);
+      continue;
+    }
+
     if (def.type === "pattern") {
       const pattern = document.createElementNS(SVG_NS, "pattern");
       setAttr(pattern, "id", def.id);
@@ -141,6 +163,65 @@ function renderFilterPrimitive(primitive: FilterPrimitive): SVGElement {
       setAttr(el, "result", primitive.result);
       return el;
     }
+    case "colorMatrix": {
+      const el = document.createElementNS(SVG_NS, "feColorMatrix");
+      setAttr(el, "in", primitive.in);
+      setAttr(el, "type", primitive.matrixType);
+      setAttr(
+        el,
+        "values",
+        typeof primitive.values === "object"
+          ? primitive.values.join(" ")
+          : primitive.values,
+      );
+      setAttr(el, "result", primitive.result);
+      return el;
+    }
+    case "offset": {
+      const el = document.createElementNS(SVG_NS, "feOffset");
+      setAttr(el, "in", primitive.in);
+      setAttr(el, "dx", primitive.dx);
+      setAttr(el, "dy", primitive.dy);
+      setAttr(el, "result", primitive.result);
+      return el;
+    }
+    case "flood": {
+      const el = document.createElementNS(SVG_NS, "feFlood");
+      setAttr(el, "flood-color", primitive.floodColor);
+      setAttr(el, "flood-opacity", primitive.floodOpacity);
+      setAttr(el, "result", primitive.result);
+      return el;
+    }
+    case "composite": {
+      const el = document.createElementNS(SVG_NS, "feComposite");
+      setAttr(el, "in", primitive.in);
+      setAttr(el, "in2", primitive.in2);
+      setAttr(el, "operator", primitive.operator);
+      setAttr(el, "k1", primitive.k1);
+      setAttr(el, "k2", primitive.k2);
+      setAttr(el, "k3", primitive.k3);
+      setAttr(el, "k4", primitive.k4);
+      setAttr(el, "result", primitive.result);
+      return el;
+    }
+    case "merge": {
+      const el = document.createElementNS(SVG_NS, "feMerge");
+      for (const input of primitive.inputs) {
+        const node = document.createElementNS(SVG_NS, "feMergeNode");
+        setAttr(node, "in", input);
+        el.appendChild(node);
+      }
+      setAttr(el, "result", primitive.result);
+      return el;
+    }
+    case "blend": {
+      const el = document.createElementNS(SVG_NS, "feBlend");
+      setAttr(el, "in", primitive.in);
+      setAttr(el, "in2", primitive.in2);
+      setAttr(el, "mode", primitive.mode);
+      setAttr(el, "result", primitive.result);
+      return el;
+    }
   }
 }
 
@@ -160,6 +241,8 @@ function renderPatternMark(mark: PatternMark): SVGElement {
       setAttr(el, "stroke", mark.stroke);
       setAttr(el, "stroke-opacity", mark.strokeOpacity);
       setAttr(el, "stroke-width", mark.strokeWidth);
+      setAttr(el, "stroke-dasharray", mark.strokeDasharray);
+      setAttr(el, "stroke-dashoffset", mark.strokeDashoffset);
       if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
       if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
       setAttr(el, "class", mark.className);
@@ -175,6 +258,8 @@ function renderPatternMark(mark: PatternMark): SVGElement {
       setAttr(el, "stroke", mark.stroke);
       setAttr(el, "stroke-opacity", mark.strokeOpacity);
       setAttr(el, "stroke-width", mark.strokeWidth);
+      setAttr(el, "stroke-dasharray", mark.strokeDasharray);
+      setAttr(el, "stroke-dashoffset", mark.strokeDashoffset);
       setAttr(el, "stroke-linecap", mark.strokeLinecap);
       setAttr(el, "stroke-linejoin", mark.strokeLinejoin);
       if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
@@ -189,13 +274,18 @@ function renderPatternMark(mark: PatternMark): SVGElement {
       setAttr(el, "y", mark.y);
       setAttr(el, "text-anchor", mark.anchor);
       setAttr(el, "dominant-baseline", mark.baseline);
+      setAttr(el, "font-size", mark.fontSize);
+      setAttr(el, "font-weight", mark.fontWeight);
+      setAttr(el, "font-family", mark.fontFamily);
+      if (mark.rotate)
+        setAttr(el, "transform", `rotate(${mark.rotate} ${mark.x} ${mark.y})`);
       setAttr(el, "opacity", mark.opacity);
       setAttr(el, "fill", mark.fill);
       setAttr(el, "fill-opacity", mark.fillOpacity);
       if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
       if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
       setAttr(el, "class", mark.className);
-      el.textContent = mark.text;
+      el.textContent = fitTextMark(mark);
       return el;
     }
 
@@ -229,6 +319,8 @@ function renderPatternMark(mark: PatternMark): SVGElement {
       setAttr(el, "stroke", mark.stroke);
       setAttr(el, "stroke-opacity", mark.strokeOpacity);
       setAttr(el, "stroke-width", mark.strokeWidth);
+      setAttr(el, "stroke-dasharray", mark.strokeDasharray);
+      setAttr(el, "stroke-dashoffset", mark.strokeDashoffset);
       setAttr(el, "stroke-linecap", mark.strokeLinecap);
       setAttr(el, "stroke-linejoin", mark.strokeLinejoin);
       if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
@@ -239,8 +331,42 @@ function renderPatternMark(mark: PatternMark): SVGElement {
   }
 }
 
+function groupTransform(
+  mark: Extract<Mark, { type: "group" }>,
+): string | undefined {
+  const t = mark.transform;
+  if (!t) return undefined;
+  const parts: string[] = [];
+  if (t.translateX || t.translateY)
+    parts.push(`translate(${t.translateX ?? 0} ${t.translateY ?? 0})`);
+  if (t.rotate) parts.push(`rotate(${t.rotate})`);
+  if ((t.scaleX ?? 1) !== 1 || (t.scaleY ?? 1) !== 1)
+    parts.push(`scale(${t.scaleX ?? 1} ${t.scaleY ?? 1})`);
+  return parts.length > 0 ? parts.join(" ") : undefined;
+}
+
+function blendStyle(mark: Mark): string | undefined {
+  const parts = [
+    mark.blendMode ? `mix-blend-mode:${mark.blendMode}` : "",
+    mark.type === "group" && mark.isolate ? "isolation:isolate" : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(";") : undefined;
+}
+
 function renderMark(mark: Mark): SVGElement {
   switch (mark.type) {
+    case "group": {
+      const el = document.createElementNS(SVG_NS, "g");
+      setAttr(el, "id", mark.id);
+      setAttr(el, "transform", groupTransform(mark));
+      setAttr(el, "opacity", mark.opacity);
+      if (mark.clipPath) setAttr(el, "clip-path", `url(#${mark.clipPath})`);
+      setAttr(el, "style", blendStyle(mark));
+      setAttr(el, "class", mark.className);
+      for (const child of mark.marks) el.appendChild(renderMark(child));
+      return el;
+    }
+
     case "rect": {
       const el = document.createElementNS(SVG_NS, "rect");
       setAttr(el, "id", mark.id);
@@ -256,9 +382,12 @@ function renderMark(mark: Mark): SVGElement {
       setAttr(el, "stroke", mark.stroke);
       setAttr(el, "stroke-opacity", mark.strokeOpacity);
       setAttr(el, "stroke-width", mark.strokeWidth);
+      setAttr(el, "stroke-dasharray", mark.strokeDasharray);
+      setAttr(el, "stroke-dashoffset", mark.strokeDashoffset);
       if (mark.clipPath) setAttr(el, "clip-path", `url(#${mark.clipPath})`);
       if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
       if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
+      setAttr(el, "style", blendStyle(mark));
       setAttr(el, "class", mark.className);
       return el;
     }
@@ -273,11 +402,72 @@ function renderMark(mark: Mark): SVGElement {
       setAttr(el, "stroke", mark.stroke);
       setAttr(el, "stroke-opacity", mark.strokeOpacity);
       setAttr(el, "stroke-width", mark.strokeWidth);
+      setAttr(el, "stroke-dasharray", mark.strokeDasharray);
+      setAttr(el, "stroke-dashoffset", mark.strokeDashoffset);
       setAttr(el, "stroke-linecap", mark.strokeLinecap);
       setAttr(el, "stroke-linejoin", mark.strokeLinejoin);
       if (mark.clipPath) setAttr(el, "clip-path", `url(#${mark.clipPath})`);
       if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
       if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
+      setAttr(el, "style", blendStyle(mark));
+      setAttr(el, "class", mark.className);
+      return el;
+    }
+
+    case "arc": {
+      const el = document.createElementNS(SVG_NS, "path");
+      setAttr(el, "id", mark.id);
+      setAttr(el, "d", arcPathData(mark));
+      setAttr(el, "opacity", mark.opacity);
+      setAttr(el, "fill", mark.fill);
+      setAttr(el, "fill-opacity", mark.fillOpacity);
+      setAttr(el, "stroke", mark.stroke);
+      setAttr(el, "stroke-opacity", mark.strokeOpacity);
+      setAttr(el, "stroke-width", mark.strokeWidth);
+      if (mark.clipPath) setAttr(el, "clip-path", `url(#${mark.clipPath})`);
+      if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
+      if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
+      setAttr(el, "style", blendStyle(mark));
+      setAttr(el, "class", mark.className);
+      return el;
+    }
+
+    case "polyline": {
+      const el = document.createElementNS(SVG_NS, "polyline");
+      setAttr(el, "id", mark.id);
+      setAttr(el, "points", pointsAttr(mark.points));
+      setAttr(el, "opacity", mark.opacity);
+      setAttr(el, "fill", "none");
+      setAttr(el, "stroke", mark.stroke);
+      setAttr(el, "stroke-opacity", mark.strokeOpacity);
+      setAttr(el, "stroke-width", mark.strokeWidth);
+      setAttr(el, "stroke-dasharray", mark.strokeDasharray);
+      setAttr(el, "stroke-dashoffset", mark.strokeDashoffset);
+      setAttr(el, "stroke-linecap", mark.strokeLinecap);
+      setAttr(el, "stroke-linejoin", mark.strokeLinejoin);
+      if (mark.clipPath) setAttr(el, "clip-path", `url(#${mark.clipPath})`);
+      if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
+      if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
+      setAttr(el, "style", blendStyle(mark));
+      setAttr(el, "class", mark.className);
+      return el;
+    }
+
+    case "area": {
+      const el = document.createElementNS(SVG_NS, "polygon");
+      setAttr(el, "id", mark.id);
+      setAttr(el, "points", areaPointsAttr(mark));
+      setAttr(el, "opacity", mark.opacity);
+      setAttr(el, "fill", mark.fill);
+      setAttr(el, "fill-opacity", mark.fillOpacity);
+      setAttr(el, "stroke", mark.stroke);
+      setAttr(el, "stroke-opacity", mark.strokeOpacity);
+      setAttr(el, "stroke-width", mark.strokeWidth);
+      setAttr(el, "stroke-linejoin", mark.strokeLinejoin);
+      if (mark.clipPath) setAttr(el, "clip-path", `url(#${mark.clipPath})`);
+      if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
+      if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
+      setAttr(el, "style", blendStyle(mark));
       setAttr(el, "class", mark.className);
       return el;
     }
@@ -289,13 +479,19 @@ function renderMark(mark: Mark): SVGElement {
       setAttr(el, "y", mark.y);
       setAttr(el, "text-anchor", mark.anchor);
       setAttr(el, "dominant-baseline", mark.baseline);
+      setAttr(el, "font-size", mark.fontSize);
+      setAttr(el, "font-weight", mark.fontWeight);
+      setAttr(el, "font-family", mark.fontFamily);
+      if (mark.rotate)
+        setAttr(el, "transform", `rotate(${mark.rotate} ${mark.x} ${mark.y})`);
       setAttr(el, "opacity", mark.opacity);
       setAttr(el, "fill", mark.fill);
       setAttr(el, "fill-opacity", mark.fillOpacity);
       if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
       if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
+      setAttr(el, "style", blendStyle(mark));
       setAttr(el, "class", mark.className);
-      el.textContent = mark.text;
+      el.textContent = fitTextMark(mark);
       return el;
     }
 
@@ -316,6 +512,7 @@ function renderMark(mark: Mark): SVGElement {
       setAttr(el, "stroke-linecap", mark.strokeLinecap);
       if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
       if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
+      setAttr(el, "style", blendStyle(mark));
       setAttr(el, "class", mark.className);
       return el;
     }
@@ -331,10 +528,13 @@ function renderMark(mark: Mark): SVGElement {
       setAttr(el, "stroke", mark.stroke);
       setAttr(el, "stroke-opacity", mark.strokeOpacity);
       setAttr(el, "stroke-width", mark.strokeWidth);
+      setAttr(el, "stroke-dasharray", mark.strokeDasharray);
+      setAttr(el, "stroke-dashoffset", mark.strokeDashoffset);
       setAttr(el, "stroke-linecap", mark.strokeLinecap);
       setAttr(el, "stroke-linejoin", mark.strokeLinejoin);
       if (mark.mask) setAttr(el, "mask", `url(#${mark.mask})`);
       if (mark.filter) setAttr(el, "filter", `url(#${mark.filter})`);
+      setAttr(el, "style", blendStyle(mark));
       setAttr(el, "class", mark.className);
       return el;
     }
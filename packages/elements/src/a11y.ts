@@ -87,6 +87,9 @@ function labelForMark(mark: RenderModel["marks"][number]): string {
 export function getA11yItems(model: RenderModel | null): A11yItem[] {
   if (!model) return [];
   const explicit = model.a11y?.items ?? [];
+  // Grid items aren't capped: every cell must stay reachable by arrow keys
+  // (the sr-only list caps itself).
+  if (explicit.some((item) => item.grid)) return [...explicit];
   if (explicit.length > 0) return explicit.slice(0, MAX_A11Y_ITEMS);
 
   if (model.marks.length === 0 || model.marks.length > MAX_A11Y_ITEMS)
@@ -98,20 +101,64 @@ export function getA11yItems(model: RenderModel | null): A11yItem[] {
   }));
 }
 
+/** Column and row offsets of the arrow keys on a grid. */
+const GRID_STEPS: Readonly<Record<string, readonly [number, number]>> = {
+  ArrowDown: [0, 1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+};
+
+/**
+ * Index an arrow key moves focus to from `index` when the items carry grid
+ * cells, or null when it doesn't apply (not an arrow key, or the focused item
+ * has no cell) and focus should step through items in order. Moving off the
+ * grid or into a missing cell keeps focus where it is.
+ */
+export function gridNavigationIndex(
+  items: ReadonlyArray<A11yItem>,
+  index: number,
+  key: string,
+): number | null {
+  const cell = items[index]?.grid;
+  const step = GRID_STEPS[key];
+  if (!cell || !step) return null;
+  const [dCol, dRow] = step;
+  const next = items.findIndex(
+    (item) =>
+      item.grid?.col === cell.col + dCol && item.grid?.row === cell.row + dRow,
+  );
+  return next === -1 ? index : next;
+}
+
+/**
+ * Mirrors the first `MAX_A11Y_ITEMS` items into the sr-only list. Grid charts
+ * keep every cell for keyboard navigation, but the list stays capped, and it
+ * is left untouched when its text hasn't changed (e.g. hover re-renders).
+ */
 function syncItemsList(root: ShadowRoot, items: A11yItem[]): void {
   const list = ensureSrOnlyElement(root, ITEMS_ID, "ul");
   list.setAttribute("role", "list");
-  list.textContent = "";
 
   if (items.length === 0) {
+    list.textContent = "";
     list.setAttribute("aria-hidden", "true");
     return;
   }
 
   list.removeAttribute("aria-hidden");
-  for (const item of items) {
+  const texts = items.slice(0, MAX_A11Y_ITEMS).map(formatItem);
+  const current = list.children;
+  if (
+    current.length === texts.length &&
+    texts.every((text, i) => current[i]?.textContent === text)
+  )
+    return;
+
+  list.textContent = "";
+  for (const text of texts) {
     const li = document.createElement("li");
-    li.textContent = formatItem(item);
+    li.textContent = text;
     list.append(li);
   }
 }
@@ -189,9 +236,13 @@ export function applyMicrovizA11y(
   const role =
     host.getAttribute("role") ?? model?.a11y?.role ?? "graphics-document";
   const label = host.getAttribute("aria-label") ?? model?.a11y?.label;
-  const summaryText = model?.a11y?.summary
-    ? formatSummary(model.a11y.summary)
-    : undefined;
+  // Annotation nodes ("Reference line at 95") follow the data summary.
+  const summaryParts = [
+    ...(model?.a11y?.summary ? [formatSummary(model.a11y.summary)] : []),
+    ...(model?.a11y?.nodes ?? []).map((node) => node.label),
+  ];
+  const summaryText =
+    summaryParts.length > 0 ? summaryParts.join(". ") : undefined;
 
   if (!host.hasAttribute("role")) host.setAttribute("role", role);
   if (label) host.setAttribute("aria-label", label);
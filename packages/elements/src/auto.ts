@@ -76,7 +76,9 @@ function normalizeRecordKeys(
 function recordHasSegmentFields(record: Record<string, unknown>): boolean {
   const normalized = normalizeRecordKeys(record);
   return (
-    typeof normalized.pct === "number" && typeof normalized.color === "string"
+    typeof normalized.pct === "number" &&
+    (typeof normalized.color === "string" ||
+      typeof normalized.name === "string")
   );
 }
 
@@ -143,8 +145,12 @@ function buildCandidates(
 
     const series = csvToNumberSeries(table);
     if (series) {
-      candidates.push({ source: "csv-series", value: series.series });
-      fallbackData ??= series.series;
+      // A date column turns the series into x/y data on a time scale.
+      const value = series.x
+        ? { x: series.x, y: series.series }
+        : series.series;
+      candidates.push({ source: "csv-series", value });
+      fallbackData ??= value;
     }
 
     if (!hasSegmentFields && records.length > 0) {
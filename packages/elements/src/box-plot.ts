@@ -0,0 +1,107 @@
+import { computeModel, type RenderModel } from "@microviz/core";
+import { applyMicrovizA11y } from "./a11y";
+import { parseBoxPlotData, parseNumber, parseOptionalNumber } from "./parse";
+import { renderSvgModelIntoShadowRoot } from "./render";
+import { applyMicrovizStyles } from "./styles";
+import {
+  type AnimationState,
+  animateTransition,
+  cleanupAnimation,
+  createAnimationState,
+} from "./transition";
+
+const SPEC_TYPE = "box-plot";
+
+export class MicrovizBoxPlot extends HTMLElement {
+  static observedAttributes = [
+    "animate",
+    "data",
+    "width",
+    "height",
+    "pad",
+    "whiskers",
+    "max-outliers",
+    "outlier-radius",
+    "box-height",
+  ];
+
+  readonly #internals: ElementInternals | null;
+  readonly #root: ShadowRoot;
+  readonly #animState: AnimationState = createAnimationState(this);
+  #modelOverride: RenderModel | null = null;
+
+  constructor() {
+    super();
+    this.#internals =
+      typeof this.attachInternals === "function"
+        ? this.attachInternals()
+        : null;
+    this.#root = this.attachShadow({ mode: "open" });
+    applyMicrovizStyles(this.#root);
+  }
+
+  connectedCallback(): void {
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    cleanupAnimation(this.#animState);
+  }
+
+  attributeChangedCallback(): void {
+    this.render();
+  }
+
+  get model(): RenderModel | null {
+    return this.#modelOverride;
+  }
+
+  set model(model: RenderModel | null) {
+    this.#modelOverride = model;
+    this.render();
+  }
+
+  render(): void {
+    const model = this.#modelOverride ?? this.#computeFromAttributes();
+    applyMicrovizA11y(this, this.#internals, model);
+    animateTransition(this.#animState, model, (m) => this.#renderFrame(m));
+  }
+
+  #renderFrame(model: RenderModel): void {
+    renderSvgModelIntoShadowRoot(this.#root, model, {
+      specType: SPEC_TYPE,
+    });
+  }
+
+  #computeFromAttributes(): RenderModel {
+    const data = parseBoxPlotData(this.getAttribute("data"));
+    const width = parseNumber(this.getAttribute("width"), 200);
+    const height = parseNumber(this.getAttribute("height"), 16);
+    const pad = this.hasAttribute("pad")
+      ? parseNumber(this.getAttribute("pad"), 2)
+      : undefined;
+    const whiskersAttr = this.getAttribute("whiskers")?.trim().toLowerCase();
+    const whiskers =
+      whiskersAttr === "iqr" || whiskersAttr === "min-max"
+        ? whiskersAttr
+        : undefined;
+    const maxOutliers = parseOptionalNumber(this.getAttribute("max-outliers"));
+    const outlierRadius = parseOptionalNumber(
+      this.getAttribute("outlier-radius"),
+    );
+    const boxHeight = parseOptionalNumber(this.getAttribute("box-height"));
+
+    return computeModel({
+      data,
+      size: { height, width },
+      spec: {
+        boxHeight,
+        maxOutliers,
+        outlierRadius,
+        pad,
+        type: SPEC_TYPE,
+        whiskers,
+      },
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import { computeModel, type RenderModel } from "@microviz/core";
+import { applyMicrovizA11y } from "./a11y";
+import {
+  parseNumber,
+  parseNumberArray,
+  parseOptionalNumber,
+  parseStringList,
+} from "./parse";
+import { renderSvgModelIntoShadowRoot } from "./render";
+import { applyMicrovizStyles } from "./styles";
+import {
+  type AnimationState,
+  animateTransition,
+  cleanupAnimation,
+  createAnimationState,
+} from "./transition";
+
+const SPEC_TYPE = "bullet";
+
+export class MicrovizBullet extends HTMLElement {
+  static observedAttributes = [
+    "animate",
+    "value",
+    "target",
+    "ranges",
+    "max",
+    "orientation",
+    "range-labels",
+    "width",
+    "height",
+    "pad",
+  ];
+
+  readonly #internals: ElementInternals | null;
+  readonly #root: ShadowRoot;
+  readonly #animState: AnimationState = createAnimationState(this);
+  #modelOverride: RenderModel | null = null;
+
+  constructor() {
+    super();
+    this.#internals =
+      typeof this.attachInternals === "function"
+        ? this.attachInternals()
+        : null;
+    this.#root = this.attachShadow({ mode: "open" });
+    applyMicrovizStyles(this.#root);
+  }
+
+  connectedCallback(): void {
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    cleanupAnimation(this.#animState);
+  }
+
+  attributeChangedCallback(): void {
+    this.render();
+  }
+
+  get model(): RenderModel | null {
+    return this.#modelOverride;
+  }
+
+  set model(model: RenderModel | null) {
+    this.#modelOverride = model;
+    this.render();
+  }
+
+  render(): void {
+    const model = this.#modelOverride ?? this.#computeFromAttributes();
+    applyMicrovizA11y(this, this.#internals, model);
+    animateTransition(this.#animState, model, (m) => this.#renderFrame(m));
+  }
+
+  #renderFrame(model: RenderModel): void {
+    renderSvgModelIntoShadowRoot(this.#root, model, {
+      specType: SPEC_TYPE,
+    });
+  }
+
+  #computeFromAttributes(): RenderModel {
+    const width = parseNumber(this.getAttribute("width"), 120);
+    const height = parseNumber(this.getAttribute("height"), 16);
+    const value = parseNumber(this.getAttribute("value"), 0);
+    const target = parseOptionalNumber(this.getAttribute("target"));
+    const { data: ranges } = parseNumberArray(this.getAttribute("ranges"));
+    const max = parseOptionalNumber(this.getAttribute("max"));
+    const pad = this.hasAttribute("pad")
+      ? parseNumber(this.getAttribute("pad"), 2)
+      : undefined;
+    const orientation =
+      this.getAttribute("orientation")?.trim().toLowerCase() === "vertical"
+        ? "vertical"
+        : undefined;
+    const rangeLabels = parseStringList(this.getAttribute("range-labels"));
+
+    return computeModel({
+      data: { max, ranges, target, value },
+      size: { height, width },
+      spec: { orientation, pad, rangeLabels, type: SPEC_TYPE },
+    });
+  }
+}
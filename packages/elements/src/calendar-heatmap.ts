@@ -0,0 +1,114 @@
+import { computeModel, type RenderModel } from "@microviz/core";
+import { applyMicrovizA11y } from "./a11y";
+import {
+  parseBoolean,
+  parseCalendarHeatmapData,
+  parseNumber,
+  parseOptionalNumber,
+} from "./parse";
+import { renderSvgModelIntoShadowRoot } from "./render";
+import { applyMicrovizStyles } from "./styles";
+import {
+  type AnimationState,
+  animateTransition,
+  cleanupAnimation,
+  createAnimationState,
+} from "./transition";
+
+const SPEC_TYPE = "calendar-heatmap";
+
+export class MicrovizCalendarHeatmap extends HTMLElement {
+  static observedAttributes = [
+    "animate",
+    "data",
+    "width",
+    "height",
+    "pad",
+    "gap",
+    "week-start",
+    "steps",
+    "month-boundaries",
+    "unit",
+    "unit-plural",
+  ];
+
+  readonly #internals: ElementInternals | null;
+  readonly #root: ShadowRoot;
+  readonly #animState: AnimationState = createAnimationState(this);
+  #modelOverride: RenderModel | null = null;
+
+  constructor() {
+    super();
+    this.#internals =
+      typeof this.attachInternals === "function"
+        ? this.attachInternals()
+        : null;
+    this.#root = this.attachShadow({ mode: "open" });
+    applyMicrovizStyles(this.#root);
+  }
+
+  connectedCallback(): void {
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    cleanupAnimation(this.#animState);
+  }
+
+  attributeChangedCallback(): void {
+    this.render();
+  }
+
+  get model(): RenderModel | null {
+    return this.#modelOverride;
+  }
+
+  set model(model: RenderModel | null) {
+    this.#modelOverride = model;
+    this.render();
+  }
+
+  render(): void {
+    const model = this.#modelOverride ?? this.#computeFromAttributes();
+    applyMicrovizA11y(this, this.#internals, model);
+    animateTransition(this.#animState, model, (m) => this.#renderFrame(m));
+  }
+
+  #renderFrame(model: RenderModel): void {
+    renderSvgModelIntoShadowRoot(this.#root, model, {
+      specType: SPEC_TYPE,
+    });
+  }
+
+  #computeFromAttributes(): RenderModel {
+    const data = parseCalendarHeatmapData(this.getAttribute("data"));
+    const width = parseNumber(this.getAttribute("width"), 200);
+    const height = parseNumber(this.getAttribute("height"), 56);
+    const pad = this.hasAttribute("pad")
+      ? parseNumber(this.getAttribute("pad"), 0)
+      : undefined;
+    const gap = parseOptionalNumber(this.getAttribute("gap"));
+    const weekStart = parseOptionalNumber(this.getAttribute("week-start"));
+    const steps = parseOptionalNumber(this.getAttribute("steps"));
+    const monthBoundaries = this.hasAttribute("month-boundaries")
+      ? parseBoolean(this.getAttribute("month-boundaries"), true)
+      : undefined;
+    const unit = this.getAttribute("unit") ?? undefined;
+    const unitPlural = this.getAttribute("unit-plural") ?? undefined;
+
+    return computeModel({
+      data,
+      size: { height, width },
+      spec: {
+        gap,
+        monthBoundaries,
+        pad,
+        steps,
+        type: SPEC_TYPE,
+        unit,
+        unitPlural,
+        weekStart,
+      },
+    });
+  }
+}
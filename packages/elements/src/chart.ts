@@ -3,15 +3,19 @@ import {
   type ChartSpec,
   computeModel,
   type DiagnosticWarning,
+  formatValue,
   hitTest,
+  type InteractionState,
   isChartType,
   type RenderModel,
+  type ValueFormat,
 } from "@microviz/core";
 import { renderHtmlString } from "@microviz/renderers";
 import {
   applyMicrovizA11y,
   getA11yItems,
   getHtmlRendererWarnings,
+  gridNavigationIndex,
   updateA11yFocus,
 } from "./a11y";
 import { parseNumber, parseOptionalNumber } from "./parse";
@@ -84,6 +88,7 @@ export class MicrovizChart extends HTMLElement {
     "interactive",
     "skeleton",
     "hit-slop",
+    "dim-opacity",
   ];
 
   readonly #internals: ElementInternals | null;
@@ -105,6 +110,9 @@ export class MicrovizChart extends HTMLElement {
   #a11yItems: A11yItem[] = [];
   #focusIndex: number | null = null;
   #focusedMarkId: string | null = null;
+  #hoveredMarkId: string | null = null;
+  #selectedMarkIds: string[] = [];
+  #format: ValueFormat | undefined = undefined;
 
   constructor() {
     super();
@@ -193,20 +201,26 @@ export class MicrovizChart extends HTMLElement {
     if (enabled) {
       this.addEventListener("pointermove", this.#onPointerMove);
       this.addEventListener("pointerleave", this.#onPointerLeave);
+      this.addEventListener("click", this.#onClick);
       this.addEventListener("keydown", this.#onKeyDown);
       this.addEventListener("blur", this.#onBlur);
       return;
     }
 
+    const hadState = this.#interactionState() !== undefined;
     this.#lastPointerClient = null;
     this.#lastHitKey = null;
     this.#lastPoint = null;
     this.#focusIndex = null;
-    this.#setFocusedMarkId(null, { rerender: true });
+    this.#focusedMarkId = null;
+    this.#hoveredMarkId = null;
+    this.#selectedMarkIds = [];
+    if (hadState && this.isConnected) this.render();
     updateA11yFocus(this.#root, null);
 
     this.removeEventListener("pointermove", this.#onPointerMove);
     this.removeEventListener("pointerleave", this.#onPointerLeave);
+    this.removeEventListener("click", this.#onClick);
     this.removeEventListener("keydown", this.#onKeyDown);
     this.removeEventListener("blur", this.#onBlur);
   }
@@ -252,6 +266,49 @@ export class MicrovizChart extends HTMLElement {
     this.#setFocusedMarkId(this.#focusedMarkIdForIndex(this.#focusIndex));
   }
 
+  #setHoveredMarkId(next: string | null): void {
+    if (next === this.#hoveredMarkId) return;
+    this.#hoveredMarkId = next;
+    if (this.isConnected) this.render();
+  }
+
+  /**
+   * Selects `id` alone, or toggles it within the selection when `additive`.
+   * A null `id` clears the selection.
+   */
+  #select(id: string | null, additive: boolean): void {
+    const current = this.#selectedMarkIds;
+    let next: string[];
+    if (id === null) next = [];
+    else if (current.includes(id))
+      next = additive ? current.filter((m) => m !== id) : [];
+    else next = additive ? [...current, id] : [id];
+    if (next.length === 0 && current.length === 0) return;
+
+    this.#selectedMarkIds = next;
+    this.dispatchEvent(
+      new CustomEvent("microviz-select", {
+        bubbles: true,
+        composed: true,
+        detail: { selectedMarkIds: [...next] },
+      }),
+    );
+    if (this.isConnected) this.render();
+  }
+
+  #interactionState(): InteractionState | undefined {
+    const state: InteractionState = {};
+    if (this.#focusedMarkId) state.focusedMarkId = this.#focusedMarkId;
+    if (this.#hoveredMarkId) state.hoveredMarkId = this.#hoveredMarkId;
+    if (this.#selectedMarkIds.length > 0)
+      state.selectedMarkIds = [...this.#selectedMarkIds];
+    if (Object.keys(state).length === 0) return undefined;
+
+    const dimOpacity = parseOptionalNumber(this.getAttribute("dim-opacity"));
+    if (dimOpacity !== undefined) state.dimOpacity = dimOpacity;
+    return state;
+  }
+
   #announceFocus(): void {
     if (this.#focusIndex === null) return;
     const item = this.#a11yItems[this.#focusIndex];
@@ -280,26 +337,33 @@ export class MicrovizChart extends HTMLElement {
 
     const lastIndex = this.#a11yItems.length - 1;
     const currentIndex = this.#focusIndex ?? -1;
+    const gridIndex = gridNavigationIndex(
+      this.#a11yItems,
+      currentIndex,
+      event.key,
+    );
     let nextIndex = currentIndex;
 
     switch (event.key) {
       case "ArrowRight":
       case "ArrowDown":
         nextIndex =
-          currentIndex < 0
+          gridIndex ??
+          (currentIndex < 0
             ? 0
             : currentIndex >= lastIndex
               ? 0
-              : currentIndex + 1;
+              : currentIndex + 1);
         break;
       case "ArrowLeft":
       case "ArrowUp":
         nextIndex =
-          currentIndex < 0
+          gridIndex ??
+          (currentIndex < 0
             ? lastIndex
             : currentIndex <= 0
               ? lastIndex
-              : currentIndex - 1;
+              : currentIndex - 1);
         break;
       case "Home":
         nextIndex = 0;
@@ -307,6 +371,12 @@ export class MicrovizChart extends HTMLElement {
       case "End":
         nextIndex = lastIndex;
         break;
+      case "Enter":
+      case " ":
+        if (this.#focusedMarkId === null) return;
+        event.preventDefault();
+        this.#select(this.#focusedMarkId, true);
+        return;
       default:
         return;
     }
@@ -361,6 +431,12 @@ export class MicrovizChart extends HTMLElement {
     return hit ? `${hit.markType}:${hit.markId}` : null;
   }
 
+  /** The hit datum's value in the spec's `format`. */
+  #hitValueText(hit: ReturnType<typeof hitTest>): string | undefined {
+    const value = hit?.datum?.value;
+    return value === undefined ? undefined : formatValue(value, this.#format);
+  }
+
   #maybeReemitHit(): void {
     if (!this.#isInteractive) return;
     if (!this.#model) return;
@@ -390,6 +466,7 @@ export class MicrovizChart extends HTMLElement {
           client: this.#lastPointerClient,
           hit,
           point,
+          valueText: this.#hitValueText(hit),
         },
       }),
     );
@@ -423,9 +500,10 @@ export class MicrovizChart extends HTMLElement {
       new CustomEvent("microviz-hit", {
         bubbles: true,
         composed: true,
-        detail: { client, hit, point },
+        detail: { client, hit, point, valueText: this.#hitValueText(hit) },
       }),
     );
+    this.#setHoveredMarkId(hit?.markId ?? null);
     const meta = this.#telemetryModelMeta;
     createTelemetry(this).emit({
       action: "hit",
@@ -440,10 +518,21 @@ export class MicrovizChart extends HTMLElement {
     });
   };
 
+  #onClick = (event: MouseEvent): void => {
+    const point = this.#toModelPoint({ x: event.clientX, y: event.clientY });
+    if (!point) return;
+    const hit = this.#hitTestAt(point);
+    this.#select(
+      hit?.markId ?? null,
+      event.shiftKey || event.ctrlKey || event.metaKey,
+    );
+  };
+
   #onPointerLeave = (event: PointerEvent): void => {
     this.#lastPointerClient = null;
     this.#lastHitKey = null;
     this.#lastPoint = null;
+    this.#setHoveredMarkId(null);
     this.dispatchEvent(
       new CustomEvent("microviz-hit", {
         bubbles: true,
@@ -518,6 +607,7 @@ export class MicrovizChart extends HTMLElement {
 
     // Parse spec with error tracking
     const { spec, error: specError } = this.#resolveSpecWithError();
+    this.#format = spec?.format;
     if (specError) {
       parseWarnings.push({
         code: "INVALID_JSON",
@@ -587,6 +677,7 @@ export class MicrovizChart extends HTMLElement {
       this.#model = null;
       this.#renderModel = null;
       this.#setFocusedMarkId(null);
+      this.#hoveredMarkId = null;
       applyMicrovizA11y(this, this.#internals, null);
       this.#setA11yItems([]);
       clearSvgFromShadowRoot(this.#root, {
@@ -623,9 +714,7 @@ export class MicrovizChart extends HTMLElement {
     }
 
     const size = this.#resolveSize({ height: 32, width: 200 });
-    const state = this.#focusedMarkId
-      ? { focusedMarkId: this.#focusedMarkId }
-      : undefined;
+    const state = this.#interactionState();
     let model: RenderModel;
     let modelMeta: TelemetryModelMeta | null = null;
     if (telemetry.enabled) {
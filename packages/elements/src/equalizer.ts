@@ -1,6 +1,6 @@
 import { computeModel, type RenderModel } from "@microviz/core";
 import { applyMicrovizA11y } from "./a11y";
-import { parseNumber, parseNumberArray } from "./parse";
+import { parseGappedNumberArray, parseNumber } from "./parse";
 import { renderSvgModelIntoShadowRoot } from "./render";
 import { applyMicrovizStyles } from "./styles";
 import {
@@ -73,7 +73,7 @@ export class MicrovizEqualizer extends HTMLElement {
   }
 
   #computeFromAttributes(): RenderModel {
-    const { data: series } = parseNumberArray(this.getAttribute("data"));
+    const { data: series } = parseGappedNumberArray(this.getAttribute("data"));
     const width = parseNumber(this.getAttribute("width"), 200);
     const height = parseNumber(this.getAttribute("height"), 32);
     const pad = this.hasAttribute("pad")
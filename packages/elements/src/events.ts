@@ -8,10 +8,18 @@ export type MicrovizHitDetail = {
   hit: HitResult | null;
   client?: MicrovizClientPoint;
   point?: Point;
+  /** The hit datum's value, formatted with the chart spec's `format`. */
+  valueText?: string;
 };
 
 export type MicrovizHitEvent = CustomEvent<MicrovizHitDetail>;
 
+export type MicrovizSelectDetail = {
+  selectedMarkIds: ReadonlyArray<string>;
+};
+
+export type MicrovizSelectEvent = CustomEvent<MicrovizSelectDetail>;
+
 export type MicrovizWarningDetail = {
   element: string;
   warnings: ReadonlyArray<DiagnosticWarning>;
@@ -2,8 +2,11 @@ import { MicrovizAuto } from "./auto";
 import { MicrovizBar } from "./bar";
 import { MicrovizBarcode } from "./barcode";
 import { MicrovizBitfield } from "./bitfield";
+import { MicrovizBoxPlot } from "./box-plot";
+import { MicrovizBullet } from "./bullet";
 import { MicrovizBulletDelta } from "./bullet-delta";
 import { MicrovizBulletGauge } from "./bullet-gauge";
+import { MicrovizCalendarHeatmap } from "./calendar-heatmap";
 import { MicrovizCascadeSteps } from "./cascade-steps";
 import { MicrovizChart } from "./chart";
 import { MicrovizChevron } from "./chevron";
@@ -31,6 +34,7 @@ import { MicrovizMatryoshka } from "./matryoshka";
 import { MicrovizMicroHeatline } from "./micro-heatline";
 import { MicrovizModel } from "./model";
 import { MicrovizMosaic } from "./mosaic";
+import { MicrovizMultiSparkline } from "./multi-sparkline";
 import { MicrovizNanoRing } from "./nano-ring";
 import { MicrovizOrbitalDots } from "./orbital-dots";
 import { MicrovizPareto } from "./pareto";
@@ -77,24 +81,31 @@ import { MicrovizTwoTier } from "./two-tier";
 import { MicrovizVariableRibbon } from "./variable-ribbon";
 import { MicrovizVerticalStack } from "./vertical-stack";
 import { MicrovizWaveform } from "./waveform";
+import { MicrovizWinLoss } from "./win-loss";
 
 export type {
   MicrovizClientPoint,
   MicrovizHitDetail,
   MicrovizHitEvent,
+  MicrovizSelectDetail,
+  MicrovizSelectEvent,
   MicrovizWarningDetail,
   MicrovizWarningEvent,
 } from "./events";
+export type { MultiSparklineLegendItem } from "./multi-sparkline";
 export type { RenderSvgModelOptions } from "./render";
 
 export {
   MicrovizBar,
+  MicrovizBullet,
   MicrovizBulletDelta,
   MicrovizBulletGauge,
+  MicrovizCalendarHeatmap,
   MicrovizCascadeSteps,
   MicrovizAuto,
   MicrovizBarcode,
   MicrovizBitfield,
+  MicrovizBoxPlot,
   MicrovizChart,
   MicrovizChevron,
   MicrovizCodeMinimap,
@@ -121,6 +132,7 @@ export {
   MicrovizModel,
   MicrovizMicroHeatline,
   MicrovizMosaic,
+  MicrovizMultiSparkline,
   MicrovizNanoRing,
   MicrovizOrbitalDots,
   MicrovizPareto,
@@ -157,6 +169,7 @@ export {
   MicrovizVariableRibbon,
   MicrovizVerticalStack,
   MicrovizWaveform,
+  MicrovizWinLoss,
 };
 
 export function registerMicrovizElements(): void {
@@ -180,10 +193,18 @@ export function registerMicrovizElements(): void {
     customElements.define("microviz-sparkline", MicrovizSparkline);
   }
 
+  if (!customElements.get("microviz-multi-sparkline")) {
+    customElements.define("microviz-multi-sparkline", MicrovizMultiSparkline);
+  }
+
   if (!customElements.get("microviz-range-band")) {
     customElements.define("microviz-range-band", MicrovizRangeBand);
   }
 
+  if (!customElements.get("microviz-bullet")) {
+    customElements.define("microviz-bullet", MicrovizBullet);
+  }
+
   if (!customElements.get("microviz-bullet-delta")) {
     customElements.define("microviz-bullet-delta", MicrovizBulletDelta);
   }
@@ -192,6 +213,10 @@ export function registerMicrovizElements(): void {
     customElements.define("microviz-bullet-gauge", MicrovizBulletGauge);
   }
 
+  if (!customElements.get("microviz-calendar-heatmap")) {
+    customElements.define("microviz-calendar-heatmap", MicrovizCalendarHeatmap);
+  }
+
   if (!customElements.get("microviz-cascade-steps")) {
     customElements.define("microviz-cascade-steps", MicrovizCascadeSteps);
   }
@@ -371,6 +396,10 @@ export function registerMicrovizElements(): void {
     customElements.define("microviz-bitfield", MicrovizBitfield);
   }
 
+  if (!customElements.get("microviz-box-plot")) {
+    customElements.define("microviz-box-plot", MicrovizBoxPlot);
+  }
+
   if (!customElements.get("microviz-mosaic")) {
     customElements.define("microviz-mosaic", MicrovizMosaic);
   }
@@ -431,6 +460,10 @@ export function registerMicrovizElements(): void {
     customElements.define("microviz-sparkline-bars", MicrovizSparklineBars);
   }
 
+  if (!customElements.get("microviz-win-loss")) {
+    customElements.define("microviz-win-loss", MicrovizWinLoss);
+  }
+
   if (!customElements.get("microviz-pattern-tiles")) {
     customElements.define("microviz-pattern-tiles", MicrovizPatternTiles);
   }
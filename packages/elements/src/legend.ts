@@ -106,6 +106,7 @@ export class MicrovizLegend extends HTMLElement {
   }
 
   connectedCallback(): void {
+    this.#pullItems();
     this.render();
   }
 
@@ -113,6 +114,28 @@ export class MicrovizLegend extends HTMLElement {
     this.render();
   }
 
+  /**
+   * Takes items from a `<microviz-multi-sparkline>` whose `legend` names this
+   * legend. Charts push their items when they render, so this only matters
+   * when the legend connects after the chart.
+   */
+  #pullItems(): void {
+    if (!this.id) return;
+    // Document or ShadowRoot; both search their own tree.
+    const root = this.getRootNode() as Partial<
+      Pick<Document, "querySelectorAll">
+    >;
+    const charts = root.querySelectorAll?.("microviz-multi-sparkline[legend]");
+    for (const chart of charts ?? []) {
+      if (chart.getAttribute("legend") !== this.id) continue;
+      const items = (chart as { legendItems?: unknown }).legendItems;
+      if (!Array.isArray(items)) continue;
+      const json = JSON.stringify(items);
+      if (this.getAttribute("items") !== json) this.setAttribute("items", json);
+      return;
+    }
+  }
+
   render(): void {
     const items = parseLegendItems(this.getAttribute("items"));
 
@@ -4,6 +4,7 @@ import {
   applyMicrovizA11y,
   getA11yItems,
   getHtmlRendererWarnings,
+  gridNavigationIndex,
   updateA11yFocus,
 } from "./a11y";
 import { parseOptionalNumber } from "./parse";
@@ -182,26 +183,33 @@ export class MicrovizModel extends HTMLElement {
 
     const lastIndex = this.#a11yItems.length - 1;
     const currentIndex = this.#focusIndex ?? -1;
+    const gridIndex = gridNavigationIndex(
+      this.#a11yItems,
+      currentIndex,
+      event.key,
+    );
     let nextIndex = currentIndex;
 
     switch (event.key) {
       case "ArrowRight":
       case "ArrowDown":
         nextIndex =
-          currentIndex < 0
+          gridIndex ??
+          (currentIndex < 0
             ? 0
             : currentIndex >= lastIndex
               ? 0
-              : currentIndex + 1;
+              : currentIndex + 1);
         break;
       case "ArrowLeft":
       case "ArrowUp":
         nextIndex =
-          currentIndex < 0
+          gridIndex ??
+          (currentIndex < 0
             ? lastIndex
             : currentIndex <= 0
               ? lastIndex
-              : currentIndex - 1;
+              : currentIndex - 1);
         break;
       case "Home":
         nextIndex = 0;
@@ -0,0 +1,160 @@
+import { computeModel, normalizeData, type RenderModel } from "@microviz/core";
+import { applyMicrovizA11y } from "./a11y";
+import {
+  type MultiSeriesInput,
+  parseBoolean,
+  parseCurve,
+  parseMultiSeries,
+  parseNumber,
+} from "./parse";
+import { renderSvgModelIntoShadowRoot } from "./render";
+import { applyMicrovizStyles } from "./styles";
+import {
+  type AnimationState,
+  animateTransition,
+  cleanupAnimation,
+  createAnimationState,
+} from "./transition";
+
+const SPEC_TYPE = "multi-sparkline";
+
+/** Item shape accepted by `<microviz-legend items>`. */
+export type MultiSparklineLegendItem = { label: string; color: string };
+
+function legendItemsFor(
+  data: ReadonlyArray<MultiSeriesInput>,
+): MultiSparklineLegendItem[] {
+  const normalized = normalizeData({ type: SPEC_TYPE }, data);
+  if (normalized.type !== SPEC_TYPE) return [];
+  return normalized.series.map((s) => ({ color: s.color, label: s.name }));
+}
+
+/** Legend items for a precomputed model, from its per-series a11y items. */
+function legendItemsFromModel(model: RenderModel): MultiSparklineLegendItem[] {
+  return (model.a11y?.items ?? []).flatMap((item) =>
+    item.series !== undefined && item.color
+      ? [{ color: item.color, label: item.series }]
+      : [],
+  );
+}
+
+/**
+ * Several series on one shared y-domain. Set `legend` to the id of a
+ * `<microviz-legend>` in the same root to keep its items in sync with the
+ * series names and colors; a legend connected later pulls them itself.
+ */
+export class MicrovizMultiSparkline extends HTMLElement {
+  static observedAttributes = [
+    "animate",
+    "data",
+    "width",
+    "height",
+    "pad",
+    "show-dot",
+    "dot-radius",
+    "legend",
+    "curve",
+  ];
+
+  readonly #internals: ElementInternals | null;
+  readonly #root: ShadowRoot;
+  readonly #animState: AnimationState = createAnimationState(this);
+  #modelOverride: RenderModel | null = null;
+  #legendItems: MultiSparklineLegendItem[] = [];
+
+  constructor() {
+    super();
+    this.#internals =
+      typeof this.attachInternals === "function"
+        ? this.attachInternals()
+        : null;
+    this.#root = this.attachShadow({ mode: "open" });
+    applyMicrovizStyles(this.#root);
+  }
+
+  connectedCallback(): void {
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    cleanupAnimation(this.#animState);
+  }
+
+  attributeChangedCallback(): void {
+    this.render();
+  }
+
+  get model(): RenderModel | null {
+    return this.#modelOverride;
+  }
+
+  set model(model: RenderModel | null) {
+    this.#modelOverride = model;
+    this.render();
+  }
+
+  /**
+   * Legend items for the series in `data` (or in the `model` override), in
+   * input order.
+   */
+  get legendItems(): ReadonlyArray<MultiSparklineLegendItem> {
+    return this.#legendItems;
+  }
+
+  render(): void {
+    const override = this.#modelOverride;
+    if (override) this.#legendItems = legendItemsFromModel(override);
+    const model = override ?? this.#computeFromAttributes();
+    applyMicrovizA11y(this, this.#internals, model);
+    animateTransition(this.#animState, model, (m) => this.#renderFrame(m));
+    this.#syncLegend();
+  }
+
+  #renderFrame(model: RenderModel): void {
+    renderSvgModelIntoShadowRoot(this.#root, model, {
+      specType: SPEC_TYPE,
+    });
+  }
+
+  #syncLegend(): void {
+    const id = this.getAttribute("legend");
+    if (!id || !this.isConnected) return;
+    // Document or ShadowRoot; both resolve ids within their own tree.
+    const root = this.getRootNode() as Partial<
+      Pick<Document, "getElementById">
+    >;
+    const legend = root.getElementById?.(id);
+    if (legend?.localName !== "microviz-legend") return;
+    const items = JSON.stringify(this.#legendItems);
+    if (legend.getAttribute("items") !== items)
+      legend.setAttribute("items", items);
+  }
+
+  #computeFromAttributes(): RenderModel {
+    const data = parseMultiSeries(this.getAttribute("data"));
+    const width = parseNumber(this.getAttribute("width"), 200);
+    const height = parseNumber(this.getAttribute("height"), 32);
+    const pad = this.hasAttribute("pad")
+      ? parseNumber(this.getAttribute("pad"), 3)
+      : undefined;
+    const showDot = this.hasAttribute("show-dot")
+      ? parseBoolean(this.getAttribute("show-dot"), true)
+      : undefined;
+    const dotRadius = this.hasAttribute("dot-radius")
+      ? parseNumber(this.getAttribute("dot-radius"), 2.4)
+      : undefined;
+
+    this.#legendItems = legendItemsFor(data);
+    return computeModel({
+      data,
+      size: { height, width },
+      spec: {
+        curve: parseCurve(this.getAttribute("curve")),
+        dotRadius,
+        pad,
+        showDot,
+        type: SPEC_TYPE,
+      },
+    });
+  }
+}
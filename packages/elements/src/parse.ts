@@ -1,3 +1,11 @@
+import type {
+  BoxPlotData,
+  CalendarHeatmapRecord,
+  CurveType,
+  LineSeriesData,
+  SeriesMarker,
+} from "@microviz/core";
+
 export function parseNumber(value: string | null, fallback: number): number {
   if (!value) return fallback;
   const n = Number(value);
@@ -23,6 +31,62 @@ export function parseBoolean(value: string | null, fallback: boolean): boolean {
   return fallback;
 }
 
+const CURVE_TYPES: ReadonlyArray<CurveType> = [
+  "linear",
+  "monotone",
+  "catmullRom",
+  "step-before",
+  "step-after",
+  "basis",
+];
+
+/** Parse a `curve` attribute; unknown values leave the chart default. */
+export function parseCurve(value: string | null): CurveType | undefined {
+  const raw = value?.trim();
+  return CURVE_TYPES.find((curve) => curve === raw);
+}
+
+const SERIES_MARKERS: ReadonlyArray<SeriesMarker> = [
+  "min",
+  "max",
+  "first",
+  "last",
+];
+
+/**
+ * Parse a `markers` attribute: marker names separated by spaces or commas
+ * (`"min max"`). Unknown names are ignored.
+ */
+export function parseMarkers(value: string | null): SeriesMarker[] | undefined {
+  if (value === null) return undefined;
+  return value
+    .split(/[\s,]+/)
+    .filter((name): name is SeriesMarker =>
+      SERIES_MARKERS.some((marker) => marker === name),
+    );
+}
+
+/**
+ * Parse a list of labels: a JSON string array, or names separated by commas
+ * (`"poor, satisfactory, good"`). Labels may contain spaces.
+ */
+export function parseStringList(value: string | null): string[] | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  if (trimmed.startsWith("[")) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed.map(String);
+    } catch {
+      // Fall through to comma parsing
+    }
+  }
+  return trimmed
+    .split(",")
+    .map((label) => label.trim())
+    .filter(Boolean);
+}
+
 /**
  * Result of parsing with optional dropped value tracking.
  */
@@ -33,21 +97,19 @@ export type ParseNumberArrayResult = {
 };
 
 /**
- * Parse a data attribute into a number array.
- *
- * Supports multiple formats for vibe-coding / sandbox friendliness:
- * - JSON array: `[1, 2, 3]`
- * - Comma-separated: `1,2,3` or `1, 2, 3`
- * - Space-separated: `1 2 3`
- * - Mixed delimiters: `1, 2 3` (comma + space)
- *
- * @param value - The raw attribute value
- * @param strict - If true, track dropped values for warnings
+ * Result of parsing series data where `null` marks a gap.
  */
-export function parseNumberArray(
+export type ParseGappedNumberArrayResult = {
+  data: Array<number | null>;
+  /** Raw tokens that were dropped (only tracked in strict mode) */
+  dropped?: string[];
+};
+
+function parseArrayTokens(
   value: string | null,
-  strict?: boolean,
-): ParseNumberArrayResult {
+  strict: boolean | undefined,
+  keepNulls: boolean,
+): ParseGappedNumberArrayResult {
   if (!value) return { data: [] };
 
   const trimmed = value.trim();
@@ -60,11 +122,13 @@ export function parseNumberArray(
       if (!Array.isArray(parsed)) {
         return strict ? { data: [], dropped: [trimmed] } : { data: [] };
       }
-      const valid: number[] = [];
+      const valid: Array<number | null> = [];
       const dropped: string[] = [];
       for (const v of parsed) {
         if (typeof v === "number" && Number.isFinite(v)) {
           valid.push(v);
+        } else if (v === null && keepNulls) {
+          valid.push(null);
         } else if (strict) {
           dropped.push(String(v));
         }
@@ -78,13 +142,15 @@ export function parseNumberArray(
   // Try comma/space-separated (lenient parsing for vibe coding)
   // Matches: "1,2,3" or "1 2 3" or "1, 2, 3" or "-1.5, 2.5, 3"
   const tokens = trimmed.split(/[\s,]+/).filter(Boolean);
-  const valid: number[] = [];
+  const valid: Array<number | null> = [];
   const dropped: string[] = [];
 
   for (const token of tokens) {
     const n = Number(token);
     if (Number.isFinite(n)) {
       valid.push(n);
+    } else if (token === "null" && keepNulls) {
+      valid.push(null);
     } else if (strict) {
       dropped.push(token);
     }
@@ -93,10 +159,80 @@ export function parseNumberArray(
   return dropped.length > 0 ? { data: valid, dropped } : { data: valid };
 }
 
+/**
+ * Parse a data attribute into a number array.
+ *
+ * Supports multiple formats for vibe-coding / sandbox friendliness:
+ * - JSON array: `[1, 2, 3]`
+ * - Comma-separated: `1,2,3` or `1, 2, 3`
+ * - Space-separated: `1 2 3`
+ * - Mixed delimiters: `1, 2 3` (comma + space)
+ *
+ * @param value - The raw attribute value
+ * @param strict - If true, track dropped values for warnings
+ */
+export function parseNumberArray(
+  value: string | null,
+  strict?: boolean,
+): ParseNumberArrayResult {
+  // Without `keepNulls` every entry is a number.
+  return parseArrayTokens(value, strict, false) as ParseNumberArrayResult;
+}
+
+/**
+ * Like `parseNumberArray`, but keeps `null` entries (JSON `null` or a `null`
+ * token) as gaps for gap-aware series charts.
+ */
+export function parseGappedNumberArray(
+  value: string | null,
+  strict?: boolean,
+): ParseGappedNumberArrayResult {
+  return parseArrayTokens(value, strict, true);
+}
+
+/**
+ * Result of parsing line-family data.
+ */
+export type ParseLineSeriesResult = {
+  data: LineSeriesData;
+  /** Raw tokens that were dropped (only tracked in strict mode) */
+  dropped?: string[];
+};
+
+/**
+ * Parse a data attribute for line-family charts: JSON `{ x, y }` points or
+ * parallel `{ "x": [...], "y": [...] }` arrays pass through as x/y data;
+ * anything else is parsed like `parseGappedNumberArray`.
+ */
+export function parseLineSeries(
+  value: string | null,
+  strict?: boolean,
+): ParseLineSeriesResult {
+  const trimmed = value?.trim() ?? "";
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      const isPoints =
+        Array.isArray(parsed) &&
+        parsed.some((d) => typeof d === "object" && d !== null);
+      const isParallel =
+        typeof parsed === "object" &&
+        parsed !== null &&
+        !Array.isArray(parsed) &&
+        "x" in parsed &&
+        "y" in parsed;
+      if (isPoints || isParallel) return { data: parsed as LineSeriesData };
+    } catch {
+      // Fall through to number parsing
+    }
+  }
+  return parseGappedNumberArray(value, strict);
+}
+
 export type BitfieldSegmentInput = {
   name?: string;
   pct: number;
-  color: string;
+  color?: string;
 };
 
 export function parseBitfieldSegments(
@@ -115,10 +251,10 @@ export function parseBitfieldSegments(
       const name = (item as { name?: unknown }).name;
 
       if (typeof pct !== "number" || !Number.isFinite(pct)) continue;
-      if (typeof color !== "string" || color.length === 0) continue;
 
       segments.push({
-        color,
+        color:
+          typeof color === "string" && color.length > 0 ? color : undefined,
         name: typeof name === "string" ? name : undefined,
         pct,
       });
@@ -128,3 +264,111 @@ export function parseBitfieldSegments(
     return [];
   }
 }
+
+export type MultiSeriesInput = {
+  name: string;
+  values: number[];
+  color?: string;
+};
+
+/**
+ * Parse multi-series data: `[{ "name", "values", "color"? }]` or a bare
+ * `number[][]` (named "Series N").
+ */
+export function parseMultiSeries(value: string | null): MultiSeriesInput[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+
+    const series: MultiSeriesInput[] = [];
+    for (const [i, item] of parsed.entries()) {
+      const raw = Array.isArray(item)
+        ? item
+        : item && typeof item === "object"
+          ? (item as { values?: unknown }).values
+          : undefined;
+      if (!Array.isArray(raw)) continue;
+
+      const values = raw.filter(
+        (v): v is number => typeof v === "number" && Number.isFinite(v),
+      );
+      const name = (item as { name?: unknown }).name;
+      const color = (item as { color?: unknown }).color;
+      series.push({
+        color:
+          typeof color === "string" && color.length > 0 ? color : undefined,
+        name: typeof name === "string" ? name : `Series ${i + 1}`,
+        values,
+      });
+    }
+    return series;
+  } catch {
+    return [];
+  }
+}
+
+const BOX_PLOT_SUMMARY_KEYS = ["min", "q1", "median", "q3", "max"] as const;
+
+/**
+ * Parse box-plot data: a JSON `{ min, q1, median, q3, max, outliers? }`
+ * summary, or raw samples in any `parseNumberArray` form.
+ */
+export function parseBoxPlotData(value: string | null): BoxPlotData {
+  const trimmed = value?.trim() ?? "";
+  if (trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed) as Record<string, unknown>;
+      const [min, q1, median, q3, max] = BOX_PLOT_SUMMARY_KEYS.map(
+        (key) => parsed[key],
+      );
+      if (
+        typeof min !== "number" ||
+        typeof q1 !== "number" ||
+        typeof median !== "number" ||
+        typeof q3 !== "number" ||
+        typeof max !== "number"
+      )
+        return [];
+      const outliers = Array.isArray(parsed.outliers)
+        ? parsed.outliers.filter(
+            (v): v is number => typeof v === "number" && Number.isFinite(v),
+          )
+        : undefined;
+      return { max, median, min, outliers, q1, q3 };
+    } catch {
+      return [];
+    }
+  }
+  return parseNumberArray(value).data;
+}
+
+/**
+ * Parse calendar-heatmap data: a JSON array of `{ date, value }` records.
+ * Records without a string or numeric date are dropped; a non-numeric value
+ * becomes `null` (a day without data).
+ */
+export function parseCalendarHeatmapData(
+  value: string | null,
+): CalendarHeatmapRecord[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+
+    const records: CalendarHeatmapRecord[] = [];
+    for (const item of parsed) {
+      if (!item || typeof item !== "object") continue;
+      const date = (item as { date?: unknown }).date;
+      const v = (item as { value?: unknown }).value;
+      if (typeof date !== "string" && typeof date !== "number") continue;
+      records.push({
+        date,
+        value: typeof v === "number" && Number.isFinite(v) ? v : null,
+      });
+    }
+    return records;
+  } catch {
+    return [];
+  }
+}
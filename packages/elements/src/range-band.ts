@@ -1,6 +1,6 @@
 import { computeModel, type RenderModel } from "@microviz/core";
 import { applyMicrovizA11y } from "./a11y";
-import { parseNumber, parseNumberArray } from "./parse";
+import { parseGappedNumberArray, parseMarkers, parseNumber } from "./parse";
 import { renderSvgModelIntoShadowRoot } from "./render";
 import { applyMicrovizStyles } from "./styles";
 import {
@@ -23,6 +23,7 @@ export class MicrovizRangeBand extends HTMLElement {
     "band-opacity",
     "dot-radius",
     "stroke-width",
+    "markers",
   ];
 
   readonly #internals: ElementInternals | null;
@@ -74,7 +75,7 @@ export class MicrovizRangeBand extends HTMLElement {
   }
 
   #computeFromAttributes(): RenderModel {
-    const { data } = parseNumberArray(this.getAttribute("data"));
+    const { data } = parseGappedNumberArray(this.getAttribute("data"));
     const width = parseNumber(this.getAttribute("width"), 200);
     const height = parseNumber(this.getAttribute("height"), 32);
     const pad = this.hasAttribute("pad")
@@ -100,6 +101,7 @@ export class MicrovizRangeBand extends HTMLElement {
         bandOpacity,
         bandSeed,
         dotRadius,
+        markers: parseMarkers(this.getAttribute("markers")),
         pad,
         strokeWidth,
         type: SPEC_TYPE,
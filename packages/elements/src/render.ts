@@ -268,10 +268,19 @@ export function patchSvgIntoShadowRoot(
   for (const nextMark of nextMarks) {
     const id = nextMark.getAttribute("id");
 
-    const existingMark = id ? existingById.get(id) : undefined;
+    let existingMark = id ? existingById.get(id) : undefined;
+    if (existingMark && existingMark.tagName !== nextMark.tagName) {
+      // Same id, different mark type (e.g. a polyline that became a curved
+      // path): swap in the new element, then patch/position it as usual.
+      const replacement = nextMark.cloneNode(true) as Element;
+      existingMark.replaceWith(replacement);
+      existingMark = replacement;
+    }
     if (id && existingMark) {
       // Existing mark - patch it
       patchAttributes(existingMark, nextMark);
+      // Group marks carry nested marks; keep their subtree in sync too.
+      if (nextMark.tagName === "g") patchChildren(existingMark, nextMark);
       processedIds.add(id);
 
       // Move to correct position if needed
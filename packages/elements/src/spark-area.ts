@@ -1,6 +1,12 @@
 import { computeModel, type RenderModel } from "@microviz/core";
 import { applyMicrovizA11y } from "./a11y";
-import { parseNumber, parseNumberArray } from "./parse";
+import {
+  parseBoolean,
+  parseCurve,
+  parseLineSeries,
+  parseMarkers,
+  parseNumber,
+} from "./parse";
 import { renderSvgModelIntoShadowRoot } from "./render";
 import { applyMicrovizStyles } from "./styles";
 import {
@@ -22,6 +28,9 @@ export class MicrovizSparkArea extends HTMLElement {
     "dot-radius",
     "stroke-width",
     "gradient-top-opacity",
+    "interpolate-gaps",
+    "curve",
+    "markers",
   ];
 
   readonly #internals: ElementInternals | null;
@@ -73,12 +82,15 @@ export class MicrovizSparkArea extends HTMLElement {
   }
 
   #computeFromAttributes(): RenderModel {
-    const { data } = parseNumberArray(this.getAttribute("data"));
+    const { data } = parseLineSeries(this.getAttribute("data"));
     const width = parseNumber(this.getAttribute("width"), 200);
     const height = parseNumber(this.getAttribute("height"), 32);
     const pad = this.hasAttribute("pad")
       ? parseNumber(this.getAttribute("pad"), 3)
       : undefined;
+    const interpolateGaps = this.hasAttribute("interpolate-gaps")
+      ? parseBoolean(this.getAttribute("interpolate-gaps"), true)
+      : undefined;
     const dotRadius = this.hasAttribute("dot-radius")
       ? parseNumber(this.getAttribute("dot-radius"), 2.2)
       : undefined;
@@ -93,8 +105,11 @@ export class MicrovizSparkArea extends HTMLElement {
       data,
       size: { height, width },
       spec: {
+        curve: parseCurve(this.getAttribute("curve")),
         dotRadius,
         gradientTopOpacity,
+        interpolateGaps,
+        markers: parseMarkers(this.getAttribute("markers")),
         pad,
         strokeWidth,
         type: SPEC_TYPE,
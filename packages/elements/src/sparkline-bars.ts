@@ -1,6 +1,6 @@
 import { computeModel, type RenderModel } from "@microviz/core";
 import { applyMicrovizA11y } from "./a11y";
-import { parseNumber, parseNumberArray } from "./parse";
+import { parseBoolean, parseGappedNumberArray, parseNumber } from "./parse";
 import { renderSvgModelIntoShadowRoot } from "./render";
 import { applyMicrovizStyles } from "./styles";
 import {
@@ -20,6 +20,7 @@ export class MicrovizSparklineBars extends HTMLElement {
     "height",
     "pad",
     "gap",
+    "interpolate-gaps",
   ];
 
   readonly #internals: ElementInternals | null;
@@ -71,7 +72,7 @@ export class MicrovizSparklineBars extends HTMLElement {
   }
 
   #computeFromAttributes(): RenderModel {
-    const { data: series } = parseNumberArray(this.getAttribute("data"));
+    const { data: series } = parseGappedNumberArray(this.getAttribute("data"));
     const width = parseNumber(this.getAttribute("width"), 200);
     const height = parseNumber(this.getAttribute("height"), 32);
     const pad = this.hasAttribute("pad")
@@ -80,11 +81,14 @@ export class MicrovizSparklineBars extends HTMLElement {
     const gap = this.hasAttribute("gap")
       ? parseNumber(this.getAttribute("gap"), 1)
       : undefined;
+    const interpolateGaps = this.hasAttribute("interpolate-gaps")
+      ? parseBoolean(this.getAttribute("interpolate-gaps"), true)
+      : undefined;
 
     return computeModel({
       data: series,
       size: { height, width },
-      spec: { gap, pad, type: SPEC_TYPE },
+      spec: { gap, interpolateGaps, pad, type: SPEC_TYPE },
     });
   }
 }
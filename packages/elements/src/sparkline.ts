@@ -4,7 +4,13 @@ import {
   type ValidationMode,
 } from "@microviz/core";
 import { applyMicrovizA11y } from "./a11y";
-import { parseNumber, parseNumberArray } from "./parse";
+import {
+  parseBoolean,
+  parseCurve,
+  parseLineSeries,
+  parseMarkers,
+  parseNumber,
+} from "./parse";
 import { renderSvgModelIntoShadowRoot } from "./render";
 import { applyMicrovizStyles } from "./styles";
 import {
@@ -24,6 +30,9 @@ export class MicrovizSparkline extends HTMLElement {
     "height",
     "pad",
     "validate",
+    "interpolate-gaps",
+    "curve",
+    "markers",
   ];
 
   readonly #internals: ElementInternals | null;
@@ -79,7 +88,7 @@ export class MicrovizSparkline extends HTMLElement {
         : "normal";
     const strict = validation === "strict";
 
-    const { data, dropped } = parseNumberArray(
+    const { data, dropped } = parseLineSeries(
       this.getAttribute("data"),
       strict,
     );
@@ -88,11 +97,20 @@ export class MicrovizSparkline extends HTMLElement {
     const pad = this.hasAttribute("pad")
       ? parseNumber(this.getAttribute("pad"), 3)
       : undefined;
+    const interpolateGaps = this.hasAttribute("interpolate-gaps")
+      ? parseBoolean(this.getAttribute("interpolate-gaps"), true)
+      : undefined;
 
     const model = computeModel({
       data,
       size: { height, width },
-      spec: { pad, type: SPEC_TYPE },
+      spec: {
+        curve: parseCurve(this.getAttribute("curve")),
+        interpolateGaps,
+        markers: parseMarkers(this.getAttribute("markers")),
+        pad,
+        type: SPEC_TYPE,
+      },
       validation,
     });
 
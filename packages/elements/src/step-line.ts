@@ -1,6 +1,11 @@
 import { computeModel, type RenderModel } from "@microviz/core";
 import { applyMicrovizA11y } from "./a11y";
-import { parseBoolean, parseNumber, parseNumberArray } from "./parse";
+import {
+  parseBoolean,
+  parseLineSeries,
+  parseMarkers,
+  parseNumber,
+} from "./parse";
 import { renderSvgModelIntoShadowRoot } from "./render";
 import { applyMicrovizStyles } from "./styles";
 import {
@@ -21,6 +26,8 @@ export class MicrovizStepLine extends HTMLElement {
     "pad",
     "show-dot",
     "dot-radius",
+    "interpolate-gaps",
+    "markers",
   ];
 
   readonly #internals: ElementInternals | null;
@@ -72,12 +79,15 @@ export class MicrovizStepLine extends HTMLElement {
   }
 
   #computeFromAttributes(): RenderModel {
-    const { data } = parseNumberArray(this.getAttribute("data"));
+    const { data } = parseLineSeries(this.getAttribute("data"));
     const width = parseNumber(this.getAttribute("width"), 200);
     const height = parseNumber(this.getAttribute("height"), 32);
     const pad = this.hasAttribute("pad")
       ? parseNumber(this.getAttribute("pad"), 3)
       : undefined;
+    const interpolateGaps = this.hasAttribute("interpolate-gaps")
+      ? parseBoolean(this.getAttribute("interpolate-gaps"), true)
+      : undefined;
     const showDot = this.hasAttribute("show-dot")
       ? parseBoolean(this.getAttribute("show-dot"), true)
       : undefined;
@@ -88,7 +98,14 @@ export class MicrovizStepLine extends HTMLElement {
     return computeModel({
       data,
       size: { height, width },
-      spec: { dotRadius, pad, showDot, type: SPEC_TYPE },
+      spec: {
+        dotRadius,
+        interpolateGaps,
+        markers: parseMarkers(this.getAttribute("markers")),
+        pad,
+        showDot,
+        type: SPEC_TYPE,
+      },
     });
   }
 }
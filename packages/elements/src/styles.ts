@@ -11,7 +11,11 @@
  * cannot self-reference (e.g., --mv-series-1: var(--mv-series-1, fallback) is invalid).
  */
 const FALLBACK_SERIES_1 = "#4e79a7";
+/** Green and red for win/loss ticks, in the base theme's series-2/-5 hues. */
+const FALLBACK_SERIES_2 = "#59a14f";
+const FALLBACK_SERIES_5 = "#e15759";
 const FALLBACK_MUTED = "#94a3b8";
+const FALLBACK_GRID = "#e2e8f0";
 
 const stylesText = `
 :host {
@@ -105,6 +109,12 @@ svg {
   fill: none;
 }
 
+/* Stroke comes from the mark (per-series color), not from the class. */
+.mv-multi-sparkline-line {
+  stroke-width: var(--mv-stroke-width, 1.5px);
+  fill: none;
+}
+
 .mv-range-band-band {
   fill: var(--mv-series-1, ${FALLBACK_SERIES_1});
 }
@@ -127,6 +137,58 @@ svg {
   fill: var(--mv-series-1, ${FALLBACK_SERIES_1});
 }
 
+.mv-box-plot-box {
+  fill: var(--mv-series-1, ${FALLBACK_SERIES_1});
+  fill-opacity: 0.25;
+  stroke: var(--mv-series-1, ${FALLBACK_SERIES_1});
+}
+
+.mv-box-plot-median {
+  fill: none;
+  stroke: var(--mv-series-1, ${FALLBACK_SERIES_1});
+  stroke-width: var(--mv-stroke-width, 1.5px);
+}
+
+.mv-box-plot-whisker,
+.mv-box-plot-cap {
+  fill: none;
+  stroke: var(--mv-muted, ${FALLBACK_MUTED});
+}
+
+.mv-box-plot-outlier {
+  fill: none;
+  stroke: var(--mv-series-1, ${FALLBACK_SERIES_1});
+}
+
+.mv-bullet-range {
+  fill: var(--mv-muted, ${FALLBACK_MUTED});
+}
+
+.mv-bullet-range-1 {
+  fill-opacity: 0.55;
+}
+
+.mv-bullet-range-2 {
+  fill-opacity: 0.4;
+}
+
+.mv-bullet-range-3 {
+  fill-opacity: 0.28;
+}
+
+.mv-bullet-range-4 {
+  fill-opacity: 0.18;
+}
+
+.mv-bullet-range-5 {
+  fill-opacity: 0.1;
+}
+
+.mv-bullet-bar,
+.mv-bullet-target {
+  fill: var(--mv-fg, currentColor);
+}
+
 .mv-bullet-delta-track {
   fill: none;
   stroke: var(--mv-muted, ${FALLBACK_MUTED});
@@ -169,10 +231,31 @@ svg {
   fill: var(--mv-series-1, ${FALLBACK_SERIES_1});
 }
 
+.mv-calendar-heatmap-day {
+  fill: var(--mv-series-1, ${FALLBACK_SERIES_1});
+}
+
+.mv-calendar-heatmap-empty {
+  fill: var(--mv-muted, ${FALLBACK_MUTED});
+  fill-opacity: 0.35;
+}
+
+.mv-calendar-heatmap-month {
+  fill: none;
+  stroke: var(--mv-muted, ${FALLBACK_MUTED});
+}
+
 .mv-dot-matrix-dot {
   fill: var(--mv-series-1, ${FALLBACK_SERIES_1});
 }
 
+/* Bars without spec colors take the text color. */
+.mv-equalizer-bar:not([fill]),
+.mv-waveform-bar:not([fill]),
+.mv-code-minimap-line:not([fill]) {
+  fill: var(--mv-fg, currentColor);
+}
+
 .mv-barcode-bin {
   shape-rendering: crispEdges;
 }
@@ -213,6 +296,79 @@ svg {
 .mv-sparkline-bars-bar {
   fill: var(--mv-series-1, ${FALLBACK_SERIES_1});
 }
+
+.mv-win-loss-tick.mv-win {
+  fill: var(--mv-series-2, ${FALLBACK_SERIES_2});
+}
+
+.mv-win-loss-tick.mv-loss {
+  fill: var(--mv-series-5, ${FALLBACK_SERIES_5});
+}
+
+.mv-win-loss-tick.mv-draw {
+  fill: var(--mv-muted, ${FALLBACK_MUTED});
+}
+
+.mv-win-loss-baseline {
+  fill: none;
+  stroke: var(--mv-grid, ${FALLBACK_GRID});
+}
+
+.mv-annotation-rule {
+  fill: none;
+  stroke: var(--mv-muted, ${FALLBACK_MUTED});
+  stroke-dasharray: 3 2;
+}
+
+.mv-annotation-band {
+  fill: var(--mv-muted, ${FALLBACK_MUTED});
+  fill-opacity: 0.15;
+}
+
+.mv-annotation-point {
+  fill: var(--mv-series-1, ${FALLBACK_SERIES_1});
+}
+
+.mv-marker {
+  fill: var(--mv-series-1, ${FALLBACK_SERIES_1});
+}
+
+/*
+ * Interaction states; paint computed from a theme or dim-opacity wins.
+ * Filled marks get an outline; stroke-only marks (lines, fill="none") keep
+ * their color and widen, matching the concrete paint.
+ */
+.mv-dimmed:not([opacity]) {
+  opacity: 0.4;
+}
+
+.mv-hovered:not([stroke]):not([fill="none"]):not(line) {
+  stroke: var(--mv-fg, currentColor);
+  stroke-width: 1px;
+}
+
+.mv-selected:not([stroke]):not([fill="none"]):not(line) {
+  stroke: var(--mv-fg, currentColor);
+  stroke-width: 2px;
+}
+
+.mv-hovered[fill="none"],
+line.mv-hovered {
+  stroke-width: calc(var(--mv-stroke-width, 1.5px) + 1px);
+}
+
+.mv-selected[fill="none"],
+line.mv-selected {
+  stroke-width: calc(var(--mv-stroke-width, 1.5px) + 2px);
+}
+
+.mv-html-mark.mv-hovered {
+  outline: 1px solid var(--mv-fg, currentColor);
+}
+
+.mv-html-mark.mv-selected {
+  outline: 2px solid var(--mv-fg, currentColor);
+}
 `;
 
 export type StylesTarget = { adoptedStyleSheets?: CSSStyleSheet[] } & Node;
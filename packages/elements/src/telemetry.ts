@@ -24,6 +24,8 @@ export type TelemetryModelStats = {
   warningCodes?: string[];
   a11yItems?: number;
   hasA11ySummary: boolean;
+  /** Input vs drawn series points, when the chart downsampled. */
+  points?: { original: number; rendered: number };
 };
 
 export type TelemetryPayload = {
@@ -157,6 +159,7 @@ export function modelTelemetryStats(
     hasLayers,
     layerCount,
     markCount: stats?.markCount ?? model.marks.length,
+    points: stats?.points,
     textCount,
     warningCodes: warningCodes.length > 0 ? warningCodes : undefined,
     warningCount: warningCodes.length,
@@ -0,0 +1,103 @@
+import { computeModel, type RenderModel } from "@microviz/core";
+import { applyMicrovizA11y } from "./a11y";
+import {
+  parseBoolean,
+  parseGappedNumberArray,
+  parseNumber,
+  parseOptionalNumber,
+} from "./parse";
+import { renderSvgModelIntoShadowRoot } from "./render";
+import { applyMicrovizStyles } from "./styles";
+import {
+  type AnimationState,
+  animateTransition,
+  cleanupAnimation,
+  createAnimationState,
+} from "./transition";
+
+const SPEC_TYPE = "win-loss";
+
+export class MicrovizWinLoss extends HTMLElement {
+  static observedAttributes = [
+    "animate",
+    "data",
+    "width",
+    "height",
+    "pad",
+    "gap",
+    "tick-height",
+    "draw-height",
+    "baseline",
+  ];
+
+  readonly #internals: ElementInternals | null;
+  readonly #root: ShadowRoot;
+  readonly #animState: AnimationState = createAnimationState(this);
+  #modelOverride: RenderModel | null = null;
+
+  constructor() {
+    super();
+    this.#internals =
+      typeof this.attachInternals === "function"
+        ? this.attachInternals()
+        : null;
+    this.#root = this.attachShadow({ mode: "open" });
+    applyMicrovizStyles(this.#root);
+  }
+
+  connectedCallback(): void {
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    cleanupAnimation(this.#animState);
+  }
+
+  attributeChangedCallback(): void {
+    this.render();
+  }
+
+  get model(): RenderModel | null {
+    return this.#modelOverride;
+  }
+
+  set model(model: RenderModel | null) {
+    this.#modelOverride = model;
+    this.render();
+  }
+
+  render(): void {
+    const model = this.#modelOverride ?? this.#computeFromAttributes();
+    applyMicrovizA11y(this, this.#internals, model);
+    animateTransition(this.#animState, model, (m) => this.#renderFrame(m));
+  }
+
+  #renderFrame(model: RenderModel): void {
+    renderSvgModelIntoShadowRoot(this.#root, model, {
+      specType: SPEC_TYPE,
+    });
+  }
+
+  #computeFromAttributes(): RenderModel {
+    const { data: series } = parseGappedNumberArray(this.getAttribute("data"));
+    const width = parseNumber(this.getAttribute("width"), 200);
+    const height = parseNumber(this.getAttribute("height"), 32);
+    const pad = this.hasAttribute("pad")
+      ? parseNumber(this.getAttribute("pad"), 2)
+      : undefined;
+    const gap = this.hasAttribute("gap")
+      ? parseNumber(this.getAttribute("gap"), 1)
+      : undefined;
+    const tickHeight = parseOptionalNumber(this.getAttribute("tick-height"));
+    const drawHeight = parseOptionalNumber(this.getAttribute("draw-height"));
+    const baseline = this.hasAttribute("baseline")
+      ? parseBoolean(this.getAttribute("baseline"), true)
+      : undefined;
+
+    return computeModel({
+      data: series,
+      size: { height, width },
+      spec: { baseline, drawHeight, gap, pad, tickHeight, type: SPEC_TYPE },
+    });
+  }
+}
@@ -99,6 +99,26 @@ describe("@microviz/elements", () => {
     ).toBeNull();
   });
 
+  it("colors segments without a color (microviz-segmented-bar)", () => {
+    const el = document.createElement("microviz-segmented-bar");
+    el.setAttribute("width", "100");
+    el.setAttribute("height", "8");
+    el.setAttribute(
+      "data",
+      JSON.stringify([
+        { name: "A", pct: 40 },
+        { name: "B", pct: 60 },
+      ]),
+    );
+    document.body.append(el);
+
+    const fills = [...(el.shadowRoot?.querySelectorAll("rect") ?? [])].map(
+      (rect) => rect.getAttribute("fill"),
+    );
+    expect(fills).toContain("var(--mv-series-1, currentColor)");
+    expect(fills).toContain("var(--mv-series-2, currentColor)");
+  });
+
   it("parses boolean attributes (microviz-step-line show-dot)", () => {
     const el = document.createElement("microviz-step-line");
     el.setAttribute("width", "80");
@@ -113,6 +133,173 @@ describe("@microviz/elements", () => {
     expect(el.shadowRoot?.querySelector("circle#step-line-dot")).not.toBeNull();
   });
 
+  it("switches between polyline and curved path (microviz-sparkline curve)", () => {
+    const el = document.createElement("microviz-sparkline");
+    el.setAttribute("animate", "false");
+    el.setAttribute("data", "[1, 4, 2, 5]");
+    el.setAttribute("curve", "monotone");
+    document.body.append(el);
+
+    const curved = el.shadowRoot?.querySelector("path#sparkline-line");
+    expect(curved?.getAttribute("d")).toContain("C");
+
+    el.setAttribute("curve", "wiggly");
+    expect(el.shadowRoot?.querySelector("path#sparkline-line")).toBeNull();
+    expect(
+      el.shadowRoot?.querySelector("polyline#sparkline-line"),
+    ).not.toBeNull();
+  });
+
+  it("parses the markers attribute (microviz-step-line)", () => {
+    const el = document.createElement("microviz-step-line");
+    el.setAttribute("data", "[3, 8, 1]");
+    el.setAttribute("markers", "min, max bogus");
+    document.body.append(el);
+
+    expect(
+      el.shadowRoot?.querySelector("circle#step-line-marker-min"),
+    ).not.toBeNull();
+    expect(
+      el.shadowRoot?.querySelector("circle#step-line-marker-max.mv-marker-max"),
+    ).not.toBeNull();
+    expect(el.shadowRoot?.querySelectorAll(".mv-marker")).toHaveLength(2);
+  });
+
+  it("draws one line per series and feeds a linked legend (microviz-multi-sparkline)", () => {
+    const legend = document.createElement("microviz-legend");
+    legend.id = "latency-legend";
+    document.body.append(legend);
+
+    const el = document.createElement("microviz-multi-sparkline");
+    el.setAttribute("legend", "latency-legend");
+    el.setAttribute(
+      "data",
+      JSON.stringify([
+        { name: "p50", values: [1, 2, 3] },
+        { color: "#f00", name: "p95", values: [4, 5, 6] },
+      ]),
+    );
+    document.body.append(el);
+
+    const lines = el.shadowRoot?.querySelectorAll(".mv-multi-sparkline-line");
+    expect(Array.from(lines ?? [], (line) => line.id)).toEqual([
+      "multi-sparkline-line-p50",
+      "multi-sparkline-line-p95",
+    ]);
+    expect(JSON.parse(legend.getAttribute("items") ?? "[]")).toEqual([
+      { color: "var(--mv-series-1, currentColor)", label: "p50" },
+      { color: "#f00", label: "p95" },
+    ]);
+    expect(legend.shadowRoot?.querySelectorAll(".mv-legend-item")).toHaveLength(
+      2,
+    );
+
+    el.setAttribute("data", "[[1, 2], [3, 4], [5, 6]]");
+    expect(JSON.parse(legend.getAttribute("items") ?? "[]")).toHaveLength(3);
+  });
+
+  it("fills a legend connected after the chart, and from a model override (microviz-multi-sparkline)", () => {
+    const el = document.createElement("microviz-multi-sparkline");
+    el.setAttribute("legend", "late-legend");
+    el.setAttribute(
+      "data",
+      JSON.stringify([{ color: "#0f0", name: "p99", values: [1, 2] }]),
+    );
+    document.body.append(el);
+
+    const legend = document.createElement("microviz-legend");
+    legend.id = "late-legend";
+    document.body.append(legend);
+    expect(JSON.parse(legend.getAttribute("items") ?? "[]")).toEqual([
+      { color: "#0f0", label: "p99" },
+    ]);
+
+    el.model = computeModel({
+      data: [{ color: "#00f", name: "p50", values: [3, 4] }],
+      size: { height: 32, width: 200 },
+      spec: { type: "multi-sparkline" },
+    });
+    expect(el.legendItems).toEqual([{ color: "#00f", label: "p50" }]);
+    expect(JSON.parse(legend.getAttribute("items") ?? "[]")).toEqual([
+      { color: "#00f", label: "p50" },
+    ]);
+  });
+
+  it("renders outcome ticks with a streak label (microviz-win-loss)", () => {
+    const el = document.createElement("microviz-win-loss");
+    el.setAttribute("data", "[1, -1, 0, 1, 1]");
+    el.setAttribute("baseline", "");
+    document.body.append(el);
+
+    const ticks = el.shadowRoot?.querySelectorAll(".mv-win-loss-tick");
+    expect(
+      Array.from(ticks ?? [], (tick) => tick.getAttribute("class")),
+    ).toEqual([
+      "mv-win-loss-tick mv-win",
+      "mv-win-loss-tick mv-loss",
+      "mv-win-loss-tick mv-draw",
+      "mv-win-loss-tick mv-win",
+      "mv-win-loss-tick mv-win",
+    ]);
+    expect(
+      el.shadowRoot?.querySelector(".mv-win-loss-baseline"),
+    ).not.toBeNull();
+    expect(el.getAttribute("aria-label")).toBe(
+      "Win/loss chart (3 wins, 1 loss, 1 draw, current streak 2 wins)",
+    );
+  });
+
+  it("accepts samples or a summary (microviz-box-plot)", () => {
+    const el = document.createElement("microviz-box-plot");
+    el.setAttribute("data", "1, 2, 3, 4, 5, 6, 7, 8, 100");
+    document.body.append(el);
+
+    expect(el.shadowRoot?.querySelectorAll(".mv-box-plot-box")).toHaveLength(2);
+    expect(el.shadowRoot?.querySelector("#box-plot-outlier-8")).not.toBeNull();
+
+    el.setAttribute("whiskers", "min-max");
+    expect(el.shadowRoot?.querySelector(".mv-box-plot-outlier")).toBeNull();
+
+    const summary = document.createElement("microviz-box-plot");
+    summary.setAttribute(
+      "data",
+      JSON.stringify({ max: 9, median: 5, min: 1, q1: 3, q3: 7 }),
+    );
+    document.body.append(summary);
+    expect(summary.getAttribute("aria-label")).toBe(
+      "Box plot (median 5, quartiles 3–7, whiskers 1–9)",
+    );
+  });
+
+  it("renders ranges, bar and target from attributes (microviz-bullet)", () => {
+    const el = document.createElement("microviz-bullet");
+    el.setAttribute("width", "100");
+    el.setAttribute("pad", "0");
+    el.setAttribute("ranges", "50, 75, 100");
+    el.setAttribute("value", "72");
+    document.body.append(el);
+
+    expect(el.shadowRoot?.querySelectorAll(".mv-bullet-range")).toHaveLength(3);
+    expect(
+      el.shadowRoot?.querySelector("rect#bullet-bar")?.getAttribute("width"),
+    ).toBe("72");
+    expect(el.shadowRoot?.querySelector("rect#bullet-target")).toBeNull();
+
+    el.setAttribute("target", "80");
+    expect(el.shadowRoot?.querySelector("rect#bullet-target")).not.toBeNull();
+  });
+
+  it("infers a bullet from value/target/ranges (microviz-auto)", () => {
+    const el = document.createElement("microviz-auto");
+    el.setAttribute(
+      "data",
+      JSON.stringify({ ranges: [50, 75, 100], target: 80, value: 72 }),
+    );
+    document.body.append(el);
+
+    expect(el.getAttribute("data-inferred-type")).toBe("bullet");
+  });
+
   it("rerenders on skeleton attribute changes (microviz-model)", () => {
     const el = document.createElement("microviz-model") as HTMLElement & {
       model: RenderModel | null;
@@ -174,6 +361,93 @@ describe("@microviz/elements", () => {
     }
   });
 
+  it("includes the mark datum in hit events (microviz-model)", () => {
+    const el = document.createElement("microviz-model") as HTMLElement & {
+      model: RenderModel | null;
+    };
+    el.setAttribute("interactive", "");
+    document.body.append(el);
+
+    el.model = {
+      height: 100,
+      marks: [
+        {
+          datum: { index: 1, segment: "B", value: 30 },
+          h: 100,
+          id: "r",
+          type: "rect",
+          w: 100,
+          x: 0,
+          y: 0,
+        },
+      ],
+      width: 100,
+    };
+
+    const originalGetBoundingClientRect =
+      Element.prototype.getBoundingClientRect;
+    Element.prototype.getBoundingClientRect = () => ({
+      height: 100,
+      left: 0,
+      top: 0,
+      width: 100,
+    });
+
+    try {
+      let datum: unknown;
+      el.addEventListener("microviz-hit", (event) => {
+        datum = (event as CustomEvent).detail.hit?.datum;
+      });
+
+      el.dispatchEvent(
+        new MouseEvent("pointermove", { clientX: 50, clientY: 50 }),
+      );
+      expect(datum).toEqual({ index: 1, segment: "B", value: 30 });
+    } finally {
+      Element.prototype.getBoundingClientRect = originalGetBoundingClientRect;
+    }
+  });
+
+  it("formats the hit value with the spec format (microviz-chart)", () => {
+    const el = document.createElement("microviz-chart");
+    el.setAttribute("interactive", "");
+    el.setAttribute("animate", "false");
+    el.setAttribute("width", "100");
+    el.setAttribute("height", "10");
+    el.setAttribute(
+      "spec",
+      JSON.stringify({
+        format: { currency: "USD", notation: "compact", style: "currency" },
+        type: "bar",
+      }),
+    );
+    el.setAttribute("data", JSON.stringify({ max: 2e6, value: 1.2e6 }));
+    document.body.append(el);
+
+    const originalGetBoundingClientRect =
+      Element.prototype.getBoundingClientRect;
+    Element.prototype.getBoundingClientRect = () => ({
+      height: 10,
+      left: 0,
+      top: 0,
+      width: 100,
+    });
+
+    try {
+      let valueText: string | undefined;
+      el.addEventListener("microviz-hit", (event) => {
+        valueText = (event as CustomEvent).detail.valueText;
+      });
+
+      el.dispatchEvent(
+        new MouseEvent("pointermove", { clientX: 10, clientY: 5 }),
+      );
+      expect(valueText).toBe("$1.2M");
+    } finally {
+      Element.prototype.getBoundingClientRect = originalGetBoundingClientRect;
+    }
+  });
+
   it("uses animated render state for hit testing (microviz-model)", () => {
     const originalMatchMedia = window.matchMedia;
     const originalRaf = window.requestAnimationFrame;
@@ -305,6 +579,25 @@ describe("@microviz/elements", () => {
     expect(summary?.textContent).toContain("max");
   });
 
+  it("describes spec annotations in the a11y summary", () => {
+    const el = document.createElement("microviz-chart");
+    el.setAttribute("width", "80");
+    el.setAttribute("height", "12");
+    el.setAttribute(
+      "spec",
+      JSON.stringify({
+        annotations: [{ label: "target", type: "rule", y: 5 }],
+        type: "sparkline",
+      }),
+    );
+    el.setAttribute("data", JSON.stringify([2, 4, 6]));
+    document.body.append(el);
+
+    const summary = el.shadowRoot?.querySelector("#mv-a11y-summary");
+    expect(summary?.textContent).toContain("target 5");
+    expect(el.shadowRoot?.querySelector(".mv-annotation-rule")).not.toBeNull();
+  });
+
   it("supports keyboard focus navigation (microviz-chart)", () => {
     const el = document.createElement("microviz-chart");
     el.setAttribute("interactive", "");
@@ -340,6 +633,155 @@ describe("@microviz/elements", () => {
     expect(detail?.item?.label).toBe("Point 1");
   });
 
+  it("moves focus by day and by week on a calendar grid (microviz-chart)", () => {
+    const el = document.createElement("microviz-chart");
+    el.setAttribute("interactive", "");
+    el.setAttribute("spec", JSON.stringify({ type: "calendar-heatmap" }));
+    el.setAttribute(
+      "data",
+      JSON.stringify(
+        Array.from({ length: 90 }, (_, i) => ({
+          date: Date.UTC(2025, 2, 2 + i),
+          value: i % 5,
+        })),
+      ),
+    );
+    document.body.append(el);
+
+    const labels: string[] = [];
+    el.addEventListener("microviz-focus", (event) => {
+      labels.push((event as CustomEvent).detail.item.label);
+    });
+    for (const key of ["ArrowRight", "ArrowDown", "ArrowRight", "ArrowUp"]) {
+      el.dispatchEvent(new KeyboardEvent("keydown", { key }));
+    }
+    el.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowUp" }));
+    el.dispatchEvent(new KeyboardEvent("keydown", { key: "End" }));
+
+    expect(labels).toEqual([
+      "Sun Mar 2",
+      "Mon Mar 3",
+      "Mon Mar 10",
+      "Sun Mar 9",
+      "Sun Mar 9",
+      "Fri May 30",
+    ]);
+    // Every day stays reachable, but the screen-reader list is capped.
+    expect(el.shadowRoot?.querySelectorAll("#mv-a11y-items li")).toHaveLength(
+      60,
+    );
+  });
+
+  it("renders days from dated records (microviz-calendar-heatmap)", () => {
+    const el = document.createElement("microviz-calendar-heatmap");
+    el.setAttribute("month-boundaries", "false");
+    el.setAttribute(
+      "data",
+      JSON.stringify([
+        { date: "2025-03-03", value: 4 },
+        { date: "2025-03-05", value: "n/a" },
+        { date: "2025-03-06", value: 8 },
+      ]),
+    );
+    document.body.append(el);
+
+    expect(
+      el.shadowRoot?.querySelectorAll(".mv-calendar-heatmap-day"),
+    ).toHaveLength(4);
+    expect(
+      el.shadowRoot?.querySelectorAll(".mv-calendar-heatmap-empty"),
+    ).toHaveLength(2);
+    expect(
+      el.shadowRoot?.querySelector(".mv-calendar-heatmap-level-4")?.id,
+    ).toBe("calendar-heatmap-day-2025-03-06");
+  });
+
+  it("feeds hover and selection into compute (microviz-chart)", () => {
+    const el = document.createElement("microviz-chart");
+    el.setAttribute("interactive", "");
+    el.setAttribute("animate", "false");
+    el.setAttribute("dim-opacity", "0.25");
+    el.setAttribute("width", "100");
+    el.setAttribute("height", "10");
+    el.setAttribute("spec", JSON.stringify({ type: "segmented-bar" }));
+    el.setAttribute(
+      "data",
+      JSON.stringify([
+        { name: "A", pct: 50 },
+        { name: "B", pct: 50 },
+      ]),
+    );
+    document.body.append(el);
+
+    const originalGetBoundingClientRect =
+      Element.prototype.getBoundingClientRect;
+    Element.prototype.getBoundingClientRect = () => ({
+      height: 10,
+      left: 0,
+      top: 0,
+      width: 100,
+    });
+
+    try {
+      const rect = (id: string) =>
+        el.shadowRoot?.querySelector(`rect#segmented-bar-seg-${id}`);
+
+      el.dispatchEvent(
+        new MouseEvent("pointermove", { clientX: 10, clientY: 5 }),
+      );
+      expect(rect("0")?.getAttribute("class")).toContain("mv-hovered");
+      expect(rect("1")?.getAttribute("class")).toContain("mv-dimmed");
+      expect(rect("1")?.getAttribute("opacity")).toBe("0.25");
+
+      let selected: ReadonlyArray<string> | null = null;
+      el.addEventListener("microviz-select", (event) => {
+        selected = (event as CustomEvent).detail.selectedMarkIds;
+      });
+      el.dispatchEvent(new MouseEvent("click", { clientX: 90, clientY: 5 }));
+      expect(selected).toEqual(["segmented-bar-seg-1"]);
+      expect(rect("1")?.getAttribute("class")).toContain("mv-selected");
+
+      el.dispatchEvent(new MouseEvent("pointerleave"));
+      expect(rect("0")?.getAttribute("class")).toContain("mv-dimmed");
+    } finally {
+      Element.prototype.getBoundingClientRect = originalGetBoundingClientRect;
+    }
+  });
+
+  it("widens a hovered line instead of recoloring it", () => {
+    const el = document.createElement("microviz-model") as HTMLElement & {
+      model: RenderModel | null;
+    };
+    document.body.append(el);
+    el.model = computeModel({
+      data: [1, 3, 2, 5],
+      size: { height: 20, width: 80 },
+      spec: { type: "sparkline" },
+      state: { hoveredMarkId: "sparkline-line" },
+    });
+
+    const line = el.shadowRoot?.querySelector("polyline#sparkline-line");
+    expect(line?.getAttribute("class")).toContain("mv-hovered");
+    const sheets = [
+      ...(el.shadowRoot?.adoptedStyleSheets ?? []),
+      ...Array.from(el.shadowRoot?.styleSheets ?? []),
+    ];
+    const matched = sheets
+      .flatMap((sheet) => Array.from(sheet.cssRules))
+      .filter(
+        (rule): rule is CSSStyleRule =>
+          rule instanceof CSSStyleRule &&
+          rule.selectorText.includes("mv-hovered") &&
+          line?.matches(rule.selectorText) === true,
+      );
+    expect(
+      matched.map((rule) => [
+        rule.style.getPropertyValue("stroke"),
+        rule.style.getPropertyValue("stroke-width"),
+      ]),
+    ).toEqual([["", "calc(var(--mv-stroke-width, 1.5px) + 1px)"]]);
+  });
+
   it("supports keyboard focus navigation", () => {
     const el = document.createElement("microviz-model") as HTMLElement & {
       model: RenderModel | null;
@@ -0,0 +1,135 @@
+import { computeModel, type Mark } from "@microviz/core";
+import { describe, expect, it } from "vitest";
+import { applyMicrovizStyles } from "../src/styles";
+
+const SERIES = [1, 4, 2, 6, 3, 5];
+
+const THEME = {
+  fg: "#000001",
+  grid: "#000003",
+  muted: "#000002",
+  series: ["#100001", "#100002", "#100003", "#100004", "#100005"],
+  strokeWidth: 3,
+};
+
+/** Charts whose marks are painted by class rules, with data for each. */
+const CASES: ReadonlyArray<[string, unknown, Record<string, unknown>?]> = [
+  ["sparkline", SERIES, { annotations: [{ type: "rule", y: 3 }] }],
+  ["sparkline", SERIES, { curve: "monotone", markers: ["max"] }],
+  ["step-line", SERIES],
+  ["spark-area", SERIES],
+  ["sparkline-bars", SERIES],
+  ["range-band", SERIES],
+  ["multi-sparkline", [{ name: "A", values: SERIES }]],
+  ["equalizer", SERIES],
+  ["waveform", SERIES],
+  ["code-minimap", SERIES],
+  ["histogram", { series: SERIES }],
+  ["heatgrid", { series: SERIES }],
+  ["dot-matrix", { series: SERIES }],
+  ["bar", { max: 10, value: 4 }],
+  ["bullet", { ranges: [2, 4, 6, 8, 10], target: 7, value: 5 }],
+  ["bullet-delta", { current: 70, max: 100, previous: 40 }],
+  ["dumbbell", { current: 40, max: 100, target: 80 }],
+  ["box-plot", [1, 4, 5, 6, 9, 30]],
+  ["win-loss", [1, -1, 0, 1], { baseline: true }],
+  [
+    "calendar-heatmap",
+    [
+      { date: "2025-02-27", value: 0 },
+      { date: "2025-03-03", value: 3 },
+    ],
+  ],
+];
+
+const TAGS: Partial<Record<Mark["type"], string>> = {
+  area: "polygon",
+  circle: "circle",
+  line: "line",
+  path: "path",
+  polyline: "polyline",
+  rect: "rect",
+};
+
+function styleRules(): CSSStyleRule[] {
+  const host = document.createElement("div");
+  const root = host.attachShadow({ mode: "open" });
+  applyMicrovizStyles(root);
+  return [...root.adoptedStyleSheets, ...Array.from(root.styleSheets ?? [])]
+    .flatMap((sheet) => Array.from(sheet.cssRules))
+    .filter((rule): rule is CSSStyleRule => rule instanceof CSSStyleRule);
+}
+
+/** `var(--mv-<token>, …)` as the value the theme gives that token. */
+function themed(value: string): string | number {
+  const token = /^var\(--mv-([a-z0-9-]+)/.exec(value)?.[1];
+  if (!token) return value;
+  if (token === "stroke-width") return THEME.strokeWidth;
+  const series = /^series-(\d+)$/.exec(token);
+  if (series) return THEME.series[Number(series[1]) - 1] ?? "";
+  return THEME[token as "fg" | "grid" | "muted"];
+}
+
+/** Paint the stylesheet gives a mark: later matching rules win. */
+function cssPaint(mark: Mark, rules: ReadonlyArray<CSSStyleRule>) {
+  const tag = TAGS[mark.type];
+  if (!tag || !mark.className) return {};
+  const el = document.createElementNS("http://www.w3.org/2000/svg", tag);
+  el.setAttribute("class", mark.className);
+  const paint: Record<string, string | number> = {};
+  for (const rule of rules) {
+    let matches = false;
+    try {
+      matches = el.matches(rule.selectorText);
+    } catch {
+      // Host selectors don't apply to marks.
+    }
+    if (!matches) continue;
+    for (const [prop, key] of [
+      ["fill", "fill"],
+      ["fill-opacity", "fillOpacity"],
+      ["stroke", "stroke"],
+      ["stroke-width", "strokeWidth"],
+      ["stroke-dasharray", "strokeDasharray"],
+    ] as const) {
+      const value = rule.style.getPropertyValue(prop);
+      if (value) paint[key] = themed(value);
+    }
+  }
+  return paint;
+}
+
+function leaves(marks: ReadonlyArray<Mark>): Mark[] {
+  return marks.flatMap((m) => (m.type === "group" ? leaves(m.marks) : [m]));
+}
+
+describe("theme paint parity", () => {
+  it("paints themed marks the way their class rules do", () => {
+    const rules = styleRules();
+    for (const [type, data, spec] of CASES) {
+      const model = computeModel({
+        data: data as never,
+        size: { height: 40, width: 120 },
+        spec: { type, ...spec } as never,
+        theme: THEME,
+      });
+      for (const mark of leaves(model.marks)) {
+        const expected = cssPaint(mark, rules);
+        const actual = mark as Record<string, unknown>;
+        for (const [key, value] of Object.entries(expected)) {
+          const got = actual[key];
+          const label = `${type} ${mark.id} ${key} (${mark.className})`;
+          if (key === "fill" || key === "stroke") {
+            // Lines have no fill to paint.
+            if (got === undefined && value === "none") continue;
+            expect(got, label).toBe(value);
+          } else {
+            // Widths and opacities may be set per mark; they just can't be
+            // missing where the class rule sets them.
+            expect(got, label).toBeDefined();
+          }
+        }
+      }
+    }
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { parseNumberArray } from "../src/parse";
+import { parseGappedNumberArray, parseNumberArray } from "../src/parse";
 
 describe("parseNumberArray with validation modes", () => {
   describe("default mode (strict=false)", () => {
@@ -69,3 +69,19 @@ describe("parseNumberArray with validation modes", () => {
     });
   });
 });
+
+describe("parseGappedNumberArray", () => {
+  it("keeps JSON nulls as gaps", () => {
+    expect(parseGappedNumberArray("[1, null, 3]").data).toEqual([1, null, 3]);
+  });
+
+  it("keeps null tokens in delimited input", () => {
+    expect(parseGappedNumberArray("1, null, 3").data).toEqual([1, null, 3]);
+  });
+
+  it("still drops other invalid values", () => {
+    const result = parseGappedNumberArray('[1, "x", null]', true);
+    expect(result.data).toEqual([1, null]);
+    expect(result.dropped).toEqual(["x"]);
+  });
+});
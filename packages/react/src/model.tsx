@@ -1,18 +1,27 @@
 import type {
   Def,
   FilterPrimitive,
+  GroupTransform,
   Mark,
   PatternMark,
   RenderModel,
+  TextMark,
+  TextMeasurer,
 } from "@microviz/core";
+import { createApproximateTextMeasurer, fitTextMark } from "@microviz/core";
 import {
+  arcPathData,
+  areaPointsAttr,
   getCanvasUnsupportedFilterPrimitiveTypes,
+  getCanvasUnsupportedMarkEffects,
+  pointsAttr,
   type RenderCanvasOptions,
   renderCanvas,
   renderSvgString,
 } from "@microviz/renderers";
 import {
   type CanvasHTMLAttributes,
+  type CSSProperties,
   type HTMLAttributes,
   type ReactNode,
   type SVGProps,
@@ -25,11 +34,29 @@ import {
 const useLayoutEffectSafe =
   typeof window === "undefined" ? useEffect : useLayoutEffect;
 
+/**
+ * `MicrovizSvg` truncates `maxWidth` text during render, so its default
+ * measurer must give the same widths on the server and in the browser.
+ */
+const HYDRATION_SAFE_TEXT_MEASURER = createApproximateTextMeasurer({
+  scaleWithFontSize: true,
+});
+
 function urlRef(id: string | undefined): string | undefined {
   return id ? `url(#${id})` : undefined;
 }
 
-function renderPatternMark(mark: PatternMark, key: string): ReactNode {
+function textRotate(
+  mark: Pick<TextMark, "rotate" | "x" | "y">,
+): string | undefined {
+  return mark.rotate ? `rotate(${mark.rotate} ${mark.x} ${mark.y})` : undefined;
+}
+
+function renderPatternMark(
+  mark: PatternMark,
+  key: string,
+  textMeasurer: TextMeasurer,
+): ReactNode {
   switch (mark.type) {
     case "rect":
       return (
@@ -45,6 +72,8 @@ function renderPatternMark(mark: PatternMark, key: string): ReactNode {
           rx={mark.rx}
           ry={mark.ry}
           stroke={mark.stroke}
+          strokeDasharray={mark.strokeDasharray}
+          strokeDashoffset={mark.strokeDashoffset}
           strokeOpacity={mark.strokeOpacity}
           strokeWidth={mark.strokeWidth}
           width={mark.w}
@@ -65,6 +94,8 @@ function renderPatternMark(mark: PatternMark, key: string): ReactNode {
           mask={urlRef(mark.mask)}
           opacity={mark.opacity}
           stroke={mark.stroke}
+          strokeDasharray={mark.strokeDasharray}
+          strokeDashoffset={mark.strokeDashoffset}
           strokeLinecap={mark.strokeLinecap}
           strokeLinejoin={mark.strokeLinejoin}
           strokeOpacity={mark.strokeOpacity}
@@ -80,14 +111,18 @@ function renderPatternMark(mark: PatternMark, key: string): ReactNode {
           fill={mark.fill}
           fillOpacity={mark.fillOpacity}
           filter={urlRef(mark.filter)}
+          fontFamily={mark.fontFamily}
+          fontSize={mark.fontSize}
+          fontWeight={mark.fontWeight}
           key={key}
           mask={urlRef(mark.mask)}
           opacity={mark.opacity}
           textAnchor={mark.anchor}
+          transform={textRotate(mark)}
           x={mark.x}
           y={mark.y}
         >
-          {mark.text}
+          {fitTextMark(mark, textMeasurer)}
         </text>
       );
 
@@ -122,6 +157,8 @@ function renderPatternMark(mark: PatternMark, key: string): ReactNode {
           mask={urlRef(mark.mask)}
           opacity={mark.opacity}
           stroke={mark.stroke}
+          strokeDasharray={mark.strokeDasharray}
+          strokeDashoffset={mark.strokeDashoffset}
           strokeLinecap={mark.strokeLinecap}
           strokeLinejoin={mark.strokeLinejoin}
           strokeOpacity={mark.strokeOpacity}
@@ -135,6 +172,10 @@ function renderPatternMark(mark: PatternMark, key: string): ReactNode {
   }
 }
 
+function renderMergeNode(input: string, key: string): ReactNode {
+  return <feMergeNode in={input} key={key} />;
+}
+
 function renderFilterPrimitive(
   primitive: FilterPrimitive,
   key: string,
@@ -186,10 +227,75 @@ function renderFilterPrimitive(
           yChannelSelector={primitive.yChannelSelector}
         />
       );
+    case "colorMatrix":
+      return (
+        <feColorMatrix
+          in={primitive.in}
+          key={key}
+          result={primitive.result}
+          type={primitive.matrixType}
+          values={
+            typeof primitive.values === "object"
+              ? primitive.values.join(" ")
+              : primitive.values?.toString()
+          }
+        />
+      );
+    case "offset":
+      return (
+        <feOffset
+          dx={primitive.dx}
+          dy={primitive.dy}
+          in={primitive.in}
+          key={key}
+          result={primitive.result}
+        />
+      );
+    case "flood":
+      return (
+        <feFlood
+          floodColor={primitive.floodColor}
+          floodOpacity={primitive.floodOpacity}
+          key={key}
+          result={primitive.result}
+        />
+      );
+    case "composite":
+      return (
+        <feComposite
+          in={primitive.in}
+          in2={primitive.in2}
+          k1={primitive.k1}
+          k2={primitive.k2}
+          k3={primitive.k3}
+          k4={primitive.k4}
+          key={key}
+          operator={primitive.operator}
+          result={primitive.result}
+        />
+      );
+    case "merge":
+      return (
+        <feMerge key={key} result={primitive.result}>
+          {primitive.inputs.map((input, idx) =>
+            renderMergeNode(input, `${key}:${idx}`),
+          )}
+        </feMerge>
+      );
+    case "blend":
+      return (
+        <feBlend
+          in={primitive.in}
+          in2={primitive.in2}
+          key={key}
+          mode={primitive.mode}
+          result={primitive.result}
+        />
+      );
   }
 }
 
-function renderDef(def: Def): ReactNode {
+function renderDef(def: Def, textMeasurer: TextMeasurer): ReactNode {
   if (def.type === "linearGradient") {
     return (
       <linearGradient
@@ -215,6 +321,33 @@ function renderDef(def: Def): ReactNode {
     );
   }
 
+  if (def.type === "radialGradient") {
+    return (
+      <radialGradient
+        cx={def.cx}
+        cy={def.cy}
+        fx={def.fx}
+        fy={def.fy}
+        gradientUnits={def.gradientUnits}
+        id={def.id}
+        key={def.id}
+        r={def.r}
+      >
+        {def.stops.map((stop, idx) => {
+          const offset = `${Math.round(stop.offset * 10000) / 100}%`;
+          return (
+            <stop
+              key={`${def.id}:${idx}`}
+              offset={offset}
+              stopColor={stop.color}
+              stopOpacity={stop.opacity}
+            />
+          );
+        })}
+      </radialGradient>
+    );
+  }
+
   if (def.type === "pattern") {
     return (
       <pattern
@@ -229,7 +362,7 @@ function renderDef(def: Def): ReactNode {
         y={def.y}
       >
         {def.marks.map((mark, idx) =>
-          renderPatternMark(mark, `${def.id}:${idx}`),
+          renderPatternMark(mark, `${def.id}:${idx}`, textMeasurer),
         )}
       </pattern>
     );
@@ -248,7 +381,7 @@ function renderDef(def: Def): ReactNode {
         y={def.y}
       >
         {def.marks.map((mark, idx) =>
-          renderPatternMark(mark, `${def.id}:${idx}`),
+          renderPatternMark(mark, `${def.id}:${idx}`, textMeasurer),
         )}
       </mask>
     );
@@ -286,8 +419,47 @@ function renderDef(def: Def): ReactNode {
   );
 }
 
-function renderMark(mark: Mark): ReactNode {
+function svgTransform(
+  transform: GroupTransform | undefined,
+): string | undefined {
+  if (!transform) return undefined;
+  const parts: string[] = [];
+  const tx = transform.translateX ?? 0;
+  const ty = transform.translateY ?? 0;
+  if (tx !== 0 || ty !== 0) parts.push(`translate(${tx} ${ty})`);
+  if (transform.rotate) parts.push(`rotate(${transform.rotate})`);
+  const sx = transform.scaleX ?? 1;
+  const sy = transform.scaleY ?? 1;
+  if (sx !== 1 || sy !== 1) parts.push(`scale(${sx} ${sy})`);
+  return parts.length > 0 ? parts.join(" ") : undefined;
+}
+
+function blendStyle(mark: Mark): CSSProperties | undefined {
+  const isolate = mark.type === "group" && mark.isolate;
+  if (!mark.blendMode && !isolate) return undefined;
+  return {
+    isolation: isolate ? "isolate" : undefined,
+    mixBlendMode: mark.blendMode,
+  };
+}
+
+function renderMark(mark: Mark, textMeasurer: TextMeasurer): ReactNode {
   switch (mark.type) {
+    case "group":
+      return (
+        <g
+          className={mark.className}
+          clipPath={urlRef(mark.clipPath)}
+          id={mark.id}
+          key={mark.id}
+          opacity={mark.opacity}
+          style={blendStyle(mark)}
+          transform={svgTransform(mark.transform)}
+        >
+          {mark.marks.map((child) => renderMark(child, textMeasurer))}
+        </g>
+      );
+
     case "rect":
       return (
         <rect
@@ -304,8 +476,11 @@ function renderMark(mark: Mark): ReactNode {
           rx={mark.rx}
           ry={mark.ry}
           stroke={mark.stroke}
+          strokeDasharray={mark.strokeDasharray}
+          strokeDashoffset={mark.strokeDashoffset}
           strokeOpacity={mark.strokeOpacity}
           strokeWidth={mark.strokeWidth}
+          style={blendStyle(mark)}
           width={mark.w}
           x={mark.x}
           y={mark.y}
@@ -326,10 +501,13 @@ function renderMark(mark: Mark): ReactNode {
           mask={urlRef(mark.mask)}
           opacity={mark.opacity}
           stroke={mark.stroke}
+          strokeDasharray={mark.strokeDasharray}
+          strokeDashoffset={mark.strokeDashoffset}
           strokeLinecap={mark.strokeLinecap}
           strokeLinejoin={mark.strokeLinejoin}
           strokeOpacity={mark.strokeOpacity}
           strokeWidth={mark.strokeWidth}
+          style={blendStyle(mark)}
         />
       );
 
@@ -341,15 +519,20 @@ function renderMark(mark: Mark): ReactNode {
           fill={mark.fill}
           fillOpacity={mark.fillOpacity}
           filter={urlRef(mark.filter)}
+          fontFamily={mark.fontFamily}
+          fontSize={mark.fontSize}
+          fontWeight={mark.fontWeight}
           id={mark.id}
           key={mark.id}
           mask={urlRef(mark.mask)}
           opacity={mark.opacity}
+          style={blendStyle(mark)}
           textAnchor={mark.anchor}
+          transform={textRotate(mark)}
           x={mark.x}
           y={mark.y}
         >
-          {mark.text}
+          {fitTextMark(mark, textMeasurer)}
         </text>
       );
 
@@ -373,6 +556,71 @@ function renderMark(mark: Mark): ReactNode {
           strokeLinecap={mark.strokeLinecap}
           strokeOpacity={mark.strokeOpacity}
           strokeWidth={mark.strokeWidth}
+          style={blendStyle(mark)}
+        />
+      );
+
+    case "arc":
+      return (
+        <path
+          className={mark.className}
+          clipPath={urlRef(mark.clipPath)}
+          d={arcPathData(mark)}
+          fill={mark.fill}
+          fillOpacity={mark.fillOpacity}
+          filter={urlRef(mark.filter)}
+          id={mark.id}
+          key={mark.id}
+          mask={urlRef(mark.mask)}
+          opacity={mark.opacity}
+          stroke={mark.stroke}
+          strokeOpacity={mark.strokeOpacity}
+          strokeWidth={mark.strokeWidth}
+          style={blendStyle(mark)}
+        />
+      );
+
+    case "polyline":
+      return (
+        <polyline
+          className={mark.className}
+          clipPath={urlRef(mark.clipPath)}
+          fill="none"
+          filter={urlRef(mark.filter)}
+          id={mark.id}
+          key={mark.id}
+          mask={urlRef(mark.mask)}
+          opacity={mark.opacity}
+          points={pointsAttr(mark.points)}
+          stroke={mark.stroke}
+          strokeDasharray={mark.strokeDasharray}
+          strokeDashoffset={mark.strokeDashoffset}
+          strokeLinecap={mark.strokeLinecap}
+          strokeLinejoin={mark.strokeLinejoin}
+          strokeOpacity={mark.strokeOpacity}
+          strokeWidth={mark.strokeWidth}
+          style={blendStyle(mark)}
+        />
+      );
+
+    case "area":
+      return (
+        <polygon
+          className={mark.className}
+          clipPath={urlRef(mark.clipPath)}
+          fill={mark.fill}
+          fillOpacity={mark.fillOpacity}
+          filter={urlRef(mark.filter)}
+          id={mark.id}
+          key={mark.id}
+          mask={urlRef(mark.mask)}
+          opacity={mark.opacity}
+          points={areaPointsAttr(mark)}
+          stroke={mark.stroke}
+          strokeLinejoin={mark.strokeLinejoin}
+          strokeOpacity={mark.strokeOpacity}
+          strokeWidth={mark.strokeWidth}
+          style={blendStyle(mark)}
         />
       );
 
@@ -386,10 +634,13 @@ function renderMark(mark: Mark): ReactNode {
           mask={urlRef(mark.mask)}
           opacity={mark.opacity}
           stroke={mark.stroke}
+          strokeDasharray={mark.strokeDasharray}
+          strokeDashoffset={mark.strokeDashoffset}
           strokeLinecap={mark.strokeLinecap}
           strokeLinejoin={mark.strokeLinejoin}
           strokeOpacity={mark.strokeOpacity}
           strokeWidth={mark.strokeWidth}
+          style={blendStyle(mark)}
           x1={mark.x1}
           x2={mark.x2}
           y1={mark.y1}
@@ -405,10 +656,17 @@ export type MicrovizSvgProps = Omit<
 > & {
   model: RenderModel;
   title?: string;
+  /**
+   * Measures `maxWidth` text. Defaults to the approximate measurer, so server
+   * and client render the same labels; pass a canvas-backed one (e.g.
+   * `getDefaultTextMeasurer()`) when the chart renders only in the browser.
+   */
+  textMeasurer?: TextMeasurer;
 };
 
 export function MicrovizSvg({
   model,
+  textMeasurer = HYDRATION_SAFE_TEXT_MEASURER,
   title,
   ...props
 }: MicrovizSvgProps): ReactNode {
@@ -427,9 +685,9 @@ export function MicrovizSvg({
     >
       {label ? <title>{label}</title> : null}
       {model.defs && model.defs.length > 0 ? (
-        <defs>{model.defs.map(renderDef)}</defs>
+        <defs>{model.defs.map((def) => renderDef(def, textMeasurer))}</defs>
       ) : null}
-      {model.marks.map(renderMark)}
+      {model.marks.map((mark) => renderMark(mark, textMeasurer))}
     </svg>
   );
 }
@@ -477,7 +735,8 @@ export type MicrovizCanvasProps = Omit<
   model: RenderModel;
   options?: RenderCanvasOptions;
   /**
-   * Canvas rendering currently ignores some SVG filter primitives.
+   * Canvas rendering currently ignores some SVG filter primitives and group
+   * blend effects.
    * If enabled, fall back to an SVG renderer to avoid silent incorrect output.
    */
   fallbackSvgWhenCanvasUnsupported?: boolean;
@@ -502,7 +761,8 @@ export function MicrovizCanvas({
 }: MicrovizCanvasProps): ReactNode {
   const shouldFallbackToSvg =
     fallbackSvgWhenCanvasUnsupported &&
-    getCanvasUnsupportedFilterPrimitiveTypes(model).length > 0;
+    (getCanvasUnsupportedFilterPrimitiveTypes(model).length > 0 ||
+      getCanvasUnsupportedMarkEffects(model).length > 0);
 
   const ref = useRef<HTMLCanvasElement | null>(null);
 
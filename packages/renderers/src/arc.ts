@@ -0,0 +1,232 @@
+import { type ArcMark, resolveArcSweep } from "@microviz/core";
+
+const TAU = Math.PI * 2;
+const EPSILON = 1e-6;
+
+/**
+ * Minimal path sink shared by the SVG string builder and Canvas 2D contexts
+ * (`CanvasRenderingContext2D` and `Path2D` satisfy it directly).
+ */
+export type ArcPathSink = {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean,
+  ): void;
+  closePath(): void;
+};
+
+/**
+ * Returns the corner radius actually drawn for a partial sweep of `span`
+ * radians: clamped so the corner circles fit the ring thickness and neither
+ * pair overlaps across the sweep.
+ */
+export function resolveArcCornerRadius(
+  mark: Pick<ArcMark, "innerR" | "outerR" | "cornerRadius">,
+  span: number,
+): number {
+  const outerR = Math.max(0, mark.outerR);
+  const innerR = Math.max(0, Math.min(mark.innerR, outerR));
+  const half = Math.sin(Math.min(span / 2, Math.PI / 2));
+  let rc = Math.max(0, mark.cornerRadius ?? 0);
+  rc = Math.min(rc, (outerR - innerR) / 2, (outerR * half) / (1 + half));
+  if (innerR > 0 && half < 1) rc = Math.min(rc, (innerR * half) / (1 - half));
+  return rc;
+}
+
+/**
+ * Traces the outline of an arc mark (annular sector with optional rounded
+ * corners) into `sink`. Angles follow the mark convention: radians,
+ * clockwise in screen space from 3 o'clock. Full turns are traced as two
+ * opposite-winding circles so the hole survives the nonzero fill rule.
+ */
+export function traceArc(sink: ArcPathSink, mark: ArcMark): void {
+  const sweep = resolveArcSweep(mark);
+  if (!sweep) return;
+  const { cx, cy } = mark;
+  const outerR = Math.max(0, mark.outerR);
+  const innerR = Math.max(0, Math.min(mark.innerR, outerR));
+  if (outerR <= 0 || outerR - innerR <= EPSILON) return;
+
+  const { start, end } = sweep;
+  const span = end - start;
+
+  if (span >= TAU - EPSILON) {
+    sink.moveTo(cx + outerR, cy);
+    sink.arc(cx, cy, outerR, 0, TAU);
+    if (innerR > 0) {
+      sink.moveTo(cx + innerR, cy);
+      sink.arc(cx, cy, innerR, TAU, 0, true);
+    }
+    sink.closePath();
+    return;
+  }
+
+  const rc = resolveArcCornerRadius(mark, span);
+  if (rc <= EPSILON) {
+    sink.moveTo(cx + outerR * Math.cos(start), cy + outerR * Math.sin(start));
+    sink.arc(cx, cy, outerR, start, end);
+    if (innerR > 0) {
+      sink.lineTo(cx + innerR * Math.cos(end), cy + innerR * Math.sin(end));
+      sink.arc(cx, cy, innerR, end, start, true);
+    } else {
+      sink.lineTo(cx, cy);
+    }
+    sink.closePath();
+    return;
+  }
+
+  // Outer corners: circles of radius rc inside the outer edge, tangent to
+  // both the outer circle and the radial edge.
+  const outerDist = outerR - rc;
+  const outerDelta = Math.asin(rc / outerDist);
+  const outerEdge = outerDist * Math.cos(outerDelta);
+
+  sink.moveTo(
+    cx + outerEdge * Math.cos(start),
+    cy + outerEdge * Math.sin(start),
+  );
+  sink.arc(
+    cx + outerDist * Math.cos(start + outerDelta),
+    cy + outerDist * Math.sin(start + outerDelta),
+    rc,
+    start - Math.PI / 2,
+    start + outerDelta,
+  );
+  sink.arc(cx, cy, outerR, start + outerDelta, end - outerDelta);
+  sink.arc(
+    cx + outerDist * Math.cos(end - outerDelta),
+    cy + outerDist * Math.sin(end - outerDelta),
+    rc,
+    end - outerDelta,
+    end + Math.PI / 2,
+  );
+
+  if (innerR <= 0) {
+    sink.lineTo(cx, cy);
+    sink.closePath();
+    return;
+  }
+
+  // Inner corners: circles of radius rc outside the inner edge.
+  const innerDist = innerR + rc;
+  const innerDelta = Math.asin(rc / innerDist);
+  const innerEdge = innerDist * Math.cos(innerDelta);
+
+  sink.lineTo(cx + innerEdge * Math.cos(end), cy + innerEdge * Math.sin(end));
+  sink.arc(
+    cx + innerDist * Math.cos(end - innerDelta),
+    cy + innerDist * Math.sin(end - innerDelta),
+    rc,
+    end + Math.PI / 2,
+    end - innerDelta + Math.PI,
+  );
+  sink.arc(cx, cy, innerR, end - innerDelta, start + innerDelta, true);
+  sink.arc(
+    cx + innerDist * Math.cos(start + innerDelta),
+    cy + innerDist * Math.sin(start + innerDelta),
+    rc,
+    start + innerDelta - Math.PI,
+    start - Math.PI / 2,
+  );
+  sink.closePath();
+}
+
+function fmt(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+}
+
+/**
+ * Collects `traceArc` output as SVG path data.
+ */
+class SvgArcPath implements ArcPathSink {
+  #parts: string[] = [];
+  #x: number | null = null;
+  #y: number | null = null;
+
+  moveTo(x: number, y: number): void {
+    this.#parts.push(`M ${fmt(x)} ${fmt(y)}`);
+    this.#x = x;
+    this.#y = y;
+  }
+
+  lineTo(x: number, y: number): void {
+    this.#parts.push(`L ${fmt(x)} ${fmt(y)}`);
+    this.#x = x;
+    this.#y = y;
+  }
+
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false,
+  ): void {
+    const x0 = x + radius * Math.cos(startAngle);
+    const y0 = y + radius * Math.sin(startAngle);
+    if (this.#x === null || this.#y === null) {
+      this.moveTo(x0, y0);
+    } else if (
+      Math.abs(this.#x - x0) > EPSILON ||
+      Math.abs(this.#y - y0) > EPSILON
+    ) {
+      this.lineTo(x0, y0);
+    }
+    if (radius <= 0) return;
+
+    const delta = counterclockwise
+      ? startAngle - endAngle
+      : endAngle - startAngle;
+    if (delta <= EPSILON) return;
+    const sweepFlag = counterclockwise ? 0 : 1;
+    const r = fmt(radius);
+
+    // A single SVG arc command cannot describe a full turn; split it.
+    if (delta >= TAU - EPSILON) {
+      const mid = counterclockwise
+        ? startAngle - Math.PI
+        : startAngle + Math.PI;
+      this.#parts.push(
+        `A ${r} ${r} 0 1 ${sweepFlag} ${fmt(x + radius * Math.cos(mid))} ${fmt(y + radius * Math.sin(mid))}`,
+      );
+      this.#parts.push(`A ${r} ${r} 0 1 ${sweepFlag} ${fmt(x0)} ${fmt(y0)}`);
+      this.#x = x0;
+      this.#y = y0;
+      return;
+    }
+
+    const x1 = x + radius * Math.cos(endAngle);
+    const y1 = y + radius * Math.sin(endAngle);
+    const largeArc = delta > Math.PI ? 1 : 0;
+    this.#parts.push(
+      `A ${r} ${r} 0 ${largeArc} ${sweepFlag} ${fmt(x1)} ${fmt(y1)}`,
+    );
+    this.#x = x1;
+    this.#y = y1;
+  }
+
+  closePath(): void {
+    this.#parts.push("Z");
+  }
+
+  toString(): string {
+    return this.#parts.join(" ");
+  }
+}
+
+/**
+ * Returns SVG path data (`d`) for an arc mark; empty when nothing is drawn.
+ */
+export function arcPathData(mark: ArcMark): string {
+  const path = new SvgArcPath();
+  traceArc(path, mark);
+  return path.toString();
+}
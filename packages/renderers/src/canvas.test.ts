@@ -1,9 +1,11 @@
 import type { RenderModel } from "@microviz/core";
+import { createApproximateTextMeasurer } from "@microviz/core";
 import { describe, expect, it } from "vitest";
 import type { Canvas2DContext } from "./canvas";
 import {
   canRenderCanvasNoiseDisplacement,
   getCanvasUnsupportedFilterPrimitiveTypes,
+  getCanvasUnsupportedMarkEffects,
   renderCanvas,
 } from "./canvas";
 
@@ -12,7 +14,9 @@ type RecordedCall = {
   fillStyle: string | FakeCanvasGradient | FakeCanvasPattern;
   filter: string;
   fn: string;
+  font: string;
   globalAlpha: number;
+  globalCompositeOperation: GlobalCompositeOperation;
   lineCap: CanvasLineCap;
   lineJoin: CanvasLineJoin;
   lineWidth: number;
@@ -53,7 +57,9 @@ class FakeCanvas2DContext {
 
   filter = "none";
   fillStyle: string | FakeCanvasGradient | FakeCanvasPattern = "";
+  font = "10px sans-serif";
   globalAlpha = 1;
+  globalCompositeOperation: GlobalCompositeOperation = "source-over";
   lineCap: CanvasLineCap = "butt";
   lineDashOffset = 0;
   lineJoin: CanvasLineJoin = "miter";
@@ -70,7 +76,9 @@ class FakeCanvas2DContext {
   #stack: Array<{
     filter: string;
     fillStyle: string | FakeCanvasGradient;
+    font: string;
     globalAlpha: number;
+    globalCompositeOperation: GlobalCompositeOperation;
     lineCap: CanvasLineCap;
     lineDash: number[];
     lineDashOffset: number;
@@ -98,8 +106,22 @@ class FakeCanvas2DContext {
     this.#record("beginPath", []);
   }
 
-  arc(cx: number, cy: number, r: number, sAngle: number, eAngle: number): void {
-    this.#record("arc", [cx, cy, r, sAngle, eAngle]);
+  arc(
+    cx: number,
+    cy: number,
+    r: number,
+    sAngle: number,
+    eAngle: number,
+    counterclockwise?: boolean,
+  ): void {
+    this.#record("arc", [
+      cx,
+      cy,
+      r,
+      sAngle,
+      eAngle,
+      ...(counterclockwise === undefined ? [] : [counterclockwise]),
+    ]);
   }
 
   clearRect(x: number, y: number, w: number, h: number): void {
@@ -152,6 +174,18 @@ class FakeCanvas2DContext {
     return new FakeCanvasGradient(x1, y1, x2, y2);
   }
 
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number,
+  ): FakeCanvasGradient {
+    this.#record("createRadialGradient", [x0, y0, r0, x1, y1, r1]);
+    return new FakeCanvasGradient(x0, y0, x1, y1);
+  }
+
   createPattern(_image: unknown, repetition: string): FakeCanvasPattern | null {
     this.#record("createPattern", [_image, repetition]);
     return new FakeCanvasPattern();
@@ -165,7 +199,9 @@ class FakeCanvas2DContext {
     this.#stack.push({
       fillStyle: this.fillStyle,
       filter: this.filter,
+      font: this.font,
       globalAlpha: this.globalAlpha,
+      globalCompositeOperation: this.globalCompositeOperation,
       lineCap: this.lineCap,
       lineDash: [...this.#lineDash],
       lineDashOffset: this.lineDashOffset,
@@ -187,7 +223,9 @@ class FakeCanvas2DContext {
     if (!state) return;
     this.filter = state.filter;
     this.fillStyle = state.fillStyle;
+    this.font = state.font;
     this.globalAlpha = state.globalAlpha;
+    this.globalCompositeOperation = state.globalCompositeOperation;
     this.lineCap = state.lineCap;
     this.#lineDash = [...state.lineDash];
     this.lineDashOffset = state.lineDashOffset;
@@ -218,6 +256,18 @@ class FakeCanvas2DContext {
     this.#record("transform", [a, b, c, d, e, f]);
   }
 
+  translate(x: number, y: number): void {
+    this.#record("translate", [x, y]);
+  }
+
+  rotate(angle: number): void {
+    this.#record("rotate", [angle]);
+  }
+
+  scale(x: number, y: number): void {
+    this.#record("scale", [x, y]);
+  }
+
   setTransform(
     a: number,
     b: number,
@@ -235,7 +285,9 @@ class FakeCanvas2DContext {
       fillStyle: this.fillStyle,
       filter: this.filter,
       fn,
+      font: this.font,
       globalAlpha: this.globalAlpha,
+      globalCompositeOperation: this.globalCompositeOperation,
       lineCap: this.lineCap,
       lineJoin: this.lineJoin,
       lineWidth: this.lineWidth,
@@ -341,6 +393,48 @@ describe("renderCanvas", () => {
     expect(ctx.lineWidth).toBe(1);
   });
 
+  it("draws sized, rotated and truncated text, then restores the font", () => {
+    const ctx = new FakeCanvas2DContext();
+
+    const model: RenderModel = {
+      height: 20,
+      marks: [
+        {
+          fill: "black",
+          fontSize: 12,
+          fontWeight: "bold",
+          id: "label",
+          maxWidth: 40,
+          rotate: 90,
+          text: "1,234,567",
+          type: "text",
+          x: 5,
+          y: 6,
+        },
+      ],
+      width: 20,
+    };
+
+    renderCanvas(ctx as unknown as Canvas2DContext, model, {
+      textMeasurer: createApproximateTextMeasurer({ avgCharWidthPx: 10 }),
+    });
+
+    const fns = ctx.calls.map((c) => c.fn);
+    expect(
+      fns.slice(fns.indexOf("translate"), fns.indexOf("fillText") + 1),
+    ).toEqual(["translate", "rotate", "fillText"]);
+    expect(ctx.calls.find((c) => c.fn === "translate")?.args).toEqual([5, 6]);
+    expect(ctx.calls.find((c) => c.fn === "rotate")?.args[0]).toBeCloseTo(
+      Math.PI / 2,
+      6,
+    );
+
+    const fillText = ctx.calls.find((c) => c.fn === "fillText");
+    expect(fillText?.args).toEqual(["1,2…", 0, 0]);
+    expect(fillText?.font).toBe("bold 12px sans-serif");
+    expect(ctx.font).toBe("10px sans-serif");
+  });
+
   it("strokes circles with options.strokeStyle when strokeWidth is provided", () => {
     const ctx = new FakeCanvas2DContext();
 
@@ -407,6 +501,48 @@ describe("renderCanvas", () => {
     expect(ctx.lineCap).toBe("butt");
   });
 
+  it("applies dash settings to line, path and rect strokes", () => {
+    const ctx = new FakeCanvas2DContext();
+
+    const model: RenderModel = {
+      height: 10,
+      marks: [
+        {
+          id: "line",
+          stroke: "red",
+          strokeDasharray: "4 2",
+          strokeDashoffset: "6",
+          type: "line",
+          x1: 0,
+          x2: 10,
+          y1: 5,
+          y2: 5,
+        },
+        {
+          fill: "none",
+          h: 4,
+          id: "rect",
+          stroke: "blue",
+          strokeDasharray: "1, 1",
+          type: "rect",
+          w: 4,
+          x: 1,
+          y: 1,
+        },
+      ],
+      width: 10,
+    };
+
+    renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+    const dashes = ctx.calls
+      .filter((c) => c.fn === "setLineDash")
+      .map((c) => c.args[0]);
+    expect(dashes).toEqual([[4, 2], [], [1, 1], []]);
+    expect(ctx.getLineDash()).toEqual([]);
+    expect(ctx.lineDashOffset).toBe(0);
+  });
+
   it("renders rounded rects when rx/ry are set", () => {
     const ctx = new FakeCanvas2DContext();
 
@@ -435,6 +571,83 @@ describe("renderCanvas", () => {
     expect(ctx.calls.some((c) => c.fn === "fill")).toBe(true);
   });
 
+  it("draws arc marks natively with outer and inner arcs", () => {
+    const ctx = new FakeCanvas2DContext();
+
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          cx: 50,
+          cy: 50,
+          endAngle: Math.PI / 2,
+          fill: "red",
+          id: "arc",
+          innerR: 20,
+          outerR: 40,
+          startAngle: 0,
+          type: "arc",
+        },
+      ],
+      width: 100,
+    };
+
+    renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+    const arcs = ctx.calls.filter((c) => c.fn === "arc").map((c) => c.args);
+    expect(arcs).toEqual([
+      [50, 50, 40, 0, Math.PI / 2],
+      [50, 50, 20, Math.PI / 2, 0, true],
+    ]);
+    const fill = ctx.calls.find((c) => c.fn === "fill");
+    expect(fill?.fillStyle).toBe("red");
+  });
+
+  it("draws polyline and area marks from point buffers", () => {
+    const ctx = new FakeCanvas2DContext();
+
+    const model: RenderModel = {
+      height: 40,
+      marks: [
+        {
+          baseline: 38,
+          fill: "blue",
+          id: "area",
+          points: [0, 20, 10, 10],
+          type: "area",
+        },
+        {
+          id: "line",
+          points: new Float32Array([0, 20, 10, 10, 20, 30]),
+          stroke: "red",
+          strokeWidth: 2,
+          type: "polyline",
+        },
+      ],
+      width: 40,
+    };
+
+    renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+    const path = ctx.calls
+      .filter((c) => ["moveTo", "lineTo", "closePath"].includes(c.fn))
+      .map((c) => [c.fn, ...c.args]);
+    expect(path).toEqual([
+      ["moveTo", 0, 20],
+      ["lineTo", 10, 10],
+      ["lineTo", 10, 38],
+      ["lineTo", 0, 38],
+      ["closePath"],
+      ["moveTo", 0, 20],
+      ["lineTo", 10, 10],
+      ["lineTo", 20, 30],
+    ]);
+    expect(ctx.calls.find((c) => c.fn === "fill")?.fillStyle).toBe("blue");
+    const stroke = ctx.calls.find((c) => c.fn === "stroke");
+    expect(stroke?.strokeStyle).toBe("red");
+    expect(stroke?.lineWidth).toBe(2);
+  });
+
   it("resolves url(#id) linear gradients from model.defs", () => {
     const ctx = new FakeCanvas2DContext();
 
@@ -496,6 +709,50 @@ describe("renderCanvas", () => {
     }
   });
 
+  it("resolves url(#id) radial gradients from model.defs", () => {
+    const ctx = new FakeCanvas2DContext();
+
+    const model: RenderModel = {
+      defs: [
+        {
+          fx: 0.25,
+          id: "glow-1",
+          stops: [
+            { color: "white", offset: 0 },
+            { color: "black", offset: 1 },
+          ],
+          type: "radialGradient",
+        },
+      ],
+      height: 20,
+      marks: [
+        {
+          cx: 10,
+          cy: 10,
+          fill: "url(#glow-1)",
+          id: "c",
+          r: 10,
+          type: "circle",
+        },
+      ],
+      width: 20,
+    };
+
+    renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+    const create = ctx.calls.find((c) => c.fn === "createRadialGradient");
+    expect(create?.args).toEqual([5, 10, 0, 10, 10, 10]);
+
+    const fill = ctx.calls.find((c) => c.fn === "fill");
+    expect(fill?.fillStyle).toBeInstanceOf(FakeCanvasGradient);
+    if (fill?.fillStyle instanceof FakeCanvasGradient) {
+      expect(fill.fillStyle.stops).toEqual([
+        { color: "white", offset: 0 },
+        { color: "black", offset: 1 },
+      ]);
+    }
+  });
+
   it("resolves url(#id) patterns from model.defs", () => {
     class FakeOffscreenCanvas {
       #ctx = new FakeCanvas2DContext();
@@ -615,6 +872,51 @@ describe("renderCanvas", () => {
     expect(ctx.calls.some((c) => c.fn === "restore")).toBe(true);
   });
 
+  it("renders group marks inside a saved, transformed context", () => {
+    const ctx = new FakeCanvas2DContext();
+
+    const model: RenderModel = {
+      defs: [{ h: 5, id: "clip-1", type: "clipRect", w: 5, x: 0, y: 0 }],
+      height: 20,
+      marks: [
+        {
+          clipPath: "clip-1",
+          id: "g-1",
+          marks: [
+            { fill: "red", h: 4, id: "r-1", type: "rect", w: 4, x: 0, y: 0 },
+          ],
+          opacity: 0.5,
+          transform: { rotate: 90, scaleX: 2, translateX: 10, translateY: 5 },
+          type: "group",
+        },
+      ],
+      width: 20,
+    };
+
+    renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+    const fns = ctx.calls.map((c) => c.fn);
+    expect(fns.slice(1, 6)).toEqual([
+      "save",
+      "translate",
+      "rotate",
+      "scale",
+      "beginPath",
+    ]);
+    expect(ctx.calls.find((c) => c.fn === "translate")?.args).toEqual([10, 5]);
+    expect(ctx.calls.find((c) => c.fn === "rotate")?.args).toEqual([
+      Math.PI / 2,
+    ]);
+    expect(ctx.calls.find((c) => c.fn === "scale")?.args).toEqual([2, 1]);
+    expect(fns).toContain("clip");
+
+    const fillRect = ctx.calls.find((c) => c.fn === "fillRect");
+    expect(fillRect?.args).toEqual([0, 0, 4, 4]);
+    expect(fillRect?.globalAlpha).toBeCloseTo(0.5, 6);
+    expect(fns.at(-1)).toBe("restore");
+    expect(ctx.globalAlpha).toBe(1);
+  });
+
   it("applies url(#id) drop-shadow filters from model.defs", () => {
     const ctx = new FakeCanvas2DContext();
 
@@ -700,6 +1002,46 @@ describe("renderCanvas", () => {
     expect(ctx.filter).toBe("none");
   });
 
+  it("maps linear colorMatrix/offset chains onto ctx.filter and a translation", () => {
+    const ctx = new FakeCanvas2DContext();
+
+    const model: RenderModel = {
+      defs: [
+        {
+          id: "desaturate",
+          primitives: [
+            { matrixType: "saturate", type: "colorMatrix", values: 0 },
+            { dx: 2, dy: 3, type: "offset" },
+            { stdDeviation: 1, type: "gaussianBlur" },
+          ],
+          type: "filter",
+        },
+      ],
+      height: 10,
+      marks: [
+        {
+          fill: "red",
+          filter: "desaturate",
+          h: 10,
+          id: "rect",
+          type: "rect",
+          w: 10,
+          x: 0,
+          y: 0,
+        },
+      ],
+      width: 10,
+    };
+
+    renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+    const translate = ctx.calls.find((c) => c.fn === "translate");
+    expect(translate?.args).toEqual([2, 3]);
+    const fillRect = ctx.calls.find((c) => c.fn === "fillRect");
+    expect(fillRect?.filter).toBe("saturate(0) blur(1px)");
+    expect(ctx.filter).toBe("none");
+  });
+
   it("renders noise displacement filters via drawImage when OffscreenCanvas supports ImageData", () => {
     class FakeNoiseCanvas2DContext extends FakeCanvas2DContext {
       getImageData(_x: number, _y: number, w: number, h: number): ImageData {
@@ -797,6 +1139,252 @@ describe("renderCanvas", () => {
     }
   });
 
+  it("evaluates filter graphs on ImageData when OffscreenCanvas is available", () => {
+    let putData: Uint8ClampedArray | undefined;
+
+    class FakeGraphCanvas2DContext extends FakeCanvas2DContext {
+      getImageData(_x: number, _y: number, w: number, h: number): ImageData {
+        const data = new Uint8ClampedArray(w * h * 4);
+        // Opaque white source pixels.
+        data.fill(255);
+        return { data, height: h, width: w } as unknown as ImageData;
+      }
+
+      createImageData(w: number, h: number): ImageData {
+        return {
+          data: new Uint8ClampedArray(w * h * 4),
+          height: h,
+          width: w,
+        } as unknown as ImageData;
+      }
+
+      putImageData(data: ImageData, _dx: number, _dy: number): void {
+        putData = data.data;
+      }
+    }
+
+    class FakeOffscreenCanvas {
+      #ctx = new FakeGraphCanvas2DContext();
+
+      constructor(
+        readonly width: number,
+        readonly height: number,
+      ) {}
+
+      getContext(_type: "2d"): FakeGraphCanvas2DContext {
+        return this.#ctx;
+      }
+    }
+
+    const prev = (globalThis as unknown as { OffscreenCanvas?: unknown })
+      .OffscreenCanvas;
+    (globalThis as unknown as { OffscreenCanvas?: unknown }).OffscreenCanvas =
+      FakeOffscreenCanvas;
+
+    try {
+      const ctx = new FakeCanvas2DContext();
+
+      const model: RenderModel = {
+        defs: [
+          {
+            id: "duotone",
+            primitives: [
+              {
+                matrixType: "matrix",
+                type: "colorMatrix",
+                values: [
+                  0, 0, 0, 0, 0.2, 0, 0, 0, 0, 0.4, 0, 0, 0, 0, 0.6, 0, 0, 0, 1,
+                  0,
+                ],
+              },
+            ],
+            type: "filter",
+          },
+        ],
+        height: 2,
+        marks: [
+          {
+            fill: "red",
+            filter: "duotone",
+            h: 2,
+            id: "rect",
+            type: "rect",
+            w: 2,
+            x: 0,
+            y: 0,
+          },
+        ],
+        width: 2,
+      };
+
+      expect(getCanvasUnsupportedFilterPrimitiveTypes(model)).toEqual([]);
+
+      renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+      expect(ctx.calls.some((c) => c.fn === "drawImage")).toBe(true);
+      expect(ctx.calls.some((c) => c.fn === "fillRect")).toBe(false);
+      expect(Array.from(putData?.slice(0, 4) ?? [])).toEqual([
+        51, 102, 153, 255,
+      ]);
+    } finally {
+      (globalThis as unknown as { OffscreenCanvas?: unknown }).OffscreenCanvas =
+        prev;
+    }
+  });
+
+  it("maps mark blend modes onto globalCompositeOperation", () => {
+    const ctx = new FakeCanvas2DContext();
+
+    const model: RenderModel = {
+      height: 10,
+      marks: [
+        {
+          blendMode: "multiply",
+          fill: "red",
+          h: 10,
+          id: "a",
+          type: "rect",
+          w: 10,
+          x: 0,
+          y: 0,
+        },
+        { fill: "blue", h: 10, id: "b", type: "rect", w: 10, x: 0, y: 0 },
+      ],
+      width: 10,
+    };
+
+    renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+    const fills = ctx.calls.filter((c) => c.fn === "fillRect");
+    expect(fills.map((c) => c.globalCompositeOperation)).toEqual([
+      "multiply",
+      "source-over",
+    ]);
+    expect(ctx.globalCompositeOperation).toBe("source-over");
+  });
+
+  it("passes group blend modes to children when layers are unavailable", () => {
+    const ctx = new FakeCanvas2DContext();
+
+    const model: RenderModel = {
+      height: 10,
+      marks: [
+        {
+          blendMode: "screen",
+          id: "g",
+          isolate: true,
+          marks: [
+            { fill: "red", h: 5, id: "a", type: "rect", w: 5, x: 0, y: 0 },
+            {
+              blendMode: "normal",
+              fill: "blue",
+              h: 5,
+              id: "b",
+              type: "rect",
+              w: 5,
+              x: 5,
+              y: 0,
+            },
+          ],
+          type: "group",
+        },
+      ],
+      width: 10,
+    };
+
+    renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+    const fills = ctx.calls.filter((c) => c.fn === "fillRect");
+    expect(fills.map((c) => c.globalCompositeOperation)).toEqual([
+      "screen",
+      "source-over",
+    ]);
+    expect(getCanvasUnsupportedMarkEffects(model)).toEqual([
+      "blendMode",
+      "isolate",
+    ]);
+  });
+
+  it("composites blended groups through an offscreen layer when available", () => {
+    class FakeLayerCanvas2DContext extends FakeCanvas2DContext {
+      getImageData(): ImageData {
+        return {} as ImageData;
+      }
+
+      createImageData(): ImageData {
+        return {} as ImageData;
+      }
+
+      putImageData(): void {}
+
+      getTransform(): DOMMatrix {
+        return { a: 2, b: 0, c: 0, d: 2, e: 0, f: 0 } as DOMMatrix;
+      }
+    }
+
+    const layers: FakeOffscreenCanvas[] = [];
+
+    class FakeOffscreenCanvas {
+      readonly ctx = new FakeLayerCanvas2DContext();
+
+      constructor(
+        readonly width: number,
+        readonly height: number,
+      ) {
+        layers.push(this);
+      }
+
+      getContext(_type: "2d"): FakeLayerCanvas2DContext {
+        return this.ctx;
+      }
+    }
+
+    const prev = (globalThis as unknown as { OffscreenCanvas?: unknown })
+      .OffscreenCanvas;
+    (globalThis as unknown as { OffscreenCanvas?: unknown }).OffscreenCanvas =
+      FakeOffscreenCanvas;
+
+    try {
+      const ctx = Object.assign(new FakeLayerCanvas2DContext(), {
+        canvas: { height: 20, width: 20 },
+      });
+
+      const model: RenderModel = {
+        height: 10,
+        marks: [
+          {
+            blendMode: "multiply",
+            id: "g",
+            marks: [
+              { fill: "red", h: 5, id: "a", type: "rect", w: 5, x: 0, y: 0 },
+            ],
+            opacity: 0.5,
+            type: "group",
+          },
+        ],
+        width: 10,
+      };
+
+      expect(getCanvasUnsupportedMarkEffects(model)).toEqual([]);
+
+      renderCanvas(ctx as unknown as Canvas2DContext, model);
+
+      const layer = layers.at(-1);
+      expect(layer?.width).toBe(20);
+      expect(layer?.ctx.calls.some((c) => c.fn === "fillRect")).toBe(true);
+      expect(ctx.calls.some((c) => c.fn === "fillRect")).toBe(false);
+
+      const draw = ctx.calls.find((c) => c.fn === "drawImage");
+      expect(draw?.args[0]).toBe(layer);
+      expect(draw?.globalCompositeOperation).toBe("multiply");
+      expect(draw?.globalAlpha).toBe(0.5);
+      expect(ctx.globalCompositeOperation).toBe("source-over");
+    } finally {
+      (globalThis as unknown as { OffscreenCanvas?: unknown }).OffscreenCanvas =
+        prev;
+    }
+  });
+
   it("applies masks via canvas clipping when Path2D is available", () => {
     class FakePath2D {
       addPath(_path: FakePath2D): void {}
@@ -964,6 +1552,43 @@ describe("getCanvasUnsupportedFilterPrimitiveTypes", () => {
     ]);
   });
 
+  it("reports filter graph primitives when OffscreenCanvas is unavailable", () => {
+    const model: RenderModel = {
+      defs: [
+        {
+          id: "chain",
+          primitives: [
+            { matrixType: "hueRotate", type: "colorMatrix", values: 45 },
+            { dx: 1, type: "offset" },
+          ],
+          type: "filter",
+        },
+        {
+          id: "graph",
+          primitives: [
+            { in: "SourceAlpha", result: "alpha", type: "offset" },
+            { floodColor: "gold", type: "flood" },
+            { in2: "alpha", operator: "in", type: "composite" },
+            { inputs: ["SourceGraphic"], type: "merge" },
+            { in2: "SourceGraphic", mode: "screen", type: "blend" },
+          ],
+          type: "filter",
+        },
+      ],
+      height: 10,
+      marks: [],
+      width: 10,
+    };
+
+    expect(getCanvasUnsupportedFilterPrimitiveTypes(model)).toEqual([
+      "blend",
+      "composite",
+      "flood",
+      "merge",
+      "offset",
+    ]);
+  });
+
   it("returns an empty list when no unsupported primitives are present", () => {
     const model: RenderModel = {
       defs: [
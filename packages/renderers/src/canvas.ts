@@ -1,53 +1,80 @@
 import type {
+  BlendMode,
   ClipRectDef,
   Def,
   FilterDef,
   FilterPrimitive,
+  GroupMark,
   LinearGradientDef,
   Mark,
   MaskDef,
   PatternDef,
   PatternMark,
+  RadialGradientDef,
   RenderModel,
+  TextMeasurer,
 } from "@microviz/core";
+import {
+  fitTextMark,
+  getDefaultTextMeasurer,
+  pointsBounds,
+  textMarkFont,
+} from "@microviz/core";
+import { traceArc } from "./arc";
+import {
+  colorMatrixToCss,
+  evaluateFilterGraph,
+  isFilterGraphSupported,
+  isLinearFilterChain,
+  requiresFilterGraph,
+  resolveFilterRegion,
+} from "./filter-graph";
+import { traceArea, tracePoints } from "./points";
 
 export type Canvas2DContext =
   | CanvasRenderingContext2D
   | OffscreenCanvasRenderingContext2D;
 
+/**
+ * Mark effects `renderCanvas` can only approximate: without `OffscreenCanvas`,
+ * group blend modes are applied to each child and group isolation is ignored.
+ */
+export type CanvasUnsupportedMarkEffect = "blendMode" | "isolate";
+
 export type RenderCanvasOptions = {
   strokeStyle?: string;
   strokeWidth?: number;
   fillStyle?: string;
+  /** Measures `maxWidth` text; defaults to `getDefaultTextMeasurer()`. */
+  textMeasurer?: TextMeasurer;
 };
 
-let noiseDisplacementOffscreenCtorCache: unknown;
-let canRenderNoiseDisplacementCache: boolean | undefined;
+let rasterOffscreenCtorCache: unknown;
+let canRasterizeFiltersCache: boolean | undefined;
 
-function canRenderNoiseDisplacement(): boolean {
+function canRasterizeFilters(): boolean {
   const OffscreenCanvasCtor = (
     globalThis as unknown as {
       OffscreenCanvas?: new (w: number, h: number) => OffscreenCanvas;
     }
   ).OffscreenCanvas;
 
-  if (OffscreenCanvasCtor !== noiseDisplacementOffscreenCtorCache) {
-    noiseDisplacementOffscreenCtorCache = OffscreenCanvasCtor;
-    canRenderNoiseDisplacementCache = undefined;
+  if (OffscreenCanvasCtor !== rasterOffscreenCtorCache) {
+    rasterOffscreenCtorCache = OffscreenCanvasCtor;
+    canRasterizeFiltersCache = undefined;
   }
 
-  if (canRenderNoiseDisplacementCache !== undefined)
-    return canRenderNoiseDisplacementCache;
+  if (canRasterizeFiltersCache !== undefined) return canRasterizeFiltersCache;
 
   if (!OffscreenCanvasCtor) {
-    canRenderNoiseDisplacementCache = false;
+    canRasterizeFiltersCache = false;
     return false;
   }
 
   try {
     const canvas = new OffscreenCanvasCtor(1, 1);
     const ctx = canvas.getContext("2d");
-    canRenderNoiseDisplacementCache =
+    canRasterizeFiltersCache =
       !!ctx &&
       typeof (ctx as unknown as { getImageData?: unknown }).getImageData ===
         "function" &&
@@ -55,9 +82,9 @@ function canRenderNoiseDisplacement(): boolean {
         "function" &&
       typeof (ctx as unknown as { createImageData?: unknown })
         .createImageData === "function";
-    return canRenderNoiseDisplacementCache;
+    return canRasterizeFiltersCache;
   } catch {
-    canRenderNoiseDisplacementCache = false;
+    canRasterizeFiltersCache = false;
     return false;
   }
 }
@@ -68,7 +95,17 @@ function canRenderNoiseDisplacement(): boolean {
  * + ImageData APIs).
  */
 export function canRenderCanvasNoiseDisplacement(): boolean {
-  return canRenderNoiseDisplacement();
+  return canRasterizeFilters();
+}
+
+/**
+ * Returns true when the Canvas renderer can evaluate filter graphs
+ * (colorMatrix, offset, flood, composite, merge, blend) per pixel; requires
+ * `OffscreenCanvas` + ImageData APIs. Without them only linear chains that map
+ * onto `ctx.filter` are applied.
+ */
+export function canRenderCanvasFilterGraphs(): boolean {
+  return canRasterizeFilters();
 }
 
 /**
@@ -78,20 +115,35 @@ export function getCanvasUnsupportedFilterPrimitiveTypes(
   model: RenderModel,
 ): Array<FilterPrimitive["type"]> {
   const unsupported = new Set<FilterPrimitive["type"]>();
-  const supportsNoiseDisplacement = canRenderNoiseDisplacement();
+  const supportsRaster = canRasterizeFilters();
   for (const def of model.defs ?? []) {
     if (def.type !== "filter") continue;
 
     const filter = def as FilterDef;
-    const pipeline = supportsNoiseDisplacement
+    const pipeline = supportsRaster
       ? resolveNoiseDisplacementPipeline(filter)
       : null;
+    const graph =
+      supportsRaster &&
+      requiresFilterGraph(filter) &&
+      isFilterGraphSupported(filter);
+    const chain = isLinearFilterChain(filter);
 
     for (const primitive of def.primitives)
       switch (primitive.type) {
         case "dropShadow":
         case "gaussianBlur":
           break;
+        case "colorMatrix":
+        case "offset":
+          if (!graph && !chain) unsupported.add(primitive.type);
+          break;
+        case "flood":
+        case "composite":
+        case "merge":
+        case "blend":
+          if (!graph) unsupported.add(primitive.type);
+          break;
         case "turbulence":
           if (!pipeline || primitive !== pipeline.turbulence)
             unsupported.add("turbulence");
@@ -106,6 +158,34 @@ export function getCanvasUnsupportedFilterPrimitiveTypes(
   return [...unsupported].sort();
 }
 
+function needsGroupLayer(mark: GroupMark): boolean {
+  return (
+    mark.isolate === true ||
+    (mark.blendMode !== undefined && mark.blendMode !== "normal")
+  );
+}
+
+/**
+ * Returns mark effects that `renderCanvas` currently approximates or ignores.
+ */
+export function getCanvasUnsupportedMarkEffects(
+  model: RenderModel,
+): CanvasUnsupportedMarkEffect[] {
+  if (canRasterizeFilters()) return [];
+  const unsupported = new Set<CanvasUnsupportedMarkEffect>();
+  const visit = (marks: ReadonlyArray<Mark>) => {
+    for (const mark of marks) {
+      if (mark.type !== "group") continue;
+      if (mark.blendMode !== undefined && mark.blendMode !== "normal")
+        unsupported.add("blendMode");
+      if (mark.isolate) unsupported.add("isolate");
+      visit(mark.marks);
+    }
+  };
+  visit(model.marks);
+  return [...unsupported].sort();
+}
+
 type Matrix2D = {
   a: number;
   b: number;
@@ -251,9 +331,15 @@ export function renderCanvas(
 
   for (const mark of model.marks) {
     if (!mark) continue;
-    const filterId = mark.filter;
-    if (filterId && canRenderNoiseDisplacement()) {
-      const def = defsById.get(filterId);
+    if (mark.type !== "group" && mark.filter && canRasterizeFilters()) {
+      const def = defsById.get(mark.filter);
+      if (
+        def?.type === "filter" &&
+        requiresFilterGraph(def) &&
+        isFilterGraphSupported(def) &&
+        renderFilterGraph(ctx, model, mark, def, defsById, options)
+      )
+        continue;
       if (def?.type === "filter") {
         const pipeline = resolveNoiseDisplacementPipeline(def);
         if (
@@ -290,7 +376,8 @@ function withAlpha(
 }
 
 type Bounds = { maxX: number; maxY: number; minX: number; minY: number };
-type FillableMark = Exclude<Mark, { type: "line" }>;
+type FillableMark = Exclude<Mark, { type: "line" | "polyline" | "group" }>;
+type LeafMark = Exclude<Mark, { type: "group" }>;
 
 function parseUrlRef(value: string): string | null {
   const match = value.match(/^url\(#([^)]+)\)$/);
@@ -343,8 +430,20 @@ function boundsForMark(mark: Mark): Bounds | null {
         minX: mark.cx - mark.r,
         minY: mark.cy - mark.r,
       };
+    case "arc":
+      // Full-disc bounds; gradients on partial arcs span the whole ring.
+      return {
+        maxX: mark.cx + mark.outerR,
+        maxY: mark.cy + mark.outerR,
+        minX: mark.cx - mark.outerR,
+        minY: mark.cy - mark.outerR,
+      };
     case "path":
       return boundsForPathData(mark.d);
+    case "polyline":
+      return pointsBounds(mark.points);
+    case "area":
+      return pointsBounds(mark.points, mark.baseline);
     default:
       return null;
   }
@@ -390,6 +489,48 @@ function buildLinearGradient(
   return gradient;
 }
 
+function buildRadialGradient(
+  ctx: Canvas2DContext,
+  def: RadialGradientDef,
+  bounds: Bounds,
+  options?: Pick<RenderCanvasOptions, "fillStyle">,
+): CanvasGradient {
+  const userSpace = def.gradientUnits === "userSpaceOnUse";
+  const w = bounds.maxX - bounds.minX || 1;
+  const h = bounds.maxY - bounds.minY || 1;
+
+  let cx: number;
+  let cy: number;
+  let r: number;
+  let fx: number;
+  let fy: number;
+  if (userSpace) {
+    cx = def.cx ?? bounds.minX + w / 2;
+    cy = def.cy ?? bounds.minY + h / 2;
+    r = def.r ?? Math.max(w, h) / 2;
+    fx = def.fx ?? cx;
+    fy = def.fy ?? cy;
+  } else {
+    // Canvas gradients are circular; an objectBoundingBox radius on a
+    // non-square box (an ellipse in SVG) is approximated by the mean extent.
+    cx = bounds.minX + (def.cx ?? 0.5) * w;
+    cy = bounds.minY + (def.cy ?? 0.5) * h;
+    r = (def.r ?? 0.5) * ((w + h) / 2);
+    fx = bounds.minX + (def.fx ?? def.cx ?? 0.5) * w;
+    fy = bounds.minY + (def.fy ?? def.cy ?? 0.5) * h;
+  }
+
+  const gradient = ctx.createRadialGradient(fx, fy, 0, cx, cy, Math.max(0, r));
+  for (const stop of def.stops) {
+    const offset = Math.min(1, Math.max(0, stop.offset));
+    gradient.addColorStop(
+      offset,
+      resolveStopColor(stop.color, stop.opacity, options),
+    );
+  }
+  return gradient;
+}
+
 function patternMarkToMark(mark: PatternMark, id: string): Mark {
   return { ...(mark as unknown as Omit<Mark, "id">), id } as Mark;
 }
@@ -504,6 +645,10 @@ function setFillStyle(
       ctx.fillStyle = buildLinearGradient(ctx, def, bounds, options);
       return true;
     }
+    if (def?.type === "radialGradient" && bounds) {
+      ctx.fillStyle = buildRadialGradient(ctx, def, bounds, options);
+      return true;
+    }
     if (def?.type === "pattern") {
       if (def.patternUnits === "userSpaceOnUse") {
         if (patternCache.has(def.id)) {
@@ -684,6 +829,9 @@ function applyFilter(
   const def = defsById.get(filterId);
   if (!def || def.type !== "filter") return didSave;
   const filter = def as FilterDef;
+  if (isLinearFilterChain(filter))
+    return applyFilterChain(ctx, filter, didSave, options);
+
   const gaussianBlur = filter.primitives.find((p) => p.type === "gaussianBlur");
   const dropShadow = filter.primitives.find((p) => p.type === "dropShadow");
   if (!gaussianBlur && !dropShadow) return didSave;
@@ -709,6 +857,89 @@ function applyFilter(
   return true;
 }
 
+/**
+ * Applies a linear filter chain: blurs and colorMatrix saturate/hueRotate
+ * become one `ctx.filter` string, offsets translate the mark and the drop
+ * shadow maps onto the context shadow.
+ */
+function applyFilterChain(
+  ctx: Canvas2DContext,
+  filter: FilterDef,
+  didSave: boolean,
+  options?: Pick<RenderCanvasOptions, "fillStyle">,
+): boolean {
+  if (filter.primitives.length === 0) return didSave;
+  if (!didSave) ctx.save();
+
+  const parts: string[] = [];
+  let usesContextFilter = false;
+  for (const primitive of filter.primitives) {
+    switch (primitive.type) {
+      case "gaussianBlur": {
+        const blur = Math.max(0, primitive.stdDeviation ?? 0);
+        usesContextFilter = true;
+        if (blur > 0) parts.push(`blur(${blur}px)`);
+        break;
+      }
+      case "colorMatrix": {
+        const css = colorMatrixToCss(primitive);
+        usesContextFilter = true;
+        if (css) parts.push(css);
+        break;
+      }
+      case "offset":
+        ctx.translate(primitive.dx ?? 0, primitive.dy ?? 0);
+        break;
+      case "dropShadow":
+        ctx.shadowOffsetX = primitive.dx ?? 0;
+        ctx.shadowOffsetY = primitive.dy ?? 0;
+        ctx.shadowBlur = Math.max(0, (primitive.stdDeviation ?? 0) * 2);
+        ctx.shadowColor = resolveStopColor(
+          primitive.floodColor ?? "black",
+          primitive.floodOpacity,
+          options,
+        );
+        break;
+    }
+  }
+
+  if (usesContextFilter)
+    ctx.filter = parts.length > 0 ? parts.join(" ") : "none";
+  return true;
+}
+
+function compositeOperation(mode: BlendMode): GlobalCompositeOperation {
+  return mode === "normal" ? "source-over" : mode;
+}
+
+function applyBlendMode(
+  ctx: Canvas2DContext,
+  blendMode: BlendMode | undefined,
+  didSave: boolean,
+): boolean {
+  if (!blendMode) return didSave;
+  if (!didSave) ctx.save();
+  ctx.globalCompositeOperation = compositeOperation(blendMode);
+  return true;
+}
+
+/**
+ * Draws an offscreen layer at the context origin with the mark's blend mode.
+ */
+function drawLayer(
+  ctx: Canvas2DContext,
+  layer: OffscreenCanvas,
+  blendMode: BlendMode | undefined,
+): void {
+  const didSave = applyBlendMode(ctx, blendMode, false);
+  (
+    ctx as unknown as {
+      drawImage: (src: unknown, dx: number, dy: number) => void;
+    }
+  ).drawImage(layer, 0, 0);
+  if (didSave) ctx.restore();
+}
+
 type TurbulencePrimitive = Extract<FilterPrimitive, { type: "turbulence" }>;
 type DisplacementMapPrimitive = Extract<
   FilterPrimitive,
@@ -987,7 +1218,7 @@ function applyNoiseDisplacement(
 function renderNoiseDisplacementFilter(
   ctx: Canvas2DContext,
   model: RenderModel,
-  mark: Mark,
+  mark: LeafMark,
   pipeline: NoiseDisplacementPipeline,
   defsById: ReadonlyMap<string, Def>,
   options?: RenderCanvasOptions,
@@ -1061,14 +1292,208 @@ function renderNoiseDisplacementFilter(
   applyNoiseDisplacement(source, output, pipeline, w, h);
 
   offscreenCtx.putImageData(output, 0, 0);
-  (
-    ctx as unknown as {
-      drawImage: (src: unknown, dx: number, dy: number) => void;
+  drawLayer(ctx, offscreen, mark.blendMode);
+  return true;
+}
+
+/**
+ * Resolves a CSS color to straight RGBA in [0, 1] by painting one pixel of a
+ * scratch context and reading it back.
+ */
+function readColorRgba(
+  ctx: OffscreenCanvasRenderingContext2D,
+  color: string,
+  opacity: number | undefined,
+  options?: Pick<RenderCanvasOptions, "fillStyle">,
+): readonly [number, number, number, number] {
+  ctx.clearRect(0, 0, 1, 1);
+  ctx.fillStyle = resolveStopColor(color, undefined, options);
+  ctx.fillRect(0, 0, 1, 1);
+  const data = ctx.getImageData(0, 0, 1, 1).data;
+  ctx.clearRect(0, 0, 1, 1);
+  const alpha = Math.max(0, Math.min(1, opacity ?? 1));
+  return [
+    (data[0] ?? 0) / 255,
+    (data[1] ?? 0) / 255,
+    (data[2] ?? 0) / 255,
+    ((data[3] ?? 0) / 255) * alpha,
+  ];
+}
+
+/**
+ * Rasterizes the mark offscreen, evaluates its filter graph on the pixels and
+ * draws the result back. Like the noise pipeline this runs in model space, so
+ * it only applies to top-level marks.
+ */
+function renderFilterGraph(
+  ctx: Canvas2DContext,
+  model: RenderModel,
+  mark: LeafMark,
+  filter: FilterDef,
+  defsById: ReadonlyMap<string, Def>,
+  options?: RenderCanvasOptions,
+): boolean {
+  if (
+    typeof (ctx as unknown as { drawImage?: unknown }).drawImage !== "function"
+  )
+    return false;
+
+  const OffscreenCanvasCtor = (
+    globalThis as unknown as {
+      OffscreenCanvas?: new (w: number, h: number) => OffscreenCanvas;
     }
-  ).drawImage(offscreen, 0, 0);
+  ).OffscreenCanvas;
+
+  if (!OffscreenCanvasCtor) return false;
+
+  const w = Math.max(1, Math.ceil(model.width));
+  const h = Math.max(1, Math.ceil(model.height));
+
+  const offscreen = new OffscreenCanvasCtor(w, h);
+  const offscreenCtx = offscreen.getContext("2d");
+  if (!offscreenCtx) return false;
+
+  offscreenCtx.clearRect(0, 0, w, h);
+  renderMark(
+    offscreenCtx as Canvas2DContext,
+    { ...mark, filter: undefined },
+    defsById,
+    new Map<string, CanvasPattern | null>(),
+    options,
+  );
+
+  const source = offscreenCtx.getImageData(0, 0, w, h);
+  const bounds = boundsForMark(mark);
+  const region = resolveFilterRegion(
+    filter,
+    bounds
+      ? {
+          height: bounds.maxY - bounds.minY,
+          width: bounds.maxX - bounds.minX,
+          x: bounds.minX,
+          y: bounds.minY,
+        }
+      : null,
+    model,
+  );
+  const pixels = evaluateFilterGraph(filter, source.data, {
+    height: h,
+    region,
+    resolveColor: (color, opacity) =>
+      readColorRgba(offscreenCtx, color, opacity, options),
+    width: w,
+  });
+
+  const output = offscreenCtx.createImageData(w, h);
+  output.data.set(pixels);
+  offscreenCtx.putImageData(output, 0, 0);
+  drawLayer(ctx, offscreen, mark.blendMode);
   return true;
 }
 
+/**
+ * Maps SVG `stroke-dasharray`/`stroke-dashoffset` onto the context. Callers
+ * save and restore the previous dash state around the stroke.
+ */
+function applyLineDash(
+  ctx: Canvas2DContext,
+  mark: { strokeDasharray?: string; strokeDashoffset?: string },
+): void {
+  if (mark.strokeDasharray !== undefined) {
+    const dashes = mark.strokeDasharray
+      .split(/[\s,]+/)
+      .map(Number)
+      .filter(Number.isFinite);
+    ctx.setLineDash(dashes);
+  }
+  if (mark.strokeDashoffset !== undefined) {
+    ctx.lineDashOffset = Number(mark.strokeDashoffset) || 0;
+  }
+}
+
+/**
+ * Renders a group into an offscreen layer the size of the target canvas and
+ * composites it in one step, so its blend mode and opacity apply to the group
+ * as a whole and its children blend only with each other.
+ */
+function renderGroupLayer(
+  ctx: Canvas2DContext,
+  mark: GroupMark,
+  defsById: ReadonlyMap<string, Def>,
+  options?: RenderCanvasOptions,
+): boolean {
+  if (!canRasterizeFilters()) return false;
+  const target = (ctx as { canvas?: { height: number; width: number } }).canvas;
+  if (
+    !target ||
+    typeof ctx.getTransform !== "function" ||
+    typeof (ctx as unknown as { drawImage?: unknown }).drawImage !== "function"
+  )
+    return false;
+
+  const OffscreenCanvasCtor = (
+    globalThis as unknown as {
+      OffscreenCanvas?: new (w: number, h: number) => OffscreenCanvas;
+    }
+  ).OffscreenCanvas;
+  if (!OffscreenCanvasCtor) return false;
+
+  const layer = new OffscreenCanvasCtor(
+    Math.max(1, target.width),
+    Math.max(1, target.height),
+  );
+  const layerCtx = layer.getContext("2d");
+  if (!layerCtx) return false;
+
+  layerCtx.setTransform(ctx.getTransform());
+  renderGroup(
+    layerCtx as Canvas2DContext,
+    { ...mark, blendMode: undefined, isolate: undefined, opacity: undefined },
+    defsById,
+    new Map<string, CanvasPattern | null>(),
+    options,
+  );
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  withAlpha(ctx, mark.opacity ?? 1, () => {
+    drawLayer(ctx, layer, mark.blendMode);
+  });
+  ctx.restore();
+  return true;
+}
+
+function renderGroup(
+  ctx: Canvas2DContext,
+  mark: GroupMark,
+  defsById: ReadonlyMap<string, Def>,
+  patternCache: Map<string, CanvasPattern | null>,
+  options?: RenderCanvasOptions,
+): void {
+  if (needsGroupLayer(mark) && renderGroupLayer(ctx, mark, defsById, options))
+    return;
+
+  ctx.save();
+  const transform = mark.transform;
+  if (transform) {
+    ctx.translate(transform.translateX ?? 0, transform.translateY ?? 0);
+    if (transform.rotate) ctx.rotate((transform.rotate * Math.PI) / 180);
+    ctx.scale(transform.scaleX ?? 1, transform.scaleY ?? 1);
+  }
+  // Clip rects are resolved in the group's local coordinate space (SVG parity).
+  applyClipPath(ctx, mark.clipPath, defsById, true);
+  // Without a layer, each child inherits the group's blend mode instead.
+  applyBlendMode(ctx, mark.blendMode, true);
+
+  // NOTE: Group opacity is multiplied into each child rather than composited
+  // as a layer, so overlapping children blend slightly differently than SVG.
+  withAlpha(ctx, mark.opacity ?? 1, () => {
+    for (const child of mark.marks)
+      renderMark(ctx, child, defsById, patternCache, options);
+  });
+  ctx.restore();
+}
+
 function renderMark(
   ctx: Canvas2DContext,
   mark: Mark,
@@ -1076,6 +1501,11 @@ function renderMark(
   patternCache: Map<string, CanvasPattern | null>,
   options?: RenderCanvasOptions,
 ): void {
+  if (mark.type === "group") {
+    renderGroup(ctx, mark, defsById, patternCache, options);
+    return;
+  }
+
   const baseOpacity = mark.opacity ?? 1;
 
   let didSave = false;
@@ -1091,26 +1521,27 @@ function renderMark(
   // Apply drop-shadow filters using canvas shadow settings
   didSave = applyFilter(ctx, mark.filter, defsById, didSave, options);
 
+  didSave = applyBlendMode(ctx, mark.blendMode, didSave);
+
   switch (mark.type) {
     case "rect": {
       const hasFill = setFillStyle(ctx, mark, defsById, patternCache, options);
-      if (!hasFill) {
-        if (didSave) ctx.restore();
-        return;
-      }
       const rX = mark.rx ?? 0;
       const rY = mark.ry ?? rX;
       const hasRadius = rX > 0 || rY > 0;
 
-      withAlpha(ctx, baseOpacity * (mark.fillOpacity ?? 1), () => {
-        if (!hasRadius) {
-          ctx.fillRect(mark.x, mark.y, mark.w, mark.h);
-          return;
-        }
+      // Unfilled rects still stroke (e.g. dashed outlines).
+      if (hasFill) {
+        withAlpha(ctx, baseOpacity * (mark.fillOpacity ?? 1), () => {
+          if (!hasRadius) {
+            ctx.fillRect(mark.x, mark.y, mark.w, mark.h);
+            return;
+          }
 
-        roundedRectPath(ctx, mark.x, mark.y, mark.w, mark.h, rX, rY);
-        ctx.fill();
-      });
+          roundedRectPath(ctx, mark.x, mark.y, mark.w, mark.h, rX, rY);
+          ctx.fill();
+        });
+      }
 
       const shouldStroke =
         (mark.stroke !== undefined && mark.stroke !== "none") ||
@@ -1125,7 +1556,10 @@ function renderMark(
           return;
         }
         const prevLineWidth = ctx.lineWidth;
+        const prevLineDash = ctx.getLineDash();
+        const prevLineDashOffset = ctx.lineDashOffset;
         if (mark.strokeWidth !== undefined) ctx.lineWidth = mark.strokeWidth;
+        applyLineDash(ctx, mark);
         withAlpha(ctx, baseOpacity * (mark.strokeOpacity ?? 1), () => {
           if (!hasRadius) {
             ctx.strokeRect(mark.x, mark.y, mark.w, mark.h);
@@ -1136,6 +1570,8 @@ function renderMark(
           ctx.stroke();
         });
         ctx.lineWidth = prevLineWidth;
+        ctx.setLineDash(prevLineDash);
+        ctx.lineDashOffset = prevLineDashOffset;
       }
       if (didSave) ctx.restore();
       return;
@@ -1173,16 +1609,7 @@ function renderMark(
 
         if (mark.strokeWidth !== undefined) ctx.lineWidth = mark.strokeWidth;
         if (mark.strokeLinecap !== undefined) ctx.lineCap = mark.strokeLinecap;
-        if (mark.strokeDasharray !== undefined) {
-          const dashes = mark.strokeDasharray
-            .split(/[\s,]+/)
-            .map(Number)
-            .filter(Number.isFinite);
-          ctx.setLineDash(dashes);
-        }
-        if (mark.strokeDashoffset !== undefined) {
-          ctx.lineDashOffset = Number(mark.strokeDashoffset) || 0;
-        }
+        applyLineDash(ctx, mark);
 
         withAlpha(ctx, baseOpacity * (mark.strokeOpacity ?? 1), () => {
           ctx.stroke();
@@ -1197,6 +1624,36 @@ function renderMark(
       return;
     }
 
+    case "arc": {
+      const hasFill = setFillStyle(ctx, mark, defsById, patternCache, options);
+      const wantsFill = mark.fill !== "none";
+
+      ctx.beginPath();
+      traceArc(ctx, mark);
+
+      if (wantsFill && hasFill) {
+        withAlpha(ctx, baseOpacity * (mark.fillOpacity ?? 1), () => {
+          ctx.fill();
+        });
+      }
+
+      if (mark.stroke !== undefined && mark.stroke !== "none") {
+        const hasStroke = setStrokeStyle(ctx, mark.stroke, options);
+        if (!hasStroke) {
+          if (didSave) ctx.restore();
+          return;
+        }
+        const prevLineWidth = ctx.lineWidth;
+        if (mark.strokeWidth !== undefined) ctx.lineWidth = mark.strokeWidth;
+        withAlpha(ctx, baseOpacity * (mark.strokeOpacity ?? 1), () => {
+          ctx.stroke();
+        });
+        ctx.lineWidth = prevLineWidth;
+      }
+      if (didSave) ctx.restore();
+      return;
+    }
+
     case "line": {
       const hasStroke = setStrokeStyle(ctx, mark.stroke, options);
       if (!hasStroke) {
@@ -1207,11 +1664,14 @@ function renderMark(
       const prevLineWidth = ctx.lineWidth;
       const prevLineCap = ctx.lineCap;
       const prevLineJoin = ctx.lineJoin;
+      const prevLineDash = ctx.getLineDash();
+      const prevLineDashOffset = ctx.lineDashOffset;
 
       const lineWidth = mark.strokeWidth ?? options?.strokeWidth;
       if (lineWidth !== undefined) ctx.lineWidth = lineWidth;
       if (mark.strokeLinecap !== undefined) ctx.lineCap = mark.strokeLinecap;
       if (mark.strokeLinejoin !== undefined) ctx.lineJoin = mark.strokeLinejoin;
+      applyLineDash(ctx, mark);
 
       withAlpha(ctx, baseOpacity * (mark.strokeOpacity ?? 1), () => {
         ctx.beginPath();
@@ -1223,6 +1683,76 @@ function renderMark(
       ctx.lineWidth = prevLineWidth;
       ctx.lineCap = prevLineCap;
       ctx.lineJoin = prevLineJoin;
+      ctx.setLineDash(prevLineDash);
+      ctx.lineDashOffset = prevLineDashOffset;
+      if (didSave) ctx.restore();
+      return;
+    }
+
+    case "polyline": {
+      const hasStroke = setStrokeStyle(ctx, mark.stroke, options);
+      if (!hasStroke || mark.points.length < 4) {
+        if (didSave) ctx.restore();
+        return;
+      }
+
+      const prevLineWidth = ctx.lineWidth;
+      const prevLineCap = ctx.lineCap;
+      const prevLineJoin = ctx.lineJoin;
+      const prevLineDash = ctx.getLineDash();
+      const prevLineDashOffset = ctx.lineDashOffset;
+
+      const lineWidth = mark.strokeWidth ?? options?.strokeWidth;
+      if (lineWidth !== undefined) ctx.lineWidth = lineWidth;
+      if (mark.strokeLinecap !== undefined) ctx.lineCap = mark.strokeLinecap;
+      if (mark.strokeLinejoin !== undefined) ctx.lineJoin = mark.strokeLinejoin;
+      applyLineDash(ctx, mark);
+
+      withAlpha(ctx, baseOpacity * (mark.strokeOpacity ?? 1), () => {
+        ctx.beginPath();
+        tracePoints(ctx, mark.points);
+        ctx.stroke();
+      });
+
+      ctx.lineWidth = prevLineWidth;
+      ctx.lineCap = prevLineCap;
+      ctx.lineJoin = prevLineJoin;
+      ctx.setLineDash(prevLineDash);
+      ctx.lineDashOffset = prevLineDashOffset;
+      if (didSave) ctx.restore();
+      return;
+    }
+
+    case "area": {
+      const hasFill = setFillStyle(ctx, mark, defsById, patternCache, options);
+      const wantsFill = mark.fill !== "none";
+
+      ctx.beginPath();
+      traceArea(ctx, mark);
+
+      if (wantsFill && hasFill) {
+        withAlpha(ctx, baseOpacity * (mark.fillOpacity ?? 1), () => {
+          ctx.fill();
+        });
+      }
+
+      if (mark.stroke !== undefined && mark.stroke !== "none") {
+        const hasStroke = setStrokeStyle(ctx, mark.stroke, options);
+        if (!hasStroke) {
+          if (didSave) ctx.restore();
+          return;
+        }
+        const prevLineWidth = ctx.lineWidth;
+        const prevLineJoin = ctx.lineJoin;
+        if (mark.strokeWidth !== undefined) ctx.lineWidth = mark.strokeWidth;
+        if (mark.strokeLinejoin !== undefined)
+          ctx.lineJoin = mark.strokeLinejoin;
+        withAlpha(ctx, baseOpacity * (mark.strokeOpacity ?? 1), () => {
+          ctx.stroke();
+        });
+        ctx.lineWidth = prevLineWidth;
+        ctx.lineJoin = prevLineJoin;
+      }
       if (didSave) ctx.restore();
       return;
     }
@@ -1262,12 +1792,15 @@ function renderMark(
         const prevLineWidth = ctx.lineWidth;
         const prevLineCap = ctx.lineCap;
         const prevLineJoin = ctx.lineJoin;
+        const prevLineDash = ctx.getLineDash();
+        const prevLineDashOffset = ctx.lineDashOffset;
 
         const lineWidth = mark.strokeWidth ?? options?.strokeWidth;
         if (lineWidth !== undefined) ctx.lineWidth = lineWidth;
         if (mark.strokeLinecap !== undefined) ctx.lineCap = mark.strokeLinecap;
         if (mark.strokeLinejoin !== undefined)
           ctx.lineJoin = mark.strokeLinejoin;
+        applyLineDash(ctx, mark);
 
         withAlpha(ctx, baseOpacity * (mark.strokeOpacity ?? 1), () => {
           ctx.stroke(path);
@@ -1276,6 +1809,8 @@ function renderMark(
         ctx.lineWidth = prevLineWidth;
         ctx.lineCap = prevLineCap;
         ctx.lineJoin = prevLineJoin;
+        ctx.setLineDash(prevLineDash);
+        ctx.lineDashOffset = prevLineDashOffset;
       }
       if (didSave) ctx.restore();
       return;
@@ -1299,12 +1834,36 @@ function renderMark(
       if (mark.baseline === "hanging") ctx.textBaseline = "hanging";
       if (mark.baseline === "middle") ctx.textBaseline = "middle";
 
+      // Marks that size or constrain their text get an explicit font so the
+      // drawn glyphs match what `fitTextMark` measured.
+      const prevFont = ctx.font;
+      if (
+        mark.fontSize !== undefined ||
+        mark.fontWeight !== undefined ||
+        mark.fontFamily !== undefined ||
+        mark.maxWidth !== undefined
+      )
+        ctx.font = textMarkFont(mark);
+
+      const text = fitTextMark(
+        mark,
+        options?.textMeasurer ?? getDefaultTextMeasurer(),
+      );
       withAlpha(ctx, baseOpacity * (mark.fillOpacity ?? 1), () => {
-        ctx.fillText(mark.text, mark.x, mark.y);
+        if (mark.rotate) {
+          ctx.save();
+          ctx.translate(mark.x, mark.y);
+          ctx.rotate((mark.rotate * Math.PI) / 180);
+          ctx.fillText(text, 0, 0);
+          ctx.restore();
+        } else {
+          ctx.fillText(text, mark.x, mark.y);
+        }
       });
 
       ctx.textAlign = prevAlign;
       ctx.textBaseline = prevBaseline;
+      ctx.font = prevFont;
       if (didSave) ctx.restore();
       return;
     }
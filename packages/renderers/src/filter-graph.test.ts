@@ -0,0 +1,138 @@
+import type { FilterDef } from "@microviz/core";
+import { describe, expect, it } from "vitest";
+import {
+  colorMatrixValues,
+  evaluateFilterGraph,
+  isFilterGraphSupported,
+  isLinearFilterChain,
+  requiresFilterGraph,
+  resolveFilterRegion,
+} from "./filter-graph";
+
+function pixels(...rgba: number[][]): Uint8ClampedArray {
+  return new Uint8ClampedArray(rgba.flat());
+}
+
+const context = {
+  height: 1,
+  region: { height: 1, width: 2, x: 0, y: 0 },
+  resolveColor: () => [0, 0, 1, 1] as const,
+  width: 2,
+};
+
+describe("filter graph classification", () => {
+  it("keeps CSS-expressible chains off the pixel path", () => {
+    const chain: FilterDef = {
+      id: "f",
+      primitives: [
+        { matrixType: "saturate", type: "colorMatrix", values: 0.2 },
+        { dx: 1, type: "offset" },
+      ],
+      type: "filter",
+    };
+    expect(isLinearFilterChain(chain)).toBe(true);
+    expect(requiresFilterGraph(chain)).toBe(false);
+
+    const branched: FilterDef = {
+      id: "f",
+      primitives: [
+        { dx: 1, in: "SourceAlpha", type: "offset" },
+        { matrixType: "saturate", type: "colorMatrix", values: 0.2 },
+      ],
+      type: "filter",
+    };
+    expect(isLinearFilterChain(branched)).toBe(false);
+    expect(requiresFilterGraph(branched)).toBe(true);
+  });
+
+  it("rejects unknown inputs and noise primitives", () => {
+    expect(
+      isFilterGraphSupported({
+        id: "f",
+        primitives: [{ in2: "BackgroundImage", type: "blend" }],
+        type: "filter",
+      }),
+    ).toBe(false);
+    expect(
+      isFilterGraphSupported({
+        id: "f",
+        primitives: [{ type: "turbulence" }, { type: "flood" }],
+        type: "filter",
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("colorMatrixValues", () => {
+  it("falls back to the identity for malformed matrices", () => {
+    expect(colorMatrixValues({ type: "colorMatrix", values: [1, 2] })).toEqual([
+      1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0,
+    ]);
+  });
+});
+
+describe("resolveFilterRegion", () => {
+  it("pads the bounding box by 10% by default", () => {
+    expect(
+      resolveFilterRegion(
+        {},
+        { height: 10, width: 20, x: 5, y: 5 },
+        { height: 50, width: 50 },
+      ),
+    ).toEqual({ height: 12, width: 24, x: 3, y: 4 });
+  });
+});
+
+describe("evaluateFilterGraph", () => {
+  it("composites a flood inside the source alpha and merges it under the source", () => {
+    const def: FilterDef = {
+      id: "f",
+      primitives: [
+        { result: "color", type: "flood" },
+        {
+          in: "color",
+          in2: "SourceAlpha",
+          operator: "in",
+          result: "tinted",
+          type: "composite",
+        },
+        { inputs: ["tinted"], type: "merge" },
+      ],
+      type: "filter",
+    };
+
+    const out = evaluateFilterGraph(
+      def,
+      pixels([255, 0, 0, 255], [0, 0, 0, 0]),
+      context,
+    );
+    expect(Array.from(out)).toEqual([0, 0, 255, 255, 0, 0, 0, 0]);
+  });
+
+  it("blends inputs with separable blend modes", () => {
+    const def: FilterDef = {
+      id: "f",
+      primitives: [
+        { result: "color", type: "flood" },
+        { in: "SourceGraphic", in2: "color", mode: "screen", type: "blend" },
+      ],
+      type: "filter",
+    };
+
+    const out = evaluateFilterGraph(
+      def,
+      pixels([255, 0, 0, 255], [0, 0, 0, 0]),
+      context,
+    );
+    expect(Array.from(out)).toEqual([255, 0, 255, 255, 0, 0, 255, 255]);
+  });
+
+  it("clears pixels outside the filter region", () => {
+    const out = evaluateFilterGraph(
+      { id: "f", primitives: [{ type: "flood" }], type: "filter" },
+      pixels([0, 0, 0, 0], [0, 0, 0, 0]),
+      { ...context, region: { height: 1, width: 1, x: 0, y: 0 } },
+    );
+    expect(Array.from(out)).toEqual([0, 0, 255, 255, 0, 0, 0, 0]);
+  });
+});
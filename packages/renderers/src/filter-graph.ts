@@ -0,0 +1,640 @@
+import type { FilterDef, FilterPrimitive } from "@microviz/core";
+
+type ColorMatrixPrimitive = Extract<FilterPrimitive, { type: "colorMatrix" }>;
+
+export type FilterRegion = {
+  height: number;
+  width: number;
+  x: number;
+  y: number;
+};
+
+export type FilterGraphContext = {
+  height: number;
+  width: number;
+  /** Filter region in pixels; output outside it is transparent. */
+  region: FilterRegion;
+  /** Resolves a flood color to straight (non-premultiplied) RGBA in [0, 1]. */
+  resolveColor: (
+    color: string,
+    opacity: number | undefined,
+  ) => readonly [number, number, number, number];
+};
+
+// Premultiplied RGBA in [0, 1], row-major.
+type Layer = Float32Array;
+
+const IDENTITY_COLOR_MATRIX: ReadonlyArray<number> = [
+  1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0,
+];
+
+const GRAPH_PRIMITIVE_TYPES = new Set<FilterPrimitive["type"]>([
+  "blend",
+  "colorMatrix",
+  "composite",
+  "dropShadow",
+  "flood",
+  "gaussianBlur",
+  "merge",
+  "offset",
+]);
+
+const GRAPH_ONLY_PRIMITIVE_TYPES = new Set<FilterPrimitive["type"]>([
+  "blend",
+  "composite",
+  "flood",
+  "merge",
+]);
+
+function scalarValue(
+  values: ColorMatrixPrimitive["values"],
+  fallback: number,
+): number {
+  const value = typeof values === "object" ? values[0] : values;
+  return value !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Expands a colorMatrix primitive to the 4×5 row-major matrix
+ * `feColorMatrix` applies for its `matrixType`.
+ */
+export function colorMatrixValues(primitive: ColorMatrixPrimitive): number[] {
+  const { values } = primitive;
+  switch (primitive.matrixType ?? "matrix") {
+    case "saturate": {
+      const s = scalarValue(values, 1);
+      return [
+        0.213 + 0.787 * s,
+        0.715 - 0.715 * s,
+        0.072 - 0.072 * s,
+        0,
+        0,
+        0.213 - 0.213 * s,
+        0.715 + 0.285 * s,
+        0.072 - 0.072 * s,
+        0,
+        0,
+        0.213 - 0.213 * s,
+        0.715 - 0.715 * s,
+        0.072 + 0.928 * s,
+        0,
+        0,
+        0,
+        0,
+        0,
+        1,
+        0,
+      ];
+    }
+    case "hueRotate": {
+      const rad = (scalarValue(values, 0) * Math.PI) / 180;
+      const cos = Math.cos(rad);
+      const sin = Math.sin(rad);
+      return [
+        0.213 + cos * 0.787 - sin * 0.213,
+        0.715 - cos * 0.715 - sin * 0.715,
+        0.072 - cos * 0.072 + sin * 0.928,
+        0,
+        0,
+        0.213 - cos * 0.213 + sin * 0.143,
+        0.715 + cos * 0.285 + sin * 0.14,
+        0.072 - cos * 0.072 - sin * 0.283,
+        0,
+        0,
+        0.213 - cos * 0.213 - sin * 0.787,
+        0.715 - cos * 0.715 + sin * 0.715,
+        0.072 + cos * 0.928 + sin * 0.072,
+        0,
+        0,
+        0,
+        0,
+        0,
+        1,
+        0,
+      ];
+    }
+    case "luminanceToAlpha":
+      return [
+        0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0.2125, 0.7154, 0.0721, 0,
+        0,
+      ];
+    case "matrix":
+      return typeof values === "object" &&
+        values.length === 20 &&
+        values.every(Number.isFinite)
+        ? [...values]
+        : [...IDENTITY_COLOR_MATRIX];
+  }
+}
+
+/**
+ * CSS filter function equivalent to a colorMatrix primitive, or null when its
+ * matrix type has no CSS counterpart.
+ */
+export function colorMatrixToCss(
+  primitive: ColorMatrixPrimitive,
+): string | null {
+  switch (primitive.matrixType) {
+    case "saturate":
+      return `saturate(${Math.max(0, scalarValue(primitive.values, 1))})`;
+    case "hueRotate":
+      return `hue-rotate(${scalarValue(primitive.values, 0)}deg)`;
+    default:
+      return null;
+  }
+}
+
+function isChainPrimitive(primitive: FilterPrimitive): boolean {
+  switch (primitive.type) {
+    case "dropShadow":
+    case "gaussianBlur":
+    case "offset":
+      return true;
+    case "colorMatrix":
+      return colorMatrixToCss(primitive) !== null;
+    default:
+      return false;
+  }
+}
+
+/**
+ * True when every primitive feeds the next one and each maps onto a CSS
+ * filter function or a translation, so the whole filter can be applied as a
+ * context `filter` string.
+ */
+export function isLinearFilterChain(def: FilterDef): boolean {
+  let previous: string | undefined;
+  return def.primitives.every((primitive, index) => {
+    if (!isChainPrimitive(primitive)) return false;
+    const input = "in" in primitive ? primitive.in : undefined;
+    const linked =
+      input === undefined ||
+      (index === 0 ? input === "SourceGraphic" : input === previous);
+    previous = primitive.result;
+    return linked;
+  });
+}
+
+/**
+ * True when a filter can only be honored by evaluating its primitive graph
+ * per pixel: it uses a primitive without a CSS counterpart, or wires
+ * colorMatrix/offset results in a non-linear way.
+ */
+export function requiresFilterGraph(def: FilterDef): boolean {
+  const graphOnly = def.primitives.some(
+    (primitive) =>
+      GRAPH_ONLY_PRIMITIVE_TYPES.has(primitive.type) ||
+      (primitive.type === "colorMatrix" &&
+        colorMatrixToCss(primitive) === null),
+  );
+  if (graphOnly) return true;
+  const chained = def.primitives.some(
+    (primitive) =>
+      primitive.type === "colorMatrix" || primitive.type === "offset",
+  );
+  return chained && !isLinearFilterChain(def);
+}
+
+function primitiveInputs(
+  primitive: FilterPrimitive,
+): Array<string | undefined> {
+  switch (primitive.type) {
+    case "flood":
+    case "turbulence":
+      return [];
+    case "merge":
+      return [...primitive.inputs];
+    case "composite":
+    case "blend":
+    case "displacementMap":
+      return [primitive.in, primitive.in2];
+    default:
+      return [primitive.in];
+  }
+}
+
+/**
+ * True when `evaluateFilterGraph` understands every primitive of the filter
+ * and every input refers to `SourceGraphic`, `SourceAlpha` or an earlier
+ * result.
+ */
+export function isFilterGraphSupported(def: FilterDef): boolean {
+  const results = new Set<string>(["SourceGraphic", "SourceAlpha"]);
+  for (const primitive of def.primitives) {
+    if (!GRAPH_PRIMITIVE_TYPES.has(primitive.type)) return false;
+    for (const input of primitiveInputs(primitive))
+      if (input !== undefined && !results.has(input)) return false;
+    if (primitive.result) results.add(primitive.result);
+  }
+  return true;
+}
+
+/**
+ * Resolves the filter region in user space, following the SVG defaults
+ * (-10%/120% of the bounding box, or of the viewport for `userSpaceOnUse`).
+ */
+export function resolveFilterRegion(
+  def: Pick<FilterDef, "filterUnits" | "height" | "width" | "x" | "y">,
+  bounds: FilterRegion | null,
+  viewport: { height: number; width: number },
+): FilterRegion {
+  if (def.filterUnits === "userSpaceOnUse") {
+    return {
+      height: def.height ?? viewport.height * 1.2,
+      width: def.width ?? viewport.width * 1.2,
+      x: def.x ?? -viewport.width * 0.1,
+      y: def.y ?? -viewport.height * 0.1,
+    };
+  }
+
+  const box = bounds ?? {
+    height: viewport.height,
+    width: viewport.width,
+    x: 0,
+    y: 0,
+  };
+  return {
+    height: (def.height ?? 1.2) * box.height,
+    width: (def.width ?? 1.2) * box.width,
+    x: box.x + (def.x ?? -0.1) * box.width,
+    y: box.y + (def.y ?? -0.1) * box.height,
+  };
+}
+
+function toLayer(source: Uint8ClampedArray): Layer {
+  const layer = new Float32Array(source.length);
+  for (let i = 0; i < source.length; i += 4) {
+    const a = (source[i + 3] ?? 0) / 255;
+    layer[i] = ((source[i] ?? 0) / 255) * a;
+    layer[i + 1] = ((source[i + 1] ?? 0) / 255) * a;
+    layer[i + 2] = ((source[i + 2] ?? 0) / 255) * a;
+    layer[i + 3] = a;
+  }
+  return layer;
+}
+
+function alphaLayer(layer: Layer): Layer {
+  const out = new Float32Array(layer.length);
+  for (let i = 3; i < layer.length; i += 4) out[i] = layer[i] ?? 0;
+  return out;
+}
+
+function floodLayer(
+  size: number,
+  [r, g, b, a]: readonly [number, number, number, number],
+): Layer {
+  const out = new Float32Array(size);
+  for (let i = 0; i < size; i += 4) {
+    out[i] = r * a;
+    out[i + 1] = g * a;
+    out[i + 2] = b * a;
+    out[i + 3] = a;
+  }
+  return out;
+}
+
+function offsetLayer(
+  layer: Layer,
+  w: number,
+  h: number,
+  dx: number,
+  dy: number,
+): Layer {
+  const ox = Math.round(dx);
+  const oy = Math.round(dy);
+  const out = new Float32Array(layer.length);
+  for (let y = 0; y < h; y++) {
+    const sy = y - oy;
+    if (sy < 0 || sy >= h) continue;
+    for (let x = 0; x < w; x++) {
+      const sx = x - ox;
+      if (sx < 0 || sx >= w) continue;
+      const from = (sy * w + sx) * 4;
+      const to = (y * w + x) * 4;
+      for (let c = 0; c < 4; c++) out[to + c] = layer[from + c] ?? 0;
+    }
+  }
+  return out;
+}
+
+/**
+ * Box sizes whose three successive passes approximate a gaussian of `sigma`.
+ */
+function gaussianBoxRadii(sigma: number): number[] {
+  const passes = 3;
+  const ideal = Math.sqrt((12 * sigma * sigma) / passes + 1);
+  let lower = Math.floor(ideal);
+  if (lower % 2 === 0) lower--;
+  const upper = lower + 2;
+  const m = Math.round(
+    (12 * sigma * sigma -
+      passes * lower * lower -
+      4 * passes * lower -
+      3 * passes) /
+      (-4 * lower - 4),
+  );
+  return Array.from({ length: passes }, (_, i) =>
+    Math.max(0, ((i < m ? lower : upper) - 1) / 2),
+  );
+}
+
+function boxBlurPass(
+  src: Layer,
+  dst: Layer,
+  length: number,
+  lines: number,
+  radius: number,
+  index: (line: number, pos: number) => number,
+): void {
+  const span = radius * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    for (let c = 0; c < 4; c++) {
+      let sum = 0;
+      for (let pos = 0; pos <= radius && pos < length; pos++)
+        sum += src[index(line, pos) + c] ?? 0;
+      for (let pos = 0; pos < length; pos++) {
+        dst[index(line, pos) + c] = sum / span;
+        const enter = pos + radius + 1;
+        const leave = pos - radius;
+        if (enter < length) sum += src[index(line, enter) + c] ?? 0;
+        if (leave >= 0) sum -= src[index(line, leave) + c] ?? 0;
+      }
+    }
+  }
+}
+
+function blurLayer(layer: Layer, w: number, h: number, sigma: number): Layer {
+  if (!(sigma > 0)) return layer;
+  const current = Float32Array.from(layer);
+  const scratch = new Float32Array(layer.length);
+  for (const radius of gaussianBoxRadii(sigma)) {
+    if (radius <= 0) continue;
+    boxBlurPass(current, scratch, w, h, radius, (y, x) => (y * w + x) * 4);
+    boxBlurPass(scratch, current, h, w, radius, (x, y) => (y * w + x) * 4);
+  }
+  return current;
+}
+
+function colorMatrixLayer(layer: Layer, matrix: ReadonlyArray<number>): Layer {
+  const m = (i: number) => matrix[i] ?? 0;
+  const out = new Float32Array(layer.length);
+  for (let i = 0; i < layer.length; i += 4) {
+    const a = layer[i + 3] ?? 0;
+    const r = a > 0 ? (layer[i] ?? 0) / a : 0;
+    const g = a > 0 ? (layer[i + 1] ?? 0) / a : 0;
+    const b = a > 0 ? (layer[i + 2] ?? 0) / a : 0;
+    const clamp = (v: number) => Math.max(0, Math.min(1, v));
+    const na = clamp(m(15) * r + m(16) * g + m(17) * b + m(18) * a + m(19));
+    out[i] = clamp(m(0) * r + m(1) * g + m(2) * b + m(3) * a + m(4)) * na;
+    out[i + 1] = clamp(m(5) * r + m(6) * g + m(7) * b + m(8) * a + m(9)) * na;
+    out[i + 2] =
+      clamp(m(10) * r + m(11) * g + m(12) * b + m(13) * a + m(14)) * na;
+    out[i + 3] = na;
+  }
+  return out;
+}
+
+type CompositePrimitive = Extract<FilterPrimitive, { type: "composite" }>;
+
+function compositeLayers(
+  top: Layer,
+  bottom: Layer,
+  primitive: CompositePrimitive,
+): Layer {
+  const out = new Float32Array(top.length);
+  const operator = primitive.operator ?? "over";
+  const k1 = primitive.k1 ?? 0;
+  const k2 = primitive.k2 ?? 0;
+  const k3 = primitive.k3 ?? 0;
+  const k4 = primitive.k4 ?? 0;
+  for (let i = 0; i < top.length; i += 4) {
+    const at = top[i + 3] ?? 0;
+    const ab = bottom[i + 3] ?? 0;
+    if (operator === "arithmetic") {
+      const a = Math.max(0, Math.min(1, k1 * at * ab + k2 * at + k3 * ab + k4));
+      for (let c = 0; c < 3; c++) {
+        const t = top[i + c] ?? 0;
+        const b = bottom[i + c] ?? 0;
+        out[i + c] = Math.max(
+          0,
+          Math.min(a, k1 * t * b + k2 * t + k3 * b + k4),
+        );
+      }
+      out[i + 3] = a;
+      continue;
+    }
+
+    // Porter-Duff weights for the top (`in`) and bottom (`in2`) inputs.
+    let ft = 1;
+    let fb = 0;
+    switch (operator) {
+      case "over":
+        fb = 1 - at;
+        break;
+      case "in":
+        ft = ab;
+        break;
+      case "out":
+        ft = 1 - ab;
+        break;
+      case "atop":
+        ft = ab;
+        fb = 1 - at;
+        break;
+      case "xor":
+        ft = 1 - ab;
+        fb = 1 - at;
+        break;
+    }
+    for (let c = 0; c < 4; c++)
+      out[i + c] = (top[i + c] ?? 0) * ft + (bottom[i + c] ?? 0) * fb;
+  }
+  return out;
+}
+
+type BlendMode = NonNullable<
+  Extract<FilterPrimitive, { type: "blend" }>["mode"]
+>;
+
+function blendChannel(mode: BlendMode, s: number, b: number): number {
+  switch (mode) {
+    case "normal":
+      return s;
+    case "multiply":
+      return s * b;
+    case "screen":
+      return s + b - s * b;
+    case "overlay":
+      return b <= 0.5 ? 2 * s * b : 1 - 2 * (1 - s) * (1 - b);
+    case "darken":
+      return Math.min(s, b);
+    case "lighten":
+      return Math.max(s, b);
+    case "difference":
+      return Math.abs(s - b);
+    case "exclusion":
+      return s + b - 2 * s * b;
+  }
+}
+
+function blendLayers(top: Layer, bottom: Layer, mode: BlendMode): Layer {
+  const out = new Float32Array(top.length);
+  for (let i = 0; i < top.length; i += 4) {
+    const as = top[i + 3] ?? 0;
+    const ab = bottom[i + 3] ?? 0;
+    for (let c = 0; c < 3; c++) {
+      const cs = top[i + c] ?? 0;
+      const cb = bottom[i + c] ?? 0;
+      const mixed =
+        as > 0 && ab > 0 ? as * ab * blendChannel(mode, cs / as, cb / ab) : 0;
+      out[i + c] = (1 - ab) * cs + (1 - as) * cb + mixed;
+    }
+    out[i + 3] = as + ab - as * ab;
+  }
+  return out;
+}
+
+function clipLayer(layer: Layer, w: number, h: number, region: FilterRegion) {
+  const x0 = Math.floor(region.x);
+  const y0 = Math.floor(region.y);
+  const x1 = Math.ceil(region.x + region.width);
+  const y1 = Math.ceil(region.y + region.height);
+  for (let y = 0; y < h; y++)
+    for (let x = 0; x < w; x++) {
+      if (x >= x0 && x < x1 && y >= y0 && y < y1) continue;
+      layer.fill(0, (y * w + x) * 4, (y * w + x) * 4 + 4);
+    }
+}
+
+/**
+ * Evaluates a filter's primitive graph over rasterized RGBA pixels (as read
+ * from `getImageData`). Channels are processed in sRGB, so results differ
+ * slightly from SVG's default `linearRGB` interpolation.
+ */
+export function evaluateFilterGraph(
+  def: FilterDef,
+  source: Uint8ClampedArray,
+  context: FilterGraphContext,
+): Uint8ClampedArray {
+  const { height: h, width: w } = context;
+  const sourceGraphic = toLayer(source);
+  const results = new Map<string, Layer>([["SourceGraphic", sourceGraphic]]);
+  let previous = sourceGraphic;
+
+  const read = (input: string | undefined): Layer => {
+    if (input === undefined) return previous;
+    if (input === "SourceAlpha") {
+      const alpha = results.get(input) ?? alphaLayer(sourceGraphic);
+      results.set(input, alpha);
+      return alpha;
+    }
+    return results.get(input) ?? new Float32Array(sourceGraphic.length);
+  };
+
+  for (const primitive of def.primitives) {
+    let output: Layer;
+    switch (primitive.type) {
+      case "gaussianBlur":
+        output = blurLayer(
+          read(primitive.in),
+          w,
+          h,
+          primitive.stdDeviation ?? 0,
+        );
+        break;
+      case "dropShadow": {
+        const input = read(primitive.in);
+        const [r, g, b, a] = context.resolveColor(
+          primitive.floodColor ?? "black",
+          primitive.floodOpacity,
+        );
+        const shadow = offsetLayer(
+          blurLayer(alphaLayer(input), w, h, primitive.stdDeviation ?? 0),
+          w,
+          h,
+          primitive.dx ?? 0,
+          primitive.dy ?? 0,
+        );
+        for (let i = 0; i < shadow.length; i += 4) {
+          const alpha = (shadow[i + 3] ?? 0) * a;
+          shadow[i] = r * alpha;
+          shadow[i + 1] = g * alpha;
+          shadow[i + 2] = b * alpha;
+          shadow[i + 3] = alpha;
+        }
+        output = compositeLayers(input, shadow, {
+          operator: "over",
+          type: "composite",
+        });
+        break;
+      }
+      case "colorMatrix":
+        output = colorMatrixLayer(
+          read(primitive.in),
+          colorMatrixValues(primitive),
+        );
+        break;
+      case "offset":
+        output = offsetLayer(
+          read(primitive.in),
+          w,
+          h,
+          primitive.dx ?? 0,
+          primitive.dy ?? 0,
+        );
+        break;
+      case "flood":
+        output = floodLayer(
+          sourceGraphic.length,
+          context.resolveColor(
+            primitive.floodColor ?? "black",
+            primitive.floodOpacity,
+          ),
+        );
+        break;
+      case "composite":
+        output = compositeLayers(
+          read(primitive.in),
+          read(primitive.in2),
+          primitive,
+        );
+        break;
+      case "merge":
+        output = primitive.inputs.reduce<Layer>(
+          (acc, input) =>
+            compositeLayers(read(input), acc, {
+              operator: "over",
+              type: "composite",
+            }),
+          new Float32Array(sourceGraphic.length),
+        );
+        break;
+      case "blend":
+        output = blendLayers(
+          read(primitive.in),
+          read(primitive.in2),
+          primitive.mode ?? "normal",
+        );
+        break;
+      case "turbulence":
+      case "displacementMap":
+        output = read(undefined);
+        break;
+    }
+    if (primitive.result) results.set(primitive.result, output);
+    previous = output;
+  }
+
+  clipLayer(previous, w, h, context.region);
+
+  const out = new Uint8ClampedArray(previous.length);
+  for (let i = 0; i < previous.length; i += 4) {
+    const a = previous[i + 3] ?? 0;
+    if (a <= 0) continue;
+    out[i] = Math.round(((previous[i] ?? 0) / a) * 255);
+    out[i + 1] = Math.round(((previous[i + 1] ?? 0) / a) * 255);
+    out[i + 2] = Math.round(((previous[i + 2] ?? 0) / a) * 255);
+    out[i + 3] = Math.round(a * 255);
+  }
+  return out;
+}
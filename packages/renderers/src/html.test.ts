@@ -1,4 +1,5 @@
 import type { RenderModel } from "@microviz/core";
+import { computeModel, createApproximateTextMeasurer } from "@microviz/core";
 import { describe, expect, it } from "vitest";
 import {
   getHtmlUnsupportedDefTypes,
@@ -79,6 +80,188 @@ describe("renderHtmlString", () => {
     expect(html).toContain("linear-gradient");
   });
 
+  it("maps radialGradient fills to CSS radial gradients", () => {
+    const model: RenderModel = {
+      defs: [
+        {
+          cx: 0.25,
+          id: "glow-1",
+          stops: [
+            { color: "white", offset: 0 },
+            { color: "black", offset: 1 },
+          ],
+          type: "radialGradient",
+        },
+      ],
+      height: 10,
+      marks: [
+        { cx: 5, cy: 5, fill: "url(#glow-1)", id: "c-1", r: 4, type: "circle" },
+      ],
+      width: 10,
+    };
+
+    const html = renderHtmlString(model);
+    expect(html).toContain(
+      "radial-gradient(50% 50% at 25% 50%, white 0%, black 100%)",
+    );
+    expect(getHtmlUnsupportedDefTypes(model)).toEqual([]);
+  });
+
+  it("renders arc marks with conic gradients", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          cx: 50,
+          cy: 50,
+          endAngle: 0,
+          fill: "red",
+          id: "arc-1",
+          innerR: 20,
+          outerR: 40,
+          startAngle: -Math.PI / 2,
+          type: "arc",
+        },
+      ],
+      width: 100,
+    };
+
+    const html = renderHtmlString(model);
+    expect(html).toContain('data-mark-id="arc-1"');
+    expect(html).toContain(
+      "background:conic-gradient(from 0deg, red 0deg 90deg, transparent 90deg)",
+    );
+    expect(html).toContain(
+      "mask-image:radial-gradient(circle closest-side, transparent 50%, #000 50%)",
+    );
+    expect(getHtmlUnsupportedMarkTypes(model)).toEqual([]);
+  });
+
+  it("draws fully rounded arc ends as cap circles", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          cornerRadius: 5,
+          cx: 50,
+          cy: 50,
+          endAngle: 0,
+          fill: "red",
+          fillOpacity: 0.5,
+          id: "arc-1",
+          innerR: 20,
+          outerR: 30,
+          startAngle: -Math.PI / 2,
+          type: "arc",
+        },
+      ],
+      width: 100,
+    };
+
+    const html = renderHtmlString(model);
+    expect(html).toContain(
+      'data-mark-id="arc-1" class="mv-html-mark" style="position:absolute;left:0;top:0;opacity:0.5;"',
+    );
+    expect(html).toContain(
+      "left:50px;top:20.505px;width:10px;height:10px;background:red;border-radius:9999px;",
+    );
+    expect(html).toContain(
+      "background:conic-gradient(from 11.537deg, red 0deg 66.926deg, transparent 66.926deg)",
+    );
+    expect(getHtmlUnsupportedMarkEffects(model)).toEqual([]);
+  });
+
+  it("renders concentric-arcs with round caps", () => {
+    const model = computeModel({
+      data: [
+        { name: "Move", pct: 80 },
+        { name: "Stand", pct: 40 },
+      ],
+      size: { height: 32, width: 32 },
+      spec: { type: "concentric-arcs" },
+    });
+
+    const html = renderHtmlString(model);
+    expect(html.match(/conic-gradient/g)).toHaveLength(2);
+    expect(html.match(/border-radius:9999px/g)).toHaveLength(6);
+    expect(getHtmlUnsupportedMarkEffects(model)).toEqual([]);
+  });
+
+  it("renders polylines as segments and areas as clipped polygons", () => {
+    const model: RenderModel = {
+      height: 40,
+      marks: [
+        {
+          baseline: 30,
+          fill: "red",
+          id: "area",
+          points: [0, 20, 10, 10],
+          type: "area",
+        },
+        {
+          id: "line",
+          points: [0, 0, 10, 0, 10, 10],
+          stroke: "blue",
+          strokeWidth: 2,
+          type: "polyline",
+        },
+      ],
+      width: 40,
+    };
+
+    const html = renderHtmlString(model);
+    expect(html).toContain('data-mark-id="area"');
+    expect(html).toContain(
+      "clip-path:polygon(0px 10px, 10px 0px, 10px 20px, 0px 20px)",
+    );
+    expect(html).toContain('data-mark-id="line"');
+    expect(html.match(/rotate\(/g)).toHaveLength(2);
+    expect(html).toContain("transform:rotate(90deg)");
+    expect(getHtmlUnsupportedMarkTypes(model)).toEqual([]);
+  });
+
+  it("emulates stroke dashes with gradients", () => {
+    const model: RenderModel = {
+      height: 40,
+      marks: [
+        {
+          id: "line",
+          stroke: "red",
+          strokeDasharray: "4 2",
+          strokeDashoffset: "1",
+          type: "line",
+          x1: 0,
+          x2: 10,
+          y1: 5,
+          y2: 5,
+        },
+        {
+          cx: 20,
+          cy: 20,
+          fill: "none",
+          id: "ring",
+          r: 10,
+          stroke: "blue",
+          strokeDasharray: `${Math.PI * 5} 1000`,
+          strokeWidth: 2,
+          type: "circle",
+        },
+      ],
+      width: 40,
+    };
+
+    const html = renderHtmlString(model);
+    expect(html).toContain(
+      "background:linear-gradient(90deg, transparent 0px 0px, red 0px 3px, transparent 3px 5px, red 5px 9px, transparent 9px)",
+    );
+    // A quarter-circumference dash becomes a 90° conic slice.
+    expect(html).toContain(
+      "conic-gradient(from 90deg, transparent 0deg 0deg, blue 0deg 90deg, transparent 90deg)",
+    );
+    expect(html).toContain("transparent 80%, #000 80%");
+    expect(getHtmlUnsupportedMarkEffects(model)).toEqual([]);
+  });
+
   it("wraps clipped rects in an overflow container", () => {
     const model: RenderModel = {
       defs: [
@@ -112,6 +295,96 @@ describe("renderHtmlString", () => {
     expect(html).toContain("border-radius:2px / 2px");
   });
 
+  it("renders group marks as transformed wrappers", () => {
+    const model: RenderModel = {
+      height: 20,
+      marks: [
+        {
+          className: "mv-badge",
+          id: "g-1",
+          marks: [
+            { fill: "red", h: 4, id: "r-1", type: "rect", w: 4, x: 0, y: 0 },
+          ],
+          opacity: 0.5,
+          transform: { rotate: 30, translateX: 6, translateY: 2 },
+          type: "group",
+        },
+      ],
+      width: 20,
+    };
+
+    const html = renderHtmlString(model);
+    expect(html).toContain('data-mark-id="g-1" class="mv-html-mark mv-badge"');
+    expect(html).toContain("transform:translate(6px, 2px) rotate(30deg)");
+    expect(html).toContain("opacity:0.5");
+    expect(html).toContain('data-mark-id="r-1"');
+  });
+
+  it("styles, rotates and truncates text marks", () => {
+    const model: RenderModel = {
+      height: 20,
+      marks: [
+        {
+          anchor: "middle",
+          fontFamily: "monospace",
+          fontSize: 9,
+          fontWeight: 600,
+          id: "label",
+          maxWidth: 30,
+          overflow: "clip",
+          rotate: -45,
+          text: "123456789",
+          type: "text",
+          x: 10,
+          y: 10,
+        },
+      ],
+      width: 20,
+    };
+
+    const html = renderHtmlString(model, {
+      textMeasurer: createApproximateTextMeasurer({
+        avgCharWidthPx: 8,
+        scaleWithFontSize: true,
+      }),
+    });
+    expect(html).toContain(
+      "font-size:9px;font-weight:600;font-family:monospace;transform-origin:0 0;transform:rotate(-45deg) translate(-50%, -100%);",
+    );
+    expect(html).toContain(">12345</div>");
+  });
+
+  it("maps blend modes to mix-blend-mode and isolates groups", () => {
+    const model: RenderModel = {
+      height: 20,
+      marks: [
+        {
+          blendMode: "screen",
+          id: "g-1",
+          isolate: true,
+          marks: [
+            {
+              blendMode: "multiply",
+              fill: "red",
+              h: 4,
+              id: "r-1",
+              type: "rect",
+              w: 4,
+              x: 0,
+              y: 0,
+            },
+          ],
+          type: "group",
+        },
+      ],
+      width: 20,
+    };
+
+    const html = renderHtmlString(model);
+    expect(html).toContain("mix-blend-mode:screen;isolation:isolate;");
+    expect(html).toContain("mix-blend-mode:multiply;");
+  });
+
   it("renders pattern fills as background images", () => {
     const model: RenderModel = {
       defs: [
@@ -329,6 +602,69 @@ describe("renderHtmlString", () => {
     const html = renderHtmlString(model);
     expect(html).toContain("drop-shadow");
   });
+
+  it("maps colorMatrix saturate/hueRotate filters to CSS", () => {
+    const model: RenderModel = {
+      defs: [
+        {
+          id: "filter-1",
+          primitives: [
+            { matrixType: "saturate", type: "colorMatrix", values: 0 },
+            { matrixType: "hueRotate", type: "colorMatrix", values: 90 },
+          ],
+          type: "filter",
+        },
+      ],
+      height: 10,
+      marks: [
+        {
+          filter: "filter-1",
+          h: 6,
+          id: "r-1",
+          type: "rect",
+          w: 12,
+          x: 1,
+          y: 2,
+        },
+      ],
+      width: 20,
+    };
+
+    const html = renderHtmlString(model);
+    expect(html).toContain("filter:saturate(0) hue-rotate(90deg)");
+    expect(getHtmlUnsupportedMarkEffects(model)).toEqual([]);
+  });
+
+  it("reports filter graphs without a CSS equivalent as unsupported", () => {
+    const model: RenderModel = {
+      defs: [
+        {
+          id: "filter-1",
+          primitives: [
+            { floodColor: "gold", type: "flood" },
+            { in2: "SourceAlpha", operator: "in", type: "composite" },
+          ],
+          type: "filter",
+        },
+      ],
+      height: 10,
+      marks: [
+        {
+          filter: "filter-1",
+          h: 6,
+          id: "r-1",
+          type: "rect",
+          w: 12,
+          x: 1,
+          y: 2,
+        },
+      ],
+      width: 20,
+    };
+
+    expect(renderHtmlString(model)).not.toContain("filter:");
+    expect(getHtmlUnsupportedMarkEffects(model)).toEqual(["filter"]);
+  });
 });
 
 describe("HTML renderer diagnostics", () => {
@@ -409,6 +745,22 @@ describe("HTML renderer diagnostics", () => {
     expect(getHtmlUnsupportedMarkEffects(model)).toEqual([]);
   });
 
+  it("reports unsupported marks nested in groups", () => {
+    const model: RenderModel = {
+      height: 10,
+      marks: [
+        {
+          id: "g-1",
+          marks: [{ d: "M 0 0 L 10 10", id: "p-1", type: "path" }],
+          type: "group",
+        },
+      ],
+      width: 10,
+    };
+
+    expect(getHtmlUnsupportedMarkTypes(model)).toEqual(["path"]);
+  });
+
   it("reports unsupported filter primitives", () => {
     const model: RenderModel = {
       defs: [
@@ -456,4 +808,30 @@ describe("HTML renderer diagnostics", () => {
 
     expect(getHtmlUnsupportedMarkEffects(model)).toEqual(["clipPath"]);
   });
+
+  it("reports partial arc corner rounding and arc strokes", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          cornerRadius: 2,
+          cx: 50,
+          cy: 50,
+          endAngle: 0,
+          id: "arc-1",
+          innerR: 20,
+          outerR: 30,
+          startAngle: -Math.PI / 2,
+          stroke: "blue",
+          type: "arc",
+        },
+      ],
+      width: 100,
+    };
+
+    expect(getHtmlUnsupportedMarkEffects(model)).toEqual([
+      "cornerRadius",
+      "stroke",
+    ]);
+  });
 });
@@ -1,29 +1,42 @@
 import type {
   Def,
   FilterDef,
+  GradientStop,
+  GroupMark,
   Mark,
   MaskDef,
   PatternDef,
+  RadialGradientDef,
   RenderModel,
+  TextMeasurer,
 } from "@microviz/core";
+import { fitTextMark, pointsBounds, resolveArcSweep } from "@microviz/core";
+import { resolveArcCornerRadius } from "./arc";
 import { svgStringToDataUrl } from "./export";
+import { colorMatrixToCss } from "./filter-graph";
 import { renderSvgString } from "./svg";
 
 export type HtmlUnsupportedMarkEffect =
   | "clipPath"
   | "mask"
   | "filter"
-  | "strokeDash";
+  | "cornerRadius"
+  | "stroke";
 
 export const HTML_SUPPORTED_MARK_TYPES = [
   "rect",
   "circle",
   "line",
+  "polyline",
+  "area",
   "text",
+  "arc",
+  "group",
 ] as const;
 
 const HTML_SUPPORTED_DEF_TYPES = [
   "linearGradient",
+  "radialGradient",
   "clipRect",
   "pattern",
   "mask",
@@ -42,13 +55,23 @@ function joinClass(
 
 /**
  * HTML renderer policy (experimental, parity-deferred):
- * - Supports only rect/circle/line/text marks.
+ * - Supports only rect/circle/line/polyline/area/text/arc marks (and groups
+ *   of them).
+ * - Draws arcs with conic gradients; fully rounded ends are drawn as cap
+ *   circles, while partial corner rounding and arc strokes are dropped.
+ * - Draws polylines as one rotated div per segment (joins are not mitered)
+ *   and areas as a `clip-path: polygon(…)` fill; area strokes are dropped.
  * - Ignores path marks entirely.
  * - Supports linearGradient defs for rect fills.
+ * - Supports radialGradient defs for rect/circle fills (circular extents).
  * - Supports clipRect defs for rect clipPath.
  * - Supports pattern defs for fills and mask defs via CSS masks.
- * - Supports filter defs when composed only of dropShadow/gaussianBlur.
- * - Ignores mark effects: mask/filter/strokeDash when unsupported.
+ * - Supports filter defs when composed only of dropShadow/gaussianBlur and
+ *   colorMatrix saturate/hueRotate (mapped to CSS filter functions).
+ * - Maps blendMode to `mix-blend-mode` and group isolate to `isolation`.
+ * - Emulates stroke dashes with gradients (dash caps are always square).
+ * - Ignores mark effects: clipPath/mask/filter when unsupported, and arc
+ *   cornerRadius/stroke as above.
  * - Use SVG/Canvas for full-fidelity output.
  */
 export const HTML_RENDERER_POLICY = {
@@ -57,7 +80,7 @@ export const HTML_RENDERER_POLICY = {
   supportedDefs: HTML_SUPPORTED_DEF_TYPES,
   supportedMarkTypes: HTML_SUPPORTED_MARK_TYPES,
   unsupportedDefs: "most",
-  unsupportedMarkEffects: ["strokeDash"],
+  unsupportedMarkEffects: [],
   unsupportedMarkTypes: ["path"],
 } as const;
 
@@ -69,13 +92,16 @@ const SUPPORTED_FILTER_PRIMITIVES = new Set(["dropShadow", "gaussianBlur"]);
 
 function isSupportedFilterDef(def: FilterDef): boolean {
   return def.primitives.every((primitive) =>
-    SUPPORTED_FILTER_PRIMITIVES.has(primitive.type),
+    primitive.type === "colorMatrix"
+      ? colorMatrixToCss(primitive) !== null
+      : SUPPORTED_FILTER_PRIMITIVES.has(primitive.type),
   );
 }
 
 function isSupportedDef(def: Def): boolean {
   switch (def.type) {
     case "linearGradient":
+    case "radialGradient":
     case "clipRect":
     case "pattern":
     case "mask":
@@ -85,11 +111,17 @@ function isSupportedDef(def: Def): boolean {
   }
 }
 
+function flattenMarks(marks: ReadonlyArray<Mark>): Mark[] {
+  return marks.flatMap((mark) =>
+    mark.type === "group" ? [mark, ...flattenMarks(mark.marks)] : [mark],
+  );
+}
+
 export function getHtmlUnsupportedMarkTypes(
   model: RenderModel,
 ): Mark["type"][] {
   return uniqueSorted(
-    model.marks
+    flattenMarks(model.marks)
       .map((mark) => mark.type)
       .filter((type) => !HTML_SUPPORTED_MARK_TYPE_SET.has(type)),
   );
@@ -109,13 +141,25 @@ export function getHtmlUnsupportedMarkEffects(
     model.defs?.map((def) => [def.id, def]) ?? [],
   );
   const effects = new Set<HtmlUnsupportedMarkEffect>();
-  for (const mark of model.marks) {
+  for (const mark of flattenMarks(model.marks)) {
     if ("clipPath" in mark && mark.clipPath) {
       const clipId = extractUrlRefId(mark.clipPath) ?? mark.clipPath;
       const clipDef = defsById.get(clipId);
       if (!clipDef || clipDef.type !== "clipRect") effects.add("clipPath");
     }
+    if (mark.type === "arc") {
+      const sweep = resolveArcSweep(mark);
+      const rc = sweep
+        ? resolveArcCornerRadius(mark, sweep.end - sweep.start)
+        : 0;
+      if (rc > ARC_EPSILON && sweep && !arcRoundCaps(mark, sweep))
+        effects.add("cornerRadius");
+      if (mark.stroke && mark.stroke !== "none" && mark.strokeWidth !== 0)
+        effects.add("stroke");
+    }
     if ("mask" in mark && mark.mask) {
+      // Arcs cut their hole with a CSS mask, leaving no room for another.
+      if (mark.type === "arc") effects.add("mask");
       const maskId = extractUrlRefId(mark.mask) ?? mark.mask;
       const maskDef = defsById.get(maskId);
       if (!maskDef || maskDef.type !== "mask") effects.add("mask");
@@ -129,11 +173,6 @@ export function getHtmlUnsupportedMarkEffects(
         effects.add("filter");
       }
     }
-    if (
-      mark.type === "circle" &&
-      (mark.strokeDasharray || mark.strokeDashoffset)
-    )
-      effects.add("strokeDash");
   }
 
   return uniqueSorted(effects);
@@ -185,6 +224,119 @@ function withOpacity(color: string, opacity: number | undefined): string {
   return `color-mix(in srgb, ${color} ${pct}%, transparent)`;
 }
 
+const MAX_DASH_SPANS = 512;
+
+type DashedStroke = { strokeDasharray?: string; strokeDashoffset?: string };
+
+/**
+ * Parses `stroke-dasharray` with SVG rules: odd-length lists repeat, and any
+ * negative or non-numeric entry (or an all-zero list) disables dashing.
+ */
+function parseDashArray(value: string | undefined): number[] | null {
+  if (!value || value === "none") return null;
+  const dashes = value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (dashes.length === 0) return null;
+  if (dashes.some((d) => !Number.isFinite(d) || d < 0)) return null;
+  if (dashes.reduce((sum, d) => sum + d, 0) <= 0) return null;
+  return dashes.length % 2 === 1 ? [...dashes, ...dashes] : dashes;
+}
+
+/**
+ * Visible `[start, end]` intervals of a dash pattern laid along a stroke of
+ * `length`, or null when the stroke is solid.
+ */
+function dashSpans(
+  mark: DashedStroke,
+  length: number,
+  extraOffset = 0,
+): Array<[number, number]> | null {
+  const dashes = parseDashArray(mark.strokeDasharray);
+  if (!dashes) return null;
+  const period = dashes.reduce((sum, d) => sum + d, 0);
+  const offset = (Number(mark.strokeDashoffset) || 0) + extraOffset;
+
+  let phase = ((offset % period) + period) % period;
+  let i = 0;
+  while (phase >= (dashes[i] ?? 0)) {
+    phase -= dashes[i] ?? 0;
+    i = (i + 1) % dashes.length;
+  }
+
+  const spans: Array<[number, number]> = [];
+  let pos = -phase;
+  while (pos < length && spans.length < MAX_DASH_SPANS) {
+    const end = pos + (dashes[i] ?? 0);
+    if (i % 2 === 0 && end > Math.max(0, pos))
+      spans.push([Math.max(0, pos), Math.min(length, end)]);
+    pos = end;
+    i = (i + 1) % dashes.length;
+  }
+  return spans;
+}
+
+/**
+ * Gradient color stops painting `color` over each span and transparent
+ * elsewhere. Positions are scaled into `unit` and shifted by `shift`.
+ */
+function dashStops(
+  spans: ReadonlyArray<[number, number]>,
+  color: string,
+  unit: "px" | "deg",
+  scale = 1,
+  shift = 0,
+): string {
+  const pos = (v: number) =>
+    `${Math.round((v * scale + shift) * 1000) / 1000}${unit}`;
+  const parts: string[] = [];
+  let prev = 0;
+  for (const [a, b] of spans) {
+    parts.push(
+      `transparent ${pos(prev)} ${pos(a)}`,
+      `${color} ${pos(a)} ${pos(b)}`,
+    );
+    prev = b;
+  }
+  parts.push(`transparent ${pos(prev)}`);
+  return parts.join(", ");
+}
+
+/**
+ * Background layers drawing a dashed stroke inside a `w × h` box, following the
+ * SVG rect outline (clockwise from the top-left corner).
+ */
+function dashedRectLayers(
+  mark: DashedStroke,
+  w: number,
+  h: number,
+  strokeWidth: number,
+  color: string,
+): string | null {
+  const spans = dashSpans(mark, 2 * (w + h));
+  if (!spans) return null;
+  const sw = px(strokeWidth);
+  const sides = [
+    { at: "0 0", dir: "to right", len: w, size: `100% ${sw}`, start: 0 },
+    { at: "100% 0", dir: "to bottom", len: h, size: `${sw} 100%`, start: w },
+    { at: "0 100%", dir: "to left", len: w, size: `100% ${sw}`, start: w + h },
+    { at: "0 0", dir: "to top", len: h, size: `${sw} 100%`, start: 2 * w + h },
+  ];
+  return sides
+    .map((side) => {
+      const local = spans
+        .map(([a, b]): [number, number] => [
+          Math.max(0, a - side.start),
+          Math.min(side.len, b - side.start),
+        ])
+        .filter(([a, b]) => b > a);
+      const stops = dashStops(local, color, "px");
+      return `linear-gradient(${side.dir}, ${stops}) ${side.at} / ${side.size} no-repeat`;
+    })
+    .join(", ");
+}
+
 const PATTERN_CACHE_LIMIT = 200;
 const MASK_CACHE_LIMIT = 200;
 
@@ -304,7 +456,26 @@ function markBounds(mark: Mark): Bounds | null {
     }
     case "text":
       return { h: 0, w: 0, x: mark.x, y: mark.y };
+    case "arc": {
+      const r = mark.outerR;
+      return { h: r * 2, w: r * 2, x: mark.cx - r, y: mark.cy - r };
+    }
+    case "polyline":
+    case "area": {
+      const extent = pointsBounds(
+        mark.points,
+        mark.type === "area" ? mark.baseline : undefined,
+      );
+      if (!extent) return null;
+      return {
+        h: extent.maxY - extent.minY,
+        w: extent.maxX - extent.minX,
+        x: extent.minX,
+        y: extent.minY,
+      };
+    }
     case "path":
+    case "group":
       return null;
   }
 }
@@ -324,12 +495,18 @@ function filterDefToCss(def: FilterDef): string | null {
       const blur = primitive.stdDeviation ?? 0;
       return `blur(${blur}px)`;
     }
+    if (primitive.type === "colorMatrix") return colorMatrixToCss(primitive);
     return "";
   });
   const css = parts.filter(Boolean).join(" ");
   return css.length > 0 ? css : null;
 }
 
+function blendStyles(mark: Mark): string[] {
+  if (!mark.blendMode) return [];
+  return [stylePair("mix-blend-mode", mark.blendMode)];
+}
+
 function maskStyles(mark: Mark, defsById: Map<string, Def>): string[] {
   if (!("mask" in mark) || !mark.mask) return [];
   const maskId = resolveDefId(mark.mask);
@@ -375,6 +552,26 @@ function filterStyles(mark: Mark, defsById: Map<string, Def>): string[] {
   return [stylePair("filter", css)];
 }
 
+function gradientStopsToCss(
+  stops: ReadonlyArray<GradientStop>,
+  fillOpacity: number | undefined,
+): string {
+  const baseOpacity = Number.isFinite(fillOpacity) ? (fillOpacity ?? 1) : 1;
+  return [...stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map((stop) => {
+      const offset = Math.max(0, Math.min(1, stop.offset));
+      const opacity = Math.max(
+        0,
+        Math.min(1, (stop.opacity ?? 1) * baseOpacity),
+      );
+      const color = withOpacity(stop.color, opacity);
+      const pct = Math.round(offset * 1000) / 10;
+      return `${color} ${pct}%`;
+    })
+    .join(", ");
+}
+
 function linearGradientToCss(
   def: Extract<Def, { type: "linearGradient" }>,
   fillOpacity: number | undefined,
@@ -388,20 +585,48 @@ function linearGradientToCss(
   const dy = y2 - y1;
   const angle = (Math.atan2(dy, dx) * 180) / Math.PI + 90;
   const angleRounded = Math.round(angle * 1000) / 1000;
-  const baseOpacity = Number.isFinite(fillOpacity) ? (fillOpacity ?? 1) : 1;
-  const stops = [...def.stops]
-    .sort((a, b) => a.offset - b.offset)
-    .map((stop) => {
-      const offset = Math.max(0, Math.min(1, stop.offset));
-      const opacity = Math.max(
-        0,
-        Math.min(1, (stop.opacity ?? 1) * baseOpacity),
-      );
-      const color = withOpacity(stop.color, opacity);
-      const pct = Math.round(offset * 1000) / 10;
-      return `${color} ${pct}%`;
-    });
-  return `linear-gradient(${angleRounded}deg, ${stops.join(", ")})`;
+  return `linear-gradient(${angleRounded}deg, ${gradientStopsToCss(def.stops, fillOpacity)})`;
+}
+
+type Box = { x: number; y: number; w: number; h: number };
+
+function roundPct(value: number): number {
+  return Math.round(value * 1000) / 10;
+}
+
+function radialGradientToCss(
+  def: RadialGradientDef,
+  fillOpacity: number | undefined,
+  box: Box,
+): string | null {
+  if (!def.stops || def.stops.length === 0) return null;
+  const stops = gradientStopsToCss(def.stops, fillOpacity);
+
+  if (def.gradientUnits === "userSpaceOnUse") {
+    // CSS gradients are laid out in the element box; translate user-space
+    // coordinates into box-relative pixels.
+    const cx = (def.cx ?? box.x + box.w / 2) - box.x;
+    const cy = (def.cy ?? box.y + box.h / 2) - box.y;
+    const r = def.r ?? Math.max(box.w, box.h) / 2;
+    return `radial-gradient(circle ${r}px at ${cx}px ${cy}px, ${stops})`;
+  }
+
+  const cx = roundPct(def.cx ?? 0.5);
+  const cy = roundPct(def.cy ?? 0.5);
+  const r = roundPct(def.r ?? 0.5);
+  return `radial-gradient(${r}% ${r}% at ${cx}% ${cy}%, ${stops})`;
+}
+
+function gradientFillToCss(
+  def: Def | undefined,
+  fillOpacity: number | undefined,
+  box: Box,
+): string | null {
+  if (def?.type === "linearGradient")
+    return linearGradientToCss(def, fillOpacity);
+  if (def?.type === "radialGradient")
+    return radialGradientToCss(def, fillOpacity, box);
+  return null;
 }
 
 function fallbackPaint(mark: Mark, kind: "fill" | "stroke" | "text"): string {
@@ -424,10 +649,7 @@ function renderRect(
 ): string {
   const fillRefId = extractUrlRefId(mark.fill);
   const fillDef = fillRefId ? defsById.get(fillRefId) : undefined;
-  const gradientFill =
-    fillDef?.type === "linearGradient"
-      ? linearGradientToCss(fillDef, mark.fillOpacity)
-      : null;
+  const gradientFill = gradientFillToCss(fillDef, mark.fillOpacity, mark);
   const patternFill =
     fillDef?.type === "pattern" ? patternToDataUrl(fillDef) : null;
   const rawFill = fillRefId ? undefined : mark.fill;
@@ -445,6 +667,10 @@ function renderRect(
       ? undefined
       : withOpacity(strokeBase, mark.strokeOpacity);
   const strokeWidth = mark.strokeWidth ?? 0;
+  const dashLayers =
+    stroke && strokeWidth > 0
+      ? dashedRectLayers(mark, mark.w, mark.h, strokeWidth, stroke)
+      : null;
   const rx = mark.rx ?? 0;
   const ry = mark.ry ?? rx;
   const clipId = mark.clipPath
@@ -484,18 +710,30 @@ function renderRect(
     patternFill ? stylePair("background-repeat", "repeat") : "",
     stylePair("opacity", mark.opacity?.toString()),
     stylePair("border-radius", rx || ry ? `${rx}px / ${ry}px` : undefined),
-    stroke && strokeWidth > 0
+    stroke && strokeWidth > 0 && !dashLayers
       ? stylePair("box-shadow", `inset 0 0 0 ${strokeWidth}px ${stroke}`)
       : "",
     ...maskStyles(mark, defsById),
     ...filterStyles(mark, defsById),
+    ...blendStyles(mark),
   ].join("");
 
+  const dashOverlay = dashLayers
+    ? `<div${attr(
+        "style",
+        [
+          stylePair("position", "absolute"),
+          stylePair("inset", "0"),
+          stylePair("background", dashLayers),
+        ].join(""),
+      )}></div>`
+    : "";
+
   const markClass = joinClass("mv-html-mark", mark.className);
   const rect = `<div${attr(
     "data-mark-id",
     clipRect ? undefined : mark.id,
-  )}${attr("class", markClass)}${attr("style", rectStyles)}></div>`;
+  )}${attr("class", markClass)}${attr("style", rectStyles)}>${dashOverlay}</div>`;
 
   if (!clipRect) return rect;
 
@@ -527,11 +765,19 @@ function renderCircle(
 ): string {
   const fillRefId = extractUrlRefId(mark.fill);
   const fillDef = fillRefId ? defsById.get(fillRefId) : undefined;
+  const size = mark.r * 2;
+  const gradientFill = gradientFillToCss(fillDef, mark.fillOpacity, {
+    h: size,
+    w: size,
+    x: mark.cx - mark.r,
+    y: mark.cy - mark.r,
+  });
   const patternFill =
     fillDef?.type === "pattern" ? patternToDataUrl(fillDef) : null;
   const rawFill = fillRefId ? undefined : mark.fill;
   const fillBase = rawFill ?? fallbackPaint(mark, "fill");
   const fill =
+    gradientFill ??
     patternFill ??
     (mark.fill === "none"
       ? undefined
@@ -542,7 +788,11 @@ function renderCircle(
       ? undefined
       : withOpacity(strokeBase, mark.strokeOpacity);
   const strokeWidth = mark.strokeWidth ?? 0;
-  const size = mark.r * 2;
+  const circumference = 2 * Math.PI * mark.r;
+  const dashSpansOnRing =
+    stroke && strokeWidth > 0 && mark.r > 0
+      ? dashSpans(mark, circumference)
+      : null;
 
   const styles = [
     stylePair("position", "absolute"),
@@ -572,18 +822,43 @@ function renderCircle(
     patternFill ? stylePair("background-repeat", "repeat") : "",
     stylePair("border-radius", "9999px"),
     stylePair("opacity", mark.opacity?.toString()),
-    stroke && strokeWidth > 0
+    stroke && strokeWidth > 0 && !dashSpansOnRing
       ? stylePair("box-shadow", `inset 0 0 0 ${strokeWidth}px ${stroke}`)
       : "",
     ...maskStyles(mark, defsById),
     ...filterStyles(mark, defsById),
+    ...blendStyles(mark),
   ].join("");
 
+  let dashOverlay = "";
+  if (stroke && dashSpansOnRing) {
+    // The ring sits inside the edge like the solid inset stroke; dashes are
+    // measured along the circle clockwise from 3 o'clock (SVG start point).
+    const holePct =
+      Math.round((Math.max(0, mark.r - strokeWidth) / mark.r) * 1000) / 10;
+    const ring = `radial-gradient(circle closest-side, transparent ${holePct}%, #000 ${holePct}%)`;
+    const stops = dashStops(
+      dashSpansOnRing,
+      stroke,
+      "deg",
+      360 / circumference,
+    );
+    const overlayStyles = [
+      stylePair("position", "absolute"),
+      stylePair("inset", "0"),
+      stylePair("border-radius", "9999px"),
+      stylePair("background", `conic-gradient(from 90deg, ${stops})`),
+      stylePair("mask-image", ring),
+      stylePair("-webkit-mask-image", ring),
+    ].join("");
+    dashOverlay = `<div${attr("style", overlayStyles)}></div>`;
+  }
+
   const className = joinClass("mv-html-mark", mark.className);
   return `<div${attr("data-mark-id", mark.id)}${attr(
     "class",
     className,
-  )}${attr("style", styles)}></div>`;
+  )}${attr("style", styles)}>${dashOverlay}</div>`;
 }
 
 function renderLine(
@@ -601,6 +876,11 @@ function renderLine(
   const length = Math.hypot(dx, dy);
   const angle = (Math.atan2(dy, dx) * 180) / Math.PI;
   const radius = mark.strokeLinecap === "round" ? strokeWidth / 2 : 0;
+  const spans = stroke ? dashSpans(mark, length) : null;
+  const dashed =
+    stroke && spans
+      ? `linear-gradient(90deg, ${dashStops(spans, stroke, "px")})`
+      : undefined;
 
   const styles = [
     stylePair("position", "absolute"),
@@ -608,13 +888,127 @@ function renderLine(
     stylePair("top", px(mark.y1 - strokeWidth / 2)),
     stylePair("width", px(length)),
     stylePair("height", px(strokeWidth)),
-    stylePair("background", stroke ?? fallbackPaint(mark, "stroke")),
+    stylePair("background", dashed ?? stroke ?? fallbackPaint(mark, "stroke")),
     stylePair("opacity", mark.opacity?.toString()),
     stylePair("border-radius", radius ? `${radius}px` : undefined),
     stylePair("transform-origin", "0 0"),
     stylePair("transform", `rotate(${angle}deg)`),
     ...maskStyles(mark, defsById),
     ...filterStyles(mark, defsById),
+    ...blendStyles(mark),
+  ].join("");
+
+  const className = joinClass("mv-html-mark", mark.className);
+  return `<div${attr("data-mark-id", mark.id)}${attr(
+    "class",
+    className,
+  )}${attr("style", styles)}></div>`;
+}
+
+function renderPolyline(
+  mark: Extract<Mark, { type: "polyline" }>,
+  defsById: Map<string, Def>,
+): string {
+  const strokeBase = mark.stroke ?? fallbackPaint(mark, "stroke");
+  if (mark.stroke === "none") return "";
+  const stroke = withOpacity(strokeBase, mark.strokeOpacity);
+  const strokeWidth = mark.strokeWidth ?? 1;
+  const round =
+    mark.strokeLinecap === "round" || mark.strokeLinejoin === "round";
+  const radius = round ? strokeWidth / 2 : 0;
+  const { points } = mark;
+  const count = Math.floor(points.length / 2);
+
+  const segments: string[] = [];
+  let travelled = 0;
+  for (let i = 1; i < count; i++) {
+    const x1 = points[(i - 1) * 2] ?? 0;
+    const y1 = points[(i - 1) * 2 + 1] ?? 0;
+    const dx = (points[i * 2] ?? 0) - x1;
+    const dy = (points[i * 2 + 1] ?? 0) - y1;
+    const angle = (Math.atan2(dy, dx) * 180) / Math.PI;
+    const length = Math.hypot(dx, dy);
+    // Dashes continue across vertices, so each segment starts where the
+    // previous one left off in the pattern.
+    const spans = dashSpans(mark, length, travelled);
+    travelled += length;
+    const background = spans
+      ? `linear-gradient(90deg, ${dashStops(spans, stroke, "px", 1, radius)})`
+      : stroke;
+    // Round joins/caps overlap each segment by half a stroke on both ends.
+    const styles = [
+      stylePair("position", "absolute"),
+      stylePair("left", px(x1 - radius)),
+      stylePair("top", px(y1 - strokeWidth / 2)),
+      stylePair("width", px(length + radius * 2)),
+      stylePair("height", px(strokeWidth)),
+      stylePair("background", background),
+      stylePair("border-radius", radius ? `${radius}px` : undefined),
+      stylePair("transform-origin", `${radius}px 50%`),
+      stylePair("transform", `rotate(${angle}deg)`),
+    ].join("");
+    segments.push(`<div${attr("style", styles)}></div>`);
+  }
+  if (segments.length === 0) return "";
+
+  const styles = [
+    stylePair("position", "absolute"),
+    stylePair("left", "0"),
+    stylePair("top", "0"),
+    stylePair("opacity", mark.opacity?.toString()),
+    ...maskStyles(mark, defsById),
+    ...filterStyles(mark, defsById),
+    ...blendStyles(mark),
+  ].join("");
+
+  const className = joinClass("mv-html-mark", mark.className);
+  return `<div${attr("data-mark-id", mark.id)}${attr(
+    "class",
+    className,
+  )}${attr("style", styles)}>${segments.join("")}</div>`;
+}
+
+function renderArea(
+  mark: Extract<Mark, { type: "area" }>,
+  defsById: Map<string, Def>,
+): string {
+  const box = markBounds(mark);
+  if (!box) return "";
+
+  const fillRefId = extractUrlRefId(mark.fill);
+  const fillDef = fillRefId ? defsById.get(fillRefId) : undefined;
+  const gradientFill = gradientFillToCss(fillDef, mark.fillOpacity, box);
+  const rawFill = fillRefId ? undefined : mark.fill;
+  if (rawFill === "none") return "";
+  const fill =
+    gradientFill ??
+    withOpacity(rawFill ?? fallbackPaint(mark, "fill"), mark.fillOpacity);
+
+  const { baseline, points } = mark;
+  const count = Math.floor(points.length / 2);
+  const vertices: string[] = [];
+  const pushVertex = (x: number, y: number) =>
+    vertices.push(`${px(x - box.x)} ${px(y - box.y)}`);
+  for (let i = 0; i < count; i++)
+    pushVertex(points[i * 2] ?? 0, points[i * 2 + 1] ?? 0);
+  if (baseline !== undefined && count > 0) {
+    pushVertex(points[(count - 1) * 2] ?? 0, baseline);
+    pushVertex(points[0] ?? 0, baseline);
+  }
+  if (vertices.length < 3) return "";
+
+  const styles = [
+    stylePair("position", "absolute"),
+    stylePair("left", px(box.x)),
+    stylePair("top", px(box.y)),
+    stylePair("width", px(box.w)),
+    stylePair("height", px(box.h)),
+    stylePair("background", fill),
+    stylePair("clip-path", `polygon(${vertices.join(", ")})`),
+    stylePair("opacity", mark.opacity?.toString()),
+    ...maskStyles(mark, defsById),
+    ...filterStyles(mark, defsById),
+    ...blendStyles(mark),
   ].join("");
 
   const className = joinClass("mv-html-mark", mark.className);
@@ -627,6 +1021,7 @@ function renderLine(
 function renderText(
   mark: Extract<Mark, { type: "text" }>,
   defsById: Map<string, Def>,
+  textMeasurer: TextMeasurer | undefined,
 ): string {
   const fillBase = mark.fill ?? fallbackPaint(mark, "text");
   const color =
@@ -643,10 +1038,14 @@ function renderText(
         ? "-100%"
         : "0";
 
+  // Rotation pivots on (x, y), like SVG's `rotate(deg x y)`: the anchor
+  // translate runs first, then the rotation about the box origin.
+  const transformParts: string[] = [];
+  if (mark.rotate) transformParts.push(`rotate(${mark.rotate}deg)`);
+  if (translateX !== "0" || translateY !== "0")
+    transformParts.push(`translate(${translateX}, ${translateY})`);
   const transform =
-    translateX !== "0" || translateY !== "0"
-      ? `translate(${translateX}, ${translateY})`
-      : undefined;
+    transformParts.length > 0 ? transformParts.join(" ") : undefined;
 
   const styles = [
     stylePair("position", "absolute"),
@@ -655,28 +1054,258 @@ function renderText(
     stylePair("color", color ?? fallbackPaint(mark, "text")),
     stylePair("opacity", mark.opacity?.toString()),
     stylePair("white-space", "pre"),
+    stylePair("font-size", px(mark.fontSize)),
+    stylePair("font-weight", mark.fontWeight?.toString()),
+    stylePair("font-family", mark.fontFamily),
+    stylePair("transform-origin", mark.rotate ? "0 0" : undefined),
     stylePair("transform", transform),
     ...maskStyles(mark, defsById),
     ...filterStyles(mark, defsById),
+    ...blendStyles(mark),
+  ].join("");
+
+  const className = joinClass("mv-html-mark", mark.className);
+  return `<div${attr("data-mark-id", mark.id)}${attr(
+    "class",
+    className,
+  )}${attr("style", styles)}>${escapeHtmlText(fitTextMark(mark, textMeasurer))}</div>`;
+}
+
+function groupTransformToCss(mark: GroupMark): string | undefined {
+  const transform = mark.transform;
+  if (!transform) return undefined;
+  const parts: string[] = [];
+  const tx = transform.translateX ?? 0;
+  const ty = transform.translateY ?? 0;
+  if (tx !== 0 || ty !== 0) parts.push(`translate(${px(tx)}, ${px(ty)})`);
+  if (transform.rotate) parts.push(`rotate(${transform.rotate}deg)`);
+  const sx = transform.scaleX ?? 1;
+  const sy = transform.scaleY ?? 1;
+  if (sx !== 1 || sy !== 1) parts.push(`scale(${sx}, ${sy})`);
+  return parts.length > 0 ? parts.join(" ") : undefined;
+}
+
+function renderGroup(
+  mark: GroupMark,
+  defsById: Map<string, Def>,
+  textMeasurer: TextMeasurer | undefined,
+): string {
+  const children = mark.marks
+    .map((child) => renderMark(child, defsById, textMeasurer))
+    .join("");
+  const clipId = resolveDefId(mark.clipPath);
+  const clipDef = clipId ? defsById.get(clipId) : null;
+  const clipRect = clipDef?.type === "clipRect" ? clipDef : null;
+
+  let content = children;
+  if (clipRect) {
+    // Clip in group-local space, then shift children back to the local origin.
+    const clipRx = clipRect.rx ?? 0;
+    const clipRy = clipRect.ry ?? clipRx;
+    const clipStyles = [
+      stylePair("position", "absolute"),
+      stylePair("left", px(clipRect.x)),
+      stylePair("top", px(clipRect.y)),
+      stylePair("width", px(clipRect.w)),
+      stylePair("height", px(clipRect.h)),
+      stylePair("overflow", "hidden"),
+      stylePair(
+        "border-radius",
+        clipRx || clipRy ? `${clipRx}px / ${clipRy}px` : undefined,
+      ),
+    ].join("");
+    const innerStyles = [
+      stylePair("position", "absolute"),
+      stylePair("left", px(-clipRect.x)),
+      stylePair("top", px(-clipRect.y)),
+    ].join("");
+    content = `<div${attr("style", clipStyles)}><div${attr("style", innerStyles)}>${children}</div></div>`;
+  }
+
+  const styles = [
+    stylePair("position", "absolute"),
+    stylePair("left", "0"),
+    stylePair("top", "0"),
+    stylePair("opacity", mark.opacity?.toString()),
+    stylePair("transform-origin", "0 0"),
+    stylePair("transform", groupTransformToCss(mark)),
+    ...blendStyles(mark),
+    stylePair("isolation", mark.isolate ? "isolate" : undefined),
   ].join("");
 
   const className = joinClass("mv-html-mark", mark.className);
   return `<div${attr("data-mark-id", mark.id)}${attr(
     "class",
     className,
-  )}${attr("style", styles)}>${escapeHtmlText(mark.text)}</div>`;
+  )}${attr("style", styles)}>${content}</div>`;
 }
 
-function renderMark(mark: Mark, defsById: Map<string, Def>): string {
+const ARC_EPSILON = 1e-6;
+
+type ArcRoundCaps = { rc: number; mid: number; delta: number };
+
+/**
+ * Geometry of a ring arc whose corner radius rounds each end into a half
+ * circle: the cap radius, the ring's mid radius and the angle each cap takes
+ * off the sweep. Null for full turns, pies and partial rounding.
+ */
+function arcRoundCaps(
+  mark: Extract<Mark, { type: "arc" }>,
+  sweep: { start: number; end: number },
+): ArcRoundCaps | null {
+  const outerR = Math.max(0, mark.outerR);
+  const innerR = Math.max(0, Math.min(mark.innerR, outerR));
+  const span = sweep.end - sweep.start;
+  if (innerR <= 0 || span >= Math.PI * 2 - ARC_EPSILON) return null;
+  const rc = resolveArcCornerRadius(mark, span);
+  if (rc <= ARC_EPSILON || rc < (outerR - innerR) / 2 - ARC_EPSILON)
+    return null;
+  const mid = innerR + rc;
+  return { delta: Math.asin(rc / mid), mid, rc };
+}
+
+function conicArcStyles(
+  cx: number,
+  cy: number,
+  innerR: number,
+  outerR: number,
+  start: number,
+  end: number,
+  fill: string,
+): string[] {
+  // Mark angles start at 3 o'clock; CSS conic gradients start at 12 o'clock.
+  const from = Math.round(((start * 180) / Math.PI + 90) * 1000) / 1000;
+  const sweepDeg = Math.round((((end - start) * 180) / Math.PI) * 1000) / 1000;
+  const holePct = Math.round((innerR / outerR) * 1000) / 10;
+  const hole =
+    innerR > 0
+      ? `radial-gradient(circle closest-side, transparent ${holePct}%, #000 ${holePct}%)`
+      : undefined;
+  return [
+    stylePair("position", "absolute"),
+    stylePair("left", px(cx - outerR)),
+    stylePair("top", px(cy - outerR)),
+    stylePair("width", px(outerR * 2)),
+    stylePair("height", px(outerR * 2)),
+    stylePair(
+      "background",
+      `conic-gradient(from ${from}deg, ${fill} 0deg ${sweepDeg}deg, transparent ${sweepDeg}deg)`,
+    ),
+    stylePair("border-radius", "9999px"),
+    stylePair("mask-image", hole),
+    stylePair("-webkit-mask-image", hole),
+  ];
+}
+
+function renderArc(
+  mark: Extract<Mark, { type: "arc" }>,
+  defsById: Map<string, Def>,
+): string {
+  const sweep = resolveArcSweep(mark);
+  const outerR = Math.max(0, mark.outerR);
+  if (!sweep || outerR <= 0) return "";
+  const innerR = Math.max(0, Math.min(mark.innerR, outerR));
+
+  const fillRefId = extractUrlRefId(mark.fill);
+  const rawFill = fillRefId ? undefined : mark.fill;
+  if (rawFill === "none") return "";
+  const paint = rawFill ?? fallbackPaint(mark, "fill");
+  const className = joinClass("mv-html-mark", mark.className);
+
+  const caps = arcRoundCaps(mark, sweep);
+  if (caps) {
+    // The caps overlap the ring, so fill opacity moves to the wrapper to
+    // keep the overlap from painting darker.
+    const { delta, mid, rc } = caps;
+    const start = sweep.start + delta;
+    const end = sweep.end - delta;
+    const capDiv = (angle: number) => {
+      const capStyles = [
+        stylePair("position", "absolute"),
+        stylePair("left", px(mark.cx + mid * Math.cos(angle) - rc)),
+        stylePair("top", px(mark.cy + mid * Math.sin(angle) - rc)),
+        stylePair("width", px(rc * 2)),
+        stylePair("height", px(rc * 2)),
+        stylePair("background", paint),
+        stylePair("border-radius", "9999px"),
+      ].join("");
+      return `<div${attr("style", capStyles)}></div>`;
+    };
+    const ring =
+      end > start
+        ? `<div${attr(
+            "style",
+            conicArcStyles(
+              mark.cx,
+              mark.cy,
+              innerR,
+              outerR,
+              start,
+              end,
+              paint,
+            ).join(""),
+          )}></div>`
+        : "";
+    const opacity = (mark.opacity ?? 1) * (mark.fillOpacity ?? 1);
+    const wrapperStyles = [
+      stylePair("position", "absolute"),
+      stylePair("left", "0"),
+      stylePair("top", "0"),
+      stylePair("opacity", opacity === 1 ? undefined : opacity.toString()),
+      ...filterStyles(mark, defsById),
+      ...blendStyles(mark),
+    ].join("");
+    return `<div${attr("data-mark-id", mark.id)}${attr(
+      "class",
+      className,
+    )}${attr("style", wrapperStyles)}>${capDiv(start)}${ring}${capDiv(
+      end,
+    )}</div>`;
+  }
+
+  const styles = [
+    ...conicArcStyles(
+      mark.cx,
+      mark.cy,
+      innerR,
+      outerR,
+      sweep.start,
+      sweep.end,
+      withOpacity(paint, mark.fillOpacity),
+    ),
+    stylePair("opacity", mark.opacity?.toString()),
+    ...filterStyles(mark, defsById),
+    ...blendStyles(mark),
+  ].join("");
+
+  return `<div${attr("data-mark-id", mark.id)}${attr(
+    "class",
+    className,
+  )}${attr("style", styles)}></div>`;
+}
+
+function renderMark(
+  mark: Mark,
+  defsById: Map<string, Def>,
+  textMeasurer: TextMeasurer | undefined,
+): string {
   switch (mark.type) {
+    case "group":
+      return renderGroup(mark, defsById, textMeasurer);
     case "rect":
       return renderRect(mark, defsById);
     case "circle":
       return renderCircle(mark, defsById);
     case "line":
       return renderLine(mark, defsById);
+    case "polyline":
+      return renderPolyline(mark, defsById);
+    case "area":
+      return renderArea(mark, defsById);
     case "text":
-      return renderText(mark, defsById);
+      return renderText(mark, defsById, textMeasurer);
+    case "arc":
+      return renderArc(mark, defsById);
     case "path":
       return "";
   }
@@ -684,7 +1313,12 @@ function renderMark(mark: Mark, defsById: Map<string, Def>): string {
 
 export function renderHtmlString(
   model: RenderModel,
-  options?: { title?: string; className?: string },
+  options?: {
+    title?: string;
+    className?: string;
+    /** Measures `maxWidth` text; defaults to `getDefaultTextMeasurer()`. */
+    textMeasurer?: TextMeasurer;
+  },
 ): string {
   const label = options?.title ?? model.a11y?.label;
   const role = model.a11y?.role ?? "img";
@@ -700,7 +1334,9 @@ export function renderHtmlString(
     stylePair("height", px(model.height)),
     stylePair("overflow", "hidden"),
   ].join("");
-  const marks = model.marks.map((mark) => renderMark(mark, defsById)).join("");
+  const marks = model.marks
+    .map((mark) => renderMark(mark, defsById, options?.textMeasurer))
+    .join("");
 
   return `<div${attr("class", className)}${attr("role", role)}${attr("aria-label", label)}${attr("data-mv-renderer", "html")}${attr("style", style)}>${marks}</div>`;
 }
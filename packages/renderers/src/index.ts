@@ -1,4 +1,6 @@
+export * from "./arc";
 export * from "./canvas";
 export * from "./export";
 export * from "./html";
+export * from "./points";
 export * from "./svg";
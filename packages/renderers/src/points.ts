@@ -0,0 +1,77 @@
+import type { AreaMark, PointBuffer } from "@microviz/core";
+import type { ArcPathSink } from "./arc";
+
+/**
+ * Straight-segment subset of `ArcPathSink`; Canvas 2D contexts and `Path2D`
+ * satisfy it directly.
+ */
+export type PointPathSink = Pick<
+  ArcPathSink,
+  "moveTo" | "lineTo" | "closePath"
+>;
+
+function fmt(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+}
+
+/**
+ * Traces an interleaved point buffer as one open subpath into `sink`.
+ */
+export function tracePoints(sink: PointPathSink, points: PointBuffer): void {
+  const count = Math.floor(points.length / 2);
+  for (let i = 0; i < count; i++) {
+    const x = points[i * 2] ?? 0;
+    const y = points[i * 2 + 1] ?? 0;
+    if (i === 0) sink.moveTo(x, y);
+    else sink.lineTo(x, y);
+  }
+}
+
+/**
+ * Traces the closed outline of an area mark into `sink`: the points, then
+ * (when a baseline is set) down to the baseline and back under the first point.
+ */
+export function traceArea(
+  sink: PointPathSink,
+  mark: Pick<AreaMark, "points" | "baseline">,
+): void {
+  const { baseline, points } = mark;
+  const count = Math.floor(points.length / 2);
+  if (count === 0) return;
+  tracePoints(sink, points);
+  if (baseline !== undefined) {
+    sink.lineTo(points[(count - 1) * 2] ?? 0, baseline);
+    sink.lineTo(points[0] ?? 0, baseline);
+  }
+  sink.closePath();
+}
+
+/**
+ * Formats a point buffer as an SVG `points` attribute (`"x,y x,y …"`).
+ */
+export function pointsAttr(points: PointBuffer): string {
+  const count = Math.floor(points.length / 2);
+  const parts: string[] = new Array(count);
+  for (let i = 0; i < count; i++)
+    parts[i] = `${fmt(points[i * 2] ?? 0)},${fmt(points[i * 2 + 1] ?? 0)}`;
+  return parts.join(" ");
+}
+
+/**
+ * Formats the closed outline of an area mark as an SVG `<polygon>` `points`
+ * attribute.
+ */
+export function areaPointsAttr(
+  mark: Pick<AreaMark, "points" | "baseline">,
+): string {
+  const { baseline, points } = mark;
+  const count = Math.floor(points.length / 2);
+  const line = pointsAttr(points);
+  if (baseline === undefined || count === 0) return line;
+
+  const lastX = fmt(points[(count - 1) * 2] ?? 0);
+  const firstX = fmt(points[0] ?? 0);
+  const base = fmt(baseline);
+  return `${line} ${lastX},${base} ${firstX},${base}`;
+}
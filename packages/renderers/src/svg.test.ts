@@ -1,4 +1,5 @@
 import type { RenderModel } from "@microviz/core";
+import { createApproximateTextMeasurer } from "@microviz/core";
 import { describe, expect, it } from "vitest";
 import { renderSvgString } from "./svg";
 
@@ -32,6 +33,34 @@ describe("renderSvgString", () => {
     );
   });
 
+  it("renders font attributes, rotation and truncated text", () => {
+    const model: RenderModel = {
+      height: 20,
+      marks: [
+        {
+          fontFamily: "serif",
+          fontSize: 12,
+          fontWeight: "bold",
+          id: "label",
+          maxWidth: 40,
+          rotate: 90,
+          text: "1,234,567",
+          type: "text",
+          x: 5,
+          y: 6,
+        },
+      ],
+      width: 20,
+    };
+
+    const svg = renderSvgString(model, {
+      textMeasurer: createApproximateTextMeasurer({ avgCharWidthPx: 10 }),
+    });
+    expect(svg).toContain(
+      '<text id="label" x="5" y="6" font-size="12" font-weight="bold" font-family="serif" transform="rotate(90 5 6)">1,2…</text>',
+    );
+  });
+
   it("renders defs and allows overriding the title", () => {
     const model: RenderModel = {
       a11y: { label: "from-a11y", role: "img" },
@@ -79,6 +108,38 @@ describe("renderSvgString", () => {
     expect(svg).toContain('<clipPath id="clip-1"><rect x="0" y="0"');
   });
 
+  it("renders radialGradient defs", () => {
+    const model: RenderModel = {
+      defs: [
+        {
+          cx: 0.5,
+          cy: 0.5,
+          fx: 0.3,
+          fy: 0.3,
+          gradientUnits: "objectBoundingBox",
+          id: "glow-1",
+          r: 0.5,
+          stops: [
+            { color: "white", offset: 0 },
+            { color: "black", offset: 1, opacity: 0 },
+          ],
+          type: "radialGradient",
+        },
+      ],
+      height: 10,
+      marks: [
+        { cx: 5, cy: 5, fill: "url(#glow-1)", id: "c-1", r: 5, type: "circle" },
+      ],
+      width: 10,
+    };
+
+    const svg = renderSvgString(model);
+    expect(svg).toContain(
+      '<radialGradient id="glow-1" cx="0.5" cy="0.5" r="0.5" fx="0.3" fy="0.3" gradientUnits="objectBoundingBox"><stop offset="0%" stop-color="white" /><stop offset="100%" stop-color="black" stop-opacity="0" /></radialGradient>',
+    );
+    expect(svg).toContain('fill="url(#glow-1)"');
+  });
+
   it("renders clipRect defs and clip-path references", () => {
     const model: RenderModel = {
       defs: [{ h: 10, id: "clip-1", type: "clipRect", w: 10, x: 0, y: 0 }],
@@ -103,6 +164,158 @@ describe("renderSvgString", () => {
     expect(svg).toContain('clip-path="url(#clip-1)"');
   });
 
+  it("renders group marks with transforms and nested marks", () => {
+    const model: RenderModel = {
+      defs: [{ h: 10, id: "clip-1", type: "clipRect", w: 10, x: 0, y: 0 }],
+      height: 20,
+      marks: [
+        {
+          className: "mv-badge",
+          clipPath: "clip-1",
+          id: "g-1",
+          marks: [{ h: 4, id: "r-1", type: "rect", w: 4, x: 0, y: 0 }],
+          opacity: 0.5,
+          transform: { rotate: 45, scaleX: 2, scaleY: 2, translateX: 10 },
+          type: "group",
+        },
+      ],
+      width: 20,
+    };
+
+    const svg = renderSvgString(model);
+    expect(svg).toContain(
+      '<g id="g-1" transform="translate(10 0) rotate(45) scale(2 2)" opacity="0.5" clip-path="url(#clip-1)" class="mv-badge"><rect id="r-1" x="0" y="0" width="4" height="4" /></g>',
+    );
+  });
+
+  it("renders blend modes and group isolation as styles", () => {
+    const model: RenderModel = {
+      height: 20,
+      marks: [
+        {
+          id: "g-1",
+          isolate: true,
+          marks: [
+            {
+              blendMode: "multiply",
+              h: 4,
+              id: "r-1",
+              type: "rect",
+              w: 4,
+              x: 0,
+              y: 0,
+            },
+          ],
+          type: "group",
+        },
+      ],
+      width: 20,
+    };
+
+    const svg = renderSvgString(model);
+    expect(svg).toContain('<g id="g-1" style="isolation:isolate">');
+    expect(svg).toContain(
+      '<rect id="r-1" x="0" y="0" width="4" height="4" style="mix-blend-mode:multiply" />',
+    );
+  });
+
+  it("renders arc marks as path data", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          className: "mv-donut-segment",
+          cx: 50,
+          cy: 50,
+          endAngle: Math.PI / 2,
+          fill: "red",
+          id: "arc-1",
+          innerR: 20,
+          outerR: 40,
+          startAngle: 0,
+          type: "arc",
+        },
+        {
+          cx: 50,
+          cy: 50,
+          endAngle: Math.PI * 2,
+          id: "ring-1",
+          innerR: 20,
+          outerR: 40,
+          startAngle: 0,
+          type: "arc",
+        },
+      ],
+      width: 100,
+    };
+
+    const svg = renderSvgString(model);
+    expect(svg).toContain(
+      '<path id="arc-1" d="M 90 50 A 40 40 0 0 1 50 90 L 50 70 A 20 20 0 0 0 70 50 Z" fill="red" class="mv-donut-segment" />',
+    );
+    // Full rings split each circle into two arcs and wind the hole backwards
+    expect(svg).toContain(
+      'd="M 90 50 A 40 40 0 1 1 10 50 A 40 40 0 1 1 90 50 M 70 50 A 20 20 0 1 0 30 50 A 20 20 0 1 0 70 50 Z"',
+    );
+  });
+
+  it("renders polyline and area marks from point buffers", () => {
+    const model: RenderModel = {
+      height: 40,
+      marks: [
+        {
+          baseline: 38,
+          fill: "url(#grad)",
+          id: "area",
+          points: [2, 30, 50, 10.123, 98, 20],
+          type: "area",
+        },
+        {
+          className: "mv-line",
+          id: "line",
+          points: new Float32Array([2, 30, 50, 10.125, 98, 20]),
+          strokeLinejoin: "round",
+          type: "polyline",
+        },
+      ],
+      width: 100,
+    };
+
+    const svg = renderSvgString(model);
+    expect(svg).toContain(
+      '<polygon id="area" points="2,30 50,10.12 98,20 98,38 2,38" fill="url(#grad)" />',
+    );
+    expect(svg).toContain(
+      '<polyline id="line" points="2,30 50,10.13 98,20" fill="none" stroke-linejoin="round" class="mv-line" />',
+    );
+  });
+
+  it("rounds arc corners with cornerRadius", () => {
+    const model: RenderModel = {
+      height: 100,
+      marks: [
+        {
+          cornerRadius: 5,
+          cx: 50,
+          cy: 50,
+          endAngle: Math.PI / 2,
+          id: "arc-1",
+          innerR: 20,
+          outerR: 40,
+          startAngle: 0,
+          type: "arc",
+        },
+      ],
+      width: 100,
+    };
+
+    const svg = renderSvgString(model);
+    const d = / d="([^"]+)"/.exec(svg)?.[1] ?? "";
+    // 4 corner arcs plus the outer and inner edges
+    expect(d.match(/A /g)).toHaveLength(6);
+    expect(d).toContain("A 5 5 0 0 1");
+  });
+
   it("renders pattern defs", () => {
     const model: RenderModel = {
       defs: [
@@ -177,6 +390,71 @@ describe("renderSvgString", () => {
     expect(svg).toContain('stroke-linecap="round"');
   });
 
+  it("renders stroke dashes on line, path, rect and pattern marks", () => {
+    const model: RenderModel = {
+      defs: [
+        {
+          height: 4,
+          id: "hatch",
+          marks: [
+            {
+              strokeDasharray: "1",
+              type: "line",
+              x1: 0,
+              x2: 4,
+              y1: 0,
+              y2: 4,
+            },
+          ],
+          type: "pattern",
+          width: 4,
+        },
+      ],
+      height: 20,
+      marks: [
+        {
+          id: "target",
+          strokeDasharray: "4 2",
+          strokeDashoffset: "1",
+          type: "line",
+          x1: 0,
+          x2: 20,
+          y1: 10,
+          y2: 10,
+        },
+        {
+          d: "M 0 0 L 20 20",
+          id: "forecast",
+          strokeDasharray: "2 2",
+          type: "path",
+        },
+        {
+          h: 10,
+          id: "box",
+          strokeDasharray: "3 1",
+          type: "rect",
+          w: 10,
+          x: 0,
+          y: 0,
+        },
+      ],
+      width: 20,
+    };
+
+    const svg = renderSvgString(model);
+    expect(svg).toContain(
+      '<line id="target" x1="0" y1="10" x2="20" y2="10" stroke-dasharray="4 2" stroke-dashoffset="1" />',
+    );
+    expect(svg).toContain(
+      '<path id="forecast" d="M 0 0 L 20 20" stroke-dasharray="2 2" />',
+    );
+    expect(svg).toContain('<rect id="box"');
+    expect(svg).toContain('stroke-dasharray="3 1"');
+    expect(svg).toContain(
+      '<line x1="0" y1="0" x2="4" y2="4" stroke-dasharray="1" />',
+    );
+  });
+
   it("renders mask defs and mask references", () => {
     const model: RenderModel = {
       defs: [
@@ -285,6 +563,81 @@ describe("renderSvgString", () => {
     expect(svg).toContain('filter="url(#filter-1)"');
   });
 
+  it("renders colorMatrix, offset, flood, composite, merge and blend primitives", () => {
+    const model: RenderModel = {
+      defs: [
+        {
+          id: "glow",
+          primitives: [
+            {
+              matrixType: "matrix",
+              result: "tint",
+              type: "colorMatrix",
+              values: [
+                0, 0, 0, 0, 1, 0, 0, 0, 0, 0.5, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0,
+              ],
+            },
+            {
+              dx: 1,
+              dy: 2,
+              in: "SourceAlpha",
+              result: "moved",
+              type: "offset",
+            },
+            {
+              floodColor: "gold",
+              floodOpacity: 0.5,
+              result: "color",
+              type: "flood",
+            },
+            {
+              in: "color",
+              in2: "moved",
+              operator: "in",
+              result: "shadow",
+              type: "composite",
+            },
+            { inputs: ["shadow", "SourceGraphic"], type: "merge" },
+            { in2: "tint", mode: "multiply", type: "blend" },
+          ],
+          type: "filter",
+        },
+      ],
+      height: 10,
+      marks: [
+        {
+          fill: "red",
+          filter: "glow",
+          h: 10,
+          id: "r-1",
+          type: "rect",
+          w: 10,
+          x: 0,
+          y: 0,
+        },
+      ],
+      width: 10,
+    };
+
+    const svg = renderSvgString(model);
+    expect(svg).toContain(
+      '<feColorMatrix type="matrix" values="0 0 0 0 1 0 0 0 0 0.5 0 0 0 0 0 0 0 0 1 0" result="tint" />',
+    );
+    expect(svg).toContain(
+      '<feOffset in="SourceAlpha" dx="1" dy="2" result="moved" />',
+    );
+    expect(svg).toContain(
+      '<feFlood flood-color="gold" flood-opacity="0.5" result="color" />',
+    );
+    expect(svg).toContain(
+      '<feComposite in="color" in2="moved" operator="in" result="shadow" />',
+    );
+    expect(svg).toContain(
+      '<feMerge><feMergeNode in="shadow" /><feMergeNode in="SourceGraphic" /></feMerge>',
+    );
+    expect(svg).toContain('<feBlend in2="tint" mode="multiply" />');
+  });
+
   it("renders turbulence + displacementMap filter primitives", () => {
     const model: RenderModel = {
       defs: [
@@ -1,10 +1,17 @@
 import type {
   Def,
   FilterPrimitive,
+  GradientStop,
+  GroupTransform,
   Mark,
   PatternMark,
   RenderModel,
+  TextMark,
+  TextMeasurer,
 } from "@microviz/core";
+import { fitTextMark } from "@microviz/core";
+import { arcPathData } from "./arc";
+import { areaPointsAttr, pointsAttr } from "./points";
 
 function escapeXmlText(text: string): string {
   return text
@@ -28,21 +35,42 @@ function urlRefAttr(name: string, id: string | undefined): string {
   return id ? attr(name, `url(#${id})`) : "";
 }
 
-function renderPatternMark(mark: PatternMark): string {
+type TextStyle = Pick<
+  TextMark,
+  "fontFamily" | "fontSize" | "fontWeight" | "rotate" | "x" | "y"
+>;
+
+function textStyleAttrs(mark: TextStyle): string {
+  const rotate = mark.rotate
+    ? attr("transform", `rotate(${mark.rotate} ${mark.x} ${mark.y})`)
+    : "";
+  return `${attr("font-size", mark.fontSize)}${attr("font-weight", mark.fontWeight)}${attr("font-family", mark.fontFamily)}${rotate}`;
+}
+
+function renderPatternMark(
+  mark: PatternMark,
+  textMeasurer: TextMeasurer | undefined,
+): string {
   switch (mark.type) {
     case "rect":
-      return `<rect${attr("x", mark.x)}${attr("y", mark.y)}${attr("width", mark.w)}${attr("height", mark.h)}${attr("rx", mark.rx)}${attr("ry", mark.ry)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
+      return `<rect${attr("x", mark.x)}${attr("y", mark.y)}${attr("width", mark.w)}${attr("height", mark.h)}${attr("rx", mark.rx)}${attr("ry", mark.ry)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
     case "path":
-      return `<path${attr("d", mark.d)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-linecap", mark.strokeLinecap)}${attr("stroke-linejoin", mark.strokeLinejoin)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
+      return `<path${attr("d", mark.d)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${attr("stroke-linecap", mark.strokeLinecap)}${attr("stroke-linejoin", mark.strokeLinejoin)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
     case "text":
-      return `<text${attr("x", mark.x)}${attr("y", mark.y)}${attr("text-anchor", mark.anchor)}${attr("dominant-baseline", mark.baseline)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)}>${escapeXmlText(mark.text)}</text>`;
+      return `<text${attr("x", mark.x)}${attr("y", mark.y)}${attr("text-anchor", mark.anchor)}${attr("dominant-baseline", mark.baseline)}${textStyleAttrs(mark)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)}>${escapeXmlText(fitTextMark(mark, textMeasurer))}</text>`;
     case "circle":
       return `<circle${attr("cx", mark.cx)}${attr("cy", mark.cy)}${attr("r", mark.r)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${attr("stroke-linecap", mark.strokeLinecap)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
     case "line":
-      return `<line${attr("x1", mark.x1)}${attr("y1", mark.y1)}${attr("x2", mark.x2)}${attr("y2", mark.y2)}${attr("opacity", mark.opacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-linecap", mark.strokeLinecap)}${attr("stroke-linejoin", mark.strokeLinejoin)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
+      return `<line${attr("x1", mark.x1)}${attr("y1", mark.y1)}${attr("x2", mark.x2)}${attr("y2", mark.y2)}${attr("opacity", mark.opacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${attr("stroke-linecap", mark.strokeLinecap)}${attr("stroke-linejoin", mark.strokeLinejoin)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
   }
 }
 
+function filterValuesAttr(
+  values: number | ReadonlyArray<number> | undefined,
+): string | number | undefined {
+  return typeof values === "object" ? values.join(" ") : values;
+}
+
 function renderFilterPrimitive(primitive: FilterPrimitive): string {
   switch (primitive.type) {
     case "dropShadow":
@@ -53,29 +81,61 @@ function renderFilterPrimitive(primitive: FilterPrimitive): string {
       return `<feTurbulence${attr("type", primitive.noiseType)}${attr("baseFrequency", primitive.baseFrequency)}${attr("numOctaves", primitive.numOctaves)}${attr("seed", primitive.seed)}${attr("stitchTiles", primitive.stitchTiles)}${attr("result", primitive.result)} />`;
     case "displacementMap":
       return `<feDisplacementMap${attr("in", primitive.in)}${attr("in2", primitive.in2)}${attr("scale", primitive.scale)}${attr("xChannelSelector", primitive.xChannelSelector)}${attr("yChannelSelector", primitive.yChannelSelector)}${attr("result", primitive.result)} />`;
+    case "colorMatrix":
+      return `<feColorMatrix${attr("in", primitive.in)}${attr("type", primitive.matrixType)}${attr("values", filterValuesAttr(primitive.values))}${attr("result", primitive.result)} />`;
+    case "offset":
+      return `<feOffset${attr("in", primitive.in)}${attr("dx", primitive.dx)}${attr("dy", primitive.dy)}${attr("result", primitive.result)} />`;
+    case "flood":
+      return `<feFlood${attr("flood-color", primitive.floodColor)}${attr("flood-opacity", primitive.floodOpacity)}${attr("result", primitive.result)} />`;
+    case "composite":
+      return `<feComposite${attr("in", primitive.in)}${attr("in2", primitive.in2)}${attr("operator", primitive.operator)}${attr("k1", primitive.k1)}${attr("k2", primitive.k2)}${attr("k3", primitive.k3)}${attr("k4", primitive.k4)}${attr("result", primitive.result)} />`;
+    case "merge": {
+      const nodes = primitive.inputs
+        .map((input) => `<feMergeNode${attr("in", input)} />`)
+        .join("");
+      return `<feMerge${attr("result", primitive.result)}>${nodes}</feMerge>`;
+    }
+    case "blend":
+      return `<feBlend${attr("in", primitive.in)}${attr("in2", primitive.in2)}${attr("mode", primitive.mode)}${attr("result", primitive.result)} />`;
   }
 }
 
-function renderDefs(defs: readonly Def[]): string {
+function renderGradientStops(stops: readonly GradientStop[]): string {
+  return stops
+    .map((stop) => {
+      const offset = `${Math.round(stop.offset * 10000) / 100}%`;
+      return `<stop${attr("offset", offset)}${attr("stop-color", stop.color)}${attr("stop-opacity", stop.opacity)} />`;
+    })
+    .join("");
+}
+
+function renderDefs(
+  defs: readonly Def[],
+  textMeasurer: TextMeasurer | undefined,
+): string {
   const inner = defs
     .map((def) => {
       if (def.type === "linearGradient") {
-        const stops = def.stops
-          .map((stop) => {
-            const offset = `${Math.round(stop.offset * 10000) / 100}%`;
-            return `<stop${attr("offset", offset)}${attr("stop-color", stop.color)}${attr("stop-opacity", stop.opacity)} />`;
-          })
-          .join("");
+        const stops = renderGradientStops(def.stops);
         return `<linearGradient${attr("id", def.id)}${attr("x1", def.x1)}${attr("y1", def.y1)}${attr("x2", def.x2)}${attr("y2", def.y2)}>${stops}</linearGradient>`;
       }
 
+      if (def.type === "radialGradient") {
+        const stops = renderGradientStops(def.stops);
+        return `<radialGradient${attr("id", def.id)}${attr("cx", def.cx)}${attr("cy", def.cy)}${attr("r", def.r)}${attr("fx", def.fx)}${attr("fy", def.fy)}${attr("gradientUnits", def.gradientUnits)}>${stops}</radialGradient>`;
+      }
+
       if (def.type === "pattern") {
-        const marks = def.marks.map(renderPatternMark).join("");
+        const marks = def.marks
+          .map((mark) => renderPatternMark(mark, textMeasurer))
+          .join("");
         return `<pattern${attr("id", def.id)}${attr("x", def.x)}${attr("y", def.y)}${attr("width", def.width)}${attr("height", def.height)}${attr("patternUnits", def.patternUnits)}${attr("patternContentUnits", def.patternContentUnits)}${attr("patternTransform", def.patternTransform)}>${marks}</pattern>`;
       }
 
       if (def.type === "mask") {
-        const marks = def.marks.map(renderPatternMark).join("");
+        const marks = def.marks
+          .map((mark) => renderPatternMark(mark, textMeasurer))
+          .join("");
         return `<mask${attr("id", def.id)}${attr("x", def.x)}${attr("y", def.y)}${attr("width", def.width)}${attr("height", def.height)}${attr("maskUnits", def.maskUnits)}${attr("maskContentUnits", def.maskContentUnits)}>${marks}</mask>`;
       }
 
@@ -91,32 +151,75 @@ function renderDefs(defs: readonly Def[]): string {
   return inner ? `<defs>${inner}</defs>` : "";
 }
 
+function blendStyleAttr(mark: Mark): string {
+  const isolate = mark.type === "group" && mark.isolate;
+  if (!mark.blendMode && !isolate) return "";
+  const style = [
+    mark.blendMode ? `mix-blend-mode:${mark.blendMode}` : "",
+    isolate ? "isolation:isolate" : "",
+  ]
+    .filter(Boolean)
+    .join(";");
+  return attr("style", style);
+}
+
 function clipPathAttr(clipPath: string | undefined): string {
   return clipPath ? attr("clip-path", `url(#${clipPath})`) : "";
 }
 
-function renderMark(mark: Mark): string {
+function transformAttr(transform: GroupTransform | undefined): string {
+  if (!transform) return "";
+  const parts: string[] = [];
+  const tx = transform.translateX ?? 0;
+  const ty = transform.translateY ?? 0;
+  if (tx !== 0 || ty !== 0) parts.push(`translate(${tx} ${ty})`);
+  if (transform.rotate) parts.push(`rotate(${transform.rotate})`);
+  const sx = transform.scaleX ?? 1;
+  const sy = transform.scaleY ?? 1;
+  if (sx !== 1 || sy !== 1) parts.push(`scale(${sx} ${sy})`);
+  return parts.length > 0 ? attr("transform", parts.join(" ")) : "";
+}
+
+function renderMark(
+  mark: Mark,
+  textMeasurer: TextMeasurer | undefined,
+): string {
   switch (mark.type) {
+    case "group":
+      return `<g${attr("id", mark.id)}${transformAttr(mark.transform)}${attr("opacity", mark.opacity)}${clipPathAttr(mark.clipPath)}${blendStyleAttr(mark)}${attr("class", mark.className)}>${mark.marks.map((child) => renderMark(child, textMeasurer)).join("")}</g>`;
     case "rect":
-      return `<rect${attr("id", mark.id)}${attr("x", mark.x)}${attr("y", mark.y)}${attr("width", mark.w)}${attr("height", mark.h)}${attr("rx", mark.rx)}${attr("ry", mark.ry)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${clipPathAttr(mark.clipPath)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
+      return `<rect${attr("id", mark.id)}${attr("x", mark.x)}${attr("y", mark.y)}${attr("width", mark.w)}${attr("height", mark.h)}${attr("rx", mark.rx)}${attr("ry", mark.ry)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${clipPathAttr(mark.clipPath)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${blendStyleAttr(mark)}${attr("class", mark.className)} />`;
     case "path":
-      return `<path${attr("id", mark.id)}${attr("d", mark.d)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-linecap", mark.strokeLinecap)}${attr("stroke-linejoin", mark.strokeLinejoin)}${clipPathAttr(mark.clipPath)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
+      return `<path${attr("id", mark.id)}${attr("d", mark.d)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${attr("stroke-linecap", mark.strokeLinecap)}${attr("stroke-linejoin", mark.strokeLinejoin)}${clipPathAttr(mark.clipPath)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${blendStyleAttr(mark)}${attr("class", mark.className)} />`;
     case "text":
-      return `<text${attr("id", mark.id)}${attr("x", mark.x)}${attr("y", mark.y)}${attr("text-anchor", mark.anchor)}${attr("dominant-baseline", mark.baseline)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)}>${escapeXmlText(mark.text)}</text>`;
+      return `<text${attr("id", mark.id)}${attr("x", mark.x)}${attr("y", mark.y)}${attr("text-anchor", mark.anchor)}${attr("dominant-baseline", mark.baseline)}${textStyleAttrs(mark)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${blendStyleAttr(mark)}${attr("class", mark.className)}>${escapeXmlText(fitTextMark(mark, textMeasurer))}</text>`;
     case "circle":
-      return `<circle${attr("id", mark.id)}${attr("cx", mark.cx)}${attr("cy", mark.cy)}${attr("r", mark.r)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${attr("stroke-linecap", mark.strokeLinecap)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
+      return `<circle${attr("id", mark.id)}${attr("cx", mark.cx)}${attr("cy", mark.cy)}${attr("r", mark.r)}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${attr("stroke-linecap", mark.strokeLinecap)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${blendStyleAttr(mark)}${attr("class", mark.className)} />`;
+    case "arc":
+      return `<path${attr("id", mark.id)}${attr("d", arcPathData(mark))}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${clipPathAttr(mark.clipPath)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${blendStyleAttr(mark)}${attr("class", mark.className)} />`;
+    case "polyline":
+      return `<polyline${attr("id", mark.id)}${attr("points", pointsAttr(mark.points))}${attr("opacity", mark.opacity)}${attr("fill", "none")}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${attr("stroke-linecap", mark.strokeLinecap)}${attr("stroke-linejoin", mark.strokeLinejoin)}${clipPathAttr(mark.clipPath)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${blendStyleAttr(mark)}${attr("class", mark.className)} />`;
+    case "area":
+      return `<polygon${attr("id", mark.id)}${attr("points", areaPointsAttr(mark))}${attr("opacity", mark.opacity)}${attr("fill", mark.fill)}${attr("fill-opacity", mark.fillOpacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-linejoin", mark.strokeLinejoin)}${clipPathAttr(mark.clipPath)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${blendStyleAttr(mark)}${attr("class", mark.className)} />`;
     case "line":
-      return `<line${attr("id", mark.id)}${attr("x1", mark.x1)}${attr("y1", mark.y1)}${attr("x2", mark.x2)}${attr("y2", mark.y2)}${attr("opacity", mark.opacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-linecap", mark.strokeLinecap)}${attr("stroke-linejoin", mark.strokeLinejoin)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${attr("class", mark.className)} />`;
+      return `<line${attr("id", mark.id)}${attr("x1", mark.x1)}${attr("y1", mark.y1)}${attr("x2", mark.x2)}${attr("y2", mark.y2)}${attr("opacity", mark.opacity)}${attr("stroke", mark.stroke)}${attr("stroke-opacity", mark.strokeOpacity)}${attr("stroke-width", mark.strokeWidth)}${attr("stroke-dasharray", mark.strokeDasharray)}${attr("stroke-dashoffset", mark.strokeDashoffset)}${attr("stroke-linecap", mark.strokeLinecap)}${attr("stroke-linejoin", mark.strokeLinejoin)}${urlRefAttr("mask", mark.mask)}${urlRefAttr("filter", mark.filter)}${blendStyleAttr(mark)}${attr("class", mark.className)} />`;
   }
 }
 
 export function renderSvgString(
   model: RenderModel,
-  options?: { title?: string },
+  options?: {
+    title?: string;
+    /** Measures `maxWidth` text; defaults to `getDefaultTextMeasurer()`. */
+    textMeasurer?: TextMeasurer;
+  },
 ): string {
   const title = options?.title ?? model.a11y?.label;
-  const defs = model.defs ? renderDefs(model.defs) : "";
-  const marks = model.marks.map(renderMark).join("");
+  const textMeasurer = options?.textMeasurer;
+  const defs = model.defs ? renderDefs(model.defs, textMeasurer) : "";
+  const marks = model.marks
+    .map((mark) => renderMark(mark, textMeasurer))
+    .join("");
   const titleEl = title ? `<title>${escapeXmlText(title)}</title>` : "";
 
   return `<svg xmlns="http://www.w3.org/2000/svg"${attr("width", model.width)}${attr("height", model.height)}${attr("viewBox", `0 0 ${model.width} ${model.height}`)}>${titleEl}${defs}${marks}</svg>`;
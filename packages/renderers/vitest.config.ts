@@ -1,6 +1,12 @@
+import { resolve } from "node:path";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      "@microviz/core": resolve(__dirname, "../core/src/index.ts"),
+    },
+  },
   test: {
     environment: "node",
   },